@@ -0,0 +1,156 @@
+/**
+ * Command-line parsing and binding of arguments to method parameters.
+ */
+import type { MethodDescription, ParamDescription, ParsedArgs } from '../types/cli.ts';
+
+/**
+ * Thrown for a command line the CLI cannot run, e.g. an unknown method.
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * Split argv into positionals and flags.
+ *
+ * `--sort-by name` and `--sort-by=name` set `sortBy`, a flag without a
+ * value (followed by another flag or nothing) is `true`, `--no-recursive`
+ * is `recursive: false`, and everything after `--` is positional. Values
+ * are parsed with `parseValue()`.
+ */
+export function parseArgs(argv: readonly string[], shortFlags: Readonly<Record<string, string>> = {}): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, unknown> = {};
+
+  const set = (name: string, value: unknown): void => {
+    const existing = flags[name];
+    if (existing === undefined) flags[name] = value;
+    else flags[name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    const short = /^-([a-zA-Z])$/.exec(arg)?.[1];
+    if (short !== undefined && shortFlags[short] !== undefined) {
+      const next = argv[i + 1];
+      if (next === undefined || isFlag(next)) set(shortFlags[short]!, true);
+      else set(shortFlags[short]!, parseValue(argv[++i]!));
+      continue;
+    }
+
+    if (!arg.startsWith('--') || arg.length === 2) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf('=');
+    const rawName = arg.slice(2, eq === -1 ? undefined : eq);
+    if (eq !== -1) {
+      set(camelCase(rawName), parseValue(arg.slice(eq + 1)));
+    } else if (rawName.startsWith('no-')) {
+      set(camelCase(rawName.slice(3)), false);
+    } else {
+      const next = argv[i + 1];
+      if (next === undefined || isFlag(next)) set(camelCase(rawName), true);
+      else set(camelCase(rawName), parseValue(argv[++i]!));
+    }
+  }
+  return { positionals, flags };
+}
+
+/**
+ * Parse a command-line value: JSON arrays, objects, numbers, booleans and
+ * null are decoded, anything else stays a string. A declared type of
+ * plain `string` keeps the value as is, so ids like '0042' survive.
+ */
+export function parseValue(raw: string, type?: string): unknown {
+  const types = type?.split('|').map((part) => part.trim()) ?? [];
+  if (types.length === 1 && types[0] === 'string') return raw;
+  if (types.includes('string') && !/^[[{]/.test(raw)) return raw;
+
+  if (/^(?:[[{"]|-?\d+(?:\.\d+)?$|true$|false$|null$)/.test(raw)) {
+    try {
+      return JSON.parse(raw) as unknown;
+    } catch {
+      // Not JSON after all, e.g. '[draft] notes'
+    }
+  }
+  return raw;
+}
+
+/**
+ * Arguments to call a method with.
+ *
+ * Positionals fill the leading parameters in order. A flag named after a
+ * parameter sets that parameter; the other flags form an object for the
+ * first parameter after the positionals, typically `options`.
+ */
+export function bindArguments(
+  method: MethodDescription | undefined,
+  positionals: readonly string[],
+  flags: Readonly<Record<string, unknown>>,
+): unknown[] {
+  if (!method) {
+    const args: unknown[] = positionals.map((value) => parseValue(value));
+    if (Object.keys(flags).length > 0) args.push(flags);
+    return args;
+  }
+
+  const { params } = method;
+  const rest = params.length > 0 && params[params.length - 1]!.name.startsWith('...');
+  if (positionals.length > params.length && !rest) {
+    throw new CliUsageError(`${method.name} takes at most ${params.length} arguments, got ${positionals.length}`);
+  }
+
+  const args: unknown[] = positionals.map((value, i) => parseValue(value, paramAt(params, i)?.type));
+  const options: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(flags)) {
+    const index = params.findIndex((param) => param.name === name);
+    if (index === -1) options[name] = value;
+    else args[index] = value;
+  }
+
+  if (Object.keys(options).length > 0) {
+    // Skip parameters that are set or need a plain value of their own
+    let index = positionals.length;
+    while (index < params.length && (args[index] !== undefined || !acceptsOptions(params[index]!))) index++;
+    if (index >= params.length) {
+      throw new CliUsageError(`${method.name} takes no options; unknown flags ${Object.keys(options).map(flagName).join(', ')}`);
+    }
+    args[index] = options;
+  }
+
+  const missing = params.find((param, i) => !param.optional && !param.name.startsWith('...') && args[i] === undefined);
+  if (missing) throw new CliUsageError(`${method.name} requires <${missing.name}>`);
+  return args;
+}
+
+export function camelCase(name: string): string {
+  return name.replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/** The flag that sets `name`: sortBy → --sort-by. */
+export function flagName(name: string): string {
+  return `--${name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`;
+}
+
+/** Whether an argument is a flag rather than a value; '-5' and '-' are values. */
+function isFlag(arg: string): boolean {
+  return /^--?[a-zA-Z]/.test(arg);
+}
+
+function acceptsOptions(param: ParamDescription): boolean {
+  return param.optional || param.type.startsWith('{') || param.type === 'unknown';
+}
+
+function paramAt(params: readonly ParamDescription[], index: number): ParamDescription | undefined {
+  return params[index] ?? (params[params.length - 1]?.name.startsWith('...') ? params[params.length - 1] : undefined);
+}
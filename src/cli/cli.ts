@@ -0,0 +1,225 @@
+/**
+ * The `synology` command.
+ *
+ * ```
+ * synology [--profile name] [--output json|yaml|table] <module> <method> [args...] [--option value...]
+ * synology filestation getFileList /home --limit 50 -o table
+ * ```
+ *
+ * Every module class is a subcommand (its name in lower case) and every
+ * public method of it a sub-subcommand. Results print as JSON unless
+ * --output says otherwise; downloads and other binary results are
+ * written to stdout as is.
+ */
+import { SynoClient } from '../core/client.ts';
+import { Paginator } from '../core/paginator.ts';
+import { SynoApiError, SynoConnectionError, SynoHttpError } from '../core/errors.ts';
+import type { BinaryResponse } from '../types/client.ts';
+import type { MethodDescription, OutputFormat } from '../types/cli.ts';
+import { CliUsageError, bindArguments, flagName, parseArgs } from './args.ts';
+import { loadModuleCommands, methodSignature } from './modules.ts';
+import type { ModuleCommand } from './modules.ts';
+import { OUTPUT_FORMATS, formatOutput, isSynoResponse } from './output.ts';
+import { configDir, listProfiles, resolveProfile } from './profiles.ts';
+import { startRepl } from './repl.ts';
+
+/** Exit codes besides the ones derived from DSM error codes. */
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_CONNECTION = 3;
+
+const SHORT_FLAGS = { o: 'output', p: 'profile', h: 'help' };
+
+type Env = Readonly<Record<string, string | undefined>>;
+
+/**
+ * Run the CLI with the arguments after the executable and resolve to the
+ * process exit code.
+ */
+export async function runCli(argv: readonly string[], env: Env = process.env): Promise<number> {
+  try {
+    await run(argv, env);
+    return EXIT_OK;
+  } catch (error) {
+    await write(process.stderr, `synology: ${describeError(error)}\n`);
+    return exitCodeFor(error);
+  }
+}
+
+/**
+ * Exit code for an error: 2 for usage errors, 3 for network and HTTP
+ * failures, and for DSM API errors 100 plus the last two digits of the
+ * error code (119 → 119, 408 → 108), so scripts can tell them apart.
+ */
+export function exitCodeFor(error: unknown): number {
+  if (error instanceof CliUsageError) return EXIT_USAGE;
+  if (error instanceof SynoApiError) return 100 + (error.errorCode % 100);
+  if (error instanceof SynoConnectionError || error instanceof SynoHttpError) return EXIT_CONNECTION;
+  return EXIT_FAILURE;
+}
+
+async function run(argv: readonly string[], env: Env): Promise<void> {
+  const { positionals, flags } = parseArgs(argv, SHORT_FLAGS);
+  const { output = 'json', profile, help } = flags;
+  delete flags['output'];
+  delete flags['profile'];
+  delete flags['help'];
+
+  if (!OUTPUT_FORMATS.includes(output as OutputFormat)) {
+    throw new CliUsageError(`--output must be one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  if (profile !== undefined && typeof profile !== 'string') throw new CliUsageError('--profile needs a name');
+
+  const [moduleName, methodName, ...args] = positionals;
+  const commands = await loadModuleCommands();
+
+  if (moduleName === undefined || moduleName === 'help') {
+    return write(process.stdout, usage(commands));
+  }
+  if (moduleName === 'profiles') {
+    return write(process.stdout, `${(await listProfiles(env)).join('\n')}\n`);
+  }
+  if (moduleName === 'repl') {
+    const client = new SynoClient(await resolveProfile(profile, env));
+    await client.connect();
+    return startRepl(client, commands, configDir(env));
+  }
+  if (moduleName === 'diagnose') {
+    const client = new SynoClient(await resolveProfile(profile, env, { requirePassword: false }));
+    const report = await client.diagnose();
+    const steps = report.steps.map(({ step, status, detail, durationMs }) => ({ step, status, detail, durationMs }));
+    await write(process.stdout, `${formatOutput({ ...report, steps }, output as OutputFormat)}\n`);
+    if (!report.ok) throw new Error('Some checks failed');
+    return;
+  }
+  if (moduleName === 'logout') {
+    const client = new SynoClient(await resolveProfile(profile, env));
+    await client.connect();
+    return client.disconnect();
+  }
+
+  const command = commands.get(moduleName.toLowerCase());
+  if (!command) throw new CliUsageError(`Unknown module '${moduleName}'; run 'synology help' for the list`);
+  if (methodName === undefined) return write(process.stdout, moduleUsage(command));
+
+  if (!command.methods.has(methodName)) {
+    throw new CliUsageError(`${command.className} has no method '${methodName}'; run 'synology ${command.name}' for the list`);
+  }
+  const method = command.methods.get(methodName);
+  if (help === true) return write(process.stdout, methodUsage(command, methodName, method));
+
+  const callArgs = bindArguments(method, args, flags);
+  const client = new SynoClient(await resolveProfile(profile, env));
+  await client.connect();
+
+  const instance = command.create(client) as unknown as Record<string, (...args: unknown[]) => unknown>;
+  const result = await collect(await instance[methodName]!(...callArgs));
+  if (isBinaryResponse(result)) return pipeToStdout(result);
+  if (result instanceof ArrayBuffer) return write(process.stdout, new Uint8Array(result));
+
+  const value = isSynoResponse(result) ? result.data : result;
+  if (value !== undefined) await write(process.stdout, `${formatOutput(value, output as OutputFormat)}\n`);
+}
+
+// ─── Help ────────────────────────────────────────────────────────
+
+function usage(commands: ReadonlyMap<string, ModuleCommand>): string {
+  return [
+    'Usage: synology [--profile <name>] [--output json|yaml|table] <module> <method> [args...] [--option value...]',
+    '',
+    'Modules:',
+    ...[...commands.values()].map((command) => `  ${command.name.padEnd(24)}${command.methods.size} methods`),
+    '',
+    'Other commands:',
+    '  repl                    Interactive session with every module loaded',
+    '  diagnose                Check TLS, reachability and login prerequisites of a profile',
+    '  profiles                List the profiles in the config file',
+    '  logout                  End the saved session of a profile',
+    '',
+    "Run 'synology <module>' to list its methods and 'synology <module> <method> --help' for its arguments.",
+    '',
+  ].join('\n');
+}
+
+function moduleUsage(command: ModuleCommand): string {
+  const lines = [...command.methods].map(([name, method]) => {
+    const signature = methodSignature(name, method);
+    return method?.summary ? `  ${signature}\n      ${method.summary}` : `  ${signature}`;
+  });
+  return [`Usage: synology ${command.name} <method> [args...] [--option value...]`, '', 'Methods:', ...lines, ''].join('\n');
+}
+
+function methodUsage(command: ModuleCommand, name: string, method: MethodDescription | undefined): string {
+  if (!method) return `Usage: synology ${command.name} ${name} [args...] [--option value...]\n`;
+
+  const lines = [`Usage: synology ${command.name} ${methodSignature(name, method)}`];
+  if (method.summary) lines.push('', method.summary);
+  if (method.params.length > 0) lines.push('', 'Arguments:');
+  for (const param of method.params) {
+    lines.push(`  ${param.name}: ${objectFields(param.type) ? 'object' : param.type}`);
+    for (const [field, type] of objectFields(param.type) ?? []) lines.push(`      ${flagName(field)} <${type}>`);
+  }
+  lines.push('', 'Flags named after an argument set it; other flags fill the first argument after the positional ones.', '');
+  return lines.join('\n');
+}
+
+/** Fields of an inline object type like `{ limit?: number; offset?: number }`. */
+function objectFields(type: string): Array<[string, string]> | null {
+  const trimmed = type.trim();
+  if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) return null;
+
+  const fields: Array<[string, string]> = [];
+  let depth = 0;
+  let current = '';
+  const inner = `${trimmed.slice(1, -1)};`;
+  for (const [i, char] of [...inner].entries()) {
+    if ('({[<'.includes(char)) depth++;
+    else if (')}]'.includes(char) || (char === '>' && inner[i - 1] !== '=')) depth--;
+    if ((char === ';' || char === ',') && depth === 0) {
+      const match = /^\s*(\w+)\??\s*:\s*([\s\S]+?)\s*$/.exec(current);
+      if (match) fields.push([match[1]!, match[2]!]);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return fields;
+}
+
+// ─── Results ─────────────────────────────────────────────────────
+
+/** Paginators are drained into an array. */
+async function collect(value: unknown): Promise<unknown> {
+  if (!(value instanceof Paginator)) return value;
+  const items: unknown[] = [];
+  for await (const item of value) items.push(item);
+  return items;
+}
+
+function isBinaryResponse(value: unknown): value is BinaryResponse {
+  return typeof value === 'object' && value !== null && (value as { response?: unknown }).response instanceof Response;
+}
+
+async function pipeToStdout(binary: BinaryResponse): Promise<void> {
+  if (!binary.body) return;
+  const reader = binary.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    await write(process.stdout, value);
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof SynoApiError) return `${error.name} ${error.errorCode}: ${error.message}`;
+  if (error instanceof Error) return error.name === 'CliUsageError' ? error.message : `${error.name}: ${error.message}`;
+  return String(error);
+}
+
+/** Write and wait for the stream to drain, so large outputs are not cut off. */
+function write(stream: NodeJS.WritableStream, chunk: string | Uint8Array): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write(chunk, (error) => (error ? reject(error) : resolve()));
+  });
+}
@@ -0,0 +1,7 @@
+#!/usr/bin/env bun
+/**
+ * Executable for the `synology` command; see cli.ts.
+ */
+import { runCli } from './cli.ts';
+
+process.exitCode = await runCli(process.argv.slice(2));
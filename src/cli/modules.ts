@@ -0,0 +1,193 @@
+/**
+ * Discovery of the module classes and public methods the CLI exposes.
+ *
+ * Modules are the BaseModule subclasses exported by the package. Their
+ * public methods and parameters are read from the module sources, since
+ * TypeScript's `private` leaves no trace at runtime; without the sources
+ * every method on the prototype is exposed, undocumented.
+ */
+import { readdir, readFile } from 'node:fs/promises';
+import * as api from '../index.ts';
+import { BaseModule } from '../modules/base-module.ts';
+import type { SynoClient } from '../core/client.ts';
+import type { MethodDescription, ParamDescription } from '../types/cli.ts';
+
+type ModuleConstructor = new (client: SynoClient) => BaseModule;
+
+/**
+ * A module class and the methods the CLI can call on it.
+ */
+export interface ModuleCommand {
+  /** Subcommand name: the class name in lower case, e.g. 'filestation' */
+  readonly name: string;
+  readonly className: string;
+  readonly create: (client: SynoClient) => BaseModule;
+  readonly methods: ReadonlyMap<string, MethodDescription | undefined>;
+}
+
+const MODULES_DIR = new URL('../modules/', import.meta.url);
+
+let cached: Promise<Map<string, ModuleCommand>> | null = null;
+
+/**
+ * Every module command by name; the sources are read once per process.
+ */
+export function loadModuleCommands(): Promise<Map<string, ModuleCommand>> {
+  cached ??= discover();
+  return cached;
+}
+
+async function discover(): Promise<Map<string, ModuleCommand>> {
+  const described = await describeSources();
+  const commands = new Map<string, ModuleCommand>();
+
+  for (const [className, value] of Object.entries(api)) {
+    if (typeof value !== 'function' || !(value.prototype instanceof BaseModule)) continue;
+    const moduleClass = value as unknown as ModuleConstructor;
+    const methods = new Map<string, MethodDescription | undefined>();
+
+    const fromSource = described.get(className);
+    if (fromSource) {
+      for (const method of fromSource) {
+        const member = (moduleClass.prototype as unknown as Record<string, unknown>)[method.name];
+        if (typeof member === 'function') methods.set(method.name, method);
+      }
+    } else {
+      for (const name of prototypeMethods(moduleClass)) methods.set(name, undefined);
+    }
+
+    commands.set(className.toLowerCase(), {
+      name: className.toLowerCase(),
+      className,
+      create: (client) => new moduleClass(client),
+      methods,
+    });
+  }
+  return commands;
+}
+
+/**
+ * A method and its parameters, required ones in angle brackets:
+ * `getFileList <folderPath> [options]`.
+ */
+export function methodSignature(name: string, method: MethodDescription | undefined): string {
+  const params = method?.params.map((param) => (param.optional ? `[${param.name}]` : `<${param.name}>`)) ?? [];
+  return [name, ...params].join(' ');
+}
+
+/** Public methods by class name, from the module sources. */
+async function describeSources(): Promise<Map<string, MethodDescription[]>> {
+  const described = new Map<string, MethodDescription[]>();
+  let files: string[];
+  try {
+    files = (await readdir(MODULES_DIR)).filter((file) => file.endsWith('.ts'));
+  } catch {
+    return described;
+  }
+
+  for (const file of files) {
+    const source = await readFile(new URL(file, MODULES_DIR), 'utf-8');
+    for (const [className, methods] of parseModuleSource(source)) described.set(className, methods);
+  }
+  return described;
+}
+
+/**
+ * Public methods of each exported class in a module source, in order.
+ * Overloads are listed once, with the first signature.
+ */
+export function parseModuleSource(source: string): Map<string, MethodDescription[]> {
+  const classes = new Map<string, MethodDescription[]>();
+  const classPattern = /^export class (\w+)[^{]*\{/gm;
+  const starts = [...source.matchAll(classPattern)];
+
+  for (const [i, match] of starts.entries()) {
+    const body = source.slice(match.index, starts[i + 1]?.index ?? source.length);
+    const methods: MethodDescription[] = [];
+    const seen = new Set<string>();
+
+    // Class members sit at two spaces of indentation
+    const memberPattern = /^ {2}(?:async\s+)?(\w+)\s*(?:<[^(]*>)?\(/gm;
+    for (const member of body.matchAll(memberPattern)) {
+      const name = member[1]!;
+      if (name === 'constructor' || seen.has(name) || isKeyword(name)) continue;
+      seen.add(name);
+      methods.push({
+        name,
+        params: parseParams(body, member.index + member[0].length),
+        summary: docSummary(body, member.index),
+      });
+    }
+    classes.set(match[1]!, methods);
+  }
+  return classes;
+}
+
+/** Parameters of the list that starts at `start`, just past its '('. */
+function parseParams(source: string, start: number): ParamDescription[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = start; i < source.length; i++) {
+    const char = source[i]!;
+    if (char === '(' || char === '{' || char === '[' || char === '<') depth++;
+    else if ((char === '>' && source[i - 1] !== '=') || char === '}' || char === ']') depth--;
+    else if (char === ')') {
+      if (depth === 0) break;
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.map((part) => part.trim()).filter((part) => part !== '').map((part) => {
+    const match = /^((?:\.\.\.)?\w+)(\?)?\s*(?::\s*([\s\S]*?))?\s*(?:=\s*([\s\S]*))?$/.exec(splitDefault(part));
+    const hasDefault = part !== splitDefault(part);
+    return {
+      name: match?.[1] ?? part,
+      type: (match?.[3] ?? 'unknown').replace(/\s+/g, ' '),
+      optional: match?.[2] === '?' || hasDefault,
+    };
+  });
+}
+
+/** A parameter declaration without its default value. */
+function splitDefault(param: string): string {
+  let depth = 0;
+  for (let i = 0; i < param.length; i++) {
+    const char = param[i]!;
+    if (char === '(' || char === '{' || char === '[' || char === '<') depth++;
+    else if ((char === '>' && param[i - 1] !== '=') || char === ')' || char === '}' || char === ']') depth--;
+    else if (char === '=' && depth === 0 && param[i + 1] !== '>') return param.slice(0, i).trim();
+  }
+  return param;
+}
+
+/** First line of the doc comment that ends right before a member. */
+function docSummary(source: string, index: number): string {
+  const end = source.lastIndexOf('*/', index);
+  if (end === -1 || source.slice(end + 2, index).trim() !== '') return '';
+  const start = source.lastIndexOf('/**', end);
+  if (start === -1) return '';
+  const lines = source.slice(start + 3, end).split('\n').map((line) => line.replace(/^\s*\*\s?/, '').trim());
+  return lines.find((line) => line !== '') ?? '';
+}
+
+function isKeyword(name: string): boolean {
+  return ['private', 'protected', 'static', 'readonly', 'get', 'set', 'if', 'for', 'while', 'switch', 'return'].includes(name);
+}
+
+function prototypeMethods(moduleClass: ModuleConstructor): string[] {
+  const names = new Set<string>();
+  for (let proto: object | null = moduleClass.prototype; proto && proto !== BaseModule.prototype; proto = Object.getPrototypeOf(proto)) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      const descriptor = Object.getOwnPropertyDescriptor(proto, name);
+      if (name !== 'constructor' && typeof descriptor?.value === 'function') names.add(name);
+    }
+  }
+  return [...names];
+}
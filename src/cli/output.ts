@@ -0,0 +1,119 @@
+/**
+ * Formatting CLI results as JSON, YAML or a text table.
+ */
+import type { OutputFormat } from '../types/cli.ts';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['json', 'yaml', 'table'];
+
+export function formatOutput(value: unknown, format: OutputFormat): string {
+  switch (format) {
+    case 'yaml': return toYaml(value);
+    case 'table': return toTable(value);
+    default: return JSON.stringify(value, null, 2);
+  }
+}
+
+/** Whether a result is a DSM response envelope, whose `data` is what gets printed. */
+export function isSynoResponse(value: unknown): value is { success: boolean; data?: unknown } {
+  return typeof value === 'object' && value !== null && typeof (value as { success?: unknown }).success === 'boolean';
+}
+
+// ─── YAML ────────────────────────────────────────────────────────
+
+/**
+ * Block-style YAML for JSON-like data. Strings that YAML would read as
+ * something else are quoted.
+ */
+export function toYaml(value: unknown, indent = 0): string {
+  const pad = ' '.repeat(indent);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return value.map((item) => {
+      const nested = isNested(item);
+      const text = toYaml(item, indent + 2);
+      return nested && !Array.isArray(item) ? `${pad}- ${text.trimStart()}` : `${pad}-${nested ? `\n${text}` : ` ${text}`}`;
+    }).join('\n');
+  }
+  if (isRecord(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) return '{}';
+    return entries.map(([key, item]) => {
+      const name = yamlScalar(key);
+      return isNested(item) ? `${pad}${name}:\n${toYaml(item, indent + 2)}` : `${pad}${name}: ${toYaml(item)}`;
+    }).join('\n');
+  }
+  return yamlScalar(value);
+}
+
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value !== 'string') return String(value);
+  const plain = value !== ''
+    && !/^[\s\-?:,[\]{}#&*!|>'"%@`]|[:#]\s|\s$|[\n\t]/.test(value)
+    && !/^(?:true|false|yes|no|on|off|null|~|[-+]?(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?|0x[\da-f]+|\.inf|\.nan)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function isNested(value: unknown): boolean {
+  return (Array.isArray(value) && value.length > 0) || (isRecord(value) && Object.keys(value).length > 0);
+}
+
+// ─── Table ───────────────────────────────────────────────────────
+
+/**
+ * A text table. Lists of objects, or an object holding exactly one such
+ * list (like `{ total, offset, files }`), print one row per item; other
+ * objects print as key/value pairs. Nested objects in rows become dotted
+ * columns (`additional.size`); arrays are inlined as JSON.
+ */
+export function toTable(value: unknown): string {
+  const rows = tableRows(value);
+  if (rows === null) {
+    if (!isRecord(value)) return cell(value);
+    return renderTable(['key', 'value'], Object.entries(value).map(([key, item]) => [key, cell(item)]));
+  }
+  if (rows.length === 0) return '(no rows)';
+
+  const flatRows = rows.map((row) => flatten(row));
+  const columns: string[] = [];
+  for (const row of flatRows) {
+    for (const key of Object.keys(row)) if (!columns.includes(key)) columns.push(key);
+  }
+  return renderTable(columns, flatRows.map((row) => columns.map((column) => cell(row[column]))));
+}
+
+function tableRows(value: unknown): Array<Record<string, unknown>> | null {
+  const isRowList = (item: unknown): item is Array<Record<string, unknown>> =>
+    Array.isArray(item) && item.every(isRecord);
+  if (isRowList(value)) return value;
+  if (!isRecord(value)) return null;
+  const lists = Object.values(value).filter(isRowList);
+  return lists.length === 1 ? lists[0]! : null;
+}
+
+/** Nested objects as dotted keys: `{ a: { b: 1 } }` → `{ 'a.b': 1 }`. */
+function flatten(row: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (isRecord(value)) Object.assign(flat, flatten(value, `${prefix}${key}.`));
+    else flat[`${prefix}${key}`] = value;
+  }
+  return flat;
+}
+
+function renderTable(columns: readonly string[], rows: ReadonlyArray<readonly string[]>): string {
+  const widths = columns.map((column, i) => Math.max(column.length, ...rows.map((row) => row[i]!.length)));
+  const line = (cells: readonly string[]): string =>
+    cells.map((text, i) => text.padEnd(widths[i]!)).join('  ').trimEnd();
+  return [line(columns), line(widths.map((width) => '-'.repeat(width))), ...rows.map(line)].join('\n');
+}
+
+function cell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).replace(/\s+/g, ' ');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,131 @@
+/**
+ * Connection profiles for the CLI.
+ *
+ * Profiles live in `config.json` in the config directory
+ * ($SYNOLOGY_CONFIG_DIR, else $XDG_CONFIG_HOME/synology, else
+ * ~/.config/synology). Passwords come from SYNOLOGY_PASSWORD, the
+ * variable named by the profile's `passwordEnv`, or `keychain.json` next
+ * to the config, in that order. 2FA codes come from SYNOLOGY_OTP, a TOTP
+ * secret (SYNOLOGY_OTP_SECRET or the keychain), or a prompt on a terminal.
+ */
+import { readFile, stat } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline/promises';
+import { FileSessionStore } from '../core/session-store.ts';
+import type { ClientConfig, OtpRequiredContext } from '../types/client.ts';
+import type { CliConfigFile, CliKeychain, CliProfile } from '../types/cli.ts';
+import { CliUsageError } from './args.ts';
+
+type Env = Readonly<Record<string, string | undefined>>;
+
+export function configDir(env: Env): string {
+  if (env['SYNOLOGY_CONFIG_DIR']) return env['SYNOLOGY_CONFIG_DIR'];
+  return join(env['XDG_CONFIG_HOME'] || join(homedir(), '.config'), 'synology');
+}
+
+/**
+ * Client settings for a profile. The profile is `name`, else
+ * SYNOLOGY_PROFILE, else the config's `defaultProfile`. SYNOLOGY_URL and
+ * SYNOLOGY_ACCOUNT override the profile, and work without a config file.
+ * Without `requirePassword`, a missing password is left empty.
+ */
+export async function resolveProfile(
+  name: string | undefined,
+  env: Env,
+  { requirePassword = true }: { readonly requirePassword?: boolean } = {},
+): Promise<ClientConfig> {
+  const dir = configDir(env);
+  const config = await readJson<CliConfigFile>(join(dir, 'config.json')) ?? { profiles: {} };
+  const profileName = name ?? env['SYNOLOGY_PROFILE'] ?? config.defaultProfile ?? 'default';
+
+  const profile: Partial<CliProfile> = config.profiles[profileName] ?? {};
+  if (name !== undefined && !config.profiles[profileName]) {
+    throw new CliUsageError(`No profile '${profileName}' in ${join(dir, 'config.json')}`);
+  }
+
+  const baseUrl = env['SYNOLOGY_URL'] ?? profile.baseUrl;
+  const account = env['SYNOLOGY_ACCOUNT'] ?? profile.account;
+  if ((!baseUrl && !profile.quickConnectId) || !account) {
+    throw new CliUsageError(
+      `Profile '${profileName}' needs a baseUrl or quickConnectId and an account; add them to ${join(dir, 'config.json')} or set SYNOLOGY_URL and SYNOLOGY_ACCOUNT`,
+    );
+  }
+
+  const keychain = await readKeychain(join(dir, 'keychain.json'));
+  const secrets = keychain?.[profileName] ?? {};
+  const password = env['SYNOLOGY_PASSWORD']
+    ?? (profile.passwordEnv ? env[profile.passwordEnv] : undefined)
+    ?? secrets.password;
+  if (password === undefined && requirePassword) {
+    throw new CliUsageError(
+      `No password for profile '${profileName}'; set SYNOLOGY_PASSWORD${profile.passwordEnv ? ` or ${profile.passwordEnv}` : ''}, or add it to ${join(dir, 'keychain.json')}`,
+    );
+  }
+
+  return {
+    baseUrl: baseUrl || undefined,
+    quickConnectId: profile.quickConnectId,
+    account,
+    password: password ?? '',
+    otpCode: env['SYNOLOGY_OTP'] ?? secrets.otpCode,
+    otpSecret: env['SYNOLOGY_OTP_SECRET'] ?? secrets.otpSecret,
+    // Ask for the 2FA code when someone is there to type it
+    onOtpRequired: process.stdin.isTTY ? promptOtp : undefined,
+    trustDevice: profile.trustDevice,
+    dsmVersion: profile.dsmVersion,
+    certVerify: profile.certVerify,
+    tls: profile.tls,
+    sessionTransport: profile.sessionTransport,
+    deviceName: profile.deviceName,
+    // Reuse the login across invocations
+    sessionStore: new FileSessionStore(join(dir, 'sessions.json')),
+  };
+}
+
+/** Profile names in the config file. */
+export async function listProfiles(env: Env): Promise<string[]> {
+  const config = await readJson<CliConfigFile>(join(configDir(env), 'config.json'));
+  return Object.keys(config?.profiles ?? {});
+}
+
+// ─── Utility ─────────────────────────────────────────────────────
+
+async function promptOtp(context: OtpRequiredContext): Promise<string> {
+  const prompt = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const retry = context.errorCode === 404 ? 'Wrong code. ' : '';
+    return (await prompt.question(`${retry}2FA code for ${context.account}: `)).trim();
+  } finally {
+    prompt.close();
+  }
+}
+
+async function readKeychain(path: string): Promise<CliKeychain | null> {
+  let mode: number;
+  try {
+    mode = (await stat(path)).mode;
+  } catch {
+    return null;
+  }
+  // Like ssh with private keys: refuse secrets others can read
+  if (process.platform !== 'win32' && (mode & 0o077) !== 0) {
+    throw new CliUsageError(`${path} is readable by other users; run chmod 600 ${path}`);
+  }
+  return readJson<CliKeychain>(path);
+}
+
+async function readJson<T>(path: string): Promise<T | null> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new CliUsageError(`${path} is not valid JSON: ${(error as Error).message}`);
+  }
+}
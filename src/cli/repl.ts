@@ -0,0 +1,165 @@
+/**
+ * Interactive session for `synology repl`.
+ *
+ * ```
+ * synology> await filestation.getFileList('/home', { limit: 5 })
+ * synology> await request('SYNO.FileStation.List', { method: 'list_share' })
+ * synology> .methods surveillancestation
+ * ```
+ *
+ * The client connects once and every module is preloaded under its
+ * subcommand name. Tab completes module methods after `<module>.`, and API
+ * names from the SYNO.API.Info list inside a quoted string.
+ */
+import type { AsyncCompleter, CompleterResult } from 'node:readline';
+import { start } from 'node:repl';
+import type { REPLServer } from 'node:repl';
+import { join } from 'node:path';
+import { inspect } from 'node:util';
+import { normalizeApiName } from '../core/capabilities.ts';
+import type { SynoClient } from '../core/client.ts';
+import type { RequestOptions } from '../types/client.ts';
+import type { SynoResponse } from '../types/api-info.ts';
+import { methodSignature } from './modules.ts';
+import type { ModuleCommand } from './modules.ts';
+import { isSynoResponse } from './output.ts';
+
+/** Functions that take an API name first, for completion inside their quotes. */
+const API_NAME_CALLS = /\b(?:request|resolveApi|getApiInfo|supports)\(\s*(['"`])([\w.]*)$/;
+
+/**
+ * Start the REPL on a connected client and resolve when the user leaves
+ * it. The session is kept, so the next `synology` call reuses it.
+ *
+ * @param historyDir - Directory for the `repl_history` file
+ */
+export function startRepl(
+  client: SynoClient,
+  commands: ReadonlyMap<string, ModuleCommand>,
+  historyDir: string,
+): Promise<void> {
+  let server: REPLServer;
+  try {
+    server = start({
+      prompt: 'synology> ',
+      useGlobal: false,
+      writer: prettyPrint,
+    });
+  } catch (error) {
+    // Older Bun releases ship node:repl as a stub that throws when started
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`synology repl needs node:repl, which this runtime lacks (${reason}); run it with Node.js or a newer Bun`);
+  }
+
+  Object.assign(server.context, { client, request: rawRequest(client) });
+  for (const command of commands.values()) server.context[command.name] = command.create(client);
+
+  // Readline looks the completer up on every Tab; Node's own handles the rest
+  const fallback = server.completer.bind(server);
+  (server as { completer: AsyncCompleter }).completer = (line, callback) => {
+    const completion = complete(line, client, commands);
+    if (completion) callback(null, completion);
+    else fallback(line, callback);
+  };
+
+  defineCommands(server, client, commands);
+  server.setupHistory(join(historyDir, 'repl_history'), () => {});
+
+  return new Promise((resolve) => server.once('exit', resolve));
+}
+
+/**
+ * `request(apiName, params, options?)`: a raw `client.request()` with the
+ * path looked up in SYNO.API.Info and, unless given, the newest version.
+ */
+function rawRequest(
+  client: SynoClient,
+): (apiName: string, params?: Record<string, unknown>, options?: RequestOptions) => Promise<SynoResponse> {
+  return (apiName, params = {}, options) => {
+    const api = client.resolveApi(apiName);
+    return client.request(normalizeApiName(apiName), api.path, { version: api.version, ...params }, options);
+  };
+}
+
+// ─── Completion ──────────────────────────────────────────────────
+
+/**
+ * Completions for the line up to the cursor, or null to fall back to
+ * Node's completion of variables and properties.
+ */
+function complete(
+  line: string,
+  client: SynoClient,
+  commands: ReadonlyMap<string, ModuleCommand>,
+): CompleterResult | null {
+  const quoted = /(['"`])([\w.]*)$/.exec(line);
+  if (quoted && (API_NAME_CALLS.test(line) || quoted[2]!.startsWith('SYNO.'))) {
+    const partial = quoted[2]!;
+    const prefix = partial.startsWith('SYNO.') || partial === '' ? '' : 'SYNO.';
+    const names = client.getApiNames().filter((name) => name.startsWith(prefix + partial));
+    return [names.map((name) => name.slice(prefix.length)), partial];
+  }
+
+  const member = /\b(\w+)\.(\w*)$/.exec(line);
+  const command = member && commands.get(member[1]!);
+  if (member && command) {
+    const partial = member[2]!;
+    return [[...command.methods.keys()].filter((name) => name.startsWith(partial)), partial];
+  }
+
+  const methodsCommand = /^\s*\.methods\s+(\w*)$/.exec(line);
+  if (methodsCommand) {
+    const partial = methodsCommand[1]!;
+    return [[...commands.keys()].filter((name) => name.startsWith(partial)), partial];
+  }
+  return null;
+}
+
+// ─── Commands ────────────────────────────────────────────────────
+
+function defineCommands(server: REPLServer, client: SynoClient, commands: ReadonlyMap<string, ModuleCommand>): void {
+  const print = (lines: readonly string[]): void => {
+    server.output.write(`${lines.join('\n')}\n`);
+    server.displayPrompt();
+  };
+
+  server.defineCommand('modules', {
+    help: 'List the preloaded modules',
+    action: () => print([...commands.values()].map((command) => `${command.name.padEnd(28)}${command.methods.size} methods`)),
+  });
+
+  server.defineCommand('methods', {
+    help: 'List the methods of a module: .methods <module>',
+    action: (name) => {
+      const command = commands.get(name.trim().toLowerCase());
+      if (!command) return print([`Unknown module '${name.trim()}'; .modules lists them`]);
+      print([...command.methods].map(([method, description]) => {
+        const signature = `  ${methodSignature(method, description)}`;
+        return description?.summary ? `${signature}\n      ${description.summary}` : signature;
+      }));
+    },
+  });
+
+  server.defineCommand('apis', {
+    help: 'List API names from SYNO.API.Info, optionally containing some text: .apis [text]',
+    action: (text) => {
+      const filter = text.trim().toLowerCase();
+      print(client.getApiNames().filter((name) => name.toLowerCase().includes(filter)).map((name) => {
+        const info = client.getApiInfo(name)!;
+        return `${name.padEnd(48)}${info.path.padEnd(24)}v${info.minVersion}-${info.maxVersion}`;
+      }));
+    },
+  });
+}
+
+// ─── Utility ─────────────────────────────────────────────────────
+
+/** Responses print as their `data`, everything else as Node shows it. */
+function prettyPrint(value: unknown): string {
+  return inspect(isSynoResponse(value) ? value.data : value, {
+    depth: 8,
+    colors: process.stdout.isTTY === true,
+    maxArrayLength: 200,
+    breakLength: 100,
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * BackgroundTask - a handle over DSM's start / status / stop task pattern.
+ *
+ * Many APIs (FileStation CopyMove, Delete, Extract, Compress, Search,
+ * DirSize, MD5) start a job, return a task id, and expect the caller to
+ * poll a status method until it reports `finished`. BackgroundTask does
+ * the polling with backoff, reports progress and supports cancellation.
+ * It is awaitable: `await task` is the same as `await task.wait()`.
+ */
+import { SynoTaskCancelledError, SynoTaskTimeoutError } from './errors.ts';
+
+/**
+ * Polling behaviour of a BackgroundTask.
+ */
+export interface BackgroundTaskOptions {
+  /** Delay before the second status poll, defaults to 500 ms */
+  readonly pollIntervalMs?: number;
+  /** Upper bound for the poll delay, defaults to 5000 ms */
+  readonly maxPollIntervalMs?: number;
+  /** Multiplier applied to the delay after each poll, defaults to 1.5 */
+  readonly backoffFactor?: number;
+  /** Stop the task and reject with SynoTaskTimeoutError after this long */
+  readonly timeoutMs?: number;
+  /** Cancels the task when aborted */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Progress snapshot passed to 'progress' listeners after each poll.
+ */
+export interface TaskProgress<S> {
+  readonly taskId: string;
+  /** Completion ratio in [0, 1], or null when the API does not report it */
+  readonly progress: number | null;
+  readonly status: S;
+}
+
+/**
+ * The API calls a BackgroundTask is built from.
+ */
+export interface BackgroundTaskHandlers<S, T> {
+  /** Start the job and return its task id */
+  start(): Promise<string>;
+  /** Fetch the current status */
+  status(taskId: string): Promise<S>;
+  isFinished(status: S): boolean;
+  /** Turn the final status into the task result */
+  result(status: S, taskId: string): T | Promise<T>;
+  /** Stop the job on the NAS; used by cancel() and on timeout */
+  stop?(taskId: string): Promise<unknown>;
+  /** Extract a completion ratio from a status */
+  progress?(status: S): number | null;
+}
+
+type ProgressHandler<S> = (progress: TaskProgress<S>) => void;
+
+export class BackgroundTask<T, S = unknown> implements PromiseLike<T> {
+  private readonly handlers: BackgroundTaskHandlers<S, T>;
+  private readonly options: BackgroundTaskOptions;
+  private readonly taskIdPromise: Promise<string>;
+  private readonly resultPromise: Promise<T>;
+  private readonly progressHandlers: Set<ProgressHandler<S>> = new Set();
+  private readonly cancelController = new AbortController();
+  private startedTaskId: string | null = null;
+
+  constructor(handlers: BackgroundTaskHandlers<S, T>, options: BackgroundTaskOptions = {}) {
+    this.handlers = handlers;
+    this.options = options;
+
+    this.taskIdPromise = handlers.start().then((taskId) => {
+      this.startedTaskId = taskId;
+      return taskId;
+    });
+    this.resultPromise = this.run();
+    // Errors surface through wait(); avoid unhandled rejections for fire-and-forget use
+    this.resultPromise.catch(() => {});
+
+    // Nobody awaits a cancel from the signal, so a failed stop is dropped
+    // like on timeout; wait() still rejects with SynoTaskCancelledError
+    if (options.signal?.aborted) {
+      this.cancel().catch(() => {});
+    } else {
+      options.signal?.addEventListener('abort', () => {
+        this.cancel().catch(() => {});
+      }, { once: true });
+    }
+  }
+
+  /** Task id assigned by DSM, or null until the start call has returned. */
+  get taskId(): string | null {
+    return this.startedTaskId;
+  }
+
+  on(event: 'progress', handler: ProgressHandler<S>): this {
+    this.progressHandlers.add(handler);
+    return this;
+  }
+
+  off(event: 'progress', handler: ProgressHandler<S>): this {
+    this.progressHandlers.delete(handler);
+    return this;
+  }
+
+  /**
+   * Wait for the task to finish and return its result.
+   * Rejects with the API error, SynoTaskTimeoutError or SynoTaskCancelledError.
+   */
+  wait(): Promise<T> {
+    return this.resultPromise;
+  }
+
+  then<R1 = T, R2 = never>(
+    onFulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+    onRejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+  ): Promise<R1 | R2> {
+    return this.resultPromise.then(onFulfilled, onRejected);
+  }
+
+  /**
+   * Stop the task on the NAS. Pending wait() calls reject with
+   * SynoTaskCancelledError.
+   */
+  async cancel(): Promise<void> {
+    if (this.cancelController.signal.aborted) return;
+    this.cancelController.abort();
+
+    let taskId: string;
+    try {
+      taskId = await this.taskIdPromise;
+    } catch {
+      return;
+    }
+    await this.handlers.stop?.(taskId);
+  }
+
+  // ─── Internal ──────────────────────────────────────────────────
+
+  private async run(): Promise<T> {
+    const taskId = await this.taskIdPromise;
+    const backoffFactor = this.options.backoffFactor ?? 1.5;
+    const maxInterval = this.options.maxPollIntervalMs ?? 5000;
+    const timeoutMs = this.options.timeoutMs;
+    const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : Infinity;
+    let interval = this.options.pollIntervalMs ?? 500;
+
+    for (;;) {
+      this.throwIfCancelled();
+      const status = await this.handlers.status(taskId);
+      this.throwIfCancelled();
+
+      const snapshot: TaskProgress<S> = {
+        taskId,
+        progress: this.handlers.progress?.(status) ?? null,
+        status,
+      };
+      for (const handler of this.progressHandlers) {
+        handler(snapshot);
+      }
+
+      if (this.handlers.isFinished(status)) {
+        return this.handlers.result(status, taskId);
+      }
+
+      if (Date.now() + interval > deadline) {
+        await this.handlers.stop?.(taskId).catch(() => {});
+        throw new SynoTaskTimeoutError(taskId, timeoutMs!);
+      }
+
+      await this.delay(interval);
+      interval = Math.min(interval * backoffFactor, maxInterval);
+    }
+  }
+
+  private throwIfCancelled(): void {
+    if (this.cancelController.signal.aborted) {
+      throw new SynoTaskCancelledError(this.startedTaskId);
+    }
+  }
+
+  /** Sleep that ends early when the task is cancelled. */
+  private delay(ms: number): Promise<void> {
+    const signal = this.cancelController.signal;
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      function done(): void {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      }
+      signal.addEventListener('abort', done, { once: true });
+    });
+  }
+}
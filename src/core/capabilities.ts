@@ -0,0 +1,25 @@
+/**
+ * Version negotiation against the NAS's SYNO.API.Info list.
+ *
+ * Module methods declare the API versions they were written for; the
+ * client intersects that range with what the NAS offers and picks one.
+ */
+import type { ApiInfo, VersionRange } from '../types/api-info.ts';
+
+/**
+ * Pick the version to call an API with, or null when the method's range
+ * and the NAS's range do not overlap.
+ */
+export function selectVersion(info: ApiInfo, versions: VersionRange = {}): number | null {
+  const low = Math.max(info.minVersion, versions.min ?? info.minVersion);
+  const high = Math.min(info.maxVersion, versions.max ?? info.maxVersion);
+  if (low > high) return null;
+  return versions.prefer === 'lowest' ? low : high;
+}
+
+/**
+ * Accept API names with or without the 'SYNO.' prefix, e.g. 'FileStation.Sharing'.
+ */
+export function normalizeApiName(apiName: string): string {
+  return apiName.startsWith('SYNO.') ? apiName : `SYNO.${apiName}`;
+}
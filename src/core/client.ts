@@ -2,6 +2,7 @@
  * SynoClient - manages session, HTTP, and events for Synology DSM API.
  * Ported from Python auth.py Authentication class.
  */
+import { AsyncLocalStorage } from 'node:async_hooks';
 import ky from 'ky';
 import type { KyInstance, Options as KyOptions } from 'ky';
 import type {
@@ -9,22 +10,63 @@ import type {
   ClientEvent,
   BeforeRequestContext,
   AfterResponseContext,
+  ReauthenticateContext,
+  OtpRequiredContext,
+  DiagnosticReport,
+  DiagnosticStep,
+  RetryContext,
+  CallOptions,
+  QueueMetricsContext,
   RequestOptions,
+  ApiCallOptions,
   CompoundEntry,
   BatchOptions,
+  SessionData,
+  BinaryResponse,
+  UploadFilePart,
+  UploadRequestOptions,
+  UploadProgressContext,
 } from '../types/client.ts';
-import type { ApiInfo, ApiListMap, SynoResponse } from '../types/api-info.ts';
-import { CODE_SUCCESS } from './error-codes.ts';
+import type {
+  ApiInfo,
+  ApiListMap,
+  MethodCapability,
+  ModuleCapabilities,
+  ResolvedApi,
+  SynoResponse,
+  VersionRange,
+} from '../types/api-info.ts';
+import type { BaseModule } from '../modules/base-module.ts';
+import type { QuickConnectEndpoint, QuickConnectResolveContext } from '../types/quickconnect.ts';
+import { CODE_SUCCESS, SESSION_EXPIRED_CODES } from './error-codes.ts';
+import { generateTotp } from './otp.ts';
+import { probeTls, runStep, skippedStep } from './diagnostics.ts';
+import { createTlsFetch, matchesPin, resolveTls } from './tls.ts';
+import { QuickConnectDirectoryResolver } from './quickconnect.ts';
+import { CookieJar } from './cookie-jar.ts';
+import type { ResolvedTls } from './tls.ts';
 import {
   SynoConnectionError,
   SynoHttpError,
   SynoJsonDecodeError,
+  SynoSchemaError,
+  SynoAbortError,
+  SynoUnsupportedApiError,
   LoginError,
   LogoutError,
+  OtpInvalidError,
+  OtpRequiredError,
+  createLoginError,
   dispatchApiError,
   getErrorMessage,
 } from './errors.ts';
-import { normalizeBooleans } from './utils.ts';
+import { normalizeBooleans, buildMultipartStream, generateGeckoBoundary } from './utils.ts';
+import { validateSchema } from './schema.ts';
+import { isReadOnlyMethod, isRetryableError, resolveRetryPolicy, retryDelay, sleep } from './retry.ts';
+import { RequestScheduler } from './scheduler.ts';
+import { CompoundBuilder } from './compound.ts';
+import { normalizeApiName, selectVersion } from './capabilities.ts';
+import type { CapturedRequest, CaptureResult } from './compound.ts';
 import { encryptParams } from './encryption/param-encryptor.ts';
 import type { EncryptionInfo } from './encryption/param-encryptor.ts';
 import {
@@ -35,52 +77,95 @@ import {
 
 type EventHandler = (...args: unknown[]) => void;
 
+// Name trusted devices show under in DSM's 2FA settings unless configured
+const DEFAULT_DEVICE_NAME = 'synology-api-js';
+
+// DSM's error envelope is a few dozen bytes; JSON bodies past this are the file itself
+const MAX_ENVELOPE_BYTES = 4096;
+
+// Rejection used to stop a module method once its request has been captured.
+const CAPTURED = Symbol('captured');
+
+/**
+ * State of a module method running in capture mode. Compound capture
+ * records the requests; a capability probe stops at the API lookup.
+ */
+interface CaptureScope {
+  readonly probe: boolean;
+  readonly requests: CapturedRequest[];
+  readonly apis: Array<{ apiName: string; versions: VersionRange | null }>;
+  /** What a captured JSON request answers with, so the method can run on */
+  readonly placeholder: SynoResponse;
+}
+
 export class SynoClient {
   readonly config: ClientConfig;
 
   private kyInstance: KyInstance;
   private sid: string | null = null;
   private synoToken: string | null = null;
+  private deviceToken: string | null = null;
   private connected = false;
+  private reauthPromise: Promise<void> | null = null;
   private fullApiList: ApiListMap = {};
   private appApiLists: Map<string, ApiListMap> = new Map();
   private eventHandlers: Map<ClientEvent, Set<EventHandler>> = new Map();
-  private baseUrl: string;
+  private baseUrl = '';
+  private readonly kyOptions: KyOptions;
+  private readonly tls: ResolvedTls;
+  private readonly fetch: QuickConnectResolveContext['fetch'];
+  private quickConnect: QuickConnectEndpoint | null = null;
+  // Set when the session travels in the 'id' cookie instead of '_sid'
+  private readonly cookies: CookieJar | null;
+  private readonly scheduler: RequestScheduler | null;
+  // Set while CompoundBuilder runs a module method to record its requests
+  private readonly captureScope = new AsyncLocalStorage<CaptureScope>();
 
   constructor(config: ClientConfig) {
     this.config = config;
-
-    // Normalize baseUrl to end with /webapi/
-    let base = config.baseUrl.replace(/\/+$/, '');
-    if (!base.endsWith('/webapi')) {
-      base += '/webapi/';
-    } else {
-      base += '/';
+    if (config.baseUrl === undefined && config.quickConnectId === undefined) {
+      throw new Error('ClientConfig needs a baseUrl or a quickConnectId');
     }
-    this.baseUrl = base;
 
     // Create ky instance with default options
     const kyOptions: KyOptions = {
-      prefixUrl: this.baseUrl,
       timeout: 30_000,
       retry: 0,
     };
 
-    // Disable SSL verification when certVerify is false (default)
-    if (config.certVerify !== true) {
-      if (typeof globalThis.Bun !== 'undefined') {
-        // Bun: custom fetch with tls option
-        kyOptions.fetch = (input, init) => globalThis.fetch(input, {
-          ...init,
-          tls: { rejectUnauthorized: false },
-        });
-      } else {
-        // Node.js: environment variable
-        process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
-      }
+    // Custom CA, pinning or no verification (the default), for this client only
+    this.tls = resolveTls(config.certVerify, config.tls);
+    const tlsFetch = createTlsFetch(this.tls);
+    if (tlsFetch) {
+      kyOptions.fetch = tlsFetch;
+    }
+    this.fetch = tlsFetch ?? globalThis.fetch;
+
+    this.cookies = config.sessionTransport === 'cookie' ? new CookieJar() : null;
+    if (this.cookies) {
+      const cookies = this.cookies;
+      kyOptions.hooks = {
+        beforeRequest: [(request) => {
+          // The 'id' cookie follows the current SID, e.g. after a resume or re-login
+          if (this.sid === null) cookies.delete('id');
+          else cookies.set('id', this.sid);
+          const header = cookies.header();
+          if (header) request.headers.set('Cookie', header);
+        }],
+        afterResponse: [(_request, _options, response) => {
+          cookies.capture(response);
+        }],
+      };
     }
+    this.kyOptions = kyOptions;
 
-    this.kyInstance = ky.create(kyOptions);
+    // With a QuickConnect ID, the base URL is set by connect()
+    this.baseUrl = config.baseUrl === undefined ? '' : normalizeBaseUrl(config.baseUrl);
+    this.kyInstance = ky.create({ ...kyOptions, prefixUrl: this.baseUrl });
+
+    this.scheduler = config.scheduler
+      ? new RequestScheduler(config.scheduler, (metrics) => this.emit('queue', metrics))
+      : null;
   }
 
   // ─── Event system ──────────────────────────────────────────────
@@ -111,8 +196,12 @@ export class SynoClient {
    * Connect to the NAS: login and retrieve API lists.
    */
   async connect(): Promise<void> {
-    await this.login();
-    await this.getApiList();
+    await this.resolveQuickConnect();
+    if (!(await this.resumeSession())) {
+      await this.login();
+      await this.getApiList();
+      await this.saveSession();
+    }
     this.connected = true;
     this.emit('connect');
   }
@@ -121,7 +210,11 @@ export class SynoClient {
    * Disconnect from the NAS: logout.
    */
   async disconnect(): Promise<void> {
-    await this.logout();
+    try {
+      await this.logout();
+    } finally {
+      await this.config.sessionStore?.clear(this.sessionKey);
+    }
     this.connected = false;
     this.emit('disconnect');
   }
@@ -134,11 +227,47 @@ export class SynoClient {
     return this.sid;
   }
 
+  /** Where the QuickConnect ID led on the last connect(); null without one. */
+  get quickConnectEndpoint(): QuickConnectEndpoint | null {
+    return this.quickConnect;
+  }
+
+  /** Queue length and in-flight count per scheduler bucket; empty without a scheduler. */
+  queueMetrics(): Array<{ bucket: string; queued: number; inFlight: number }> {
+    return this.scheduler?.metrics() ?? [];
+  }
+
   // ─── Login / Logout ────────────────────────────────────────────
 
+  /**
+   * Log in, with the configured OTP code or one generated from `otpSecret`.
+   * When DSM asks for a code or rejects it, `onOtpRequired` gets one chance
+   * to supply another.
+   */
   private async login(): Promise<void> {
     if (this.sid !== null) return;
 
+    if (this.deviceToken === null && this.config.sessionStore?.loadDeviceToken) {
+      this.deviceToken = await this.config.sessionStore.loadDeviceToken(this.sessionKey);
+    }
+
+    const { otpCode, otpSecret, onOtpRequired } = this.config;
+    try {
+      await this.loginWith(otpCode || (otpSecret ? generateTotp(otpSecret) : undefined));
+    } catch (error) {
+      // 406 means 2FA is enforced but not set up, which no code fixes
+      const needsCode = error instanceof OtpInvalidError || (error instanceof OtpRequiredError && !error.enforced);
+      if (!onOtpRequired || !needsCode) {
+        throw error;
+      }
+      await this.loginWith(await onOtpRequired({
+        account: this.config.account,
+        errorCode: error.errorCode,
+      } satisfies OtpRequiredContext));
+    }
+  }
+
+  private async loginWith(otpCode: string | undefined): Promise<void> {
     const version = this.config.dsmVersion ?? 7;
     const params: Record<string, string | number> = {
       api: 'SYNO.API.Auth',
@@ -157,9 +286,9 @@ export class SynoClient {
     // Credentials to encrypt
     const credentialParams: Record<string, string | number> = {
       account: this.config.account,
-      enable_device_token: 'no',
+      enable_device_token: this.config.trustDevice ? 'yes' : 'no',
       logintype: 'local',
-      otp_code: '',
+      otp_code: otpCode ?? '',
       rememberme: 0,
       passwd: this.config.password,
       session: 'webui',
@@ -167,7 +296,7 @@ export class SynoClient {
     };
 
     // On HTTPS, send credentials directly; on HTTP, encrypt them
-    if (this.config.baseUrl.startsWith('https')) {
+    if (this.baseUrl.startsWith('https')) {
       Object.assign(params, credentialParams);
     } else {
       const encInfo = await this.getEncryptionInfo();
@@ -175,26 +304,120 @@ export class SynoClient {
       Object.assign(params, encrypted);
     }
 
-    if (this.config.otpCode) {
-      params['otp_code'] = this.config.otpCode;
+    if (otpCode) {
+      params['otp_code'] = otpCode;
+    }
+    // A trusted device token lets DSM skip 2FA
+    const deviceId = this.deviceToken ?? this.config.deviceId;
+    if (deviceId !== undefined) {
+      params['device_id'] = deviceId;
     }
-    if (this.config.deviceId !== undefined && this.config.deviceName !== undefined) {
-      params['device_id'] = this.config.deviceId;
-      params['device_name'] = this.config.deviceName;
+    if (deviceId !== undefined || this.config.trustDevice) {
+      params['device_name'] = this.config.deviceName ?? DEFAULT_DEVICE_NAME;
     }
 
-    const response = await this.rawPost<SynoResponse<{ sid: string; synotoken: string }>>(
+    const response = await this.rawPost<SynoResponse<{ sid: string; synotoken: string; did?: string }>>(
       'auth.cgi',
       params,
     );
 
     const errorCode = getErrorCode(response);
     if (errorCode !== CODE_SUCCESS) {
-      throw new LoginError(errorCode);
+      throw createLoginError(errorCode, getErrorDetails(response));
     }
 
     this.sid = response.data!.sid;
     this.synoToken = response.data!.synotoken;
+
+    const did = response.data!.did ?? this.cookies?.get('did');
+    if (did && did !== this.deviceToken) {
+      this.deviceToken = did;
+      await this.config.sessionStore?.saveDeviceToken?.(this.sessionKey, did);
+    }
+  }
+
+  /**
+   * Discard an expired session and log in again.
+   * Concurrent callers that hit the same stale SID share a single login.
+   */
+  private async reauthenticate(
+    apiName: string,
+    errorCode: number,
+    staleSid: string,
+  ): Promise<void> {
+    if (this.reauthPromise === null && this.sid === staleSid) {
+      this.reauthPromise = (async () => {
+        this.sid = null;
+        this.synoToken = null;
+        await this.login();
+        await this.saveSession();
+        this.emit('reauthenticate', {
+          apiName,
+          errorCode,
+        } satisfies ReauthenticateContext);
+      })().finally(() => {
+        this.reauthPromise = null;
+      });
+    }
+    if (this.reauthPromise !== null) {
+      await this.reauthPromise;
+    }
+  }
+
+  /**
+   * Run a request and, if DSM reports the session as expired, log in
+   * again and replay it once. `send` must read the current SID on each call.
+   */
+  private async withReauth<T>(
+    apiName: string,
+    send: () => Promise<SynoResponse<T>>,
+  ): Promise<SynoResponse<T>> {
+    const sidUsed = this.sid;
+    const response = await send();
+
+    if (this.config.autoReauthenticate === false || sidUsed === null) {
+      return response;
+    }
+    const errorCode = getSessionErrorCode(response);
+    if (errorCode === null) {
+      return response;
+    }
+
+    await this.reauthenticate(apiName, errorCode, sidUsed);
+    return send();
+  }
+
+  /**
+   * Run `send` under the retry policy, emitting 'retry' before each new attempt.
+   * Without an applicable policy the call is made once.
+   */
+  private async withRetry<T>(
+    apiName: string,
+    method: string,
+    readOnly: boolean,
+    options: CallOptions | undefined,
+    send: () => Promise<T>,
+  ): Promise<T> {
+    const policy = resolveRetryPolicy(this.config.retry, options?.retry, readOnly);
+    if (!policy) return send();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await send();
+      } catch (error) {
+        if (attempt >= policy.maxAttempts || !isRetryableError(error, policy)) throw error;
+
+        const delayMs = retryDelay(attempt, policy);
+        this.emit('retry', {
+          apiName,
+          method,
+          attempt,
+          delayMs,
+          error,
+        } satisfies RetryContext);
+        await sleep(apiName, delayMs, options?.signal);
+      }
+    }
   }
 
   private async logout(): Promise<void> {
@@ -218,6 +441,81 @@ export class SynoClient {
     }
   }
 
+  // ─── QuickConnect ──────────────────────────────────────────────
+
+  /**
+   * Look up the QuickConnect ID, when there is no baseUrl, and point the
+   * client at the address that answered. Runs on every connect(), so a
+   * client that moved, e.g. off the LAN, picks the new path.
+   */
+  private async resolveQuickConnect(): Promise<void> {
+    const { baseUrl, quickConnectId, quickConnectResolver } = this.config;
+    if (baseUrl !== undefined || quickConnectId === undefined) return;
+
+    const resolver = quickConnectResolver ?? new QuickConnectDirectoryResolver();
+    this.quickConnect = await resolver.resolve(quickConnectId, { fetch: this.fetch });
+    this.baseUrl = normalizeBaseUrl(this.quickConnect.url);
+    this.kyInstance = ky.create({ ...this.kyOptions, prefixUrl: this.baseUrl });
+  }
+
+  // ─── Session persistence ───────────────────────────────────────
+
+  private get sessionKey(): string {
+    // A session works over every path QuickConnect may pick
+    const { baseUrl, quickConnectId } = this.config;
+    return `${this.config.account}@${baseUrl === undefined ? `quickconnect:${quickConnectId}` : this.baseUrl}`;
+  }
+
+  /**
+   * Restore a saved session from the configured store.
+   * The SID is validated with a cheap authenticated call; a stale session
+   * is discarded so connect() falls back to a real login.
+   */
+  private async resumeSession(): Promise<boolean> {
+    const store = this.config.sessionStore;
+    if (!store) return false;
+
+    const saved = await store.load(this.sessionKey);
+    if (!saved) return false;
+
+    this.sid = saved.sid;
+    this.synoToken = saved.synoToken;
+    this.deviceToken = saved.deviceToken;
+    this.fullApiList = saved.apiList;
+
+    let valid: boolean;
+    try {
+      const response = await this.requestInternal(
+        'SYNO.Core.Desktop.Timeout',
+        'entry.cgi',
+        { version: 1, method: 'check' },
+      );
+      valid = !SESSION_EXPIRED_CODES.includes(getErrorCode(response));
+    } catch {
+      valid = false;
+    }
+
+    if (!valid) {
+      this.sid = null;
+      this.synoToken = null;
+      await store.clear(this.sessionKey);
+    }
+    return valid;
+  }
+
+  private async saveSession(): Promise<void> {
+    const store = this.config.sessionStore;
+    if (!store || this.sid === null) return;
+
+    await store.save(this.sessionKey, {
+      sid: this.sid,
+      synoToken: this.synoToken,
+      deviceToken: this.deviceToken,
+      apiList: this.fullApiList,
+      savedAt: Date.now(),
+    } satisfies SessionData);
+  }
+
   // ─── API list ──────────────────────────────────────────────────
 
   private async getApiList(app?: string): Promise<void> {
@@ -262,6 +560,8 @@ export class SynoClient {
       body: new URLSearchParams(
         Object.entries(data).map(([k, v]): [string, string] => [k, String(v)]),
       ),
+    }).catch((error: unknown) => {
+      throw error instanceof TypeError ? toConnectionError(error) : error;
     });
 
     if (!response.ok) {
@@ -300,6 +600,107 @@ export class SynoClient {
     return response.data!;
   }
 
+  // ─── Diagnostics ───────────────────────────────────────────────
+
+  /**
+   * Check step by step what a login depends on, without logging in: the
+   * QuickConnect lookup, the TLS certificate, whether the NAS answers
+   * HTTP, the SYNO.API.Info query, the Noise IK handshake (DSM 7) and how
+   * credentials would be sent. Failures are reported, not thrown; steps
+   * that need an answering NAS are skipped when it does not answer.
+   *
+   * @param timeoutMs - Timeout of each network step, defaults to 10000
+   */
+  async diagnose(timeoutMs = 10_000): Promise<DiagnosticReport> {
+    const steps: DiagnosticStep[] = [];
+
+    const quickConnect = this.config.baseUrl === undefined
+      ? await runStep('quickConnect', async () => {
+        await this.resolveQuickConnect();
+        const { id, kind, url } = this.quickConnect!;
+        return { detail: `${id} answered over ${kind} at ${url}` };
+      })
+      : skippedStep('quickConnect', 'baseUrl is set');
+    steps.push(quickConnect);
+    if (quickConnect.status === 'failed') {
+      for (const step of ['tls', 'reachability', 'apiInfo', 'noise', 'credentialTransport'] as const) {
+        steps.push(skippedStep(step, 'No address of the QuickConnect ID answered'));
+      }
+      return { ok: false, baseUrl: this.baseUrl, steps };
+    }
+
+    const url = new URL(this.baseUrl);
+    const https = url.protocol === 'https:';
+
+    steps.push(https
+      ? await runStep('tls', async () => {
+        const tls = await probeTls(url, timeoutMs, this.tls.ca);
+        const protocol = tls.protocol ?? 'TLS';
+        const certificate = `${tls.subject ?? 'no subject'} issued by ${tls.issuer ?? 'unknown'}, valid to ${tls.validTo ?? 'unknown'}, SHA-256 ${tls.fingerprint256 ?? 'unknown'}`;
+        if (this.tls.pins.length > 0) {
+          return matchesPin(tls.fingerprint256 ?? '', this.tls.pins)
+            ? { detail: `${protocol}, certificate matches the pinned fingerprint: ${certificate}` }
+            : { detail: `${protocol}, certificate does not match the pinned fingerprint: ${certificate}`, failed: true };
+        }
+        if (tls.authorized) return { detail: `${protocol}, trusted certificate: ${certificate}` };
+        return {
+          detail: `${protocol}, untrusted certificate (${tls.authorizationError ?? 'unknown reason'}): ${certificate}${this.tls.insecure ? '; accepted because verification is off' : ''}`,
+          failed: !this.tls.insecure,
+        };
+      })
+      : skippedStep('tls', 'Plain HTTP; credentials are encrypted instead'));
+
+    const reachability = await runStep('reachability', async () => {
+      const response = await this.kyInstance.get('query.cgi', { throwHttpErrors: false, timeout: timeoutMs });
+      return { detail: `HTTP ${response.status} from ${this.baseUrl}query.cgi`, failed: response.status >= 500 };
+    });
+    steps.push(reachability);
+    if (reachability.status === 'failed') {
+      for (const step of ['apiInfo', 'noise', 'credentialTransport'] as const) {
+        steps.push(skippedStep(step, 'The NAS is not reachable'));
+      }
+      return { ok: false, baseUrl: this.baseUrl, steps };
+    }
+
+    steps.push(await runStep('apiInfo', async () => {
+      const response = await this.rawGet<SynoResponse<ApiListMap>>('query.cgi', {
+        api: 'SYNO.API.Info',
+        version: '1',
+        method: 'query',
+        query: 'all',
+      });
+      if (!response.success || !response.data) {
+        return { detail: `SYNO.API.Info failed with error ${getErrorCode(response)}`, failed: true };
+      }
+      const auth = response.data['SYNO.API.Auth'];
+      return auth
+        ? { detail: `${Object.keys(response.data).length} APIs; SYNO.API.Auth v${auth.minVersion}-${auth.maxVersion}` }
+        : { detail: `${Object.keys(response.data).length} APIs, but no SYNO.API.Auth`, failed: true };
+    }));
+
+    steps.push((this.config.dsmVersion ?? 7) >= 7
+      ? await runStep('noise', async () => {
+        await this.getIkMessage();
+        return { detail: 'Server key received in the _SSID cookie; handshake message built' };
+      })
+      : skippedStep('noise', 'DSM 6 logins do not use Noise IK'));
+
+    steps.push(https
+      ? await runStep('credentialTransport', async () => ({
+        detail: this.tls.insecure
+          ? 'Plain credentials over HTTPS; the certificate is not verified'
+          : `Plain credentials over HTTPS with a ${this.tls.pins.length > 0 ? 'pinned' : 'verified'} certificate`,
+      }))
+      : await runStep('credentialTransport', async () => {
+        const info = await this.getEncryptionInfo();
+        return info?.public_key
+          ? { detail: 'RSA + AES encrypted credentials over HTTP (SYNO.API.Encryption)' }
+          : { detail: 'Plain HTTP and SYNO.API.Encryption returned no key; credentials cannot be protected', failed: true };
+      }));
+
+    return { ok: steps.every((step) => step.status !== 'failed'), baseUrl: this.baseUrl, steps };
+  }
+
   // ─── Public request methods ────────────────────────────────────
 
   /**
@@ -309,6 +710,13 @@ export class SynoClient {
     return this.fullApiList[apiName];
   }
 
+  /**
+   * Names of all APIs in the SYNO.API.Info list, sorted.
+   */
+  getApiNames(): string[] {
+    return Object.keys(this.fullApiList).sort();
+  }
+
   /**
    * Get API list filtered by application name.
    */
@@ -316,42 +724,190 @@ export class SynoClient {
     return this.appApiLists.get(app) ?? {};
   }
 
+  /**
+   * Resolve an API's path and the version to call it with: the newest
+   * version both the NAS and the caller support, unless `prefer: 'lowest'`.
+   *
+   * @param apiName - API name, with or without the 'SYNO.' prefix
+   * @param versions - Versions the caller supports, defaults to any
+   * @throws SynoUnsupportedApiError when the API is missing or no version fits
+   */
+  resolveApi(apiName: string, versions: VersionRange = {}): ResolvedApi {
+    const name = normalizeApiName(apiName);
+    const scope = this.captureScope.getStore();
+    if (scope?.probe) {
+      scope.apis.push({ apiName: name, versions });
+      throw CAPTURED;
+    }
+
+    const info = this.fullApiList[name];
+    const version = info ? selectVersion(info, versions) : null;
+    if (!info || version === null) {
+      throw new SynoUnsupportedApiError(name, versions, info ?? null);
+    }
+    return { ...info, version };
+  }
+
+  /**
+   * Whether the NAS offers an API, optionally at a given version or range,
+   * e.g. `supports('FileStation.Sharing', 3)`.
+   */
+  supports(apiName: string, versions?: number | VersionRange): boolean {
+    const info = this.fullApiList[normalizeApiName(apiName)];
+    if (!info) return false;
+    const range = typeof versions === 'number' ? { min: versions, max: versions } : versions;
+    return selectVersion(info, range) !== null;
+  }
+
+  /**
+   * Report which methods of the given modules can be used on this NAS.
+   *
+   * Each method is called without arguments in a probe mode that records
+   * the API it resolves and stops it before anything is sent. Methods that
+   * fail before looking up an API are reported with `supported: null`.
+   * Module helpers are `#private`, so only public methods are listed.
+   */
+  async capabilities(
+    modules: ReadonlyArray<new (client: SynoClient) => BaseModule>,
+  ): Promise<ModuleCapabilities[]> {
+    const report: ModuleCapabilities[] = [];
+    for (const Module of modules) {
+      const module = new Module(this);
+      const methods: MethodCapability[] = [];
+      for (const method of moduleMethodNames(module)) {
+        methods.push(await this.probeMethod(module, method));
+      }
+      report.push({
+        module: Module.name,
+        available: methods.some((method) => method.supported === true),
+        methods,
+      });
+    }
+    return report;
+  }
+
   /**
    * Send a request to a Synology API endpoint.
    * Dispatches errors based on the API name.
+   *
+   * With `rawResponse: true` the body is not parsed; a BinaryResponse is
+   * returned instead, unless DSM answers with a JSON error envelope.
    */
+  async request(
+    apiName: string,
+    apiPath: string,
+    params: Record<string, unknown>,
+    options: RequestOptions & { readonly rawResponse: true },
+  ): Promise<BinaryResponse>;
   async request<T = unknown>(
     apiName: string,
     apiPath: string,
     params: Record<string, unknown>,
     options?: RequestOptions,
-  ): Promise<SynoResponse<T>> {
+  ): Promise<SynoResponse<T>>;
+  async request<T = unknown>(
+    apiName: string,
+    apiPath: string,
+    params: Record<string, unknown>,
+    options?: RequestOptions,
+  ): Promise<SynoResponse<T> | BinaryResponse> {
+    const scope = this.captureScope.getStore();
+    if (scope) {
+      const version = Number(params['version']);
+      scope.requests.push({ apiName, apiPath, params, options });
+      scope.apis.push({ apiName, versions: Number.isNaN(version) ? null : { min: version, max: version } });
+      // The method runs on after its first JSON request, so a second request
+      // or a reshaped result shows it cannot be batched; downloads stop here
+      if (scope.probe || options?.rawResponse || scope.requests.length > 1) throw CAPTURED;
+      return scope.placeholder as SynoResponse<T>;
+    }
+
     this.emit('beforeRequest', {
       apiName,
       apiPath,
       params,
     } satisfies BeforeRequestContext);
 
-    try {
-      const response = await this.requestInternal<T>(apiName, apiPath, params, options);
+    const method = String(params['method'] ?? '');
+    const readOnly = isReadOnlyMethod(method);
 
-      const errorCode = getErrorCode(response);
-      if (errorCode !== CODE_SUCCESS) {
-        throw dispatchApiError(errorCode, apiName);
-      }
+    try {
+      const response = await this.withRetry(apiName, method, readOnly, options, async () => {
+        const response = options?.rawResponse
+          ? await this.withReauth(apiName, () => this.schedule(apiName, options, () =>
+            this.requestBinaryInternal(apiName, apiPath, params, options),
+          ))
+          : await this.withReauth(apiName, () => this.schedule(apiName, options, () =>
+            this.requestInternal<T>(apiName, apiPath, params, options),
+          ));
+
+        const errorCode = getErrorCode(response);
+        if (errorCode !== CODE_SUCCESS) {
+          throw dispatchApiError(errorCode, apiName);
+        }
+        return response;
+      });
 
       this.emit('afterResponse', {
         apiName,
         response,
       } satisfies AfterResponseContext);
 
-      return response;
+      if (options?.rawResponse) {
+        return (response as SynoResponse<BinaryResponse>).data!;
+      }
+      this.validateResponse(apiName, params, response, options);
+      return response as SynoResponse<T>;
     } catch (error) {
       this.emit('onError', error);
       throw error;
     }
   }
 
+  /**
+   * Call any API in the SYNO.API.Info list by name, including ones no
+   * module covers, e.g. `call('SYNO.Calendar.Cal', 'list')`. The path comes
+   * from the API list and the version defaults to the newest one. Arrays
+   * and objects in `params` are sent as JSON, as DSM expects for APIs with
+   * `requestFormat: 'JSON'`; other APIs get comma-separated arrays.
+   *
+   * @param apiName - API name, with or without the 'SYNO.' prefix
+   * @throws SynoUnsupportedApiError when the API or version is not offered
+   */
+  async call<T = unknown>(
+    apiName: string,
+    method: string,
+    params: Record<string, unknown> = {},
+    options: ApiCallOptions = {},
+  ): Promise<SynoResponse<T>> {
+    const { version, ...requestOptions } = options;
+    const api = this.resolveApi(apiName, version === undefined ? {} : { min: version, max: version });
+    const json = api.requestFormat?.toUpperCase() === 'JSON';
+
+    const encoded: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(params)) {
+      const complex = typeof value === 'object' && value !== null && (json || !Array.isArray(value));
+      encoded[key] = complex ? JSON.stringify(value) : value;
+    }
+    return this.request<T>(normalizeApiName(apiName), api.path, {
+      ...encoded,
+      version: api.version,
+      method,
+    }, requestOptions);
+  }
+
+  /**
+   * Start a compound request: queue module calls with `add()`, then
+   * `send()` them as SYNO.Entry.Request batches.
+   */
+  compound(): CompoundBuilder {
+    return new CompoundBuilder(this, {
+      capture: (call) => this.captureRequests(call),
+      validate: (request, response) =>
+        this.validateResponse(request.apiName, request.params, response, request.options),
+    });
+  }
+
   /**
    * Send a batch (compound) request.
    */
@@ -359,36 +915,64 @@ export class SynoClient {
     compound: CompoundEntry[],
     options?: BatchOptions,
   ): Promise<SynoResponse> {
+    this.assertNotCapturing('SYNO.Entry.Request');
     const entryRequest = this.fullApiList['SYNO.Entry.Request'];
     if (!entryRequest) {
       throw new SynoConnectionError('SYNO.Entry.Request not found in API list');
     }
 
-    const params: Record<string, string | number> = {
-      api: 'SYNO.Entry.Request',
-      method: 'request',
-      version: String(entryRequest.maxVersion),
-      mode: options?.mode ?? 'sequential',
-      stop_when_error: 'true',
-      _sid: this.sid ?? '',
-      compound: JSON.stringify(compound),
+    const apiName = 'SYNO.Entry.Request';
+    // With the session in a cookie, parameters go in the body
+    const method = this.cookies ? 'post' : options?.method ?? 'get';
+    const url = entryRequest.path;
+
+    const send = async (): Promise<SynoResponse> => {
+      const params: Record<string, string | number> = {
+        api: apiName,
+        method: 'request',
+        version: String(entryRequest.maxVersion),
+        mode: options?.mode ?? 'sequential',
+        stop_when_error: String(options?.stopWhenError ?? true),
+        compound: JSON.stringify(compound),
+      };
+      if (!this.cookies) params['_sid'] = this.sid ?? '';
+      const headers = this.buildHeaders();
+
+      try {
+        if (method === 'post') {
+          return await this.kyInstance.post(url, {
+            body: new URLSearchParams(stringifyParams(params)),
+            headers,
+            ...toKyCallOptions(options),
+          }).json<SynoResponse>();
+        }
+
+        return await this.kyInstance.get(url, {
+          searchParams: stringifyParams(params),
+          headers,
+          ...toKyCallOptions(options),
+        }).json<SynoResponse>();
+      } catch (error) {
+        throw error instanceof TypeError ? toConnectionError(error) : error;
+      }
     };
 
-    const method = options?.method ?? 'get';
-    const url = entryRequest.path;
-    const headers = this.buildHeaders();
+    const readOnly = compound.every((entry) => isReadOnlyMethod(entry.method));
 
-    if (method === 'post') {
-      return this.kyInstance.post(url, {
-        body: new URLSearchParams(stringifyParams(params)),
-        headers,
-      }).json<SynoResponse>();
-    }
+    try {
+      return await this.withRetry(apiName, 'request', readOnly, options, async () => {
+        const response = await this.withReauth(apiName, () => this.schedule(apiName, options, send));
 
-    return this.kyInstance.get(url, {
-      searchParams: stringifyParams(params),
-      headers,
-    }).json<SynoResponse>();
+        const errorCode = getErrorCode(response);
+        if (errorCode !== CODE_SUCCESS) {
+          throw dispatchApiError(errorCode, apiName);
+        }
+        return response;
+      });
+    } catch (error) {
+      this.emit('onError', error);
+      throw error;
+    }
   }
 
   /**
@@ -399,36 +983,179 @@ export class SynoClient {
     apiPath: string,
     formData: FormData,
     queryParams?: Record<string, unknown>,
+    options?: CallOptions,
   ): Promise<SynoResponse<T>> {
-    let url = `${apiPath}/${apiName}`;
-    const headers = this.buildHeaders();
+    this.assertNotCapturing(apiName);
+    const send = async (): Promise<SynoResponse<T>> => {
+      let url = `${apiPath}/${apiName}`;
+      const headers = this.buildHeaders();
+
+      if (!this.cookies) formData.set('_sid', this.sid ?? '');
+
+      // Append extra query params (api, version, method, etc.)
+      if (queryParams) {
+        const qs = new URLSearchParams(
+          Object.entries(queryParams).map(([k, v]): [string, string] => [k, String(v)]),
+        );
+        qs.set('api', apiName);
+        if (!this.cookies) qs.set('_sid', this.sid ?? '');
+        url = `${apiPath}?${qs.toString()}`;
+      }
 
-    formData.append('_sid', this.sid ?? '');
+      try {
+        return await this.kyInstance.post(url, {
+          body: formData,
+          headers,
+          ...toKyCallOptions(options),
+        }).json<SynoResponse<T>>();
+      } catch (error) {
+        throw error instanceof TypeError ? toConnectionError(error) : error;
+      }
+    };
 
-    // Append extra query params (api, version, method, etc.)
-    if (queryParams) {
-      const qs = new URLSearchParams(
-        Object.entries(queryParams).map(([k, v]): [string, string] => [k, String(v)]),
-      );
+    try {
+      const response = await this.withReauth(apiName, () => this.schedule(apiName, options, send));
+
+      const errorCode = getErrorCode(response);
+      if (errorCode !== CODE_SUCCESS) {
+        throw dispatchApiError(errorCode, apiName);
+      }
+
+      return response;
+    } catch (error) {
+      this.emit('onError', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a file as a streamed multipart body.
+   * Unlike uploadRequest, the file is never buffered in memory, progress is
+   * reported as bytes are sent, and there is no timeout unless `timeoutMs` is set.
+   */
+  async uploadStreamRequest<T = unknown>(
+    apiName: string,
+    apiPath: string,
+    fields: Record<string, string>,
+    file: UploadFilePart,
+    queryParams: Record<string, unknown>,
+    options?: UploadRequestOptions,
+  ): Promise<SynoResponse<T>> {
+    this.assertNotCapturing(apiName);
+    const send = async (): Promise<SynoResponse<T>> => {
+      const qs = new URLSearchParams(stringifyParams(queryParams));
       qs.set('api', apiName);
-      qs.set('_sid', this.sid ?? '');
-      url = `${apiPath}?${qs.toString()}`;
+      if (!this.cookies) qs.set('_sid', this.sid ?? '');
+
+      const boundary = generateGeckoBoundary();
+      const body = buildMultipartStream(boundary, fields, file, (loadedBytes) => {
+        const progress = {
+          apiName,
+          fileName: file.fileName,
+          loadedBytes,
+          totalBytes: file.size,
+        } satisfies UploadProgressContext;
+        options?.onProgress?.(progress);
+        this.emit('uploadProgress', progress);
+      });
+
+      try {
+        return await this.kyInstance.post(`${apiPath}?${qs.toString()}`, {
+          body,
+          headers: {
+            ...this.buildHeaders(),
+            'Content-Type': `multipart/form-data; boundary=${boundary}`,
+          },
+          timeout: options?.timeoutMs ?? false,
+          signal: options?.signal,
+        }).json<SynoResponse<T>>();
+      } catch (error) {
+        throw error instanceof TypeError ? toConnectionError(error) : error;
+      }
+    };
+
+    try {
+      const response = await this.withReauth(apiName, () => this.schedule(apiName, options, send));
+
+      const errorCode = getErrorCode(response);
+      if (errorCode !== CODE_SUCCESS) {
+        throw dispatchApiError(errorCode, apiName);
+      }
+
+      return response;
+    } catch (error) {
+      this.emit('onError', error);
+      throw error;
     }
+  }
 
-    const response = await this.kyInstance.post(url, {
-      body: formData,
-      headers,
-    }).json<SynoResponse<T>>();
+  // ─── Internal helpers ──────────────────────────────────────────
 
-    const errorCode = getErrorCode(response);
-    if (errorCode !== CODE_SUCCESS) {
-      throw dispatchApiError(errorCode, apiName);
+  /**
+   * Run a module method with its requests recorded instead of sent.
+   * The scope follows the method across awaits, so nothing it calls
+   * reaches the NAS. The first request answers with a placeholder
+   * response; a second one ends the method.
+   */
+  private captureRequests(call: () => Promise<unknown>): CaptureResult {
+    const requests: CapturedRequest[] = [];
+    const placeholder: SynoResponse = { success: true, data: {} };
+    const settled = this.captureScope.run({ probe: false, requests, apis: [], placeholder }, call).then(
+      (value: unknown) => ({ value }),
+      (error: unknown) => (error === CAPTURED ? {} : { error }),
+    );
+    return { requests, settled, placeholder };
+  }
+
+  /** Run one module method in probe mode and check the API it resolves. */
+  private async probeMethod(module: BaseModule, method: string): Promise<MethodCapability> {
+    const scope: CaptureScope = { probe: true, requests: [], apis: [], placeholder: { success: true } };
+    const fn = (module as unknown as Record<string, (...args: unknown[]) => unknown>)[method]!;
+
+    await this.captureScope.run(scope, async () => {
+      const result = fn.call(module);
+      // Paginators only request once iterated
+      if (isAsyncIterable(result)) await result[Symbol.asyncIterator]().next();
+      else await result;
+    }).catch(() => {});
+
+    const api = scope.apis[0];
+    if (!api) {
+      return { method, apiName: null, versions: null, version: null, supported: null };
     }
+    const info = this.fullApiList[api.apiName];
+    const version = info ? selectVersion(info, api.versions ?? {}) : null;
+    return { method, apiName: api.apiName, versions: api.versions, version, supported: version !== null };
+  }
 
-    return response;
+  private assertNotCapturing(apiName: string): void {
+    if (this.captureScope.getStore()) {
+      throw new Error(`${apiName}: uploads and nested batches cannot be added to a compound request`);
+    }
   }
 
-  // ─── Internal helpers ──────────────────────────────────────────
+  /**
+   * Run a request through the scheduler, or directly when none is configured.
+   * Failures caused by aborting `options.signal` are raised as SynoAbortError.
+   */
+  private async schedule<T>(
+    apiName: string,
+    options: CallOptions | undefined,
+    send: () => Promise<T>,
+  ): Promise<T> {
+    const signal = options?.signal;
+    if (signal?.aborted) throw new SynoAbortError(apiName, signal.reason);
+
+    try {
+      if (!this.scheduler) return await send();
+      return await this.scheduler.schedule(apiName, options?.priority ?? 'normal', send, signal);
+    } catch (error) {
+      if (signal?.aborted && !(error instanceof SynoAbortError)) {
+        throw new SynoAbortError(apiName, signal.reason);
+      }
+      throw error;
+    }
+  }
 
   private async requestInternal<T>(
     apiName: string,
@@ -436,12 +1163,66 @@ export class SynoClient {
     params: Record<string, unknown>,
     options?: RequestOptions,
   ): Promise<SynoResponse<T>> {
+    const response = await this.sendInternal(apiName, apiPath, params, options);
+    try {
+      return await response.json() as SynoResponse<T>;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new SynoJsonDecodeError(`Invalid JSON response from ${apiName}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a request whose successful response is a binary body.
+   * DSM reports failures with a JSON envelope instead of the file, so
+   * JSON-looking bodies are returned as that envelope for error dispatch.
+   */
+  private async requestBinaryInternal(
+    apiName: string,
+    apiPath: string,
+    params: Record<string, unknown>,
+    options?: RequestOptions,
+  ): Promise<SynoResponse<BinaryResponse>> {
+    const response = await this.sendInternal(apiName, apiPath, params, options);
+    const contentType = response.headers.get('content-type');
+    const lengthHeader = response.headers.get('content-length');
+    const contentLength = lengthHeader !== null ? Number(lengthHeader) : null;
+
+    if (mayBeJsonEnvelope(contentType, contentLength)) {
+      const text = await readSmallBody(response.clone().body, MAX_ENVELOPE_BYTES);
+      const envelope = text !== null ? parseEnvelope(text) : null;
+      if (envelope !== null && !envelope.success) {
+        return envelope as SynoResponse<BinaryResponse>;
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        response,
+        body: response.body,
+        contentType,
+        contentLength: Number.isNaN(contentLength) ? null : contentLength,
+        filename: parseContentDispositionFilename(response.headers.get('content-disposition')),
+      },
+    };
+  }
+
+  private async sendInternal(
+    apiName: string,
+    apiPath: string,
+    params: Record<string, unknown>,
+    options?: RequestOptions,
+  ): Promise<Response> {
     const normalized = normalizeBooleans(params);
     normalized['api'] = apiName;
-    normalized['_sid'] = this.sid ?? '';
+    if (!this.cookies) normalized['_sid'] = this.sid ?? '';
 
     const url = apiPath;
-    const method = options?.method ?? 'get';
+    // With the session in a cookie, parameters go in the body where DSM takes them there
+    const method = this.cookies && isPostCapable(apiPath) ? 'post' : options?.method ?? 'get';
     const headers = this.buildHeaders();
 
     try {
@@ -449,16 +1230,18 @@ export class SynoClient {
         return await this.kyInstance.post(url, {
           body: new URLSearchParams(stringifyParams(normalized)),
           headers,
-        }).json<SynoResponse<T>>();
+          ...toKyCallOptions(options),
+        });
       }
 
       return await this.kyInstance.get(url, {
         searchParams: stringifyParams(normalized),
         headers,
-      }).json<SynoResponse<T>>();
+        ...toKyCallOptions(options),
+      });
     } catch (error) {
       if (error instanceof TypeError) {
-        throw new SynoConnectionError(String(error));
+        throw toConnectionError(error);
       }
       throw error;
     }
@@ -471,7 +1254,7 @@ export class SynoClient {
       }).json<T>();
     } catch (error) {
       if (error instanceof TypeError) {
-        throw new SynoConnectionError(String(error));
+        throw toConnectionError(error);
       }
       throw error;
     }
@@ -484,12 +1267,38 @@ export class SynoClient {
       }).json<T>();
     } catch (error) {
       if (error instanceof TypeError) {
-        throw new SynoConnectionError(String(error));
+        throw toConnectionError(error);
       }
       throw error;
     }
   }
 
+  /**
+   * Check response data against the request's schema, if validation is on.
+   * In 'warn' mode a mismatch is emitted as 'onError' instead of thrown.
+   */
+  private validateResponse(
+    apiName: string,
+    params: Record<string, unknown>,
+    response: SynoResponse,
+    options: RequestOptions | undefined,
+  ): void {
+    const mode = this.config.validateResponses ?? false;
+    if (!mode || !options?.schema) return;
+
+    const issue = validateSchema(options.schema, response.data);
+    if (!issue) return;
+
+    const error = new SynoSchemaError(
+      apiName,
+      String(params['method'] ?? ''),
+      issue.path,
+      `expected ${issue.expected}, received ${issue.received}`,
+    );
+    if (mode !== 'warn') throw error;
+    this.emit('onError', error);
+  }
+
   private buildHeaders(): Record<string, string> {
     const headers: Record<string, string> = {};
     if (this.synoToken) {
@@ -501,11 +1310,172 @@ export class SynoClient {
 
 // ─── Utility ─────────────────────────────────────────────────────
 
+/** A NAS URL with '/webapi/' appended, unless it already ends in '/webapi'. */
+function normalizeBaseUrl(url: string): string {
+  const base = url.replace(/\/+$/, '');
+  return base.endsWith('/webapi') ? `${base}/` : `${base}/webapi/`;
+}
+
+/**
+ * Whether DSM accepts POST for APIs at `path`: entry.cgi dispatches every
+ * API alike for GET and POST, while older CGIs may only read the query.
+ */
+function isPostCapable(path: string): boolean {
+  return /^entry\.cgi(?:[/?]|$)/.test(path);
+}
+
+/**
+ * Public method names of a module instance, from its class up to
+ * BaseModule. Helpers are `#private` and so never on the prototype.
+ */
+function moduleMethodNames(module: BaseModule): string[] {
+  const names = new Set<string>();
+  let proto = Object.getPrototypeOf(module) as object | null;
+  // Stop at BaseModule, whose methods are the shared request helpers
+  while (proto && Object.getPrototypeOf(proto) !== Object.prototype) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      const descriptor = Object.getOwnPropertyDescriptor(proto, name);
+      if (name !== 'constructor' && typeof descriptor?.value === 'function') names.add(name);
+    }
+    proto = Object.getPrototypeOf(proto) as object | null;
+  }
+  return [...names];
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+}
+
+/**
+ * fetch() failures are a bare 'fetch failed' TypeError; the cause says why,
+ * e.g. ECONNREFUSED or a certificate that does not match the pin.
+ */
+function toConnectionError(error: TypeError): SynoConnectionError {
+  const cause = error.cause instanceof Error ? ` (${error.cause.message})` : '';
+  return new SynoConnectionError(`${String(error)}${cause}`);
+}
+
+/** ky options for a call's signal and timeout; unset fields keep the client defaults. */
+function toKyCallOptions(options: CallOptions | undefined): Pick<KyOptions, 'signal' | 'timeout'> {
+  const kyOptions: { signal?: AbortSignal; timeout?: number } = {};
+  if (options?.signal) kyOptions.signal = options.signal;
+  if (options?.timeoutMs !== undefined) kyOptions.timeout = options.timeoutMs;
+  return kyOptions;
+}
+
 function getErrorCode(response: SynoResponse): number {
   if (response.success) return CODE_SUCCESS;
   return response.error?.code ?? CODE_SUCCESS;
 }
 
+/** `error.errors` of a failed response when it is an object, as login failures send it. */
+function getErrorDetails(response: SynoResponse): Record<string, unknown> | null {
+  const details: unknown = response.error?.errors;
+  return typeof details === 'object' && details !== null && !Array.isArray(details)
+    ? details as Record<string, unknown>
+    : null;
+}
+
+/**
+ * Return the session-expired code carried by a response, or null.
+ * Compound responses are also checked entry by entry.
+ */
+function getSessionErrorCode(response: SynoResponse): number | null {
+  const errorCode = getErrorCode(response);
+  if (SESSION_EXPIRED_CODES.includes(errorCode)) return errorCode;
+
+  const data = response.data as { result?: unknown } | undefined;
+  if (Array.isArray(data?.result)) {
+    for (const entry of data.result as SynoResponse[]) {
+      const entryCode = entry?.error?.code;
+      if (entryCode !== undefined && SESSION_EXPIRED_CODES.includes(entryCode)) {
+        return entryCode;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a binary download response could actually be DSM's JSON error envelope.
+ * Small text bodies are also checked since some endpoints mislabel the envelope.
+ */
+function mayBeJsonEnvelope(contentType: string | null, contentLength: number | null): boolean {
+  if (contentType === null) return false;
+  if (contentType.includes('application/json')) {
+    return contentLength === null || Number.isNaN(contentLength) || contentLength <= MAX_ENVELOPE_BYTES;
+  }
+  return contentType.startsWith('text/') && contentLength !== null && contentLength <= 1024;
+}
+
+/**
+ * A body as text when it ends within `maxBytes`, else null. Reads no
+ * further than that, so a large JSON download is not buffered whole.
+ */
+async function readSmallBody(body: ReadableStream<Uint8Array> | null, maxBytes: number): Promise<string | null> {
+  if (body === null) return '';
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return new TextDecoder().decode(concatBytes(chunks, size));
+      size += value.byteLength;
+      if (size > maxBytes) return null;
+      chunks.push(value);
+    }
+  } finally {
+    // Drops only this clone's branch; the caller's body stays readable
+    reader.cancel().catch(() => {});
+  }
+}
+
+function concatBytes(chunks: readonly Uint8Array[], size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+function parseEnvelope(text: string): SynoResponse | null {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (typeof parsed === 'object' && parsed !== null && 'success' in parsed) {
+      return parsed as SynoResponse;
+    }
+  } catch {
+    // Not JSON: the body is the file itself
+  }
+  return null;
+}
+
+/**
+ * Extract the filename from a Content-Disposition header, preferring the
+ * RFC 5987 `filename*` form DSM uses for non-ASCII names.
+ */
+function parseContentDispositionFilename(header: string | null): string | null {
+  if (header === null) return null;
+
+  const extended = header.match(/filename\*\s*=\s*(?:[\w-]+'[^']*')?([^;]+)/i);
+  if (extended?.[1]) {
+    try {
+      return decodeURIComponent(extended[1].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Fall through to the plain filename parameter
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*("([^"]*)"|[^;]+)/i);
+  if (plain) {
+    return (plain[2] ?? plain[1] ?? '').trim() || null;
+  }
+  return null;
+}
+
 function stringifyParams(params: Record<string, unknown>): Record<string, string> {
   const result: Record<string, string> = {};
   for (const [key, value] of Object.entries(params)) {
@@ -0,0 +1,250 @@
+/**
+ * CompoundBuilder - batches module calls into SYNO.Entry.Request.
+ *
+ * `add()` runs a module method with its request captured instead of sent,
+ * so each entry carries exactly the parameters a direct call would. `send()`
+ * splits the entries into batches that fit the size limits and resolves to
+ * one result per entry, in the order they were added.
+ */
+import type { SynoClient } from './client.ts';
+import type { BaseModule } from '../modules/base-module.ts';
+import type { SynoResponse } from '../types/api-info.ts';
+import type { CompoundEntry, CompoundOptions, RequestOptions } from '../types/client.ts';
+import type { MethodArgs, MethodResult } from '../types/common.ts';
+import { CODE_UNKNOWN } from './error-codes.ts';
+import { SynoApiError, SynoCompoundSkippedError, dispatchApiError } from './errors.ts';
+import { normalizeBooleans } from './utils.ts';
+
+const DEFAULT_MAX_ENTRIES = 20;
+const DEFAULT_MAX_GET_BYTES = 4000;
+
+/**
+ * A request recorded while a module method runs in capture mode.
+ */
+export interface CapturedRequest {
+  readonly apiName: string;
+  readonly apiPath: string;
+  readonly params: Record<string, unknown>;
+  readonly options?: RequestOptions;
+}
+
+/**
+ * A module method run in capture mode.
+ */
+export interface CaptureResult {
+  /** Requests the method issued; filled in as it runs */
+  readonly requests: CapturedRequest[];
+  /**
+   * Resolves once the method has stopped, to what it returned or threw.
+   * Empty when capture stopped it at a second request or a download.
+   */
+  readonly settled: Promise<{ readonly value?: unknown; readonly error?: unknown }>;
+  /** The response its first request answered with */
+  readonly placeholder: SynoResponse;
+}
+
+/**
+ * Client internals the builder relies on.
+ */
+export interface CompoundHooks {
+  capture(call: () => Promise<unknown>): CaptureResult;
+  /** Check an entry's response against its schema, as `request()` would */
+  validate(request: CapturedRequest, response: SynoResponse): void;
+}
+
+/**
+ * Result of one compound entry: what the method would have returned,
+ * or the error DSM reported for that entry.
+ */
+export type CompoundResult<T> = T | SynoApiError | SynoCompoundSkippedError;
+
+/**
+ * Names of the public methods of a module that resolve to a JSON envelope.
+ */
+export type CompoundMethod<M> = {
+  [K in keyof M]: M[K] extends (...args: never[]) => Promise<SynoResponse<unknown>> ? K : never;
+}[keyof M];
+
+type QueuedEntry =
+  | { readonly kind: 'call'; readonly label: string; readonly capture: CaptureResult }
+  | { readonly kind: 'raw'; readonly entry: CompoundEntry };
+
+interface ResolvedEntry {
+  readonly entry: CompoundEntry;
+  /** The captured request, absent for raw entries */
+  readonly request?: CapturedRequest;
+}
+
+/**
+ * Fluent builder for compound requests, created with `client.compound()`.
+ *
+ * The result tuple type grows with every `add()`, so
+ * `const [info, list] = await client.compound().add(...).add(...).send()`
+ * keeps each entry's own response type.
+ */
+export class CompoundBuilder<R extends readonly unknown[] = []> {
+  private readonly client: SynoClient;
+  private readonly hooks: CompoundHooks;
+  private readonly queue: QueuedEntry[] = [];
+
+  constructor(client: SynoClient, hooks: CompoundHooks) {
+    this.client = client;
+    this.hooks = hooks;
+  }
+
+  /** Number of entries added so far. */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue a module method call. Nothing is sent until `send()`.
+   *
+   * The method must make exactly one JSON request and return its response
+   * as is; methods that chain several requests (e.g. `createScriptTask`
+   * with owner 'root', which first confirms the password), reshape the
+   * response, or download or upload files cannot be batched, and `send()`
+   * rejects if one is added.
+   *
+   * @param module - Module instance created with this client
+   * @param method - Name of the method to call
+   * @param args - The method's arguments
+   */
+  add<M extends BaseModule, K extends CompoundMethod<M>>(
+    module: M,
+    method: K,
+    ...args: MethodArgs<M[K]>
+  ): CompoundBuilder<[...R, CompoundResult<MethodResult<M[K]>>]> {
+    const fn = module[method] as (...args: unknown[]) => Promise<unknown>;
+    this.queue.push({
+      kind: 'call',
+      label: `${module.constructor.name}.${String(method)}`,
+      capture: this.hooks.capture(() => fn.apply(module, args)),
+    });
+    return this as unknown as CompoundBuilder<[...R, CompoundResult<MethodResult<M[K]>>]>;
+  }
+
+  /**
+   * Queue a raw entry for APIs without a module method.
+   */
+  addEntry<T = unknown>(entry: CompoundEntry): CompoundBuilder<[...R, CompoundResult<SynoResponse<T>>]> {
+    this.queue.push({ kind: 'raw', entry });
+    return this as unknown as CompoundBuilder<[...R, CompoundResult<SynoResponse<T>>]>;
+  }
+
+  /**
+   * Send the queued entries and resolve to one result per entry.
+   *
+   * Entries DSM reports as failed resolve to their dispatched SynoApiError
+   * rather than rejecting; with `stopWhenError` (the default) the entries
+   * after a failure resolve to SynoCompoundSkippedError. The promise itself
+   * rejects only when a batch request fails as a whole.
+   *
+   * In 'sequential' mode batches are sent one after another and a failure
+   * skips the remaining batches; in 'parallel' mode they are sent together.
+   */
+  async send(options: CompoundOptions = {}): Promise<R> {
+    const entries = await Promise.all(this.queue.map(resolveEntry));
+    const method = options.method ?? 'get';
+    const batches = splitBatches(
+      entries,
+      options.maxEntries ?? DEFAULT_MAX_ENTRIES,
+      options.maxBytes ?? (method === 'get' ? DEFAULT_MAX_GET_BYTES : Infinity),
+    );
+
+    if (options.mode === 'parallel') {
+      const results = await Promise.all(batches.map((batch) => this.sendBatch(batch, options)));
+      return results.flat() as unknown as R;
+    }
+
+    const stopWhenError = options.stopWhenError ?? true;
+    const results: unknown[] = [];
+    let failed = false;
+    for (const batch of batches) {
+      if (failed && stopWhenError) {
+        results.push(...batch.map(({ entry }) => new SynoCompoundSkippedError(entry.api, entry.method)));
+        continue;
+      }
+      const batchResults = await this.sendBatch(batch, options);
+      failed ||= batchResults.some((result) => result instanceof Error);
+      results.push(...batchResults);
+    }
+    return results as unknown as R;
+  }
+
+  private async sendBatch(batch: ResolvedEntry[], options: CompoundOptions): Promise<unknown[]> {
+    const response = await this.client.batchRequest(batch.map(({ entry }) => entry), options);
+    const data = response.data as { result?: SynoResponse[] } | undefined;
+    const results = data?.result ?? [];
+
+    return batch.map(({ entry, request }, i) => {
+      const result = results[i];
+      if (!result) return new SynoCompoundSkippedError(entry.api, entry.method);
+      if (!result.success) return dispatchApiError(result.error?.code ?? CODE_UNKNOWN, entry.api);
+
+      const value: SynoResponse = { success: true, data: result.data };
+      if (request) this.hooks.validate(request, value);
+      return value;
+    });
+  }
+}
+
+// ─── Utility ─────────────────────────────────────────────────────
+
+/**
+ * Turn a queued call into its compound entry once the method has run.
+ */
+async function resolveEntry(queued: QueuedEntry): Promise<ResolvedEntry> {
+  if (queued.kind === 'raw') return { entry: queued.entry };
+
+  const { label, capture } = queued;
+  const outcome = await capture.settled;
+  const request = capture.requests[0];
+  if (!request) {
+    if ('error' in outcome) throw outcome.error;
+    throw new Error(`${label} did not make a request and cannot be added to a compound request`);
+  }
+  if (request.options?.rawResponse) {
+    throw new Error(`${label} returns a binary response and cannot be added to a compound request`);
+  }
+  if (capture.requests.length > 1) {
+    throw new Error(`${label} makes several requests and cannot be added to a compound request`);
+  }
+  // Past its request, the method only saw the placeholder
+  if ('error' in outcome || outcome.value !== capture.placeholder) {
+    throw new Error(`${label} does not return its response as is and cannot be added to a compound request`);
+  }
+
+  const { api: _api, version, method, ...params } = normalizeBooleans(request.params);
+  if (version === undefined || method === undefined) {
+    throw new Error(`${label} did not set a version and method for ${request.apiName}`);
+  }
+  return {
+    entry: { api: request.apiName, version: version as number | string, method: String(method), ...params },
+    request,
+  };
+}
+
+/**
+ * Group entries into batches of at most `maxEntries` entries and, where
+ * possible, `maxBytes` of encoded JSON. An entry larger than `maxBytes`
+ * is sent in a batch of its own.
+ */
+function splitBatches(entries: ResolvedEntry[], maxEntries: number, maxBytes: number): ResolvedEntry[][] {
+  const batches: ResolvedEntry[][] = [];
+  let batch: ResolvedEntry[] = [];
+  let bytes = 2; // the enclosing brackets
+
+  for (const entry of entries) {
+    const size = JSON.stringify(entry.entry).length + 1;
+    if (batch.length > 0 && (batch.length >= maxEntries || bytes + size > maxBytes)) {
+      batches.push(batch);
+      batch = [];
+      bytes = 2;
+    }
+    batch.push(entry);
+    bytes += size;
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
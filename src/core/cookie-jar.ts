@@ -0,0 +1,75 @@
+/**
+ * Cookies of one NAS, for clients that carry the session in the `id`
+ * cookie instead of the `_sid` parameter.
+ */
+
+/**
+ * Keeps the cookies DSM sets (`id`, `_SSID`, `did`, …) and sends them back.
+ *
+ * A client talks to a single NAS, and DSM sets its cookies for path '/',
+ * so cookies are kept by name only. Expired cookies are dropped.
+ */
+export class CookieJar {
+  private readonly cookies = new Map<string, { value: string; expiresAt: number | null }>();
+
+  /** Take the cookies from a response's Set-Cookie headers. */
+  capture(response: Response): void {
+    for (const header of response.headers.getSetCookie()) {
+      const [pair = '', ...attributes] = header.split(';');
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+
+      const name = pair.slice(0, separator).trim();
+      const expiresAt = parseExpiry(attributes);
+      if (expiresAt !== null && expiresAt <= Date.now()) {
+        this.cookies.delete(name);
+      } else {
+        this.cookies.set(name, { value: pair.slice(separator + 1).trim(), expiresAt });
+      }
+    }
+  }
+
+  get(name: string): string | undefined {
+    const cookie = this.cookies.get(name);
+    if (cookie && cookie.expiresAt !== null && cookie.expiresAt <= Date.now()) {
+      this.cookies.delete(name);
+      return undefined;
+    }
+    return cookie?.value;
+  }
+
+  set(name: string, value: string): void {
+    this.cookies.set(name, { value, expiresAt: null });
+  }
+
+  delete(name: string): void {
+    this.cookies.delete(name);
+  }
+
+  /** The Cookie request header, or null without cookies. */
+  header(): string | null {
+    const pairs: string[] = [];
+    for (const name of [...this.cookies.keys()]) {
+      const value = this.get(name);
+      if (value !== undefined) pairs.push(`${name}=${value}`);
+    }
+    return pairs.length > 0 ? pairs.join('; ') : null;
+  }
+}
+
+// ─── Utility ─────────────────────────────────────────────────────
+
+/** Expiry time (ms) from Max-Age or Expires, null for a session cookie. */
+function parseExpiry(attributes: readonly string[]): number | null {
+  let expires: number | null = null;
+  for (const attribute of attributes) {
+    const [key = '', value = ''] = attribute.split('=', 2).map((part) => part.trim());
+    // Max-Age wins over Expires
+    if (key.toLowerCase() === 'max-age' && /^-?\d+$/.test(value)) return Date.now() + Number(value) * 1000;
+    if (key.toLowerCase() === 'expires') {
+      const time = Date.parse(value);
+      if (!Number.isNaN(time)) expires = time;
+    }
+  }
+  return expires;
+}
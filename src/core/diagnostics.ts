@@ -0,0 +1,103 @@
+/**
+ * Building blocks of SynoClient.diagnose(): timed steps and a TLS probe.
+ */
+import { connect } from 'node:tls';
+import { isIP } from 'node:net';
+import type { DiagnosticStep, DiagnosticStepName } from '../types/client.ts';
+
+/**
+ * Outcome of a step body: what was found, and whether it counts as a
+ * failure even though nothing was thrown.
+ */
+export interface StepOutcome {
+  readonly detail: string;
+  readonly failed?: boolean;
+}
+
+/**
+ * Run one diagnostic step. A thrown error marks the step as failed with
+ * the error's message as the detail.
+ */
+export async function runStep(
+  step: DiagnosticStepName,
+  body: () => Promise<StepOutcome>,
+): Promise<DiagnosticStep> {
+  const started = Date.now();
+  try {
+    const { detail, failed } = await body();
+    return { step, status: failed ? 'failed' : 'ok', detail, durationMs: Date.now() - started };
+  } catch (error) {
+    return { step, status: 'failed', detail: describeError(error), durationMs: Date.now() - started, error };
+  }
+}
+
+export function skippedStep(step: DiagnosticStepName, reason: string): DiagnosticStep {
+  return { step, status: 'skipped', detail: reason, durationMs: 0 };
+}
+
+/**
+ * The certificate a TLS server presents and whether it chains to a
+ * trusted root and matches the host name.
+ */
+export interface TlsProbeResult {
+  readonly authorized: boolean;
+  /** Why the certificate is not trusted, e.g. 'SELF_SIGNED_CERT_IN_CHAIN' */
+  readonly authorizationError: string | null;
+  readonly subject: string | null;
+  readonly issuer: string | null;
+  readonly validTo: string | null;
+  /** SHA-256 fingerprint, colon-separated hex */
+  readonly fingerprint256: string | null;
+  readonly protocol: string | null;
+}
+
+/**
+ * Complete a TLS handshake with the host of `url` and report its
+ * certificate, checked against `ca` or the system roots. The handshake
+ * succeeds for untrusted certificates too, so the reason can be shown.
+ */
+export function probeTls(
+  url: URL,
+  timeoutMs: number,
+  ca?: string | Buffer | Array<string | Buffer>,
+): Promise<TlsProbeResult> {
+  return new Promise((resolve, reject) => {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const socket = connect({
+      host,
+      port: Number(url.port || 443),
+      servername: isIP(host) === 0 ? host : undefined,
+      ca,
+      rejectUnauthorized: false,
+    });
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy(new Error(`TLS handshake with ${url.host} timed out after ${timeoutMs} ms`));
+    });
+    socket.once('error', reject);
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate();
+      const hasCertificate = Object.keys(certificate).length > 0;
+      resolve({
+        authorized: socket.authorized,
+        authorizationError: socket.authorizationError ? String(socket.authorizationError) : null,
+        subject: hasCertificate ? commonName(certificate.subject?.CN) : null,
+        issuer: hasCertificate ? commonName(certificate.issuer?.CN) : null,
+        validTo: hasCertificate ? certificate.valid_to : null,
+        fingerprint256: hasCertificate ? certificate.fingerprint256 : null,
+        protocol: socket.getProtocol(),
+      });
+      socket.end();
+    });
+  });
+}
+
+/** An error with its cause, which holds the reason fetch() failed, e.g. ECONNREFUSED. */
+export function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  const cause = error.cause instanceof Error ? ` (${error.cause.message})` : '';
+  return `${error.name}: ${error.message}${cause}`;
+}
+
+function commonName(value: string | string[] | undefined): string | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
@@ -3,7 +3,7 @@
  * Ported from Python auth.py AESCipher class.
  */
 import { createHash, randomBytes } from 'node:crypto';
-import { createCipheriv } from 'node:crypto';
+import { createCipheriv, createDecipheriv } from 'node:crypto';
 
 const SALT_MAGIC = Buffer.from('Salted__', 'ascii');
 const BLOCK_SIZE = 16;
@@ -63,3 +63,22 @@ export function aesEncrypt(password: Buffer, text: string): Buffer {
 
   return Buffer.concat([SALT_MAGIC, salt, ciphertext]);
 }
+
+/**
+ * Decrypt data produced by `aesEncrypt`, as the NAS does for encrypted logins.
+ *
+ * @param password - The passphrase bytes
+ * @param data - "Salted__" + 8-byte salt + ciphertext
+ * @returns The decrypted plaintext string
+ */
+export function aesDecrypt(password: Buffer, data: Buffer): string {
+  if (!data.subarray(0, SALT_MAGIC.length).equals(SALT_MAGIC)) {
+    throw new Error('AES data does not start with the "Salted__" header');
+  }
+  const salt = data.subarray(SALT_MAGIC.length, BLOCK_SIZE);
+  const { key, iv } = deriveKeyAndIv(password, salt, KEY_LENGTH, BLOCK_SIZE);
+
+  const decipher = createDecipheriv('aes-256-cbc', key, iv);
+  const plaintext = Buffer.concat([decipher.update(data.subarray(BLOCK_SIZE)), decipher.final()]);
+  return plaintext.toString('utf-8');
+}
@@ -113,6 +113,24 @@ function encryptWithAd(
   return cipher.encrypt(plaintext);
 }
 
+/**
+ * Decrypt a ChaCha20-Poly1305 ciphertext produced by `encryptWithAd`.
+ */
+function decryptWithAd(
+  key: Uint8Array,
+  nonce: bigint,
+  ad: Uint8Array,
+  ciphertext: Uint8Array,
+): Uint8Array {
+  const nonceBytes = new Uint8Array(12);
+  const view = new DataView(nonceBytes.buffer);
+  view.setUint32(4, Number(nonce & 0xffffffffn), true);
+  view.setUint32(8, Number((nonce >> 32n) & 0xffffffffn), true);
+
+  const cipher = chacha20poly1305(key.subarray(0, 32), nonceBytes, ad);
+  return cipher.decrypt(ciphertext);
+}
+
 /**
  * Perform the Noise IK handshake as initiator and produce the encrypted message.
  *
@@ -187,3 +205,61 @@ export function noiseIkHandshake(
   // Compose the message: ephemeral_public + encrypted_static + encrypted_payload
   return concatBytes(ephemeralPublic, encryptedStatic, encryptedPayload);
 }
+
+/**
+ * Read an IK handshake message as responder and return its payload,
+ * as the NAS does with the `ik_message` login parameter.
+ * Throws when the message was not made for `serverPrivateKey`.
+ *
+ * @param serverPrivateKey - The responder's static private key
+ * @param message - The message produced by `noiseIkHandshake`
+ * @returns The decrypted payload
+ */
+export function noiseIkRespond(
+  serverPrivateKey: Uint8Array,
+  message: Uint8Array,
+): Uint8Array {
+  const hashLen = 64;
+  const keyLen = 32;
+  const tagLen = 16;
+
+  const protocolBytes = new TextEncoder().encode(PROTOCOL_NAME);
+  let h: Uint8Array;
+  if (protocolBytes.length <= hashLen) {
+    h = new Uint8Array(hashLen);
+    h.set(protocolBytes);
+  } else {
+    h = blake2b(protocolBytes, { dkLen: hashLen });
+  }
+  let ck: Uint8Array<ArrayBufferLike> = new Uint8Array(h);
+
+  function mixHash(data: Uint8Array): void {
+    h = blake2b(concatBytes(h, data), { dkLen: hashLen });
+  }
+
+  function mixKey(inputKeyMaterial: Uint8Array): Uint8Array {
+    const [newCk, tempK] = hkdfBlake2b(ck, inputKeyMaterial, 2) as [Uint8Array, Uint8Array];
+    ck = newCk;
+    return tempK;
+  }
+
+  mixHash(EMPTY);
+  mixHash(x25519.getPublicKey(serverPrivateKey));
+
+  // <- e
+  const ephemeralPublic = message.subarray(0, keyLen);
+  mixHash(ephemeralPublic);
+
+  // <- es
+  let k = mixKey(x25519.getSharedSecret(serverPrivateKey, ephemeralPublic));
+
+  // <- s
+  const encryptedStatic = message.subarray(keyLen, keyLen * 2 + tagLen);
+  const staticPublic = decryptWithAd(k, 0n, h, encryptedStatic);
+  mixHash(encryptedStatic);
+
+  // <- ss
+  k = mixKey(x25519.getSharedSecret(serverPrivateKey, staticPublic));
+
+  return decryptWithAd(k, 0n, h, message.subarray(keyLen * 2 + tagLen));
+}
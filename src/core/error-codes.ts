@@ -70,6 +70,9 @@ export const errorCodes: Record<number, string> = {
   [CODE_UNKNOWN]: "Unknown Error",
 } as const;
 
+// Common codes meaning the session ID is no longer valid and a fresh login is required.
+export const SESSION_EXPIRED_CODES: readonly number[] = [106, 107, 119] as const;
+
 // Source: https://global.synologydownload.com/download/Document/Software/DeveloperGuide/Os/DSM/All/enu
 // /DSM_Login_Web_API_Guide_enu.pdf Page 16.
 // https://global.download.synology.com/download/Document/Software/DeveloperGuide/Package/SurveillanceStation/All/enu
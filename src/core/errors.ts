@@ -12,6 +12,8 @@ import {
   iscsiTargetErrorCodes,
   coreErrorCodes,
 } from './error-codes.ts';
+import type { ApiInfo, VersionRange } from '../types/api-info.ts';
+import type { QuickConnectAttempt } from '../types/quickconnect.ts';
 
 // ─── Base exceptions ───────────────────────────────────────────────
 
@@ -38,6 +40,23 @@ export class SynoConnectionError extends SynoBaseError {
   }
 }
 
+/**
+ * Raised when a QuickConnect ID is unknown or none of its addresses
+ * answers as the NAS.
+ */
+export class SynoQuickConnectError extends SynoConnectionError {
+  readonly quickConnectId: string;
+  /** Addresses tried in order and why each failed */
+  readonly attempts: readonly QuickConnectAttempt[];
+
+  constructor(errorMessage: string, quickConnectId: string, attempts: readonly QuickConnectAttempt[] = []) {
+    super(errorMessage);
+    this.name = 'SynoQuickConnectError';
+    this.quickConnectId = quickConnectId;
+    this.attempts = attempts;
+  }
+}
+
 /**
  * Raised when an HTTP error status is returned.
  */
@@ -58,6 +77,114 @@ export class SynoJsonDecodeError extends SynoBaseError {
   }
 }
 
+/**
+ * Raised when a background task does not finish within its timeout.
+ */
+export class SynoTaskTimeoutError extends SynoBaseError {
+  readonly taskId: string;
+  readonly timeoutMs: number;
+
+  constructor(taskId: string, timeoutMs: number) {
+    super(`Background task ${taskId} did not finish within ${timeoutMs} ms`);
+    this.name = 'SynoTaskTimeoutError';
+    this.taskId = taskId;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Raised when waiting on a background task that was cancelled.
+ */
+export class SynoTaskCancelledError extends SynoBaseError {
+  readonly taskId: string | null;
+
+  constructor(taskId: string | null) {
+    super(`Background task ${taskId ?? '(not started)'} was cancelled`);
+    this.name = 'SynoTaskCancelledError';
+    this.taskId = taskId;
+  }
+}
+
+/**
+ * Raised when a request is cancelled through its AbortSignal.
+ */
+export class SynoAbortError extends SynoBaseError {
+  readonly apiName: string;
+  /** The signal's abort reason */
+  readonly reason: unknown;
+
+  constructor(apiName: string, reason?: unknown) {
+    super(`Request to ${apiName} was aborted`);
+    this.name = 'SynoAbortError';
+    this.apiName = apiName;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Raised when response data does not match the schema of its API method,
+ * i.e. DSM returned a shape the typed models do not describe.
+ */
+export class SynoSchemaError extends SynoBaseError {
+  readonly apiName: string;
+  readonly method: string;
+  /** JSON path of the mismatch within `data`, e.g. '$.files[0].isdir' */
+  readonly path: string;
+
+  constructor(apiName: string, method: string, path: string, detail: string) {
+    super(`${apiName} ${method}: unexpected response at ${path} (${detail})`);
+    this.name = 'SynoSchemaError';
+    this.apiName = apiName;
+    this.method = method;
+    this.path = path;
+  }
+}
+
+/**
+ * Raised when an API is missing from the NAS's SYNO.API.Info list, usually
+ * because its package is not installed, or when none of the versions the
+ * NAS offers is one the method supports.
+ */
+export class SynoUnsupportedApiError extends SynoBaseError {
+  readonly apiName: string;
+  /** Versions the method accepts */
+  readonly versions: VersionRange;
+  /** What the NAS offers, null when the API is missing */
+  readonly available: ApiInfo | null;
+
+  constructor(apiName: string, versions: VersionRange, available: ApiInfo | null) {
+    super(available
+      ? `${apiName} ${describeRange(versions)} is not supported; the NAS offers v${available.minVersion}-${available.maxVersion}`
+      : `${apiName} is not available on this NAS; is its package installed?`);
+    this.name = 'SynoUnsupportedApiError';
+    this.apiName = apiName;
+    this.versions = versions;
+    this.available = available;
+  }
+}
+
+function describeRange(versions: VersionRange): string {
+  if (versions.min !== undefined && versions.min === versions.max) return `v${versions.min}`;
+  if (versions.max === undefined) return `v${versions.min ?? 1}+`;
+  return `v${versions.min ?? 1}-${versions.max}`;
+}
+
+/**
+ * Result of a compound-request entry that DSM never ran, because an
+ * earlier entry failed and the batch was sent with `stopWhenError`.
+ */
+export class SynoCompoundSkippedError extends SynoBaseError {
+  readonly apiName: string;
+  readonly method: string;
+
+  constructor(apiName: string, method: string) {
+    super(`${apiName} ${method} was skipped after an earlier entry failed`);
+    this.name = 'SynoCompoundSkippedError';
+    this.apiName = apiName;
+    this.method = method;
+  }
+}
+
 // ─── API error code exceptions ─────────────────────────────────────
 
 /**
@@ -93,14 +220,167 @@ function resolveMessage(
 // ─── Concrete error classes ────────────────────────────────────────
 
 export class LoginError extends SynoApiError {
-  constructor(errorCode: number) {
+  /**
+   * Extra information DSM sent with the failure (`error.errors`), if any.
+   * What DSM is known to send is also parsed into the subclasses' fields.
+   */
+  readonly details: Readonly<Record<string, unknown>> | null;
+
+  constructor(errorCode: number, details: Readonly<Record<string, unknown>> | null = null) {
     // Login: check common first, then auth-specific
     const msg = errorCodes[errorCode] ?? authErrorCodes[errorCode] ?? `Login Error: ${errorCode}`;
     super(errorCode, msg);
     this.name = 'LoginError';
+    this.details = details;
+  }
+}
+
+/**
+ * Login failed with error 400: no such account or wrong password. DSM
+ * does not report how many attempts remain before auto block or the
+ * account lockout steps in.
+ */
+export class WrongCredentialsError extends LoginError {
+  constructor(errorCode = 400, details: Readonly<Record<string, unknown>> | null = null) {
+    super(errorCode, details);
+    this.name = 'WrongCredentialsError';
+  }
+}
+
+/**
+ * Login failed with error 401: the account is disabled.
+ */
+export class AccountDisabledError extends LoginError {
+  constructor(errorCode = 401, details: Readonly<Record<string, unknown>> | null = null) {
+    super(errorCode, details);
+    this.name = 'AccountDisabledError';
+  }
+}
+
+/**
+ * Login failed with error 402: the account may not use the requested
+ * session, e.g. a non-admin account without access to DSM.
+ */
+export class LoginPermissionDeniedError extends LoginError {
+  constructor(errorCode = 402, details: Readonly<Record<string, unknown>> | null = null) {
+    super(errorCode, details);
+    this.name = 'LoginPermissionDeniedError';
+  }
+}
+
+/**
+ * Login needs a 2FA code: error 403, or 406 when 2FA is enforced for the
+ * account but not set up yet (`enforced`), which a code cannot fix.
+ */
+export class OtpRequiredError extends LoginError {
+  readonly enforced: boolean;
+  /** Second-factor types DSM offers (`errors.types`, e.g. 'otp'); empty when it lists none */
+  readonly methods: readonly string[];
+
+  constructor(errorCode = 403, details: Readonly<Record<string, unknown>> | null = null) {
+    super(errorCode, details);
+    this.name = 'OtpRequiredError';
+    this.enforced = errorCode === 406;
+    this.methods = parseOtpMethods(details?.['types']);
+  }
+}
+
+/**
+ * Login failed with error 404: the 2FA code was wrong or expired.
+ */
+export class OtpInvalidError extends LoginError {
+  constructor(errorCode = 404, details: Readonly<Record<string, unknown>> | null = null) {
+    super(errorCode, details);
+    this.name = 'OtpInvalidError';
   }
 }
 
+/**
+ * Login failed with error 407: DSM's auto block has blocked the client's
+ * IP address after too many failed logins. DSM sends nothing else with
+ * this code, so neither the blocked address (which may differ from the
+ * client's behind NAT or a proxy), the number of failed attempts nor the
+ * time the block lifts is available here; an administrator finds them in
+ * the auto-block list under Control Panel > Security.
+ */
+export class IpBlockedError extends LoginError {
+  constructor(errorCode = 407, details: Readonly<Record<string, unknown>> | null = null) {
+    super(errorCode, details);
+    this.name = 'IpBlockedError';
+  }
+}
+
+/**
+ * Login failed because the password expired (408, 409) or has to be
+ * changed (410). The password can be changed through
+ * SYNO.Core.User.PasswordExpiry unless `canChange` is false (408).
+ *
+ * Both fields follow from the error code: DSM reports neither when the
+ * password expired nor the expiry policy with the failure, and
+ * SYNO.Core.User.PasswordExpiry only answers a logged-in administrator.
+ */
+export class PasswordExpiredError extends LoginError {
+  /** Whether the user may set a new password, false for 408 */
+  readonly canChange: boolean;
+  /** Whether DSM demands a new password before the next login (410) rather than reporting expiry */
+  readonly mustChange: boolean;
+
+  constructor(errorCode = 409, details: Readonly<Record<string, unknown>> | null = null) {
+    super(errorCode, details);
+    this.name = 'PasswordExpiredError';
+    this.canChange = errorCode !== 408;
+    this.mustChange = errorCode === 410;
+  }
+}
+
+/**
+ * Login failed with error 411: the account is locked after too many
+ * failed attempts. DSM does not say when the lock lifts.
+ */
+export class AccountLockedError extends LoginError {
+  constructor(errorCode = 411, details: Readonly<Record<string, unknown>> | null = null) {
+    super(errorCode, details);
+    this.name = 'AccountLockedError';
+  }
+}
+
+/**
+ * The LoginError subclass for a SYNO.API.Auth login error code; codes
+ * without one get a plain LoginError.
+ */
+export function createLoginError(
+  errorCode: number,
+  details: Readonly<Record<string, unknown>> | null = null,
+): LoginError {
+  switch (errorCode) {
+    case 400: return new WrongCredentialsError(errorCode, details);
+    case 401: return new AccountDisabledError(errorCode, details);
+    case 402: return new LoginPermissionDeniedError(errorCode, details);
+    case 403:
+    case 406: return new OtpRequiredError(errorCode, details);
+    case 404: return new OtpInvalidError(errorCode, details);
+    case 407: return new IpBlockedError(errorCode, details);
+    case 408:
+    case 409:
+    case 410: return new PasswordExpiredError(errorCode, details);
+    case 411: return new AccountLockedError(errorCode, details);
+    default: return new LoginError(errorCode, details);
+  }
+}
+
+/** The type names of a 2FA failure's `errors.types`, given as strings or `{ type }` objects. */
+function parseOtpMethods(types: unknown): string[] {
+  if (!Array.isArray(types)) return [];
+  const methods: string[] = [];
+  for (const entry of types) {
+    const type: unknown = typeof entry === 'object' && entry !== null
+      ? (entry as Record<string, unknown>)['type']
+      : entry;
+    if (typeof type === 'string') methods.push(type);
+  }
+  return methods;
+}
+
 export class LogoutError extends SynoApiError {
   constructor(errorCode: number) {
     const msg = errorCodes[errorCode] ?? authErrorCodes[errorCode] ?? `Logout Error: ${errorCode}`;
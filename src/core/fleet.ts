@@ -0,0 +1,356 @@
+/**
+ * SynoFleet - one client per NAS, driven together.
+ *
+ * Hosts connect on their first call and stay connected until `close()`.
+ * Fleet calls never reject because of a single host: every call resolves
+ * to one HostResult per selected host, and each outcome also updates
+ * that host's health.
+ */
+import { SynoClient } from './client.ts';
+import {
+  LoginError,
+  SynoAbortError,
+  SynoBaseError,
+  SynoConnectionError,
+  SynoHttpError,
+  SynoJsonDecodeError,
+} from './errors.ts';
+import type { BaseModule } from '../modules/base-module.ts';
+import type { ClientConfig } from '../types/client.ts';
+import type { MethodArgs, MethodResult } from '../types/common.ts';
+import type {
+  FleetConfig,
+  FleetHostConfig,
+  FleetSelectOptions,
+  HostHealth,
+  HostResult,
+  HostStatus,
+} from '../types/fleet.ts';
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Module class a fleet instantiates once per host.
+ */
+export type ModuleClass<M extends BaseModule> = new (client: SynoClient) => M;
+
+/**
+ * Names of the methods of a module that return a promise.
+ */
+export type FleetMethod<M> = {
+  [K in keyof M]: M[K] extends (...args: never[]) => Promise<unknown> ? K : never;
+}[keyof M];
+
+/**
+ * Client, module instances and health of one host.
+ */
+class FleetMember {
+  readonly name: string;
+  readonly tags: readonly string[];
+  private readonly config: ClientConfig;
+  private client: SynoClient | null = null;
+  private connecting: Promise<SynoClient> | null = null;
+  private readonly modules = new Map<ModuleClass<BaseModule>, BaseModule>();
+  private health: HostHealth = 'unknown';
+  private lastError: unknown = null;
+  private lastCheckedAt: number | null = null;
+  private consecutiveFailures = 0;
+
+  constructor(config: FleetHostConfig) {
+    const { name = config.baseUrl ?? config.quickConnectId, tags = [], ...clientConfig } = config;
+    if (name === undefined) {
+      throw new Error('Fleet host has no baseUrl or quickConnectId');
+    }
+    const { account, password } = clientConfig;
+    if (account === undefined || password === undefined) {
+      throw new Error(`Fleet host ${name} has no account or password`);
+    }
+    this.config = { ...clientConfig, account, password };
+    this.name = name;
+    this.tags = tags;
+  }
+
+  get isHealthy(): boolean {
+    return this.health !== 'unhealthy';
+  }
+
+  /**
+   * The host's client, logged in. Concurrent callers share one login.
+   */
+  connect(): Promise<SynoClient> {
+    if (this.client?.isConnected) return Promise.resolve(this.client);
+    this.connecting ??= (async () => {
+      this.client ??= new SynoClient(this.config);
+      try {
+        await this.client.connect();
+        return this.client;
+      } finally {
+        this.connecting = null;
+      }
+    })();
+    return this.connecting;
+  }
+
+  module<M extends BaseModule>(Module: ModuleClass<M>, client: SynoClient): M {
+    let module = this.modules.get(Module);
+    if (!module) {
+      module = new Module(client);
+      this.modules.set(Module, module);
+    }
+    return module as M;
+  }
+
+  /**
+   * Run `fn` against the connected client and record the outcome.
+   */
+  async call<T>(fn: (client: SynoClient) => Promise<T>): Promise<T> {
+    try {
+      const value = await fn(await this.connect());
+      this.record(null);
+      return value;
+    } catch (error) {
+      this.record(error);
+      throw error;
+    }
+  }
+
+  status(): HostStatus {
+    return {
+      name: this.name,
+      tags: this.tags,
+      health: this.health,
+      connected: this.client?.isConnected ?? false,
+      lastError: this.lastError,
+      lastCheckedAt: this.lastCheckedAt,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.connecting?.catch(() => undefined);
+    const client = this.client;
+    this.client = null;
+    this.modules.clear();
+    if (client?.isConnected) await client.disconnect();
+  }
+
+  private record(error: unknown): void {
+    // An aborted call says nothing about the host
+    if (error instanceof SynoAbortError) return;
+
+    this.lastCheckedAt = Date.now();
+    this.lastError = error;
+    if (error === null) {
+      this.consecutiveFailures = 0;
+      this.health = 'healthy';
+      return;
+    }
+    this.consecutiveFailures++;
+    this.health = isHostFailure(error) ? 'unhealthy' : 'healthy';
+  }
+}
+
+/**
+ * A subset of a fleet's hosts, created with `fleet.select()`.
+ * Shares clients and health with the fleet it came from.
+ */
+export class FleetSelection {
+  private readonly members: readonly FleetMember[];
+  private readonly options: FleetSelectOptions;
+  private readonly concurrency: number;
+
+  constructor(members: readonly FleetMember[], options: FleetSelectOptions, concurrency: number) {
+    this.options = options;
+    this.concurrency = Math.max(1, options.concurrency ?? concurrency);
+    this.members = members.filter((member) =>
+      (options.hosts === undefined || options.hosts.includes(member.name))
+      && (options.tags === undefined || options.tags.some((tag) => member.tags.includes(tag))),
+    );
+  }
+
+  /** Names of the selected hosts. */
+  get hosts(): string[] {
+    return this.members.map((member) => member.name);
+  }
+
+  /**
+   * Call a module method on every selected host.
+   *
+   * @param Module - Module class, instantiated once per host
+   * @param method - Name of the method to call
+   * @param args - The method's arguments, passed to every host
+   */
+  run<M extends BaseModule, K extends FleetMethod<M>>(
+    Module: ModuleClass<M>,
+    method: K,
+    ...args: MethodArgs<M[K]>
+  ): Promise<Array<HostResult<MethodResult<M[K]>>>> {
+    return this.dispatch((member, client) => {
+      const module = member.module(Module, client);
+      const fn = module[method] as (...args: unknown[]) => Promise<MethodResult<M[K]>>;
+      return fn.apply(module, args);
+    });
+  }
+
+  /**
+   * Run `fn` with each selected host's client, e.g. to chain several calls
+   * or to pass per-host arguments.
+   */
+  each<T>(fn: (client: SynoClient, host: string) => Promise<T>): Promise<Array<HostResult<T>>> {
+    return this.dispatch((member, client) => fn(client, member.name));
+  }
+
+  /**
+   * Connect to every selected host and ping it with a SYNO.API.Info query.
+   */
+  checkHealth(): Promise<Array<HostResult<true>>> {
+    return this.dispatch(async (_member, client) => {
+      await client.request('SYNO.API.Info', 'query.cgi', {
+        version: 1,
+        method: 'query',
+        query: 'SYNO.API.Info',
+      }, { signal: this.options.signal });
+      return true as const;
+    });
+  }
+
+  /** Current status of the selected hosts. */
+  health(): HostStatus[] {
+    return this.members.map((member) => member.status());
+  }
+
+  private async dispatch<T>(
+    fn: (member: FleetMember, client: SynoClient) => Promise<T>,
+  ): Promise<Array<HostResult<T>>> {
+    const { signal, skipUnhealthy = false } = this.options;
+    const results: Array<HostResult<T>> = new Array(this.members.length);
+    const queue = this.members.map((member, index) => ({ member, index }));
+
+    const worker = async (): Promise<void> => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        const { member, index } = next;
+        if (signal?.aborted) {
+          results[index] = { host: member.name, status: 'skipped', reason: 'aborted' };
+          continue;
+        }
+        if (skipUnhealthy && !member.isHealthy) {
+          results[index] = { host: member.name, status: 'skipped', reason: 'unhealthy' };
+          continue;
+        }
+        const start = Date.now();
+        try {
+          const value = await member.call((client) => fn(member, client));
+          results[index] = { host: member.name, status: 'fulfilled', value, durationMs: Date.now() - start };
+        } catch (reason) {
+          results[index] = { host: member.name, status: 'rejected', reason, durationMs: Date.now() - start };
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, queue.length) }, worker));
+    return results;
+  }
+}
+
+/**
+ * Runs module methods across many NAS hosts with bounded concurrency.
+ *
+ * ```ts
+ * const fleet = new SynoFleet({ hosts, defaults: { account, password } });
+ * const results = await fleet.select({ tags: ['office'] }).run(CoreSysInfo, 'getSystemHealth');
+ * ```
+ */
+export class SynoFleet {
+  private readonly members: readonly FleetMember[];
+  private readonly concurrency: number;
+
+  constructor(config: FleetConfig) {
+    this.concurrency = config.concurrency ?? DEFAULT_CONCURRENCY;
+    this.members = config.hosts.map((host) => new FleetMember({ ...config.defaults, ...withoutUndefined(host) }));
+
+    const seen = new Set<string>();
+    for (const { name } of this.members) {
+      if (seen.has(name)) throw new Error(`Duplicate fleet host name: ${name}`);
+      seen.add(name);
+    }
+  }
+
+  /** Names of all hosts, in configuration order. */
+  get hosts(): string[] {
+    return this.members.map((member) => member.name);
+  }
+
+  /**
+   * The logged-in client of one host, connecting it if needed.
+   */
+  async client(host: string): Promise<SynoClient> {
+    const member = this.members.find(({ name }) => name === host);
+    if (!member) throw new Error(`Unknown fleet host: ${host}`);
+    return member.call(async (client) => client);
+  }
+
+  /**
+   * Narrow the hosts a call goes to, or change how it runs.
+   */
+  select(options: FleetSelectOptions = {}): FleetSelection {
+    return new FleetSelection(this.members, options, this.concurrency);
+  }
+
+  /**
+   * Call a module method on every host. See `FleetSelection.run()`.
+   */
+  run<M extends BaseModule, K extends FleetMethod<M>>(
+    Module: ModuleClass<M>,
+    method: K,
+    ...args: MethodArgs<M[K]>
+  ): Promise<Array<HostResult<MethodResult<M[K]>>>> {
+    return this.select().run(Module, method, ...args);
+  }
+
+  /**
+   * Run `fn` with every host's client. See `FleetSelection.each()`.
+   */
+  each<T>(fn: (client: SynoClient, host: string) => Promise<T>): Promise<Array<HostResult<T>>> {
+    return this.select().each(fn);
+  }
+
+  /**
+   * Connect to and ping every host. See `FleetSelection.checkHealth()`.
+   */
+  checkHealth(): Promise<Array<HostResult<true>>> {
+    return this.select().checkHealth();
+  }
+
+  /** Current status of every host, without contacting them. */
+  health(): HostStatus[] {
+    return this.members.map((member) => member.status());
+  }
+
+  /**
+   * Log out of every connected host. Logout failures are ignored.
+   */
+  async close(): Promise<void> {
+    await Promise.allSettled(this.members.map((member) => member.close()));
+  }
+}
+
+// ─── Utility ─────────────────────────────────────────────────────
+
+/**
+ * Drop keys set to undefined so they do not hide the fleet defaults.
+ */
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+/**
+ * Whether an error means the host itself is unreachable or unusable,
+ * as opposed to a failed call on a working host.
+ */
+function isHostFailure(error: unknown): boolean {
+  if (error instanceof LoginError) return true;
+  if (error instanceof SynoConnectionError || error instanceof SynoHttpError) return true;
+  if (error instanceof SynoJsonDecodeError) return true;
+  // ky's TimeoutError and HTTPError, and anything else outside the library
+  return !(error instanceof SynoBaseError);
+}
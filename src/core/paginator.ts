@@ -0,0 +1,93 @@
+/**
+ * Paginator - async iteration over offset/limit list endpoints.
+ */
+import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { Page, PaginateOptions, PaginationOptions } from '../types/common.ts';
+
+const DEFAULT_PAGE_SIZE = 200;
+
+/**
+ * Fetches one page given the offset and limit to request.
+ */
+export type PageFetcher<T> = (page: Required<PaginationOptions>) => Promise<Page<T>>;
+
+/**
+ * Iterates a paginated list endpoint page by page.
+ *
+ * Paging stops when the API's `total` is reached, when a page comes back
+ * empty, or short for endpoints without `total`, or once `maxItems` is
+ * collected.
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  private readonly fetchPage: PageFetcher<T>;
+  private readonly options: PaginateOptions;
+
+  constructor(fetchPage: PageFetcher<T>, options: PaginateOptions = {}) {
+    if (options.pageSize !== undefined && !(options.pageSize >= 1)) {
+      throw new Error(`pageSize must be at least 1, got ${options.pageSize}`);
+    }
+    this.fetchPage = fetchPage;
+    this.options = options;
+  }
+
+  /** Iterate whole pages instead of single items. */
+  async *pages(): AsyncGenerator<T[], void, undefined> {
+    const pageSize = this.options.pageSize ?? DEFAULT_PAGE_SIZE;
+    let remaining = this.options.maxItems ?? Infinity;
+    let offset = this.options.offset ?? 0;
+
+    while (remaining > 0) {
+      const limit = Math.min(pageSize, remaining);
+      const { items, total } = await this.fetchPage({ offset, limit });
+
+      const page = items.length > remaining ? items.slice(0, remaining) : items;
+      if (page.length > 0) yield page;
+
+      remaining -= page.length;
+      offset += items.length;
+
+      // An empty page ends paging even below `total`, which would never be reached
+      if (items.length === 0) return;
+      if (total !== undefined ? offset >= total : items.length < limit) return;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page;
+    }
+  }
+
+  /** Fetch every page and return all items. */
+  async collectAll(): Promise<T[]> {
+    const all: T[] = [];
+    for await (const page of this.pages()) {
+      all.push(...page);
+    }
+    return all;
+  }
+}
+
+/**
+ * Build a Paginator over a module list method.
+ *
+ * @param fetch - Calls the list method with the given offset/limit and call options
+ * @param itemsKey - Key of the item array in the response data, e.g. 'files'
+ * @param options - Page size, start offset, item cap and abort signal
+ */
+export function paginate<T = unknown>(
+  fetch: (page: Required<PaginationOptions>, callOptions: CallOptions) => Promise<SynoResponse>,
+  itemsKey: string,
+  options?: PaginateOptions,
+): Paginator<T> {
+  return new Paginator<T>(async (page) => {
+    const response = await fetch(page, { signal: options?.signal });
+    const data = (response.data ?? {}) as Record<string, unknown>;
+    const items = data[itemsKey];
+    return {
+      items: Array.isArray(items) ? items as T[] : [],
+      total: typeof data['total'] === 'number' ? data['total'] : undefined,
+    };
+  }, options);
+}
@@ -0,0 +1,205 @@
+/**
+ * QuickConnect: finding a NAS by its QuickConnect ID through Synology's
+ * directory (Serv.php), then probing its LAN, DDNS and relay addresses.
+ */
+import { createHash } from 'node:crypto';
+import type {
+  QuickConnectAttempt,
+  QuickConnectEndpoint,
+  QuickConnectEndpointKind,
+  QuickConnectResolveContext,
+  QuickConnectResolver,
+  QuickConnectResolverConfig,
+  QuickConnectServerInfo,
+} from '../types/quickconnect.ts';
+import { SynoHttpError, SynoQuickConnectError } from './errors.ts';
+import { describeError } from './diagnostics.ts';
+
+const DEFAULT_DIRECTORY_URL = 'https://global.quickconnect.to';
+const DEFAULT_ORDER: readonly QuickConnectEndpointKind[] = ['lan', 'ddns', 'relay'];
+const DEFAULT_TIMEOUT_MS = 5_000;
+// Referrals to regional directories followed before giving up
+const MAX_REFERRALS = 3;
+
+/**
+ * Answer of /webman/pingpong.cgi, which DSM serves without a login.
+ */
+interface PingPong {
+  readonly success?: boolean;
+  readonly boot_done?: boolean;
+  /** MD5 of the server ID, telling this NAS apart from others on the same address */
+  readonly ezid?: string;
+}
+
+/**
+ * Resolves QuickConnect IDs the way DSM's own clients do: asks the
+ * directory for the NAS's addresses, then probes them in order (LAN,
+ * DDNS, relay) and returns the first one where the NAS answers.
+ *
+ * ```ts
+ * // A local stand-in for the directory, e.g. MockQuickConnectServer
+ * const resolver = new QuickConnectDirectoryResolver({ directoryUrl: 'http://127.0.0.1:8080', protocol: 'http' });
+ * const client = new SynoClient({ quickConnectId: 'my-nas', quickConnectResolver: resolver, account, password });
+ * ```
+ */
+export class QuickConnectDirectoryResolver implements QuickConnectResolver {
+  private readonly directoryUrl: string;
+  private readonly protocol: 'http' | 'https';
+  private readonly order: readonly QuickConnectEndpointKind[];
+  private readonly timeoutMs: number;
+
+  constructor(config: QuickConnectResolverConfig = {}) {
+    this.directoryUrl = (config.directoryUrl ?? DEFAULT_DIRECTORY_URL).replace(/\/+$/, '');
+    this.protocol = config.protocol ?? 'https';
+    this.order = config.order ?? DEFAULT_ORDER;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async resolve(id: string, context: QuickConnectResolveContext): Promise<QuickConnectEndpoint> {
+    const info = await this.getServerInfo(id);
+    const serverId = info.server?.serverID ?? id;
+    const attempts: QuickConnectAttempt[] = [];
+
+    for (const kind of this.order) {
+      let urls: string[];
+      try {
+        urls = kind === 'relay' ? await this.relayUrls(id, info) : this.directUrls(kind, info);
+      } catch (error) {
+        attempts.push({ kind, url: this.controlUrl(info), error: describeError(error) });
+        continue;
+      }
+      for (const url of urls) {
+        const error = await this.probe(url, serverId, context);
+        if (error === null) return { id, kind, url };
+        attempts.push({ kind, url, error });
+      }
+    }
+
+    const tried = attempts.map((attempt) => `${attempt.kind} ${attempt.url}: ${attempt.error}`).join('; ');
+    throw new SynoQuickConnectError(
+      `No address of QuickConnect ID '${id}' answered${tried ? ` (${tried})` : ''}`,
+      id,
+      attempts,
+    );
+  }
+
+  /**
+   * Ask the directory where the NAS is, following referrals to the
+   * directory of the ID's region.
+   */
+  async getServerInfo(id: string): Promise<QuickConnectServerInfo> {
+    let url = `${this.directoryUrl}/Serv.php`;
+    for (let referrals = 0; referrals <= MAX_REFERRALS; referrals++) {
+      const info = await this.post(url, this.command('get_server_info', id));
+      if (info.errno === 0) return info;
+
+      const site = info.sites?.[0];
+      if (site === undefined) {
+        throw new SynoQuickConnectError(
+          `QuickConnect ID '${id}' is unknown to ${url} (errno ${info.errno}${info.suberrno !== undefined ? `/${info.suberrno}` : ''})`,
+          id,
+        );
+      }
+      url = `${new URL(this.directoryUrl).protocol}//${site}/Serv.php`;
+    }
+    throw new SynoQuickConnectError(`Too many QuickConnect directory referrals for '${id}'`, id);
+  }
+
+  // ─── Addresses ─────────────────────────────────────────────────
+
+  private directUrls(kind: 'lan' | 'ddns', info: QuickConnectServerInfo): string[] {
+    const { server, service } = info;
+    const port = service?.port;
+    if (kind === 'lan') {
+      return unique((server?.interface ?? []).map((entry) => this.url(entry.ip, port)));
+    }
+    // Without port forwarding the DDNS name only works where the LAN port is open
+    const externalPort = service?.ext_port || port;
+    return unique([server?.ddns, server?.fqdn, server?.external?.ip].map((host) => this.url(host, externalPort)));
+  }
+
+  /**
+   * Relay addresses from the server info, or from a tunnel the directory's
+   * control host sets up when the info has none.
+   */
+  private async relayUrls(id: string, info: QuickConnectServerInfo): Promise<string[]> {
+    let service = info.service;
+    if (!service?.relay_dn && !service?.relay_ip) {
+      if (!info.env?.control_host) return [];
+      const tunnel = await this.post(this.controlUrl(info), this.command('request_tunnel', id));
+      if (tunnel.errno !== 0) {
+        throw new SynoQuickConnectError(`Relay tunnel for '${id}' refused (errno ${tunnel.errno})`, id);
+      }
+      service = tunnel.service;
+    }
+    return unique([service?.relay_dn, service?.relay_ip].map((host) => this.url(host, service?.relay_port)));
+  }
+
+  private controlUrl(info: QuickConnectServerInfo): string {
+    return `${new URL(this.directoryUrl).protocol}//${info.env?.control_host ?? new URL(this.directoryUrl).host}/Serv.php`;
+  }
+
+  private url(host: string | undefined, port: number | undefined): string | null {
+    if (!host || host === 'NULL' || !port) return null;
+    return `${this.protocol}://${host.includes(':') ? `[${host}]` : host}:${port}`;
+  }
+
+  // ─── Requests ──────────────────────────────────────────────────
+
+  /**
+   * Whether the NAS answers at `url`: null when it does, else the reason.
+   */
+  private async probe(url: string, serverId: string, context: QuickConnectResolveContext): Promise<string | null> {
+    try {
+      const response = await context.fetch(`${url}/webman/pingpong.cgi?action=cors&quickconnect=true`, {
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (!response.ok) return `HTTP ${response.status}`;
+      const pong = await response.json() as PingPong;
+      if (pong.success !== true || pong.boot_done === false) return 'DSM is not ready';
+      if (pong.ezid !== undefined && pong.ezid !== quickConnectEzid(serverId)) return 'A different NAS answered';
+      return null;
+    } catch (error) {
+      return describeError(error);
+    }
+  }
+
+  private command(command: string, id: string): Record<string, unknown> {
+    return {
+      version: 1,
+      command,
+      stop_when_error: false,
+      stop_when_success: false,
+      id: `mainapp_${this.protocol}`,
+      serverID: id,
+      is_gofile: false,
+      path: '',
+    };
+  }
+
+  private async post(url: string, command: Record<string, unknown>): Promise<QuickConnectServerInfo> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify([command]),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new SynoHttpError(`QuickConnect directory ${url} answered HTTP ${response.status}`);
+    }
+    const [info] = await response.json() as QuickConnectServerInfo[];
+    if (!info) throw new SynoHttpError(`QuickConnect directory ${url} sent an empty answer`);
+    return info;
+  }
+}
+
+// ─── Utility ─────────────────────────────────────────────────────
+
+/** The `ezid` DSM's pingpong.cgi reports for a server ID. */
+export function quickConnectEzid(serverId: string): string {
+  return createHash('md5').update(serverId).digest('hex');
+}
+
+function unique(urls: ReadonlyArray<string | null>): string[] {
+  return [...new Set(urls.filter((url): url is string => url !== null))];
+}
@@ -0,0 +1,119 @@
+/**
+ * Retry policy resolution and backoff for SynoClient requests.
+ *
+ * Only read-only API methods are retried by default, since replaying a
+ * create or delete that reached the NAS could apply it twice.
+ */
+import { HTTPError, TimeoutError } from 'ky';
+import { SynoAbortError, SynoApiError, SynoConnectionError } from './errors.ts';
+import type { RetryPolicy } from '../types/client.ts';
+
+/** Retry settings with every default filled in. */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  jitter: true,
+  retryableErrorCodes: [],
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryNonIdempotent: false,
+};
+
+// Leading or trailing words of DSM method names that only read state,
+// e.g. 'list', 'getinfo', 'list_share', 'cnt_get', 'get_remotearch_subfolder'.
+const READ_ONLY_WORDS = new Set([
+  'get', 'getinfo', 'list', 'query', 'status', 'info', 'check', 'count', 'load', 'read',
+]);
+
+// Leading verbs that change state whatever follows,
+// e.g. 'update_status', 'ResetPeopleCount', 'delete_list'.
+const MUTATING_WORDS = new Set([
+  'set', 'update', 'reset', 'delete', 'remove', 'create', 'add', 'edit', 'modify', 'change',
+  'save', 'apply', 'enable', 'disable', 'start', 'stop', 'restart', 'run', 'cancel', 'clear',
+  'rename', 'move', 'copy', 'upload', 'import', 'install', 'uninstall', 'restore', 'lock', 'unlock',
+]);
+
+/**
+ * Whether a DSM API method only reads state and is safe to replay.
+ */
+export function isReadOnlyMethod(method: string): boolean {
+  const words = method
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .split(/[_\-.]/)
+    .filter(Boolean);
+  if (words.length === 0 || MUTATING_WORDS.has(words[0]!)) return false;
+  return READ_ONLY_WORDS.has(words[0]!) || READ_ONLY_WORDS.has(words[words.length - 1]!);
+}
+
+/**
+ * Merge the client policy with a per-call override and decide whether the
+ * call may be retried at all. Returns null when it must not be retried.
+ *
+ * @param clientPolicy - `ClientConfig.retry`
+ * @param callPolicy - `RequestOptions.retry`
+ * @param readOnly - Whether every method in the request is read-only
+ */
+export function resolveRetryPolicy(
+  clientPolicy: RetryPolicy | false | undefined,
+  callPolicy: RetryPolicy | false | undefined,
+  readOnly: boolean,
+): ResolvedRetryPolicy | null {
+  if (callPolicy === false) return null;
+  if (!clientPolicy && !callPolicy) return null;
+
+  const policy: ResolvedRetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    ...(clientPolicy || {}),
+    ...(callPolicy ?? {}),
+  };
+  if (policy.maxAttempts <= 1) return null;
+  if (!policy.retryNonIdempotent && !readOnly) return null;
+  return policy;
+}
+
+/**
+ * Whether a failed attempt is worth retrying under the given policy.
+ * Network errors and timeouts always are; HTTP statuses and DSM error
+ * codes only when listed in the policy.
+ */
+export function isRetryableError(error: unknown, policy: ResolvedRetryPolicy): boolean {
+  if (error instanceof SynoApiError) return policy.retryableErrorCodes.includes(error.errorCode);
+  if (error instanceof HTTPError) return policy.retryableStatuses.includes(error.response.status);
+  return error instanceof SynoConnectionError || error instanceof TimeoutError;
+}
+
+/**
+ * Delay before the next attempt: exponential backoff capped at
+ * `maxDelayMs`, with full jitter when enabled.
+ *
+ * @param attempt - The attempt that just failed, starting at 1
+ */
+export function retryDelay(attempt: number, policy: ResolvedRetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return policy.jitter ? Math.floor(Math.random() * ceiling) : ceiling;
+}
+
+/**
+ * Wait before a retry, rejecting with SynoAbortError as soon as the
+ * signal aborts.
+ */
+export function sleep(apiName: string, ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new SynoAbortError(apiName, signal.reason));
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new SynoAbortError(apiName, signal!.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,182 @@
+/**
+ * Client-side request scheduler.
+ *
+ * Caps how many requests are in flight and how fast new ones start, so a
+ * busy script does not overwhelm a small NAS. Requests are grouped into
+ * buckets by API-name prefix (e.g. 'SYNO.SurveillanceStation'), each with
+ * its own limits, and queued in priority lanes within a bucket.
+ */
+import { SynoAbortError } from './errors.ts';
+import type {
+  QueueMetricsContext,
+  RequestPriority,
+  SchedulerConfig,
+  SchedulerLimits,
+} from '../types/client.ts';
+
+const PRIORITIES: readonly RequestPriority[] = ['high', 'normal', 'low'];
+
+// Bucket name used when no prefix override matches.
+const DEFAULT_BUCKET = '*';
+
+interface QueuedRequest {
+  readonly apiName: string;
+  readonly enqueuedAt: number;
+  start(): void;
+}
+
+class Bucket {
+  readonly name: string;
+  private readonly limits: SchedulerLimits;
+  private readonly report: (metrics: QueueMetricsContext) => void;
+  private readonly lanes: Record<RequestPriority, QueuedRequest[]> = { high: [], normal: [], low: [] };
+  private inFlight = 0;
+  private nextStartAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    name: string,
+    limits: SchedulerLimits,
+    report: (metrics: QueueMetricsContext) => void,
+  ) {
+    this.name = name;
+    this.limits = limits;
+    this.report = report;
+  }
+
+  get queued(): number {
+    return this.lanes.high.length + this.lanes.normal.length + this.lanes.low.length;
+  }
+
+  snapshot(): { queued: number; inFlight: number } {
+    return { queued: this.queued, inFlight: this.inFlight };
+  }
+
+  /** Wait for a slot, run the task, then release the slot. */
+  async run<T>(
+    apiName: string,
+    priority: RequestPriority,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (signal?.aborted) throw new SynoAbortError(apiName, signal.reason);
+
+    await new Promise<void>((resolve, reject) => {
+      const lane = this.lanes[priority];
+      const onAbort = (): void => {
+        // Leave the queue without taking a slot
+        lane.splice(lane.indexOf(request), 1);
+        this.emit('cancel', apiName, Date.now() - request.enqueuedAt);
+        reject(new SynoAbortError(apiName, signal!.reason));
+      };
+      const request: QueuedRequest = {
+        apiName,
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      lane.push(request);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.emit('enqueue', apiName, 0);
+      this.pump();
+    });
+
+    try {
+      return await task();
+    } finally {
+      this.inFlight--;
+      this.emit('finish', apiName, 0);
+      this.pump();
+    }
+  }
+
+  private pump(): void {
+    const maxInFlight = this.limits.maxInFlight ?? Infinity;
+    const rps = this.limits.requestsPerSecond;
+    const interval = rps ? 1000 / rps : 0;
+
+    while (this.queued > 0 && this.inFlight < maxInFlight) {
+      const now = Date.now();
+      if (now < this.nextStartAt) {
+        // Rate limited: come back when the next start slot opens
+        this.timer ??= setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, this.nextStartAt - now);
+        return;
+      }
+
+      const lane = PRIORITIES.find((priority) => this.lanes[priority].length > 0)!;
+      const request = this.lanes[lane].shift()!;
+      this.inFlight++;
+      this.nextStartAt = Math.max(now, this.nextStartAt) + interval;
+      this.emit('start', request.apiName, now - request.enqueuedAt);
+      request.start();
+    }
+  }
+
+  private emit(event: QueueMetricsContext['event'], apiName: string, waitMs: number): void {
+    this.report({
+      event,
+      bucket: this.name,
+      apiName,
+      queued: this.queued,
+      inFlight: this.inFlight,
+      waitMs,
+    });
+  }
+}
+
+export class RequestScheduler {
+  private readonly config: SchedulerConfig;
+  private readonly report: (metrics: QueueMetricsContext) => void;
+  private readonly buckets: Map<string, Bucket> = new Map();
+  // Override prefixes, longest first so the most specific one wins
+  private readonly prefixes: string[];
+
+  constructor(config: SchedulerConfig, report: (metrics: QueueMetricsContext) => void) {
+    this.config = config;
+    this.report = report;
+    this.prefixes = Object.keys(config.overrides ?? {}).sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Run a request once its bucket has a free slot.
+   *
+   * @param apiName - API name, used to pick the bucket
+   * @param priority - Lane to queue in; 'high' requests start before 'normal' and 'low'
+   * @param task - Sends the request
+   * @param signal - Removes the request from the queue when aborted
+   */
+  schedule<T>(
+    apiName: string,
+    priority: RequestPriority,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    return this.bucketFor(apiName).run(apiName, priority, task, signal);
+  }
+
+  /** Current queue length and in-flight count per bucket. */
+  metrics(): Array<{ bucket: string; queued: number; inFlight: number }> {
+    return [...this.buckets.values()].map((bucket) => ({
+      bucket: bucket.name,
+      ...bucket.snapshot(),
+    }));
+  }
+
+  private bucketFor(apiName: string): Bucket {
+    const prefix = this.prefixes.find((p) => apiName.startsWith(p));
+    const name = prefix ?? DEFAULT_BUCKET;
+
+    let bucket = this.buckets.get(name);
+    if (!bucket) {
+      const limits = prefix !== undefined ? this.config.overrides![prefix]! : this.config;
+      bucket = new Bucket(name, limits, this.report);
+      this.buckets.set(name, bucket);
+    }
+    return bucket;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Minimal runtime schemas for validating API response data.
+ *
+ * A schema is a function that checks a value and returns the first
+ * mismatch it finds, or null. Object schemas only check the listed keys,
+ * so extra fields added by newer DSM versions are accepted.
+ */
+
+/**
+ * A mismatch between a response and its schema.
+ */
+export interface SchemaIssue {
+  /** JSON path of the offending value, e.g. '$.files[3].additional.size' */
+  readonly path: string;
+  /** Description of the expected value, e.g. 'number' */
+  readonly expected: string;
+  /** Type of the value actually received */
+  readonly received: string;
+}
+
+export type Schema = (value: unknown, path: string) => SchemaIssue | null;
+
+// Marks object keys that may be absent.
+const OPTIONAL = Symbol('optional');
+
+type OptionalSchema = Schema & { readonly [OPTIONAL]: true };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive(expected: 'string' | 'number' | 'boolean'): Schema {
+  return (value, path) => (typeof value === expected ? null : { path, expected, received: describe(value) });
+}
+
+export const string: Schema = primitive('string');
+export const number: Schema = primitive('number');
+export const boolean: Schema = primitive('boolean');
+
+/** Accepts any value. */
+export const unknown: Schema = () => null;
+
+/** One of the given literal values. */
+export function literal(...values: Array<string | number | boolean>): Schema {
+  return (value, path) => (values.includes(value as string | number | boolean)
+    ? null
+    : { path, expected: values.map((v) => JSON.stringify(v)).join(' | '), received: JSON.stringify(value) ?? 'undefined' });
+}
+
+/** Any of the given schemas. */
+export function union(...schemas: Schema[]): Schema {
+  return (value, path) => {
+    let first: SchemaIssue | null = null;
+    for (const schema of schemas) {
+      const issue = schema(value, path);
+      if (!issue) return null;
+      first ??= issue;
+    }
+    return first;
+  };
+}
+
+/** An array whose items all match `item`. */
+export function array(item: Schema): Schema {
+  return (value, path) => {
+    if (!Array.isArray(value)) return { path, expected: 'array', received: describe(value) };
+    for (let i = 0; i < value.length; i++) {
+      const issue = item(value[i], `${path}[${i}]`);
+      if (issue) return issue;
+    }
+    return null;
+  };
+}
+
+/** An object whose listed keys match their schemas; wrap a schema in optional() to allow the key to be absent. */
+export function object(shape: Record<string, Schema>): Schema {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return { path, expected: 'object', received: describe(value) };
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, schema] of Object.entries(shape)) {
+      const keyPath = `${path}.${key}`;
+      if (!(key in record) || record[key] === undefined) {
+        if (OPTIONAL in schema) continue;
+        return { path: keyPath, expected: 'present', received: 'undefined' };
+      }
+      const issue = schema(record[key], keyPath);
+      if (issue) return issue;
+    }
+    return null;
+  };
+}
+
+/** Allow an object key to be absent. */
+export function optional(schema: Schema): OptionalSchema {
+  const wrapped: Schema = (value, path) => (value === undefined ? null : schema(value, path));
+  return Object.assign(wrapped, { [OPTIONAL]: true as const });
+}
+
+/**
+ * Check a value against a schema, with paths rooted at '$'.
+ */
+export function validateSchema(schema: Schema, value: unknown): SchemaIssue | null {
+  return schema(value, '$');
+}
@@ -0,0 +1,145 @@
+/**
+ * Session stores for persisting and resuming SynoClient sessions.
+ */
+import { randomBytes } from 'node:crypto';
+import { readFile, writeFile, mkdir, rename, rm } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type { SessionData, SessionStore } from '../types/client.ts';
+
+/**
+ * Keeps sessions in process memory. Useful for sharing a session between
+ * several SynoClient instances in the same process.
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly sessions: Map<string, SessionData> = new Map();
+  private readonly deviceTokens: Map<string, string> = new Map();
+
+  async load(key: string): Promise<SessionData | null> {
+    return this.sessions.get(key) ?? null;
+  }
+
+  async save(key: string, data: SessionData): Promise<void> {
+    this.sessions.set(key, data);
+  }
+
+  async clear(key: string): Promise<void> {
+    this.sessions.delete(key);
+  }
+
+  async loadDeviceToken(key: string): Promise<string | null> {
+    return this.deviceTokens.get(key) ?? null;
+  }
+
+  async saveDeviceToken(key: string, token: string): Promise<void> {
+    this.deviceTokens.set(key, token);
+  }
+}
+
+// Entry of the session file holding trusted-device tokens by key
+const DEVICE_TOKENS_KEY = '#deviceTokens';
+
+// Pending updates by resolved file path, shared by every store in the process
+const fileQueues: Map<string, Promise<void>> = new Map();
+
+/**
+ * Keeps sessions in a JSON file, keyed by account and NAS URL.
+ * The file is written with owner-only permissions since it holds live SIDs
+ * and trusted-device tokens. Updates to the same file are applied one after
+ * another within the process, so clients sharing it keep each other's
+ * entries; separate processes writing the same file are not coordinated.
+ */
+export class FileSessionStore implements SessionStore {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(key: string): Promise<SessionData | null> {
+    if (key === DEVICE_TOKENS_KEY) return null;
+    const sessions = await this.readAll();
+    return (sessions[key] as SessionData | undefined) ?? null;
+  }
+
+  async save(key: string, data: SessionData): Promise<void> {
+    await this.update((sessions) => {
+      sessions[key] = data;
+      return true;
+    });
+  }
+
+  async clear(key: string): Promise<void> {
+    await this.update((sessions) => {
+      if (!(key in sessions)) return false;
+      delete sessions[key];
+      return true;
+    });
+  }
+
+  async loadDeviceToken(key: string): Promise<string | null> {
+    const tokens = (await this.readAll())[DEVICE_TOKENS_KEY] as Record<string, string> | undefined;
+    return tokens?.[key] ?? null;
+  }
+
+  async saveDeviceToken(key: string, token: string): Promise<void> {
+    await this.update((sessions) => {
+      sessions[DEVICE_TOKENS_KEY] = { ...(sessions[DEVICE_TOKENS_KEY] as Record<string, string> | undefined), [key]: token };
+      return true;
+    });
+  }
+
+  /**
+   * Read, change and write the file after every earlier update to it has
+   * finished. `change` returns false when nothing needs writing.
+   */
+  private update(change: (sessions: Record<string, unknown>) => boolean): Promise<void> {
+    const path = resolve(this.filePath);
+    const run = (fileQueues.get(path) ?? Promise.resolve()).then(async () => {
+      const sessions = await this.readAll();
+      if (change(sessions)) await this.writeAll(sessions);
+    });
+    // A failed update must not block the ones queued after it
+    const tail = run.catch(() => undefined);
+    fileQueues.set(path, tail);
+    void tail.then(() => {
+      if (fileQueues.get(path) === tail) fileQueues.delete(path);
+    });
+    return run;
+  }
+
+  private async readAll(): Promise<Record<string, unknown>> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+    try {
+      const parsed: unknown = JSON.parse(text);
+      return typeof parsed === 'object' && parsed !== null
+        ? parsed as Record<string, unknown>
+        : {};
+    } catch {
+      // A corrupt file is treated as empty and overwritten on next save
+      return {};
+    }
+  }
+
+  /**
+   * Write through a new owner-only file renamed over the old one: `mode`
+   * applies only to files writeFile creates, so a session file that was
+   * once readable by others would otherwise stay that way.
+   */
+  private async writeAll(sessions: Record<string, unknown>): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(sessions, null, 2), { mode: 0o600, flag: 'wx' });
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Per-client TLS for SynoClient: a fetch that trusts a custom CA, pins the
+ * NAS certificate or skips verification for this client's requests only.
+ *
+ * On Node.js the settings go into an undici dispatcher; on Bun into the
+ * `tls` option of its fetch.
+ */
+import { connect } from 'node:tls';
+import type { PeerCertificate, TLSSocket } from 'node:tls';
+import { isIP } from 'node:net';
+import type { TlsConfig } from '../types/client.ts';
+import { SynoConnectionError } from './errors.ts';
+
+type Fetch = (input: Request | URL | string, init?: RequestInit) => Promise<Response>;
+type Pem = string | Buffer | Array<string | Buffer>;
+
+/**
+ * TLS settings after applying the defaults.
+ */
+export interface ResolvedTls {
+  readonly ca: Pem | undefined;
+  readonly cert: TlsConfig['cert'];
+  readonly key: TlsConfig['key'];
+  readonly passphrase: string | undefined;
+  /** Normalized SHA-256 fingerprints, empty when not pinning */
+  readonly pins: readonly string[];
+  readonly insecure: boolean;
+}
+
+/**
+ * The fetch for a client, or undefined when the runtime defaults apply
+ * (verification against the system roots).
+ */
+export function createTlsFetch(tls: ResolvedTls): Fetch | undefined {
+  if (!tls.insecure && tls.pins.length === 0 && tls.ca === undefined && tls.cert === undefined) return undefined;
+  return typeof globalThis.Bun !== 'undefined' ? createBunFetch(tls) : createNodeFetch(tls);
+}
+
+/**
+ * Apply the defaults: without `ca` or pinned fingerprints, certificates
+ * are verified only when `certVerify` is true, as NAS certificates are
+ * mostly self-signed.
+ */
+export function resolveTls(certVerify: boolean | undefined, config: TlsConfig = {}): ResolvedTls {
+  const pins = [config.fingerprint256 ?? []].flat().map(normalizeFingerprint);
+  return {
+    ca: isPemList(config.ca) ? [...config.ca] : config.ca,
+    cert: config.cert,
+    key: config.key,
+    passphrase: config.passphrase,
+    pins,
+    insecure: config.insecure ?? (certVerify !== true && config.ca === undefined && pins.length === 0),
+  };
+}
+
+/** Whether a certificate fingerprint is one of the pins. */
+export function matchesPin(fingerprint256: string, pins: readonly string[]): boolean {
+  const fingerprint = normalizeFingerprint(fingerprint256);
+  return fingerprint !== '' && pins.includes(fingerprint);
+}
+
+/** Uppercase hex without separators, so 'ab:cd' and 'ABCD' compare equal. */
+export function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/[^0-9a-f]/gi, '').toUpperCase();
+}
+
+// ─── Node.js ─────────────────────────────────────────────────────
+
+function createNodeFetch(tls: ResolvedTls): Fetch {
+  // Loaded on first use, so Bun never needs undici
+  let dispatcher: Promise<unknown> | null = null;
+  const getDispatcher = async (): Promise<unknown> => {
+    const { Agent, buildConnector } = await import('undici');
+    const connector = buildConnector({
+      ca: tls.ca,
+      cert: tls.cert,
+      key: tls.key,
+      passphrase: tls.passphrase,
+      // A pinned certificate replaces the CA and host name checks
+      rejectUnauthorized: !tls.insecure && tls.pins.length === 0,
+      // Resumed sessions skip the handshake the pin is checked against
+      maxCachedSessions: tls.pins.length > 0 ? 0 : undefined,
+    });
+    if (tls.pins.length === 0) return new Agent({ connect: connector });
+
+    return new Agent({
+      connect: (options, callback) => connector(options, (error, socket) => {
+        if (error) return callback(error, null);
+        const mismatch = 'getPeerCertificate' in socket ? checkPin((socket as TLSSocket).getPeerCertificate(), tls.pins) : null;
+        if (!mismatch) return callback(null, socket);
+        socket.destroy();
+        callback(mismatch, null);
+      }),
+    });
+  };
+
+  return async (input, init) => {
+    dispatcher ??= getDispatcher();
+    // `dispatcher` is Node's extension of RequestInit
+    return globalThis.fetch(input, { ...init, dispatcher: await dispatcher } as RequestInit);
+  };
+}
+
+// ─── Bun ─────────────────────────────────────────────────────────
+
+function createBunFetch(tls: ResolvedTls): Fetch {
+  const base = {
+    ca: tls.ca,
+    cert: tls.cert,
+    key: tls.key,
+    passphrase: tls.passphrase,
+  };
+  if (tls.pins.length === 0) {
+    return (input, init) => globalThis.fetch(input, { ...init, tls: { ...base, rejectUnauthorized: !tls.insecure } });
+  }
+
+  // Bun honours checkServerIdentity only after the chain verifies, so the
+  // root of the pinned server's chain is trusted as its CA
+  const anchors = new Map<string, Promise<Pem>>();
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (url.protocol !== 'https:') return globalThis.fetch(input, init);
+
+    let anchor: Promise<Pem> | undefined = tls.ca !== undefined ? Promise.resolve(tls.ca) : anchors.get(url.host);
+    if (!anchor) {
+      anchor = fetchPinnedRoot(url, tls.pins);
+      anchor.catch(() => anchors.delete(url.host));
+      anchors.set(url.host, anchor);
+    }
+    return globalThis.fetch(input, {
+      ...init,
+      tls: {
+        ...base,
+        ca: await anchor,
+        rejectUnauthorized: true,
+        checkServerIdentity: (_host: string, certificate: PeerCertificate) => checkPin(certificate, tls.pins) ?? undefined,
+      },
+    });
+  };
+}
+
+/**
+ * PEM of the root of the chain `url` presents, after checking that its
+ * certificate matches a pin.
+ */
+function fetchPinnedRoot(url: URL, pins: readonly string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const socket = connect({
+      host,
+      port: Number(url.port || 443),
+      servername: isIP(host) === 0 ? host : undefined,
+      rejectUnauthorized: false,
+    });
+    socket.once('error', reject);
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate(true);
+      socket.end();
+      const mismatch = checkPin(certificate, pins);
+      if (mismatch) return reject(mismatch);
+
+      let root = certificate;
+      while (root.issuerCertificate && root.issuerCertificate !== root) root = root.issuerCertificate;
+      resolve(toPem(root.raw));
+    });
+  });
+}
+
+// ─── Utility ─────────────────────────────────────────────────────
+
+/** An error when the certificate matches none of the pinned fingerprints. */
+function checkPin(certificate: PeerCertificate, pins: readonly string[]): SynoConnectionError | null {
+  if (matchesPin(certificate.fingerprint256 ?? '', pins)) return null;
+  return new SynoConnectionError(
+    `NAS certificate fingerprint ${certificate.fingerprint256 ?? '(none)'} does not match the pinned fingerprint256`,
+  );
+}
+
+function isPemList(ca: TlsConfig['ca']): ca is ReadonlyArray<string | Buffer> {
+  return Array.isArray(ca);
+}
+
+function toPem(der: Buffer): string {
+  const lines = der.toString('base64').match(/.{1,64}/g) ?? [];
+  return `-----BEGIN CERTIFICATE-----\n${lines.join('\n')}\n-----END CERTIFICATE-----\n`;
+}
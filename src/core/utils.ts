@@ -3,8 +3,11 @@
  * Ported from Python synology_api/utils.py
  */
 import { randomBytes } from 'node:crypto';
+import { createReadStream } from 'node:fs';
 import { readFile, stat } from 'node:fs/promises';
 import { basename } from 'node:path';
+import { Readable } from 'node:stream';
+import type { UploadFilePart } from '../types/client.ts';
 
 /**
  * Read a local file as a Blob with metadata.
@@ -33,6 +36,90 @@ export async function readLocalFile(filePath: string): Promise<{
   return { blob: new Blob([buffer]), size: stats.size, name };
 }
 
+/**
+ * Stat a local file and return a factory for streaming its content.
+ * Each call to `open()` starts a fresh read, so uploads can be replayed.
+ */
+export async function openLocalFile(filePath: string): Promise<{
+  name: string;
+  size: number;
+  mtimeMs: number;
+  birthtimeMs: number;
+  atimeMs: number;
+  open: () => ReadableStream<Uint8Array>;
+}> {
+  const stats = await stat(filePath).catch(() => null);
+  if (!stats || !stats.isFile()) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const open = typeof globalThis.Bun !== 'undefined'
+    ? () => Bun.file(filePath).stream()
+    : () => Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+
+  return {
+    name: basename(filePath),
+    size: stats.size,
+    mtimeMs: Math.floor(stats.mtimeMs),
+    birthtimeMs: Math.floor(stats.birthtimeMs),
+    atimeMs: Math.floor(stats.atimeMs),
+    open,
+  };
+}
+
+/**
+ * Build a streamed multipart/form-data body: text fields first, then the file.
+ * The file is read lazily, so memory use stays flat regardless of size.
+ *
+ * @param boundary - Multipart boundary (see generateGeckoBoundary)
+ * @param fields - Text fields sent before the file part
+ * @param file - The file part
+ * @param onChunk - Called with the running count of file bytes sent
+ */
+export function buildMultipartStream(
+  boundary: string,
+  fields: Record<string, string>,
+  file: UploadFilePart,
+  onChunk?: (loadedBytes: number) => void,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const quote = (value: string): string => value.replace(/"/g, '%22').replace(/[\r\n]/g, ' ');
+
+  let head = '';
+  for (const [key, value] of Object.entries(fields)) {
+    head += `--${boundary}\r\nContent-Disposition: form-data; name="${quote(key)}"\r\n\r\n${value}\r\n`;
+  }
+  head += `--${boundary}\r\nContent-Disposition: form-data; name="${quote(file.fieldName)}"; `
+    + `filename="${quote(file.fileName)}"\r\nContent-Type: application/octet-stream\r\n\r\n`;
+  const tail = `\r\n--${boundary}--\r\n`;
+
+  const openReader = () => file.open().getReader();
+  let reader: ReturnType<typeof openReader> | null = null;
+  let loaded = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (reader === null) {
+        reader = openReader();
+        controller.enqueue(encoder.encode(head));
+        return;
+      }
+      const { done, value } = await reader.read();
+      if (!done) {
+        loaded += value.byteLength;
+        controller.enqueue(value);
+        onChunk?.(loaded);
+        return;
+      }
+      controller.enqueue(encoder.encode(tail));
+      controller.close();
+    },
+    async cancel(reason) {
+      await reader?.cancel(reason);
+    },
+  });
+}
+
 /**
  * Merge two record objects. Values from `b` override `a`.
  */
@@ -130,6 +217,35 @@ export async function buildUploadFormData(
   return formData;
 }
 
+/**
+ * Convert a glob pattern to a RegExp matched against POSIX relative paths.
+ * Supports `*` (within a segment), `**` (across segments) and `?`.
+ * Patterns without a '/' match the file name at any depth.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]!;
+    if (ch === '*' && pattern[i + 1] === '*') {
+      // '**/' matches zero or more whole directories
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(pattern.includes('/') ? `^${source}$` : `(?:^|/)${source}$`);
+}
+
 /**
  * Convert boolean values in a params object to lowercase strings.
  * Synology API expects "true"/"false" strings.
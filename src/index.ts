@@ -1,15 +1,51 @@
 // Core
 export { SynoClient } from './core/client.ts';
 export { BaseModule } from './modules/base-module.ts';
+export { MemorySessionStore, FileSessionStore } from './core/session-store.ts';
+export { generateTotp } from './core/otp.ts';
+export { QuickConnectDirectoryResolver } from './core/quickconnect.ts';
+export { BackgroundTask } from './core/background-task.ts';
+export { Paginator, paginate } from './core/paginator.ts';
+export type { PageFetcher } from './core/paginator.ts';
+export * as schema from './core/schema.ts';
+export { validateSchema } from './core/schema.ts';
+export type { Schema, SchemaIssue } from './core/schema.ts';
+export { DEFAULT_RETRY_POLICY, isReadOnlyMethod } from './core/retry.ts';
+export { RequestScheduler } from './core/scheduler.ts';
+export { CompoundBuilder } from './core/compound.ts';
+export type { CompoundMethod, CompoundResult } from './core/compound.ts';
+export { selectVersion } from './core/capabilities.ts';
+export { SynoFleet, FleetSelection } from './core/fleet.ts';
+export type { FleetMethod, ModuleClass } from './core/fleet.ts';
+export type {
+  BackgroundTaskOptions,
+  BackgroundTaskHandlers,
+  TaskProgress,
+} from './core/background-task.ts';
 
 // Errors
 export {
   SynoBaseError,
   SynoConnectionError,
+  SynoQuickConnectError,
   SynoHttpError,
   SynoJsonDecodeError,
+  SynoTaskTimeoutError,
+  SynoTaskCancelledError,
+  SynoAbortError,
+  SynoSchemaError,
+  SynoCompoundSkippedError,
+  SynoUnsupportedApiError,
   SynoApiError,
   LoginError,
+  WrongCredentialsError,
+  AccountDisabledError,
+  LoginPermissionDeniedError,
+  OtpRequiredError,
+  OtpInvalidError,
+  IpBlockedError,
+  PasswordExpiredError,
+  AccountLockedError,
   LogoutError,
   DownloadStationError,
   FileStationError,
@@ -41,6 +77,7 @@ export {
   SurveillanceStationError,
   UndefinedError,
   dispatchApiError,
+  createLoginError,
   getErrorMessage,
 } from './core/errors.ts';
 
@@ -48,6 +85,7 @@ export {
 export {
   CODE_SUCCESS,
   CODE_UNKNOWN,
+  SESSION_EXPIRED_CODES,
   errorCodes,
   authErrorCodes,
   downloadStationErrorCodes,
@@ -61,20 +99,131 @@ export {
 } from './core/error-codes.ts';
 
 // Types
-export type { ApiInfo, ApiListMap, SynoResponse } from './types/api-info.ts';
+export type {
+  ApiInfo,
+  ApiListMap,
+  SynoResponse,
+  VersionRange,
+  ResolvedApi,
+  MethodCapability,
+  ModuleCapabilities,
+} from './types/api-info.ts';
 export type {
   ClientConfig,
   ClientEvent,
   BeforeRequestContext,
   AfterResponseContext,
+  ReauthenticateContext,
+  OtpRequiredContext,
+  DiagnosticReport,
+  DiagnosticStep,
+  DiagnosticStepName,
+  RetryContext,
+  RetryPolicy,
+  SchedulerConfig,
+  SchedulerLimits,
+  RequestPriority,
+  QueueMetricsContext,
+  CallOptions,
   RequestOptions,
+  TlsConfig,
+  ApiCallOptions,
+  BinaryResponse,
+  UploadProgressContext,
+  UploadFilePart,
+  UploadRequestOptions,
   CompoundEntry,
   BatchOptions,
+  CompoundOptions,
+  SessionData,
+  SessionStore,
 } from './types/client.ts';
-export type { SortDirection, PaginationOptions, FolderMeta } from './types/common.ts';
+export type {
+  SortDirection,
+  PaginationOptions,
+  PaginateOptions,
+  Page,
+  FolderMeta,
+  MethodArgs,
+  MethodResult,
+} from './types/common.ts';
+export type {
+  QuickConnectEndpointKind,
+  QuickConnectEndpoint,
+  QuickConnectAttempt,
+  QuickConnectResolveContext,
+  QuickConnectResolver,
+  QuickConnectResolverConfig,
+  QuickConnectServerInfo,
+} from './types/quickconnect.ts';
+export type {
+  FleetHostConfig,
+  FleetHostOptions,
+  FleetConfig,
+  HostHealth,
+  HostStatus,
+  FleetSelectOptions,
+  HostResult,
+} from './types/fleet.ts';
+export type {
+  UploadSource,
+  UploadFileOptions,
+  UploadDirectoryOptions,
+  UploadDirectoryResult,
+  SyncDirection,
+  SyncOptions,
+  SyncAction,
+  SyncResult,
+  TaskStartData,
+  TaskStatusData,
+  FileOwner,
+  FileTime,
+  FileAcl,
+  FilePerm,
+  SharePerm,
+  VolumeStatus,
+  FileAdditionalFields,
+  FileAdditional,
+  DefaultFileAdditional,
+  DefaultFileInfoAdditional,
+  DefaultSearchAdditional,
+  ShareAdditionalFields,
+  ShareAdditional,
+  WithAdditional,
+  FileStationFile,
+  FileStationShare,
+  ShareListData,
+  FileListData,
+  FileInfoData,
+  SearchListData,
+  CreateFolderData,
+  RenameData,
+  SharingLink,
+  SharingLinkListData,
+  SharingLinkCreateData,
+  CopyMoveStatus,
+  DeleteStatus,
+  ExtractStatus,
+  ArchiveItem,
+  ArchiveListData,
+  CompressStatus,
+  DirSizeStatus,
+  Md5Status,
+  BackgroundTaskInfo,
+  BackgroundTaskListData,
+} from './types/file-station.ts';
 
 // Utils
-export { validatePath, mergeDicts, makeFolderMetaListFromPath, buildUploadFormData, readLocalFile } from './core/utils.ts';
+export {
+  validatePath,
+  mergeDicts,
+  makeFolderMetaListFromPath,
+  buildUploadFormData,
+  buildMultipartStream,
+  readLocalFile,
+  openLocalFile,
+  globToRegExp,
+} from './core/utils.ts';
 
 // Encryption
 export { aesEncrypt } from './core/encryption/aes-cipher.ts';
@@ -106,6 +255,7 @@ export { DownloadStation } from './modules/download-station.ts';
 export { Photos } from './modules/photos.ts';
 export { Docker } from './modules/docker.ts';
 export { FileStation } from './modules/file-station.ts';
+export { FileSync } from './modules/file-sync.ts';
 export { CoreSysInfo } from './modules/core-sys-info.ts';
 export { ActiveBackup } from './modules/active-backup.ts';
 export { ActiveBackupMicrosoft } from './modules/abm.ts';
@@ -3,7 +3,11 @@
  * Ported from Python synology_api/abm.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 /** Schedule configuration for a task. */
 interface TaskScheduleConfig {
@@ -93,7 +97,7 @@ export class ActiveBackupMicrosoft extends BaseModule {
   /**
    * Remove readonly/unnecessary fields from task info before sending updates.
    */
-  private trimTaskInfo(taskInfo: TaskInfo): TaskInfo {
+  #trimTaskInfo(taskInfo: TaskInfo): TaskInfo {
     const trimmed = { ...taskInfo };
 
     // Remove unnecessary / readonly fields
@@ -116,15 +120,14 @@ export class ActiveBackupMicrosoft extends BaseModule {
   /**
    * Retrieve all tasks.
    */
-  async getTasks(): Promise<SynoResponse<TaskListData>> {
+  async getTasks(callOptions?: CallOptions): Promise<SynoResponse<TaskListData>> {
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request<TaskListData>(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list_tasks',
-    });
+    }, callOptions);
   }
 
   /**
@@ -132,18 +135,27 @@ export class ActiveBackupMicrosoft extends BaseModule {
    *
    * @param offset - Log offset. Defaults to 0.
    * @param limit  - Maximum number of logs. Defaults to 200.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async getPackageLog(offset = 0, limit = 200): Promise<SynoResponse> {
+  async getPackageLog(offset = 0, limit = 200, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'get_general_log',
       offset,
       limit,
-    });
+    }, callOptions);
+  }
+
+  /** Iterate all general package logs, fetching them page by page. */
+  iteratePackageLog(paginateOptions?: PaginateOptions): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getPackageLog(page.offset, page.limit, callOptions),
+      'logs',
+      paginateOptions,
+    );
   }
 
   /**
@@ -153,56 +165,68 @@ export class ActiveBackupMicrosoft extends BaseModule {
    * @param limit   - Maximum number of logs. Defaults to 200.
    * @param offset  - Log offset. Defaults to 0.
    * @param keyWord - Optional keyword filter. Defaults to ''.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async getTaskLog(
     taskId: number,
     limit = 200,
     offset = 0,
     keyWord = '',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'get_all_log',
       task_id: taskId,
       limit,
       offset,
       key_word: keyWord,
-    });
+    }, callOptions);
+  }
+
+  /** Iterate all logs of a task, fetching them page by page. */
+  iterateTaskLog(taskId: number, keyWord = '', paginateOptions?: PaginateOptions): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getTaskLog(taskId, page.limit, page.offset, keyWord, callOptions),
+      'logs',
+      paginateOptions,
+    );
   }
 
   /**
    * Retrieve the settings of a task.
    *
    * @param taskId - The task ID.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async getTaskSetting(taskId: number): Promise<SynoResponse<TaskSettingData>> {
+  async getTaskSetting(
+    taskId: number,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<TaskSettingData>> {
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request<TaskSettingData>(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'get_task_setting',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
    * Get the number of workers for the Active Backup for Microsoft 365 package.
    */
-  async getWorkerCount(): Promise<SynoResponse<WorkerCountData>> {
+  async getWorkerCount(callOptions?: CallOptions): Promise<SynoResponse<WorkerCountData>> {
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request<WorkerCountData>(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'get_worker_count',
-    });
+    }, callOptions);
   }
 
   /**
@@ -213,17 +237,19 @@ export class ActiveBackupMicrosoft extends BaseModule {
    *
    * @param backupJobWorkers - Maximum concurrent backup accounts. Defaults to 40.
    * @param eventWorkers     - Maximum concurrent backup files. Defaults to 40.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async setWorkerCount(
     backupJobWorkers = 40,
     eventWorkers = 40,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     if (backupJobWorkers < 5 || eventWorkers < 5) {
       throw new Error('The number of workers must be at least 5.');
     }
 
     // Clamp to the maximum allowed by the NAS
-    const response = await this.getWorkerCount();
+    const response = await this.getWorkerCount(callOptions);
     if (!response.data) {
       throw new Error('Failed to retrieve current worker count.');
     }
@@ -238,15 +264,14 @@ export class ActiveBackupMicrosoft extends BaseModule {
     );
 
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'update_worker_count',
       backup_job_worker_count: clampedBackupJobWorkers,
       event_worker_count: clampedEventWorkers,
-    });
+    }, callOptions);
   }
 
   /**
@@ -255,11 +280,13 @@ export class ActiveBackupMicrosoft extends BaseModule {
    * @param taskId   - The task ID.
    * @param policy   - Schedule policy: 0 = continuous, 1 = manual, 2 = scheduled.
    * @param schedule - Schedule configuration (required when policy is 2).
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async setTaskSchedule(
     taskId: number,
     policy: 0 | 1 | 2,
     schedule?: TaskScheduleConfig,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     if (policy === 2 && !schedule) {
       throw new Error(
@@ -279,12 +306,12 @@ export class ActiveBackupMicrosoft extends BaseModule {
       throw new Error('Invalid schedule provided.');
     }
 
-    const settingResponse = await this.getTaskSetting(taskId);
+    const settingResponse = await this.getTaskSetting(taskId, callOptions);
     if (!settingResponse.data) {
       throw new Error('Failed to retrieve task setting.');
     }
 
-    const taskInfo = this.trimTaskInfo(settingResponse.data.task_info);
+    const taskInfo = this.#trimTaskInfo(settingResponse.data.task_info);
 
     if (policy !== 2) {
       taskInfo.backup_policy = policy;
@@ -307,15 +334,14 @@ export class ActiveBackupMicrosoft extends BaseModule {
     }
 
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'set_task_setting',
       task_id: taskId,
       task_info: JSON.stringify(taskInfo),
-    });
+    }, callOptions);
   }
 
   /**
@@ -323,17 +349,19 @@ export class ActiveBackupMicrosoft extends BaseModule {
    *
    * @param taskId     - The task ID.
    * @param daysToKeep - Days to keep previous versions. 0 means keep all.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async setRotationPolicy(
     taskId: number,
     daysToKeep: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
-    const settingResponse = await this.getTaskSetting(taskId);
+    const settingResponse = await this.getTaskSetting(taskId, callOptions);
     if (!settingResponse.data) {
       throw new Error('Failed to retrieve task setting.');
     }
 
-    const taskInfo = this.trimTaskInfo(settingResponse.data.task_info);
+    const taskInfo = this.#trimTaskInfo(settingResponse.data.task_info);
 
     if (daysToKeep === 0) {
       taskInfo.rotation_policy = 0;
@@ -343,32 +371,31 @@ export class ActiveBackupMicrosoft extends BaseModule {
     }
 
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'set_task_setting',
       task_id: taskId,
       task_info: JSON.stringify(taskInfo),
-    });
+    }, callOptions);
   }
 
   /**
    * Manually run backup for a given task.
    *
    * @param taskId - The task ID.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async runBackup(taskId: number): Promise<SynoResponse> {
+  async runBackup(taskId: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'backup_task',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -376,9 +403,10 @@ export class ActiveBackupMicrosoft extends BaseModule {
    * Returns undefined if the task is not currently running (status !== 4).
    *
    * @param taskId - The task ID.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async cancelBackup(taskId: number): Promise<SynoResponse | undefined> {
-    const tasksResponse = await this.getTasks();
+  async cancelBackup(taskId: number, callOptions?: CallOptions): Promise<SynoResponse | undefined> {
+    const tasksResponse = await this.getTasks(callOptions);
     if (!tasksResponse.data) {
       throw new Error('Failed to retrieve tasks.');
     }
@@ -397,16 +425,15 @@ export class ActiveBackupMicrosoft extends BaseModule {
     }
 
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'cancel_task',
       task_id: taskId,
       job_id: matchingTask.job_id,
       job_type: 0,
-    });
+    }, callOptions);
   }
 
   /**
@@ -418,21 +445,22 @@ export class ActiveBackupMicrosoft extends BaseModule {
    * @param removeData - Whether to remove backup data in the NAS. Defaults to false.
    *                     If true, all task data is permanently lost and the task
    *                     cannot be relinked in the future.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async deleteTask(
     taskId: number,
     removeData = false,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'delete_task',
       task_id: taskId,
       should_remove_storage: removeData,
-    });
+    }, callOptions);
   }
 
   /**
@@ -445,6 +473,7 @@ export class ActiveBackupMicrosoft extends BaseModule {
    *                      (e.g. '/ActiveBackupForMicrosoft365/task_1').
    * @param adminEmail  - The Microsoft 365 administrator email.
    * @param region      - The Microsoft 365 account region. Defaults to 'Microsoft 365'.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async relinkTask(
     taskName: string,
@@ -452,6 +481,7 @@ export class ActiveBackupMicrosoft extends BaseModule {
     localPath: string,
     adminEmail: string,
     region = 'Microsoft 365',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const taskInfo: RelinkTaskInfo = {
       selected: true,
@@ -463,13 +493,12 @@ export class ActiveBackupMicrosoft extends BaseModule {
     };
 
     const apiName = ActiveBackupMicrosoft.API_NAME;
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'relink_task',
       task_info: JSON.stringify(taskInfo),
-    });
+    }, callOptions);
   }
 }
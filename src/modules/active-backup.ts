@@ -3,7 +3,11 @@
  * Ported from Python synology_api/core_active_backup.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 /** Log level filter values. */
 type LogLevel = 'error' | 'warning' | 'information';
@@ -87,7 +91,7 @@ export class ActiveBackup extends BaseModule {
   /**
    * Build a filter dictionary for API requests based on provided options.
    */
-  private createFilter(options: FilterOptions): Record<string, unknown> {
+  #createFilter(options: FilterOptions): Record<string, unknown> {
     const filter: Record<string, unknown> = {};
 
     if (options.keyword) {
@@ -121,33 +125,31 @@ export class ActiveBackup extends BaseModule {
   /**
    * Get the package settings including certificate information.
    */
-  async getSettings(): Promise<SynoResponse> {
+  async getSettings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /**
    * Set the maximum number of concurrent devices that can be backed up
    * at the same time. Effective starting from the next backup.
    */
-  async setConcurrentDevices(value: number): Promise<SynoResponse> {
+  async setConcurrentDevices(value: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     const settings = [{ name: 'max_concurrent_devices', value: String(value) }];
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'set',
       settings: JSON.stringify(settings),
-    });
+    }, callOptions);
   }
 
   /**
@@ -155,11 +157,15 @@ export class ActiveBackup extends BaseModule {
    *
    * @param hour - Hour in 24-hour format (0-23).
    * @param minute - Minute (0-59).
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async setRetentionPolicyExecTime(hour: number, minute: number): Promise<SynoResponse> {
+  async setRetentionPolicyExecTime(
+    hour: number,
+    minute: number,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     const settings = [
       { name: 'retention_run_hour', value: String(hour) },
@@ -167,10 +173,10 @@ export class ActiveBackup extends BaseModule {
     ];
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'set',
       settings: JSON.stringify(settings),
-    });
+    }, callOptions);
   }
 
   /**
@@ -181,14 +187,15 @@ export class ActiveBackup extends BaseModule {
    *
    * @param trafficControl - Enable/disable traffic control and bandwidth in MB/s.
    * @param ipRange - Optional IP range [start, end] for targeted bandwidth control (IPv4 only).
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async setTrafficThrottle(
     trafficControl: TrafficControl = { enable: false, bandwidth: 0 },
     ipRange: [string, string] = ['', ''],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     const settings: Array<{ name: string; value: string }> = [];
 
@@ -213,40 +220,38 @@ export class ActiveBackup extends BaseModule {
     }
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'set',
       settings: JSON.stringify(settings),
-    });
+    }, callOptions);
   }
 
   /**
    * Set whether to use the self-signed certificate provided by the package.
    */
-  async setUsePkgCert(usePackageCert: boolean): Promise<SynoResponse> {
+  async setUsePkgCert(usePackageCert: boolean, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'set',
       settings: '[]',
       cert_use_package: usePackageCert,
-    });
+    }, callOptions);
   }
 
   /**
    * Get a list of all configured hypervisors present in ABB.
    */
-  async listVmHypervisor(): Promise<SynoResponse> {
+  async listVmHypervisor(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Inventory';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /**
@@ -255,21 +260,22 @@ export class ActiveBackup extends BaseModule {
    *
    * @param timeStart - Start time in epoch seconds. Defaults to 24 hours ago.
    * @param timeEnd - End time in epoch seconds. Defaults to current time.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async listDeviceTransferSize(
     timeStart: number = Math.floor(Date.now() / 1000) - 86400,
     timeEnd: number = Math.floor(Date.now() / 1000),
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Overview';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list_device_transfer_size',
       time_start: timeStart,
       time_end: timeEnd,
-    });
+    }, callOptions);
   }
 
   /**
@@ -281,6 +287,7 @@ export class ActiveBackup extends BaseModule {
    * @param fromDate - Only include tasks with last backup >= this epoch seconds.
    * @param toDate - Only include tasks with last backup <= this epoch seconds.
    * @param includeVersions - Whether to include version information.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async listTasks(
     taskId = -1,
@@ -289,12 +296,12 @@ export class ActiveBackup extends BaseModule {
     fromDate = 0,
     toDate = 0,
     includeVersions = false,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
-    const filter: Record<string, unknown> = this.createFilter({
+    const filter: Record<string, unknown> = this.#createFilter({
       backupType: backupType || undefined,
       taskStatus: status || undefined,
       fromDate,
@@ -307,14 +314,14 @@ export class ActiveBackup extends BaseModule {
     }
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list',
       load_status: true,
       load_result: true,
       load_devices: true,
       load_versions: includeVersions,
       filter: JSON.stringify(filter),
-    });
+    }, callOptions);
   }
 
   /**
@@ -328,6 +335,7 @@ export class ActiveBackup extends BaseModule {
    * @param toDate - End date in epoch seconds.
    * @param offset - Result offset.
    * @param limit - Maximum number of results.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async listLogs(
     taskId = -1,
@@ -337,12 +345,12 @@ export class ActiveBackup extends BaseModule {
     toDate = 0,
     offset = 0,
     limit = 200,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
-    const filter = this.createFilter({
+    const filter = this.#createFilter({
       logLevel: logLevel || undefined,
       keyword: keyword || undefined,
       fromDate,
@@ -350,7 +358,7 @@ export class ActiveBackup extends BaseModule {
     });
 
     const params: Record<string, unknown> = {
-      version: 1,
+      version: info.version,
       method: 'list_log',
       offset,
       limit,
@@ -361,7 +369,38 @@ export class ActiveBackup extends BaseModule {
       params['task_id'] = taskId;
     }
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
+  }
+
+  /**
+   * Iterate the logs of the package, tasks and devices, fetching them page
+   * by page. The log API reports a count rather than a total, so paging
+   * stops at the first short page.
+   */
+  iterateLogs(
+    filter: {
+      taskId?: number;
+      logLevel?: LogLevel | '';
+      keyword?: string;
+      fromDate?: number;
+      toDate?: number;
+    } = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.listLogs(
+        filter.taskId,
+        filter.logLevel,
+        filter.keyword,
+        filter.fromDate,
+        filter.toDate,
+        page.offset,
+        page.limit,
+        callOptions,
+      ),
+      'logs',
+      paginateOptions,
+    );
   }
 
   /**
@@ -376,6 +415,7 @@ export class ActiveBackup extends BaseModule {
    * @param toDate - End date in epoch seconds.
    * @param offset - Result offset.
    * @param limit - Maximum number of results.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async taskHistory(
     taskId = -1,
@@ -387,12 +427,12 @@ export class ActiveBackup extends BaseModule {
     toDate = 0,
     offset = 0,
     limit = 200,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
-    const filter = this.createFilter({
+    const filter = this.#createFilter({
       resultStatus: status || undefined,
       keyword: keyword || undefined,
       backupType: backupType || undefined,
@@ -402,7 +442,7 @@ export class ActiveBackup extends BaseModule {
     });
 
     const params: Record<string, unknown> = {
-      version: 1,
+      version: info.version,
       method: 'list_result',
       offset,
       limit,
@@ -413,7 +453,41 @@ export class ActiveBackup extends BaseModule {
       params['task_id'] = taskId;
     }
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
+  }
+
+  /**
+   * Iterate the history of task execution, fetching it page by page. Like
+   * the logs, paging stops at the first short page.
+   */
+  iterateTaskHistory(
+    filter: {
+      taskId?: number;
+      status?: ResultStatus | '';
+      keyword?: string;
+      backupType?: BackupType | '';
+      actionType?: ActionType | '';
+      fromDate?: number;
+      toDate?: number;
+    } = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.taskHistory(
+        filter.taskId,
+        filter.status,
+        filter.keyword,
+        filter.backupType,
+        filter.actionType,
+        filter.fromDate,
+        filter.toDate,
+        page.offset,
+        page.limit,
+        callOptions,
+      ),
+      'results',
+      paginateOptions,
+    );
   }
 
   /**
@@ -423,74 +497,74 @@ export class ActiveBackup extends BaseModule {
    * @param limit - Maximum number of results.
    * @param orderBy - Field to order results by ('log_level' or 'log_time').
    * @param direction - Sort direction ('ASC' or 'DESC').
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async resultDetails(
     resultId: number,
     limit = 500,
     orderBy: 'log_level' | 'log_time' = 'log_level',
     direction: 'ASC' | 'DESC' = 'ASC',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list_result_detail',
       result_id: resultId,
       limit,
       order_by: orderBy,
       direction,
-    });
+    }, callOptions);
   }
 
   /**
    * Get a list of all storage devices present in ABB.
    */
-  async listStorage(): Promise<SynoResponse> {
+  async listStorage(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Share';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list_storage',
-    });
+    }, callOptions);
   }
 
   /**
    * Trigger a backup event for the given tasks.
    *
    * @param taskIds - List of task IDs to trigger backup for.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async backupTaskRun(taskIds: number[]): Promise<SynoResponse> {
+  async backupTaskRun(taskIds: number[], callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'backup',
       task_ids: JSON.stringify(taskIds),
       trigger_type: '1',
-    });
+    }, callOptions);
   }
 
   /**
    * Cancel specified ongoing tasks.
    *
    * @param taskIds - List of task IDs to cancel.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async backupTaskCancel(taskIds: number[]): Promise<SynoResponse> {
+  async backupTaskCancel(taskIds: number[], callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'cancel',
       task_ids: JSON.stringify(taskIds),
-    });
+    }, callOptions);
   }
 
   /**
@@ -499,17 +573,17 @@ export class ActiveBackup extends BaseModule {
    * The backed up data will NOT be preserved after this operation.
    *
    * @param taskIds - List of task IDs to remove.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async backupTaskRemove(taskIds: number[]): Promise<SynoResponse> {
+  async backupTaskRemove(taskIds: number[], callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'remove',
       task_ids: JSON.stringify(taskIds),
-    });
+    }, callOptions);
   }
 
   /**
@@ -519,20 +593,21 @@ export class ActiveBackup extends BaseModule {
    *
    * @param taskId - Task ID from which to delete the versions.
    * @param versionIds - List of version IDs to delete.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async backupTaskDeleteVersions(
     taskId: number,
     versionIds: number[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveBackup.Version';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'delete',
       task_id: taskId,
       version_ids: JSON.stringify(versionIds),
-    });
+    }, callOptions);
   }
 }
@@ -4,119 +4,111 @@
  */
 import { BaseModule } from './base-module.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
 
 export class AudioStation extends BaseModule {
   protected readonly application = 'AudioStation';
 
-  async getInfo(): Promise<SynoResponse> {
+  async getInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.AudioStation.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'getinfo',
-    });
+    }, callOptions);
   }
 
-  async getPlaylistInfo(): Promise<SynoResponse> {
+  async getPlaylistInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.AudioStation.Playlist';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'list',
       library: 'all',
       limit: '100000',
-      version: info.maxVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 
-  async listRemotePlayers(): Promise<SynoResponse> {
+  async listRemotePlayers(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.AudioStation.RemotePlayer';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'list',
       type: 'all',
       additional: 'subplayer_list',
-      version: info.maxVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 
-  async listPinnedSongs(): Promise<SynoResponse> {
+  async listPinnedSongs(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.AudioStation.Pin';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'list',
-      version: info.maxVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 
-  async getDevicePlaylist(deviceId: string): Promise<SynoResponse> {
+  async getDevicePlaylist(deviceId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.AudioStation.RemotePlayer';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'getplaylist',
       id: deviceId,
-      version: info.maxVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 
-  async remotePlay(deviceId: string): Promise<SynoResponse> {
+  async remotePlay(deviceId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.AudioStation.RemotePlayer';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'control',
       id: deviceId,
-      version: info.maxVersion,
+      version: info.version,
       action: 'play',
-    });
+    }, callOptions);
   }
 
-  async remoteStop(deviceId: string): Promise<SynoResponse> {
+  async remoteStop(deviceId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.AudioStation.RemotePlayer';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'control',
       id: deviceId,
-      version: info.maxVersion,
+      version: info.version,
       action: 'stop',
-    });
+    }, callOptions);
   }
 
-  async remoteNext(deviceId: string): Promise<SynoResponse> {
+  async remoteNext(deviceId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.AudioStation.RemotePlayer';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'control',
       id: deviceId,
-      version: info.maxVersion,
+      version: info.version,
       action: 'next',
-    });
+    }, callOptions);
   }
 
-  async remotePrev(deviceId: string): Promise<SynoResponse> {
+  async remotePrev(deviceId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.AudioStation.RemotePlayer';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'control',
       id: deviceId,
-      version: info.maxVersion,
+      version: info.version,
       action: 'prev',
-    });
+    }, callOptions);
   }
 }
@@ -3,8 +3,16 @@
  * Ported from Python base_api.py BaseApi class.
  */
 import type { SynoClient } from '../core/client.ts';
-import type { ApiInfo, SynoResponse } from '../types/api-info.ts';
-import type { RequestOptions, CompoundEntry, BatchOptions } from '../types/client.ts';
+import type { ApiInfo, ResolvedApi, SynoResponse, VersionRange } from '../types/api-info.ts';
+import type {
+  CallOptions,
+  RequestOptions,
+  CompoundEntry,
+  BatchOptions,
+  BinaryResponse,
+  UploadFilePart,
+  UploadRequestOptions,
+} from '../types/client.ts';
 
 export abstract class BaseModule {
   protected readonly client: SynoClient;
@@ -26,15 +34,40 @@ export abstract class BaseModule {
     return this.client.getApiInfo(apiName);
   }
 
+  /**
+   * Get the path and version to call an API with.
+   * Throws SynoUnsupportedApiError when the NAS lacks the API or offers
+   * no version in `versions`.
+   *
+   * @param apiName - API name
+   * @param versions - Versions the calling method was written for, defaults to any
+   */
+  protected requireApi(apiName: string, versions?: VersionRange): ResolvedApi {
+    return this.client.resolveApi(apiName, versions);
+  }
+
   /**
    * Send a request to a Synology API.
+   * Pass `rawResponse: true` for endpoints that return a file instead of JSON.
    */
+  protected request(
+    apiName: string,
+    apiPath: string,
+    params: Record<string, unknown>,
+    options: RequestOptions & { readonly rawResponse: true },
+  ): Promise<BinaryResponse>;
   protected request<T = unknown>(
     apiName: string,
     apiPath: string,
     params: Record<string, unknown>,
     options?: RequestOptions,
-  ): Promise<SynoResponse<T>> {
+  ): Promise<SynoResponse<T>>;
+  protected request<T = unknown>(
+    apiName: string,
+    apiPath: string,
+    params: Record<string, unknown>,
+    options?: RequestOptions,
+  ): Promise<SynoResponse<T> | BinaryResponse> {
     return this.client.request<T>(apiName, apiPath, params, options);
   }
 
@@ -56,7 +89,22 @@ export abstract class BaseModule {
     apiPath: string,
     formData: FormData,
     queryParams?: Record<string, unknown>,
+    options?: CallOptions,
+  ): Promise<SynoResponse<T>> {
+    return this.client.uploadRequest<T>(apiName, apiPath, formData, queryParams, options);
+  }
+
+  /**
+   * Upload a file as a streamed multipart body with progress and cancellation.
+   */
+  protected uploadStreamRequest<T = unknown>(
+    apiName: string,
+    apiPath: string,
+    fields: Record<string, string>,
+    file: UploadFilePart,
+    queryParams: Record<string, unknown>,
+    options?: UploadRequestOptions,
   ): Promise<SynoResponse<T>> {
-    return this.client.uploadRequest<T>(apiName, apiPath, formData, queryParams);
+    return this.client.uploadStreamRequest<T>(apiName, apiPath, fields, file, queryParams, options);
   }
 }
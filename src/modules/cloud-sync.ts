@@ -8,7 +8,11 @@
  * Tested clouds: Google Drive, OneDrive, Dropbox, Amazon S3 (task creation).
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 import { mergeDicts, makeFolderMetaListFromPath } from '../core/utils.ts';
 
 /** Sync direction options for task configuration. */
@@ -64,86 +68,86 @@ export class CloudSync extends BaseModule {
   /**
    * Retrieve package settings.
    */
-  async getPkgConfig(): Promise<SynoResponse> {
+  async getPkgConfig(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get_config',
-    });
+    }, callOptions);
   }
 
   /**
    * Retrieve a list of current cloud connections.
    *
    * @param groupBy - How to group connections: 'group_by_user' or 'group_by_cloud_type'
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async getConnections(
     groupBy: 'group_by_user' | 'group_by_cloud_type' = 'group_by_user',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'list_conn',
       is_tray: false,
       group_by: groupBy,
-    });
+    }, callOptions);
   }
 
   /**
    * Retrieve settings for a specific connection.
    *
    * @param connId - The connection ID, obtained from getConnections()
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async getConnectionSettings(connId: number): Promise<SynoResponse> {
+  async getConnectionSettings(connId: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get_connection_setting',
       connection_id: connId,
-    });
+    }, callOptions);
   }
 
   /**
    * Retrieve cloud information for a specific connection.
    *
    * @param connId - The connection ID, obtained from getConnections()
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async getConnectionInformation(connId: number): Promise<SynoResponse> {
+  async getConnectionInformation(connId: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get_property',
       connection_id: connId,
-    });
+    }, callOptions);
   }
 
   /**
    * Retrieve authentication information for a specific connection.
    *
    * @param connId - The connection ID, obtained from getConnections()
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async getConnectionAuth(connId: number): Promise<SynoResponse> {
+  async getConnectionAuth(connId: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get_conn_auth_info',
       connection_id: connId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -158,6 +162,7 @@ export class CloudSync extends BaseModule {
    *                 3=delete local, 4=rename remote, 8=merge, 9=merge deletion
    * @param offset - Log offset for pagination
    * @param limit - Number of logs to retrieve
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async getConnectionLogs(
     connId: number,
@@ -168,13 +173,13 @@ export class CloudSync extends BaseModule {
     action = -1,
     offset = 0,
     limit = 200,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get_log',
       connection_id: connId,
       offset,
@@ -184,41 +189,76 @@ export class CloudSync extends BaseModule {
       log_level: logLevel,
       action,
       limit,
-    });
+    }, callOptions);
+  }
+
+  /**
+   * Iterate the logs of a connection, fetching them page by page.
+   *
+   * @param connId - The connection ID
+   * @param filter - Keyword, date range, log level and action, as for getConnectionLogs
+   * @param paginateOptions - Page size, start offset, item cap and abort signal
+   */
+  iterateConnectionLogs(
+    connId: number,
+    filter: {
+      keyword?: string;
+      dateFrom?: number;
+      dateTo?: number;
+      logLevel?: number;
+      action?: number;
+    } = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getConnectionLogs(
+        connId,
+        filter.keyword,
+        filter.dateFrom,
+        filter.dateTo,
+        filter.logLevel,
+        filter.action,
+        page.offset,
+        page.limit,
+        callOptions,
+      ),
+      'items',
+      paginateOptions,
+    );
   }
 
   /**
    * Retrieve a list of tasks related to a specific connection.
    *
    * @param connId - The connection ID
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async getTasks(connId: number): Promise<SynoResponse> {
+  async getTasks(connId: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'list_sess',
       connection_id: connId,
-    });
+    }, callOptions);
   }
 
   /**
    * Retrieve filter information for a specific task.
    *
    * @param sessId - The task/session ID, obtained from getTasks()
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async getTaskFilters(sessId: number): Promise<SynoResponse> {
+  async getTaskFilters(sessId: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get_selective_sync_config',
       session_id: sessId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -227,38 +267,38 @@ export class CloudSync extends BaseModule {
    * @param sessId - The task/session ID
    * @param remoteFolderId - The remote folder ID, obtained from getTasks()
    * @param path - The folder path to retrieve children from (defaults to root '/')
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async getTaskCloudFolders(
     sessId: number,
     remoteFolderId: string,
     path = '/',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get_selective_folder_list',
       session_id: sessId,
       path,
       file_id: remoteFolderId,
       exists_type: 'null',
-    });
+    }, callOptions);
   }
 
   /**
    * Retrieve the 5 latest modified files and the currently syncing items.
    */
-  async getRecentlyModified(): Promise<SynoResponse> {
+  async getRecentlyModified(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get_recently_change',
-    });
+    }, callOptions);
   }
 
   /**
@@ -268,25 +308,26 @@ export class CloudSync extends BaseModule {
    * @param logCount - Maximum number of logs per connection (max 100000)
    * @param workers - Number of concurrent uploads (max 20)
    * @param adminMode - Whether all users' tasks are retrieved
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async setPkgConfig(
     pkgVolume: string,
     logCount = 20000,
     workers = 3,
     adminMode = true,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set_global_config',
       repo_vol_path: pkgVolume,
       log_count: logCount,
       worker_count: workers,
       admin_mode: adminMode ? 'enable' : 'disable',
-    });
+    }, callOptions);
   }
 
   /**
@@ -296,17 +337,20 @@ export class CloudSync extends BaseModule {
    *
    * @param deleteFromCloud - false = locally deleted files are re-fetched from cloud;
    *                          true = locally deleted files are also removed from cloud
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async setRelinkBehavior(deleteFromCloud: boolean): Promise<SynoResponse> {
+  async setRelinkBehavior(
+    deleteFromCloud: boolean,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set_personal_config',
       sync_mode: deleteFromCloud,
-    });
+    }, callOptions);
   }
 
   /**
@@ -320,6 +364,7 @@ export class CloudSync extends BaseModule {
    * @param storageClass - Cloud-specific storage class
    * @param isSSE - Enable Security Service Edge for compatible clouds
    * @param partSize - Part size for file uploads (in MB)
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async setConnectionSettings(
     connId: string | number,
@@ -330,13 +375,13 @@ export class CloudSync extends BaseModule {
     storageClass = '',
     isSSE = false,
     partSize = 128,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set_connection_setting',
       connection_id: connId,
       task_name: taskName,
@@ -346,7 +391,7 @@ export class CloudSync extends BaseModule {
       storage_class: `"${storageClass}"`,
       isSSE,
       part_size: partSize,
-    });
+    }, callOptions);
   }
 
   /**
@@ -356,15 +401,16 @@ export class CloudSync extends BaseModule {
    * @param enable - Whether scheduling is enabled
    * @param scheduleInfo - Array of 7 strings (Sunday..Saturday), each 24 chars of '1'/'0'.
    *                       If invalid or omitted, defaults to all-enabled.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async setConnectionSchedule(
     connId: number,
     enable: boolean,
     scheduleInfo: string[] = [],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     let scheduleStr: string;
     const joined = scheduleInfo.join('');
@@ -375,12 +421,12 @@ export class CloudSync extends BaseModule {
     }
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set_schedule_setting',
       connection_id: connId,
       is_enabled_schedule: enable,
       schedule_info: `"${scheduleStr}"`,
-    });
+    }, callOptions);
   }
 
   /**
@@ -391,6 +437,7 @@ export class CloudSync extends BaseModule {
    * @param consistencyCheck - Enable advanced consistency check (more resources)
    * @param noDeleteOnCloud - Prevent deletion of remote files when removed locally
    * @param convertGd - Convert Google Drive documents to Microsoft Office format
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async setTaskSettings(
     sessId: number,
@@ -398,20 +445,20 @@ export class CloudSync extends BaseModule {
     consistencyCheck = true,
     noDeleteOnCloud = true,
     convertGd = false,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set_session_setting',
       session_id: sessId,
       sync_direction: syncDirection,
       sync_attr_check_option: consistencyCheck,
       no_delete: noDeleteOnCloud,
       google_drive_convert_online_doc: convertGd,
-    });
+    }, callOptions);
   }
 
   /**
@@ -422,6 +469,7 @@ export class CloudSync extends BaseModule {
    * @param filteredFilenames - Filenames to exclude
    * @param filteredExtensions - File extensions to exclude (e.g., ['mp3', 'iso', 'mkv'])
    * @param maxUploadSize - Maximum file size for uploads in bytes (0 = no limit)
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async setTaskFilters(
     sessId: number,
@@ -429,14 +477,14 @@ export class CloudSync extends BaseModule {
     filteredFilenames: string[] = [],
     filteredExtensions: string[] = [],
     maxUploadSize = 0,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     // Use JSON.stringify to convert arrays to '["text"]' format as required by the API
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set_selective_sync_config',
       session_id: sessId,
       filtered_paths: JSON.stringify(filteredPaths),
@@ -445,21 +493,21 @@ export class CloudSync extends BaseModule {
       user_defined_names: JSON.stringify(filteredFilenames),
       user_defined_extensions: JSON.stringify(filteredExtensions),
       filtered_max_upload_size: maxUploadSize,
-    });
+    }, callOptions);
   }
 
   /**
    * Pause one or all connections.
    *
    * @param connId - Connection ID to pause. -1 (default) pauses all connections.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async connectionPause(connId = -1): Promise<SynoResponse> {
+  async connectionPause(connId = -1, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     const params: Record<string, unknown> = {
-      version: info.minVersion,
+      version: info.version,
       method: 'pause',
     };
 
@@ -467,21 +515,21 @@ export class CloudSync extends BaseModule {
       params['connection_id'] = connId;
     }
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
    * Resume one or all connections.
    *
    * @param connId - Connection ID to resume. -1 (default) resumes all connections.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async connectionResume(connId = -1): Promise<SynoResponse> {
+  async connectionResume(connId = -1, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     const params: Record<string, unknown> = {
-      version: info.minVersion,
+      version: info.version,
       method: 'resume',
     };
 
@@ -489,7 +537,7 @@ export class CloudSync extends BaseModule {
       params['connection_id'] = connId;
     }
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -497,17 +545,17 @@ export class CloudSync extends BaseModule {
    * Data will remain in both local and remote directories.
    *
    * @param connId - The connection ID to remove
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async connectionRemove(connId: number): Promise<SynoResponse> {
+  async connectionRemove(connId: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'unlink_connection',
       connection_id: connId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -516,25 +564,29 @@ export class CloudSync extends BaseModule {
    *
    * @param connId - The connection ID associated with the task
    * @param sessId - The task/session ID to remove
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async taskRemove(connId: number, sessId: number): Promise<SynoResponse> {
+  async taskRemove(
+    connId: number,
+    sessId: number,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'unlink_session',
       connection_id: connId,
       session_id: sessId,
-    });
+    }, callOptions);
   }
 
   /**
    * Generate parameters for creating a sync task with Amazon S3.
    * This is a private helper method used by createSyncTaskS3 and testTaskSetting.
    */
-  private async generateSyncTaskS3Params(
+  async #generateSyncTaskS3Params(
     connId: number,
     localPath: string,
     cloudPath: string,
@@ -544,6 +596,7 @@ export class CloudSync extends BaseModule {
     filterMaxUploadSize = 0,
     filterNames: string[] = [],
     serverFolderId = '',
+    callOptions?: CallOptions,
   ): Promise<Record<string, unknown>> {
     // Validate local path format
     if (localPath[0] !== '/' || localPath.split('/').length < 3) {
@@ -560,7 +613,7 @@ export class CloudSync extends BaseModule {
     }
 
     // Get connection authentication details
-    const auth = await this.getConnectionAuth(connId);
+    const auth = await this.getConnectionAuth(connId, callOptions);
     if (!auth.data) {
       throw new Error('Failed to retrieve connection auth data');
     }
@@ -612,6 +665,7 @@ export class CloudSync extends BaseModule {
    * @param fileFilter - File extensions to filter
    * @param filterMaxUploadSize - Maximum upload size
    * @param filterNames - File names to filter
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async createSyncTaskS3(
     connId: number,
@@ -622,16 +676,17 @@ export class CloudSync extends BaseModule {
     fileFilter: string[] = [],
     filterMaxUploadSize = 0,
     filterNames: string[] = [],
+    callOptions?: CallOptions,
   ): Promise<S3TaskResult> {
     // Validate the connection is Amazon S3
-    const connInfo = await this.getConnectionInformation(connId);
+    const connInfo = await this.getConnectionInformation(connId, callOptions);
     const connData = connInfo.data as Record<string, unknown> | undefined;
     if (!connData || connData['type'] !== 'az') {
       return { ok: false, reason: 'Connection is not Amazon S3' };
     }
 
     // Generate creation parameters
-    const creationParams = await this.generateSyncTaskS3Params(
+    const creationParams = await this.#generateSyncTaskS3Params(
       connId,
       localPath,
       cloudPath,
@@ -640,11 +695,11 @@ export class CloudSync extends BaseModule {
       fileFilter,
       filterMaxUploadSize,
       filterNames,
+      undefined, callOptions,
     );
 
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     // Run test task setting first
     const testResult = await this.testTaskSetting(
@@ -656,6 +711,7 @@ export class CloudSync extends BaseModule {
       fileFilter,
       filterMaxUploadSize,
       filterNames,
+      callOptions,
     );
 
     if (!testResult.ok) {
@@ -668,17 +724,17 @@ export class CloudSync extends BaseModule {
         {
           api: apiName,
           method: 'create_session',
-          version: info.minVersion,
+          version: info.version,
           conn_info: creationParams,
         },
         {
           api: apiName,
           method: 'list_sess',
-          version: info.minVersion,
+          version: info.version,
           connection_id: connId,
         },
       ],
-      { method: 'post' },
+      { ...callOptions, method: 'post' },
     );
 
     return { ok: true, data: result };
@@ -695,6 +751,7 @@ export class CloudSync extends BaseModule {
    * @param fileFilter - File extensions to filter
    * @param filterMaxUploadSize - Maximum upload size
    * @param filterNames - File names to filter
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async testTaskSetting(
     connId: number,
@@ -705,9 +762,10 @@ export class CloudSync extends BaseModule {
     fileFilter: string[] = [],
     filterMaxUploadSize = 0,
     filterNames: string[] = [],
+    callOptions?: CallOptions,
   ): Promise<S3TaskResult> {
     // Generate sync task parameters
-    const creationParams = await this.generateSyncTaskS3Params(
+    const creationParams = await this.#generateSyncTaskS3Params(
       connId,
       localPath,
       cloudPath,
@@ -716,11 +774,11 @@ export class CloudSync extends BaseModule {
       fileFilter,
       filterMaxUploadSize,
       filterNames,
+      undefined, callOptions,
     );
 
     const apiName = 'SYNO.CloudSync';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     // Send batch request to test settings
     const result = await this.batchRequest(
@@ -728,11 +786,11 @@ export class CloudSync extends BaseModule {
         {
           api: apiName,
           method: 'test_task_setting',
-          version: info.minVersion,
+          version: info.version,
           conn_info: creationParams,
         },
       ],
-      { method: 'post' },
+      { ...callOptions, method: 'post' },
     );
 
     // Check if the request was successful
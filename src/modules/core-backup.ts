@@ -3,7 +3,11 @@
  * Ported from Python synology_api/core_backup.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 export class CoreBackup extends BaseModule {
   protected readonly application = 'Core';
@@ -11,141 +15,132 @@ export class CoreBackup extends BaseModule {
   /**
    * Get repository information for a given task.
    */
-  async backupRepositoryGet(taskId: string): Promise<SynoResponse> {
+  async backupRepositoryGet(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Repository';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
    * Get a list of all present repositories in Hyper Backup.
    */
-  async backupRepositoryList(): Promise<SynoResponse> {
+  async backupRepositoryList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Repository';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /**
    * Get current restoring information and a list of present tasks in Hyper Backup.
    */
-  async backupTaskList(): Promise<SynoResponse> {
+  async backupTaskList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /**
    * Get status and state of a task.
    */
-  async backupTaskStatus(taskId: string): Promise<SynoResponse> {
+  async backupTaskStatus(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'status',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
    * Get detailed task information.
    */
-  async backupTaskGet(taskId: string): Promise<SynoResponse> {
+  async backupTaskGet(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
    * Get last result summary information of a task.
    */
-  async backupTaskResult(taskId: string): Promise<SynoResponse> {
+  async backupTaskResult(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'status',
       blOnline: 'false',
       additional: '["last_bkp_time","next_bkp_time","last_bkp_result","is_modified","last_bkp_progress"]',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
    * Run backup task for corresponding task ID.
    * If the task is not in backupable state, the API will return an error, usually 44xx.
    */
-  async backupTaskRun(taskId: string): Promise<SynoResponse> {
+  async backupTaskRun(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'backup',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
    * Cancel currently running backup task.
    * If the task is not running, the API will return an error, usually 44xx.
    */
-  async backupTaskCancel(taskId: string): Promise<SynoResponse> {
+  async backupTaskCancel(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'cancel',
       task_state: 'backupable',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
    * Suspend currently running backup task.
    * If the task is not running or not yet suspendable, the API will return an error, usually 44xx.
    */
-  async backupTaskSuspend(taskId: string): Promise<SynoResponse> {
+  async backupTaskSuspend(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'suspend',
       task_state: 'backupable',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -153,16 +148,15 @@ export class CoreBackup extends BaseModule {
    * If the task is not suspended, the request will not fail but will fail to discard,
    * leaving the task state as "Failed".
    */
-  async backupTaskDiscard(taskId: string): Promise<SynoResponse> {
+  async backupTaskDiscard(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'discard',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -170,16 +164,15 @@ export class CoreBackup extends BaseModule {
    * If the task is not suspended, the request will not fail but will fail to resume,
    * leaving the task state as "Failed".
    */
-  async backupTaskResume(taskId: string): Promise<SynoResponse> {
+  async backupTaskResume(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'resume',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -188,18 +181,18 @@ export class CoreBackup extends BaseModule {
    * using the original .hbk file.
    *
    * @param taskIdList - List of task IDs as a JSON array string, e.g. '[29]' or '[29,15]'
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async backupTaskRemove(taskIdList: string): Promise<SynoResponse> {
+  async backupTaskRemove(taskIdList: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Task';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'delete',
       is_remove_data: false,
       task_id_list: taskIdList,
-    });
+    }, callOptions);
   }
 
   /**
@@ -207,35 +200,33 @@ export class CoreBackup extends BaseModule {
    * If the task is running, the request will not fail but will fail to perform
    * the integrity check due to target being busy.
    */
-  async integrityCheckRun(taskId: string): Promise<SynoResponse> {
+  async integrityCheckRun(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Target';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'error_detect',
       detect_data: true,
       sessId: 'null',
       sessKey: 'null',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
    * Cancel currently running integrity check for backup task.
    * If integrity check is not running, the API will return an error, usually 44xx.
    */
-  async integrityCheckCancel(taskId: string): Promise<SynoResponse> {
+  async integrityCheckCancel(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Target';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'error_detect_cancel',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -246,6 +237,7 @@ export class CoreBackup extends BaseModule {
    * @param options.filterKeyword - Keyword to filter logs (default '')
    * @param options.filterDateFrom - Start date in epoch format (default 0)
    * @param options.filterDateTo - End date in epoch format (default 0)
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async hbLogsGet(options?: {
     limit?: number;
@@ -253,96 +245,112 @@ export class CoreBackup extends BaseModule {
     filterKeyword?: string;
     filterDateFrom?: number;
     filterDateTo?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SDS.Backup.Client.Common.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'list',
       limit: options?.limit ?? 1000,
       offset: options?.offset ?? 0,
       filter_keyword: options?.filterKeyword ?? '',
       filter_date_from: options?.filterDateFrom ?? 0,
       filter_date_to: options?.filterDateTo ?? 0,
-    });
+    }, callOptions);
+  }
+
+  /**
+   * Iterate Hyper Backup UI logs, fetching them page by page.
+   */
+  iterateHbLogs(
+    options: {
+      filterKeyword?: string;
+      filterDateFrom?: number;
+      filterDateTo?: number;
+    } = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.hbLogsGet({ ...options, ...page }, callOptions),
+      'log_list',
+      paginateOptions,
+    );
   }
 
   /**
    * List all available targets in Vault.
    */
-  async vaultTargetList(): Promise<SynoResponse> {
+  async vaultTargetList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Service.VersionBackup.Target';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /**
    * Get number of concurrent tasks allowed to run in HB Vault.
    */
-  async vaultConcurrencyGet(): Promise<SynoResponse> {
+  async vaultConcurrencyGet(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Service.VersionBackup.Config';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /**
    * Set number of concurrent tasks allowed to run in HB Vault.
    *
    * @param parallelBackupLimit - Number of concurrent tasks (default 2)
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async vaultConcurrencySet(parallelBackupLimit = 2): Promise<SynoResponse> {
+  async vaultConcurrencySet(
+    parallelBackupLimit = 2,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Service.VersionBackup.Config';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set',
       parallel_backup_limit: parallelBackupLimit,
-    });
+    }, callOptions);
   }
 
   /**
    * Get settings of a vault target.
    */
-  async vaultTargetSettingsGet(targetId: number): Promise<SynoResponse> {
+  async vaultTargetSettingsGet(targetId: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Service.VersionBackup.Target';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'detail',
       target_id: targetId,
-    });
+    }, callOptions);
   }
 
   /**
    * Get statistics for a given vault task.
    */
-  async vaultTaskStatisticsGet(taskId: number): Promise<SynoResponse> {
+  async vaultTaskStatisticsGet(taskId: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SDS.Backup.Server.Common.Statistic';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'get',
       additional: '["volume_size"]',
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -351,6 +359,7 @@ export class CoreBackup extends BaseModule {
    * @param targetId - Target ID
    * @param options.limit - Maximum number of logs to return (default 1000)
    * @param options.offset - Offset for pagination (default 0)
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async vaultTargetLogsGet(
     targetId: number,
@@ -358,17 +367,28 @@ export class CoreBackup extends BaseModule {
       limit?: number;
       offset?: number;
     },
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SDS.Backup.Server.Common.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'list',
       limit: options?.limit ?? 1000,
       offset: options?.offset ?? 0,
       filter_target_id: targetId,
-    });
+    }, callOptions);
+  }
+
+  /**
+   * Iterate the logs of a vault target, fetching them page by page.
+   */
+  iterateVaultTargetLogs(targetId: number, paginateOptions?: PaginateOptions): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.vaultTargetLogsGet(targetId, page, callOptions),
+      'log_list',
+      paginateOptions,
+    );
   }
 }
@@ -4,47 +4,48 @@
  */
 import { BaseModule } from './base-module.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
 
 export class CoreCertificate extends BaseModule {
   protected readonly application = 'Core';
 
-  async listCerts(): Promise<SynoResponse> {
+  async listCerts(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Certificate.CRT';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: '1',
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async setDefaultCert(certId: string): Promise<SynoResponse> {
+  async setDefaultCert(certId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Certificate.CRT';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: '1',
+      version: info.version,
       method: 'set',
       as_default: 'true',
       desc: '""',
       id: `"${certId}"`,
-    });
+    }, callOptions);
   }
 
-  async deleteCertificate(ids: string | string[]): Promise<SynoResponse> {
+  async deleteCertificate(
+    ids: string | string[],
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Certificate.CRT';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     const idList = Array.isArray(ids) ? ids : [ids];
 
     return this.request(apiName, info.path, {
-      version: '1',
+      version: info.version,
       method: 'delete',
       ids: JSON.stringify(idList),
-    });
+    }, callOptions);
   }
 
   async uploadCert(options: {
@@ -54,10 +55,9 @@ export class CoreCertificate extends BaseModule {
     setAsDefault?: boolean;
     certId?: string;
     desc?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Certificate';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     const formData = new FormData();
     formData.append('key', options.serverKey);
@@ -70,21 +70,21 @@ export class CoreCertificate extends BaseModule {
     formData.append('as_default', options.setAsDefault !== false ? 'true' : '');
 
     return this.uploadRequest(apiName, info.path, formData, {
-      version: info.minVersion,
+      version: info.version,
       method: 'import',
-    });
+    }, callOptions);
   }
 
   async setCertificateForService(
     certId: string,
     serviceName = 'DSM Desktop Service',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Certificate.Service';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     // Retrieve existing certificates to find the old cert id
-    const certsResponse = await this.listCerts();
+    const certsResponse = await this.listCerts(callOptions);
     const certs = (certsResponse as unknown as Record<string, unknown>)?.data as Record<string, unknown> | undefined;
     const certificates = (certs?.certificates ?? []) as Array<{
       id: string;
@@ -125,23 +125,22 @@ export class CoreCertificate extends BaseModule {
     return this.request(apiName, info.path, {
       settings,
       api: apiName,
-      version: info.minVersion,
+      version: info.version,
       method: 'set',
-    }, { method: 'post' });
+    }, { ...callOptions, method: 'post' });
   }
 
-  async exportCert(certId: string): Promise<ArrayBuffer> {
+  async exportCert(certId: string, callOptions?: CallOptions): Promise<ArrayBuffer> {
     const apiName = 'SYNO.Core.Certificate';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
-    const response = await this.request(apiName, info.path, {
-      version: info.minVersion,
+    const download = await this.request(apiName, info.path, {
+      version: info.version,
       method: 'export',
       file: '"archive"',
       id: certId,
-    }, { rawResponse: true });
+    }, { ...callOptions, rawResponse: true });
 
-    return response as unknown as ArrayBuffer;
+    return download.response.arrayBuffer();
   }
 }
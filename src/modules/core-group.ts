@@ -3,7 +3,11 @@
  * Ported from Python synology_api/core_group.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 export interface GetGroupsOptions {
   readonly offset?: number;
@@ -14,115 +18,134 @@ export interface GetGroupsOptions {
 export class CoreGroup extends BaseModule {
   protected readonly application = 'Core';
 
-  async getGroups(options?: GetGroupsOptions): Promise<SynoResponse> {
+  async getGroups(options?: GetGroupsOptions, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Group';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       offset: options?.offset ?? 0,
       limit: options?.limit ?? -1,
       name_only: options?.nameOnly ?? false,
       type: 'local',
-    });
+    }, callOptions);
   }
 
-  async getUsers(group: string, inGroup = true): Promise<SynoResponse> {
+  /**
+   * Iterate all local groups, fetching them page by page.
+   */
+  iterateGroups(
+    options: Omit<GetGroupsOptions, 'offset' | 'limit'> = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getGroups({ ...options, ...page }, callOptions),
+      'groups',
+      paginateOptions,
+    );
+  }
+
+  async getUsers(group: string, inGroup = true, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Group.Member';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'list',
       group,
       ingroup: inGroup,
-    });
+    }, callOptions);
   }
 
-  async getSpeedLimits(group: string): Promise<SynoResponse> {
+  async getSpeedLimits(group: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.BandwidthControl';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 2, max: 2 });
 
     return this.request(apiName, info.path, {
-      version: 2,
+      version: info.version,
       method: 'get',
       name: group,
       owner_type: 'local_group',
-    });
+    }, callOptions);
   }
 
-  async getQuota(group: string): Promise<SynoResponse> {
+  async getQuota(group: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Quota';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'get',
       name: group,
       subject_type: 'group',
       support_share_quota: true,
-    });
+    }, callOptions);
   }
 
-  async getPermissions(group: string): Promise<SynoResponse> {
+  async getPermissions(group: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Permission';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list_by_group',
       name: group,
       user_group_type: 'local_group',
       share_type: JSON.stringify(['dec', 'local', 'usb', 'sata', 'cluster', 'c2', 'cold_storage', 'worm']),
       additional: JSON.stringify(['hidden', 'encryption', 'is_aclmode']),
-    });
+    }, callOptions);
   }
 
-  async setGroupInfo(group: string, newName?: string, newDescription?: string): Promise<SynoResponse> {
+  async setGroupInfo(
+    group: string,
+    newName?: string,
+    newDescription?: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Group';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set',
       name: group,
       new_name: newName ?? group,
       description: newDescription ?? '',
-    });
+    }, callOptions);
   }
 
-  async setShareQuota(group: string, shareQuotas: Record<string, unknown>[]): Promise<SynoResponse> {
+  async setShareQuota(
+    group: string,
+    shareQuotas: Record<string, unknown>[],
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Quota';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set',
       name: group,
       group_quota: JSON.stringify(shareQuotas),
-    });
+    }, callOptions);
   }
 
-  async setSharePermissions(group: string, permissions: Record<string, unknown>[]): Promise<SynoResponse> {
+  async setSharePermissions(
+    group: string,
+    permissions: Record<string, unknown>[],
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Permission';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set_by_user_group',
       name: group,
       user_group_type: 'local_group',
       permissions: JSON.stringify(permissions),
-    });
+    }, callOptions);
   }
 
   async setSpeedLimit(
@@ -130,10 +153,10 @@ export class CoreGroup extends BaseModule {
     uploadLimit: number,
     downloadLimit: number,
     protocol: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.BandwidthControl';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     const settings = [{
       upload_limit_1: uploadLimit,
@@ -148,62 +171,62 @@ export class CoreGroup extends BaseModule {
     }];
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'set',
       bandwidths: JSON.stringify(settings),
-    });
+    }, callOptions);
   }
 
-  async addUsers(group: string, users: string[]): Promise<SynoResponse> {
+  async addUsers(group: string, users: string[], callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Group.Member';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'change',
       group,
       add_member: JSON.stringify(users),
       remove_member: '[]',
-    });
+    }, callOptions);
   }
 
-  async removeUsers(group: string, users: string[]): Promise<SynoResponse> {
+  async removeUsers(
+    group: string,
+    users: string[],
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Group.Member';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'change',
       group,
       add_member: '[]',
       remove_member: JSON.stringify(users),
-    });
+    }, callOptions);
   }
 
-  async create(name: string, description = ''): Promise<SynoResponse> {
+  async create(name: string, description = '', callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Group';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'create',
       name,
       description,
-    });
+    }, callOptions);
   }
 
-  async delete(groups: string[]): Promise<SynoResponse> {
+  async delete(groups: string[], callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Group';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'delete',
       name: JSON.stringify(groups),
-    });
+    }, callOptions);
   }
 }
@@ -12,6 +12,7 @@
  */
 import { BaseModule } from './base-module.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
 
 // -------------------------------------------------------
 // Types
@@ -260,17 +261,17 @@ export class CoreISCSI extends BaseModule {
   /**
    * Internal request helper for SYNO.Core.ISCSI.LUN.
    */
-  private async lunRequest(
+  async #lunRequest(
     method: string,
     params: Record<string, unknown>,
     version?: number | string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ISCSI.LUN';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: String(version ?? info.maxVersion),
+      version: String(version ?? info.version),
       method,
     };
 
@@ -281,23 +282,23 @@ export class CoreISCSI extends BaseModule {
       }
     }
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   /**
    * Internal request helper for SYNO.Core.ISCSI.Target.
    */
-  private async targetRequest(
+  async #targetRequest(
     method: string,
     params: Record<string, unknown>,
     version?: number | string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ISCSI.Target';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: String(version ?? info.maxVersion),
+      version: String(version ?? info.version),
       method,
     };
 
@@ -307,7 +308,7 @@ export class CoreISCSI extends BaseModule {
       }
     }
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // =====================================================
@@ -322,6 +323,7 @@ export class CoreISCSI extends BaseModule {
    * @param location - Target location, typically a volume path (e.g. "/volume1").
    * @param size - LUN size in bytes.
    * @param options - Optional creation parameters and SCSI device attributes.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async lunCreate(
     name: string,
@@ -329,6 +331,7 @@ export class CoreISCSI extends BaseModule {
     location: string,
     size: number | string,
     options: LunCreateOptions = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const params: Record<string, unknown> = {
       name,
@@ -349,27 +352,29 @@ export class CoreISCSI extends BaseModule {
     if (options.srcLunDir !== undefined) params.src_lun_dir = options.srcLunDir;
     if (options.srcLunFile !== undefined) params.src_lun_file = options.srcLunFile;
 
-    return this.lunRequest('create', params);
+    return this.#lunRequest('create', params, undefined, callOptions);
   }
 
   /**
    * Delete one or more LUNs.
    *
    * @param uuids - LUN UUID or array of LUN UUIDs.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    * @returns Empty object if no UUIDs provided, otherwise API response.
    */
   async lunDelete(
     uuids: string | readonly string[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const uuidList = ensureList(uuids);
     if (uuidList.length === 0) {
       return { success: true };
     }
 
-    return this.lunRequest('delete', {
+    return this.#lunRequest('delete', {
       uuid: '""',
       uuids: JSON.stringify(uuidList),
-    });
+    }, undefined, callOptions);
   }
 
   /**
@@ -378,20 +383,22 @@ export class CoreISCSI extends BaseModule {
    * @param uuids - LUN UUID or array of LUN UUIDs.
    * @param minRequestDelay - Minimum delay (in milliseconds) between polling calls.
    *                          Defaults to 1000 (1 second).
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async lunSafeDelete(
     uuids: string | readonly string[],
     minRequestDelay = 1000,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const uuidList = ensureList(uuids).map(String);
     if (uuidList.length === 0) {
       return { success: true };
     }
 
-    const result = await this.lunRequest('delete', {
+    const result = await this.#lunRequest('delete', {
       uuid: '""',
       uuids: JSON.stringify(uuidList),
-    });
+    }, undefined, callOptions);
 
     // Poll LUN list until all specified UUIDs have been removed
     let remaining = [...uuidList];
@@ -407,7 +414,7 @@ export class CoreISCSI extends BaseModule {
 
       lastTs = Date.now();
 
-      const listResult = await this.lunList();
+      const listResult = await this.lunList(undefined, undefined, undefined, callOptions);
       const data = listResult.data as { luns?: Array<{ uuid: string }> } | undefined;
       const currentUuids = new Set(
         (data?.luns ?? []).map((lun) => lun.uuid),
@@ -425,20 +432,22 @@ export class CoreISCSI extends BaseModule {
    *                Defaults to all known types.
    * @param additionalInfo - Additional LUN information to include. Specify [] for basic info only.
    * @param location - Filter by location.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async lunList(
     types: readonly string[] = ALL_LUN_TYPES,
     additionalInfo: readonly string[] = LUN_LIST_ADDITIONAL_FIELDS,
     location?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const filteredTypes = filterKnown(types, ALL_LUN_TYPES);
     const filteredAdditional = filterKnown(additionalInfo, LUN_LIST_ADDITIONAL_FIELDS);
 
-    return this.lunRequest('list', {
+    return this.#lunRequest('list', {
       types: JSON.stringify(filteredTypes),
       additional: JSON.stringify(filteredAdditional),
       location,
-    });
+    }, undefined, callOptions);
   }
 
   /**
@@ -446,10 +455,12 @@ export class CoreISCSI extends BaseModule {
    *
    * @param uuid - LUN UUID.
    * @param additionalInfo - Additional LUN information to include. Specify [] for basic info only.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async lunGet(
     uuid: string,
     additionalInfo: readonly string[] = LUN_GET_ADDITIONAL_FIELDS,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const filteredAdditional = filterKnown(additionalInfo, LUN_GET_ADDITIONAL_FIELDS);
 
@@ -461,7 +472,7 @@ export class CoreISCSI extends BaseModule {
       params.additional = JSON.stringify(filteredAdditional);
     }
 
-    return this.lunRequest('get', params);
+    return this.#lunRequest('get', params, undefined, callOptions);
   }
 
   /**
@@ -469,10 +480,12 @@ export class CoreISCSI extends BaseModule {
    *
    * @param uuid - LUN UUID.
    * @param options - Properties to update and SCSI device attributes.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async lunSet(
     uuid: string,
     options: LunSetOptions = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const params: Record<string, unknown> = {
       uuid: JSON.stringify(uuid),
@@ -490,7 +503,7 @@ export class CoreISCSI extends BaseModule {
     if (options.newType !== undefined) params.new_type = options.newType;
     if (options.newLocation !== undefined) params.new_location = options.newLocation;
 
-    return this.lunRequest('set', params);
+    return this.#lunRequest('set', params, undefined, callOptions);
   }
 
   // =====================================================
@@ -503,11 +516,13 @@ export class CoreISCSI extends BaseModule {
    * @param srcLunUuid - Source LUN UUID.
    * @param dstLunName - Destination LUN name.
    * @param options - Optional clone parameters.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async lunClone(
     srcLunUuid: string,
     dstLunName: string,
     options: LunCloneOptions = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const params: Record<string, unknown> = {
       src_lun_uuid: JSON.stringify(srcLunUuid),
@@ -523,18 +538,19 @@ export class CoreISCSI extends BaseModule {
     if (options.isSoftFeasIgnored !== undefined) params.is_soft_feas_ignored = options.isSoftFeasIgnored;
     if (options.isDataClone !== undefined) params.is_data_clone = options.isDataClone;
 
-    return this.lunRequest('clone', params);
+    return this.#lunRequest('clone', params, undefined, callOptions);
   }
 
   /**
    * Stop an in-progress LUN clone operation.
    *
    * @param srcLunUuid - Source LUN UUID.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async lunStopClone(srcLunUuid: string): Promise<SynoResponse> {
-    return this.lunRequest('stop_clone', {
+  async lunStopClone(srcLunUuid: string, callOptions?: CallOptions): Promise<SynoResponse> {
+    return this.#lunRequest('stop_clone', {
       src_lun_uuid: JSON.stringify(srcLunUuid),
-    });
+    }, undefined, callOptions);
   }
 
   // =====================================================
@@ -546,17 +562,19 @@ export class CoreISCSI extends BaseModule {
    *
    * @param uuid - LUN UUID.
    * @param targetIds - Target ID or array of target IDs.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async lunMapTarget(
     uuid: string,
     targetIds: number | string | ReadonlyArray<number | string>,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const ids = ensureList(targetIds).map(Number);
 
-    return this.lunRequest('map_target', {
+    return this.#lunRequest('map_target', {
       uuid: JSON.stringify(uuid),
       target_ids: JSON.stringify(ids),
-    });
+    }, undefined, callOptions);
   }
 
   /**
@@ -564,17 +582,19 @@ export class CoreISCSI extends BaseModule {
    *
    * @param uuid - LUN UUID.
    * @param targetIds - Target ID or array of target IDs.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async lunUnmapTarget(
     uuid: string,
     targetIds: number | string | ReadonlyArray<number | string>,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const ids = ensureList(targetIds).map(Number);
 
-    return this.lunRequest('unmap_target', {
+    return this.#lunRequest('unmap_target', {
       uuid: JSON.stringify(uuid),
       target_ids: JSON.stringify(ids),
-    });
+    }, undefined, callOptions);
   }
 
   // =====================================================
@@ -588,12 +608,14 @@ export class CoreISCSI extends BaseModule {
    * @param iqn - iSCSI Qualified Name.
    * @param authType - Authentication type: 0=none, 1=single CHAP, 2=mutual CHAP.
    * @param options - Optional creation parameters including CHAP credentials.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async targetCreate(
     name: string,
     iqn: string,
     authType: AuthType = 0,
     options: TargetCreateOptions = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const params: Record<string, unknown> = {
       name,
@@ -615,18 +637,19 @@ export class CoreISCSI extends BaseModule {
       params.mutual_password = options.mutualPassword;
     }
 
-    return this.targetRequest('create', params);
+    return this.#targetRequest('create', params, undefined, callOptions);
   }
 
   /**
    * Delete an iSCSI target.
    *
    * @param targetId - Integer ID of the iSCSI target.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async targetDelete(targetId: number | string): Promise<SynoResponse> {
-    return this.targetRequest('delete', {
+  async targetDelete(targetId: number | string, callOptions?: CallOptions): Promise<SynoResponse> {
+    return this.#targetRequest('delete', {
       target_id: JSON.stringify(String(targetId)),
-    });
+    }, undefined, callOptions);
   }
 
   /**
@@ -634,10 +657,12 @@ export class CoreISCSI extends BaseModule {
    *
    * @param additionalInfo - Additional information to include. Specify [] for basic info only.
    * @param lunUuid - Filter targets mapped to a LUN with the provided UUID.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async targetList(
     additionalInfo: readonly string[] = TARGET_ADDITIONAL_FIELDS,
     lunUuid?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const params: Record<string, unknown> = {};
 
@@ -650,7 +675,7 @@ export class CoreISCSI extends BaseModule {
       params.lun_uuid = JSON.stringify(lunUuid);
     }
 
-    return this.targetRequest('list', params);
+    return this.#targetRequest('list', params, undefined, callOptions);
   }
 
   /**
@@ -658,10 +683,12 @@ export class CoreISCSI extends BaseModule {
    *
    * @param targetId - Integer ID of the iSCSI target.
    * @param additionalInfo - Additional information to include. Specify [] for basic info only.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async targetGet(
     targetId: number | string,
     additionalInfo: readonly string[] = TARGET_ADDITIONAL_FIELDS,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const params: Record<string, unknown> = {
       target_id: JSON.stringify(String(targetId)),
@@ -672,7 +699,7 @@ export class CoreISCSI extends BaseModule {
       params.additional = JSON.stringify(filtered);
     }
 
-    return this.targetRequest('get', params);
+    return this.#targetRequest('get', params, undefined, callOptions);
   }
 
   /**
@@ -680,10 +707,12 @@ export class CoreISCSI extends BaseModule {
    *
    * @param targetId - Integer ID of the iSCSI target.
    * @param options - Properties to update.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async targetSet(
     targetId: number | string,
     options: TargetSetOptions = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const params: Record<string, unknown> = {
       target_id: JSON.stringify(String(targetId)),
@@ -702,7 +731,7 @@ export class CoreISCSI extends BaseModule {
     if (options.maxSendSegBytes !== undefined) params.max_send_seg_bytes = options.maxSendSegBytes;
     if (options.hasHeaderChecksum !== undefined) params.has_header_checksum = options.hasHeaderChecksum;
 
-    return this.targetRequest('set', params);
+    return this.#targetRequest('set', params, undefined, callOptions);
   }
 
   // =====================================================
@@ -713,22 +742,24 @@ export class CoreISCSI extends BaseModule {
    * Enable an iSCSI target.
    *
    * @param targetId - Integer ID of the iSCSI target.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async targetEnable(targetId: number | string): Promise<SynoResponse> {
-    return this.targetRequest('enable', {
+  async targetEnable(targetId: number | string, callOptions?: CallOptions): Promise<SynoResponse> {
+    return this.#targetRequest('enable', {
       target_id: JSON.stringify(String(targetId)),
-    });
+    }, undefined, callOptions);
   }
 
   /**
    * Disable an iSCSI target.
    *
    * @param targetId - Integer ID of the iSCSI target.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async targetDisable(targetId: number | string): Promise<SynoResponse> {
-    return this.targetRequest('disable', {
+  async targetDisable(targetId: number | string, callOptions?: CallOptions): Promise<SynoResponse> {
+    return this.#targetRequest('disable', {
       target_id: JSON.stringify(String(targetId)),
-    });
+    }, undefined, callOptions);
   }
 
   // =====================================================
@@ -740,17 +771,19 @@ export class CoreISCSI extends BaseModule {
    *
    * @param targetId - Integer ID of the iSCSI target.
    * @param lunUuids - LUN UUID or array of LUN UUIDs.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async targetMapLun(
     targetId: number | string,
     lunUuids: string | readonly string[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const uuidList = ensureList(lunUuids);
 
-    return this.targetRequest('map_lun', {
+    return this.#targetRequest('map_lun', {
       target_id: JSON.stringify(String(targetId)),
       lun_uuids: JSON.stringify(uuidList),
-    });
+    }, undefined, callOptions);
   }
 
   /**
@@ -758,16 +791,18 @@ export class CoreISCSI extends BaseModule {
    *
    * @param targetId - Integer ID of the iSCSI target.
    * @param lunUuids - LUN UUID or array of LUN UUIDs.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async targetUnmapLun(
     targetId: number | string,
     lunUuids: string | readonly string[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const uuidList = ensureList(lunUuids);
 
-    return this.targetRequest('unmap_lun', {
+    return this.#targetRequest('unmap_lun', {
       target_id: JSON.stringify(String(targetId)),
       lun_uuids: JSON.stringify(uuidList),
-    });
+    }, undefined, callOptions);
   }
 }
@@ -4,58 +4,63 @@
  */
 import { BaseModule } from './base-module.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
 
 export class CorePackage extends BaseModule {
   protected readonly application = 'Core';
 
-  async getPackage(packageId: string, additional: string[] = []): Promise<SynoResponse> {
+  async getPackage(
+    packageId: string,
+    additional: string[] = [],
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'get',
-      version: info.minVersion,
+      version: info.version,
       id: packageId,
       additional: JSON.stringify(additional),
-    });
+    }, callOptions);
   }
 
-  async listInstalled(additional: string[] = [], ignoreHidden = false): Promise<SynoResponse> {
+  async listInstalled(
+    additional: string[] = [],
+    ignoreHidden = false,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'list',
-      version: info.maxVersion,
+      version: info.version,
       ignore_hidden: ignoreHidden,
       additional: JSON.stringify(additional),
-    });
+    }, callOptions);
   }
 
-  async listInstallable(): Promise<SynoResponse> {
+  async listInstallable(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Server';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'list',
-      version: info.maxVersion,
+      version: info.version,
       blforcereload: false,
       blloadothers: false,
-    });
+    }, callOptions);
   }
 
-  async getPackageCenterSettings(): Promise<SynoResponse> {
+  async getPackageCenterSettings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'get',
-      version: info.maxVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 
   async setPackageCenterSettings(options: {
@@ -66,14 +71,13 @@ export class CorePackage extends BaseModule {
     autoupdateImportant: boolean;
     defaultVol: string;
     updateChannel: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'set',
-      version: info.maxVersion,
+      version: info.version,
       enable_email: options.enableEmail,
       enable_dsm: options.enableDsm,
       enable_autoupdate: options.enableAutoupdate,
@@ -81,31 +85,32 @@ export class CorePackage extends BaseModule {
       autoupdateimportant: options.autoupdateImportant,
       default_vol: options.defaultVol,
       update_channel: options.updateChannel,
-    });
+    }, callOptions);
   }
 
-  async getPackageCenterInfos(): Promise<SynoResponse> {
+  async getPackageCenterInfos(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'get',
-      version: info.maxVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 
-  async feasibilityCheckInstall(packages: string[]): Promise<SynoResponse> {
+  async feasibilityCheckInstall(
+    packages: string[],
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'feasibility_check',
-      version: info.maxVersion,
+      version: info.version,
       type: 'install_check',
       packages: JSON.stringify(packages),
-    });
+    }, callOptions);
   }
 
   async downloadPackage(
@@ -113,14 +118,14 @@ export class CorePackage extends BaseModule {
     packageId: string,
     checksum: string,
     filesize: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Installation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'install',
-      version: info.minVersion,
+      version: info.version,
       operation: 'install',
       type: 0,
       blqinst: false,
@@ -128,61 +133,61 @@ export class CorePackage extends BaseModule {
       name: packageId,
       checksum,
       filesize,
-    });
+    }, callOptions);
   }
 
-  async getDownloadPackageStatus(taskId: string): Promise<SynoResponse> {
+  async getDownloadPackageStatus(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Installation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'status',
-      version: info.minVersion,
+      version: info.version,
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
-  async checkInstallationFromDownload(taskId: string): Promise<SynoResponse> {
+  async checkInstallationFromDownload(
+    taskId: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Installation.Download';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'check',
-      version: info.minVersion,
+      version: info.version,
       taskid: taskId,
-    });
+    }, callOptions);
   }
 
   async uploadPackageFile(
     file: File | Blob,
     fileName: string,
     additional: string[] = [],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Installation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     const formData = new FormData();
     formData.append('additional', JSON.stringify(additional));
     formData.append('file', file, fileName);
 
     return this.uploadRequest(apiName, info.path, formData, {
-      version: info.minVersion,
+      version: info.version,
       method: 'upload',
-    });
+    }, callOptions);
   }
 
-  async getDefaultInstallVolume(): Promise<SynoResponse> {
+  async getDefaultInstallVolume(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Setting.Volume';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'get',
-      version: info.maxVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 
   async checkInstallation(
@@ -191,21 +196,21 @@ export class CorePackage extends BaseModule {
     installOnColdStorage = false,
     blCheckDep = false,
     replacePkgs: Record<string, string> = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Installation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'check',
-      version: info.maxVersion,
+      version: info.version,
       id: packageId,
       install_type: installType,
       install_on_cold_storage: installOnColdStorage,
       breakpkgs: null,
       blCheckDep,
       replacepkgs: JSON.stringify(replacePkgs),
-    });
+    }, callOptions);
   }
 
   async upgradePackage(
@@ -214,21 +219,21 @@ export class CorePackage extends BaseModule {
     force = false,
     installRunPackage = true,
     extraValues: Record<string, unknown> = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Installation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'upgrade',
-      version: info.minVersion,
+      version: info.version,
       type: 0,
       check_codesign: checkCodesign,
       force,
       installrunpackage: installRunPackage,
       task_id: taskId,
       extra_values: JSON.stringify(extraValues),
-    });
+    }, callOptions);
   }
 
   async installPackage(
@@ -239,16 +244,16 @@ export class CorePackage extends BaseModule {
     force = true,
     installRunPackage = true,
     extraValues: Record<string, unknown> = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Installation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.batchRequest([
       {
         api: apiName,
         method: 'check',
-        version: info.minVersion,
+        version: info.version,
         id: packageId,
         install_type: '',
         install_on_cold_storage: false,
@@ -259,7 +264,7 @@ export class CorePackage extends BaseModule {
       {
         api: apiName,
         method: 'install',
-        version: info.minVersion,
+        version: info.version,
         type: 0,
         volume_path: volumePath,
         path: filePath,
@@ -268,19 +273,18 @@ export class CorePackage extends BaseModule {
         installrunpackage: installRunPackage,
         extra_values: JSON.stringify(extraValues),
       },
-    ]);
+    ], callOptions);
   }
 
-  async uninstallPackage(packageId: string): Promise<SynoResponse> {
+  async uninstallPackage(packageId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package.Uninstallation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'uninstall',
-      version: info.minVersion,
+      version: info.version,
       id: packageId,
       dsm_apps: '',
-    });
+    }, callOptions);
   }
 }
@@ -5,7 +5,11 @@
  * Includes: Share, SharePermission, KeyManagerStore, KeyManagerAutoKey
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 interface ShareInfo {
   name: string;
@@ -68,10 +72,10 @@ export class CoreShare extends BaseModule {
     enableShareCow = false,
     encPasswd = '',
     encryption = false,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const shareinfo: ShareInfo = {
       name,
@@ -85,45 +89,50 @@ export class CoreShare extends BaseModule {
 
     return this.request(apiName, info.path, {
       method: 'validate_set',
-      version: info.maxVersion,
+      version: info.version,
       name,
       shareinfo: JSON.stringify(shareinfo),
-    }, { method: 'post' });
+    }, { ...callOptions, method: 'post' });
   }
 
   async listFolders(
     shareType = 'all',
     additional: string[] = [],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'list',
-      version: info.minVersion,
+      version: info.version,
       shareType,
       additional: JSON.stringify(additional),
-    });
+    }, callOptions);
   }
 
-  async getFolder(name: string, additional: string[] = []): Promise<SynoResponse> {
+  async getFolder(
+    name: string,
+    additional: string[] = [],
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'get',
-      version: info.minVersion,
+      version: info.version,
       name,
       additional: JSON.stringify(additional),
-    });
+    }, callOptions);
   }
 
-  async createFolder(options: CreateFolderOptions): Promise<SynoResponse> {
+  async createFolder(
+    options: CreateFolderOptions,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const shareinfo = {
       desc: options.desc ?? '',
@@ -143,28 +152,26 @@ export class CoreShare extends BaseModule {
 
     return this.request(apiName, info.path, {
       method: 'create',
-      version: info.maxVersion,
+      version: info.version,
       name: options.name,
       shareinfo: JSON.stringify(shareinfo),
-    }, { method: 'post' });
+    }, { ...callOptions, method: 'post' });
   }
 
-  async deleteFolders(names: string[]): Promise<SynoResponse> {
+  async deleteFolders(names: string[], callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'delete',
-      version: info.minVersion,
+      version: info.version,
       name: names,
-    });
+    }, callOptions);
   }
 
-  async cloneFolder(options: CloneFolderOptions): Promise<SynoResponse> {
+  async cloneFolder(options: CloneFolderOptions, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const shareinfo = {
       desc: options.desc ?? '',
@@ -182,35 +189,37 @@ export class CoreShare extends BaseModule {
 
     return this.request(apiName, info.path, {
       method: 'clone',
-      version: info.maxVersion,
+      version: info.version,
       name: options.name,
       shareinfo: JSON.stringify(shareinfo),
-    }, { method: 'post' });
+    }, { ...callOptions, method: 'post' });
   }
 
-  async decryptFolder(name: string, password: string): Promise<SynoResponse> {
+  async decryptFolder(
+    name: string,
+    password: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Crypto';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'decrypt',
-      version: info.maxVersion,
+      version: info.version,
       name,
       password,
-    }, { method: 'post' });
+    }, { ...callOptions, method: 'post' });
   }
 
-  async encryptFolder(name: string): Promise<SynoResponse> {
+  async encryptFolder(name: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Crypto';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
       method: 'encrypt',
-      version: info.maxVersion,
+      version: info.version,
       name,
-    }, { method: 'post' });
+    }, { ...callOptions, method: 'post' });
   }
 
   // ---------- SharePermission ----------
@@ -223,13 +232,13 @@ export class CoreShare extends BaseModule {
     isUnitePermission = false,
     withInherit = false,
     userGroupType = 'local_user',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Permission';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'list',
       name,
       offset,
@@ -239,7 +248,32 @@ export class CoreShare extends BaseModule {
       is_unite_permission: isUnitePermission,
       with_inherit: withInherit,
       user_group_type: userGroupType,
-    });
+    }, callOptions);
+  }
+
+  /** Iterate the permissions of a share matching a substring, fetching them page by page. */
+  iterateFolderPermissionByName(
+    name: string,
+    permissionSubstr: string,
+    isUnitePermission = false,
+    withInherit = false,
+    userGroupType = 'local_user',
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getFolderPermissionByName(
+        name,
+        permissionSubstr,
+        page.offset,
+        page.limit,
+        isUnitePermission,
+        withInherit,
+        userGroupType,
+        callOptions,
+      ),
+      'items',
+      paginateOptions,
+    );
   }
 
   async getFolderPermissions(
@@ -249,13 +283,13 @@ export class CoreShare extends BaseModule {
     isUnitePermission = false,
     withInherit = false,
     userGroupType = 'local_user',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Permission';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'list',
       name,
       offset,
@@ -264,82 +298,102 @@ export class CoreShare extends BaseModule {
       is_unite_permission: isUnitePermission,
       with_inherit: withInherit,
       user_group_type: userGroupType,
-    });
+    }, callOptions);
+  }
+
+  /** Iterate all permissions of a share, fetching them page by page. */
+  iterateFolderPermissions(
+    name: string,
+    isUnitePermission = false,
+    withInherit = false,
+    userGroupType = 'local_user',
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getFolderPermissions(
+        name,
+        page.offset,
+        page.limit,
+        isUnitePermission,
+        withInherit,
+        userGroupType,
+        callOptions,
+      ),
+      'items',
+      paginateOptions,
+    );
   }
 
   async setFolderPermissions(
     name: string,
     userGroupType: string,
     permissions: PermissionEntry[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Permission';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set',
       name,
       user_group_type: userGroupType,
       permissions: JSON.stringify(permissions),
-    });
+    }, callOptions);
   }
 
-  async getLocalGroupPermissions(group: string): Promise<SynoResponse> {
+  async getLocalGroupPermissions(group: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Permission';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list_by_group',
       name: group,
       user_group_type: 'local_group',
       share_type: JSON.stringify(['dec', 'local', 'usb', 'sata', 'cluster', 'c2', 'cold_storage', 'worm']),
       additional: JSON.stringify(['hidden', 'encryption', 'is_aclmode']),
-    });
+    }, callOptions);
   }
 
   async setLocalGroupPermissions(
     group: string,
     permissions: PermissionEntry[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Permission';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'set_by_user_group',
       name: group,
       user_group_type: 'local_group',
       permissions: JSON.stringify(permissions),
-    });
+    }, callOptions);
   }
 
   // ---------- KeyManagerStore ----------
 
-  async getKeyManagerStores(): Promise<SynoResponse> {
+  async getKeyManagerStores(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.KeyManager.Store';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'explore',
-    });
+    }, callOptions);
   }
 
   // ---------- KeyManagerAutoKey ----------
 
-  async listAutoKeys(): Promise<SynoResponse> {
+  async listAutoKeys(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.KeyManager.AutoKey';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
-      version: info.minVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 }
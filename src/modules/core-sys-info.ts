@@ -3,7 +3,11 @@
  * Ported from Python synology_api/core_sys_info.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 export class CoreSysInfo extends BaseModule {
   protected readonly application = 'Core';
@@ -11,652 +15,602 @@ export class CoreSysInfo extends BaseModule {
   // ── File Services ──────────────────────────────────────────────────
 
   /** Get SMB file service status. */
-  async fileservSmb(): Promise<SynoResponse> {
+  async fileservSmb(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.FileServ.SMB';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get AFP file service status. */
-  async fileservAfp(): Promise<SynoResponse> {
+  async fileservAfp(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.FileServ.AFP';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get NFS file service status. */
-  async fileservNfs(): Promise<SynoResponse> {
+  async fileservNfs(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.FileServ.NFS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get FTP file service status. */
-  async fileservFtp(): Promise<SynoResponse> {
+  async fileservFtp(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.FileServ.FTP';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get SFTP file service status. */
-  async fileservSftp(): Promise<SynoResponse> {
+  async fileservSftp(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.FileServ.FTP.SFTP';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── Network & Backup ──────────────────────────────────────────────
 
   /** Get network backup service information. */
-  async networkBackupInfo(): Promise<SynoResponse> {
+  async networkBackupInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Backup.Service.NetworkBackup';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get bandwidth control protocol information. */
-  async bandwidthControlProtocol(): Promise<SynoResponse> {
+  async bandwidthControlProtocol(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.BandwidthControl.Protocol';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       protocol: 'NetworkBackup',
-    });
+    }, callOptions);
   }
 
   /** Get shared folders information. */
-  async sharedFoldersInfo(): Promise<SynoResponse> {
+  async sharedFoldersInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   // ── Services ──────────────────────────────────────────────────────
 
   /** Get status of core services. */
-  async servicesStatus(): Promise<SynoResponse> {
+  async servicesStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Service';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get service discovery information. */
-  async servicesDiscovery(): Promise<SynoResponse> {
+  async servicesDiscovery(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.FileServ.ServiceDiscovery';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get file transfer status. */
-  async fileTransferStatus(): Promise<SynoResponse> {
+  async fileTransferStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SyslogClient.FileTransfer';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── Network ───────────────────────────────────────────────────────
 
   /** Get network status. */
-  async networkStatus(): Promise<SynoResponse> {
+  async networkStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get DSM web status. */
-  async webStatus(): Promise<SynoResponse> {
+  async webStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Web.DSM';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get current connection information. */
-  async currentConnection(): Promise<SynoResponse> {
+  async currentConnection(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.CurrentConnection';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get bandwidth control status. */
-  async bandwidthControlStatus(): Promise<SynoResponse> {
+  async bandwidthControlStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.BandwidthControl.Status';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   // ── System Status ─────────────────────────────────────────────────
 
   /** Get system status. */
-  async sysStatus(): Promise<SynoResponse> {
+  async sysStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System.Status';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get latest system logs. */
-  async latestLogs(): Promise<SynoResponse> {
+  async latestLogs(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SyslogClient.Status';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'latestlog_get',
-    });
+    }, callOptions);
   }
 
   /** Get client notification settings status. */
-  async clientNotifySettingsStatus(): Promise<SynoResponse> {
+  async clientNotifySettingsStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SyslogClient.Setting.Notify';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── Security ──────────────────────────────────────────────────────
 
   /** Get security scan configuration. */
-  async getSecurityScanInfo(): Promise<SynoResponse> {
+  async getSecurityScanInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SecurityScan.Conf';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'first_get',
-    });
+    }, callOptions);
   }
 
   /** Get security scan rules. */
-  async getSecurityScanRules(): Promise<SynoResponse> {
+  async getSecurityScanRules(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SecurityScan.Status';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       items: 'ALL',
       method: 'rule_get',
-    });
+    }, callOptions);
   }
 
   /** Get security scan status. */
-  async getSecurityScanStatus(): Promise<SynoResponse> {
+  async getSecurityScanStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SecurityScan.Status';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'system_get',
-    });
+    }, callOptions);
   }
 
   // ── Users & Groups ────────────────────────────────────────────────
 
   /** Get user list. */
-  async getUserList(): Promise<SynoResponse> {
+  async getUserList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       additional: '["email", "description", "expired"]',
-    });
+    }, callOptions);
   }
 
   // ── QuickConnect ──────────────────────────────────────────────────
 
   /** Get QuickConnect configuration. */
-  async quickconnectInfo(): Promise<SynoResponse> {
+  async quickconnectInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.QuickConnect';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get_misc_config',
-    });
+    }, callOptions);
   }
 
   /** Get QuickConnect permissions. */
-  async quickconnectPermissions(): Promise<SynoResponse> {
+  async quickconnectPermissions(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.QuickConnect.Permission';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── Network Topology & Interfaces ─────────────────────────────────
 
   /** Get network topology. */
-  async networkTopology(): Promise<SynoResponse> {
+  async networkTopology(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.Router.Topology';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get WiFi client information. */
-  async networkWifiClient(): Promise<SynoResponse> {
+  async networkWifiClient(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.Wifi.Client';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get network bond information. */
-  async networkBond(): Promise<SynoResponse> {
+  async networkBond(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.Bond';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get network bridge information. */
-  async networkBridge(): Promise<SynoResponse> {
+  async networkBridge(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.Bridge';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get network ethernet information. */
-  async networkEthernet(): Promise<SynoResponse> {
+  async networkEthernet(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.Ethernet';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get local network bridge information. */
-  async networkLocalBridge(): Promise<SynoResponse> {
+  async networkLocalBridge(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.LocalBridge';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get USB modem information. */
-  async networkUsbModem(): Promise<SynoResponse> {
+  async networkUsbModem(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.USBModem';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get PPPoE information. */
-  async networkPppoe(): Promise<SynoResponse> {
+  async networkPppoe(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.PPPoE';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get IPv6 tunnel information. */
-  async networkIpv6tunnel(): Promise<SynoResponse> {
+  async networkIpv6tunnel(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.IPv6Tunnel';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── Network VPN ───────────────────────────────────────────────────
 
   /** Get VPN PPTP information. */
-  async networkVpnPptp(): Promise<SynoResponse> {
+  async networkVpnPptp(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.VPN.PPTP';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get OpenVPN information. */
-  async networkOpenvpn(): Promise<SynoResponse> {
+  async networkOpenvpn(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.VPN.OpenVPN';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       additional: '["status"]',
-    });
+    }, callOptions);
   }
 
   /** Get VPN L2TP information. */
-  async networkVpnL2tp(): Promise<SynoResponse> {
+  async networkVpnL2tp(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.VPN.L2TP';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   // ── Directory & Domain ────────────────────────────────────────────
 
   /** Get domain schedule. */
-  async domainSchedule(): Promise<SynoResponse> {
+  async domainSchedule(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Directory.Domain.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get LDAP client information. */
-  async clientLdap(): Promise<SynoResponse> {
+  async clientLdap(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Directory.LDAP';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get SSO client information. */
-  async clientSso(): Promise<SynoResponse> {
+  async clientSso(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Directory.SSO';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── Upgrade ───────────────────────────────────────────────────────
 
   /** Check for system upgrades. */
-  async sysUpgradeCheck(): Promise<SynoResponse> {
+  async sysUpgradeCheck(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Upgrade.Server';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'check',
-    });
+    }, callOptions);
   }
 
   /** Get system upgrade download progress. */
-  async sysUpgradeDownload(): Promise<SynoResponse> {
+  async sysUpgradeDownload(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Upgrade.Server.Download';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'progress',
-    });
+    }, callOptions);
   }
 
   /** Get system upgrade settings. */
-  async sysUpgradeSetting(): Promise<SynoResponse> {
+  async sysUpgradeSetting(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Upgrade.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── Notifications ─────────────────────────────────────────────────
 
   /** Get SMS notification configuration. */
-  async notificationSmsConf(): Promise<SynoResponse> {
+  async notificationSmsConf(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Notification.SMS.Conf';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get mail notification configuration. */
-  async notificationMailConf(): Promise<SynoResponse> {
+  async notificationMailConf(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Notification.Mail.Conf';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get push mail notification configuration. */
-  async notificationPushMail(): Promise<SynoResponse> {
+  async notificationPushMail(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Notification.Push.Mail';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get push notification configuration. */
-  async notificationPushConf(): Promise<SynoResponse> {
+  async notificationPushConf(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Notification.Push.Conf';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── Hardware ──────────────────────────────────────────────────────
 
   /** Get hardware beep control status. */
-  async hardwareBeepControl(): Promise<SynoResponse> {
+  async hardwareBeepControl(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Hardware.BeepControl';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get hardware fan speed. */
-  async hardwareFanSpeed(): Promise<SynoResponse> {
+  async hardwareFanSpeed(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Hardware.FanSpeed';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Set hardware fan speed (e.g., 'quietfan', 'coolfan', 'fullfan'). */
-  async setFanSpeed(fanSpeed = 'quietfan'): Promise<SynoResponse> {
+  async setFanSpeed(fanSpeed = 'quietfan', callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Hardware.FanSpeed';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set',
       dual_fan_speed: fanSpeed,
-    });
+    }, callOptions);
   }
 
   /** Enable or disable ZRAM. */
-  async enableZram(enableZram = true): Promise<SynoResponse> {
+  async enableZram(enableZram = true, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Hardware.ZRAM';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set',
       enable_zram: String(enableZram).toLowerCase(),
-    });
+    }, callOptions);
   }
 
   /** Enable power recovery options. */
   async enablePowerRecovery(
     restartAutoAfterIssue = true,
     wakeOnLan = false,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Hardware.PowerRecovery';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set',
       rc_power_config: String(restartAutoAfterIssue).toLowerCase(),
       wol1: String(wakeOnLan).toLowerCase(),
-    });
+    }, callOptions);
   }
 
   /** Enable or disable beep control options. */
@@ -665,49 +619,48 @@ export class CoreSysInfo extends BaseModule {
     volumeCrash?: boolean,
     poweronBeep?: boolean,
     poweroffBeep?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Hardware.BeepControl';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set',
       fan_fail: String(fanFail).toLowerCase(),
       volume_crash: String(volumeCrash).toLowerCase(),
       poweron_beep: String(poweronBeep).toLowerCase(),
       poweroff_beep: String(poweroffBeep).toLowerCase(),
-    });
+    }, callOptions);
   }
 
   /** Set LED brightness level. */
-  async setLedControl(ledBrightness = 2): Promise<SynoResponse> {
+  async setLedControl(ledBrightness = 2, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Led.Brightness';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set',
       led_brightness: ledBrightness,
-    });
+    }, callOptions);
   }
 
   /** Set hibernation idle times. */
   async setHibernation(
     internalHdIdletime = 0,
     usbIdletime = 0,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Hardware.Hibernation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set',
       internal_hd_idletime: internalHdIdletime,
       usb_idletime: usbIdletime,
-    });
+    }, callOptions);
   }
 
   /** Enable or configure external UPS. */
@@ -717,515 +670,476 @@ export class CoreSysInfo extends BaseModule {
     delayTime = 1,
     snmpAuthKeyDirty = false,
     snmpPrivacyKeyDirty = false,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ExternalDevice.UPS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set',
       enable: String(enable).toLowerCase(),
       mode,
       delay_time: delayTime,
       snmp_auth_key_dirty: String(snmpAuthKeyDirty).toLowerCase(),
       snmp_privacy_key_dirty: String(snmpPrivacyKeyDirty).toLowerCase(),
-    });
+    }, callOptions);
   }
 
   // ── System Information ────────────────────────────────────────────
 
   /** Get system information. */
-  async getSystemInfo(): Promise<SynoResponse> {
+  async getSystemInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'info',
-    });
+    }, callOptions);
   }
 
   /** Get CPU temperature. Returns the sys_temp field from system info. */
-  async getCpuTemp(): Promise<SynoResponse> {
+  async getCpuTemp(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'info',
-    });
+    }, callOptions);
   }
 
   // ── System Utilization ────────────────────────────────────────────
 
   /** Get all system utilization statistics. */
-  async getAllSystemUtilization(): Promise<SynoResponse> {
+  async getAllSystemUtilization(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System.Utilization';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get CPU utilization statistics. */
-  async getCpuUtilization(): Promise<SynoResponse> {
+  async getCpuUtilization(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System.Utilization';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get disk utilization statistics. */
-  async getDiskUtilization(): Promise<SynoResponse> {
+  async getDiskUtilization(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System.Utilization';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get memory utilization statistics. */
-  async getMemoryUtilization(): Promise<SynoResponse> {
+  async getMemoryUtilization(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System.Utilization';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── Power Control ─────────────────────────────────────────────────
 
   /** Shutdown the system. */
-  async shutdown(version?: number): Promise<SynoResponse> {
+  async shutdown(version?: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: version ?? info.maxVersion,
+      version: version ?? info.version,
       method: 'shutdown',
-    });
+    }, callOptions);
   }
 
   /** Reboot the system. */
-  async reboot(): Promise<SynoResponse> {
+  async reboot(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'reboot',
-    });
+    }, callOptions);
   }
 
   // ── DSM ───────────────────────────────────────────────────────────
 
   /** Get DSM information. */
-  async dsmInfo(): Promise<SynoResponse> {
+  async dsmInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.DSM.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'getinfo',
-    });
+    }, callOptions);
   }
 
   /** Get network information. */
-  async getNetworkInfo(): Promise<SynoResponse> {
+  async getNetworkInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'info',
       type: 'network',
-    });
+    }, callOptions);
   }
 
   /** Get volume information. */
-  async getVolumeInfo(): Promise<SynoResponse> {
+  async getVolumeInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'info',
       type: 'storage_v2',
-    });
+    }, callOptions);
   }
 
   /** Get hardware hibernation status. */
-  async hardwareHibernation(): Promise<SynoResponse> {
+  async hardwareHibernation(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Hardware.Hibernation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get hardware UPS status. */
-  async hardwareUps(): Promise<SynoResponse> {
+  async hardwareUps(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ExternalDevice.UPS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get terminal information. */
-  async terminalInfo(): Promise<SynoResponse> {
+  async terminalInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Terminal';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get SNMP information. */
-  async snmpInfo(): Promise<SynoResponse> {
+  async snmpInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SNMP';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get system process information. */
-  async process(): Promise<SynoResponse> {
+  async process(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System.Process';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   // ── Storage ───────────────────────────────────────────────────────
 
   /** Get storage information. */
-  async storage(): Promise<SynoResponse> {
+  async storage(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Storage.CGI.Storage';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'load_info',
-    });
+    }, callOptions);
   }
 
   /** Get USB storage device information. */
-  async externalDeviceStorageUsb(): Promise<SynoResponse> {
+  async externalDeviceStorageUsb(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ExternalDevice.Storage.USB';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       additional: ['dev_type', 'product', 'status', 'partitions'],
-    });
+    }, callOptions);
   }
 
   /** Get eSATA storage device information. */
-  async externalDeviceStorageEsata(): Promise<SynoResponse> {
+  async externalDeviceStorageEsata(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ExternalDevice.Storage.eSATA';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       additional: ['dev_type', 'status'],
-    });
+    }, callOptions);
   }
 
   /** Get file indexing status. */
-  async fileIndexResource(): Promise<SynoResponse> {
+  async fileIndexResource(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Finder.FileIndexing.Status';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get CMS information. */
-  async cmsInfo(): Promise<SynoResponse> {
+  async cmsInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.CMS.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── Port Forwarding ───────────────────────────────────────────────
 
   /** Get port forwarding rules. */
-  async portForwardingRules(): Promise<SynoResponse> {
+  async portForwardingRules(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.PortForwarding.Rules';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'load',
-    });
+    }, callOptions);
   }
 
   /** Get port forwarding router configuration. */
-  async portForwardingRouterConf(): Promise<SynoResponse> {
+  async portForwardingRouterConf(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.PortForwarding.RouterConf';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── Disk & HDD ────────────────────────────────────────────────────
 
   /** Get disk list. */
-  async diskList(): Promise<SynoResponse> {
+  async diskList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Polling.Data';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get HDD manager information. */
-  async hddman(): Promise<SynoResponse> {
+  async hddman(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Storage.CGI.HddMan';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── DDNS ──────────────────────────────────────────────────────────
 
   /** Get DDNS provider information. */
-  async ddnsProviderInfo(): Promise<SynoResponse> {
+  async ddnsProviderInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.DDNS.Provider';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get DDNS record information. */
-  async ddnsRecordInfo(): Promise<SynoResponse> {
+  async ddnsRecordInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.DDNS.Record';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get DDNS external IP. */
-  async ddnsExternalIp(): Promise<SynoResponse> {
+  async ddnsExternalIp(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.DDNS.ExtIP';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       retry: 'true',
-    });
+    }, callOptions);
   }
 
   /** Get Synology DDNS information. */
-  async ddnsSynology(): Promise<SynoResponse> {
+  async ddnsSynology(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.DDNS.Synology';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get_myds_account',
-    });
+    }, callOptions);
   }
 
   // ── iSCSI ─────────────────────────────────────────────────────────
 
   /** Get iSCSI LUN information. */
-  async iscsiLunInfo(): Promise<SynoResponse> {
+  async iscsiLunInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ISCSI.LUN';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   // ── FTP Security ──────────────────────────────────────────────────
 
   /** Get FTP security information. */
-  async ftpSecurityInfo(): Promise<SynoResponse> {
+  async ftpSecurityInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.FileServ.FTP.Security';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get bandwidth control information (FTP protocol). */
-  async bandwidthControlInfo(): Promise<SynoResponse> {
+  async bandwidthControlInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.BandwidthControl.Protocol';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       protocol: 'FTP',
-    });
+    }, callOptions);
   }
 
   /** Get directory domain information. */
-  async directoryDomainInfo(): Promise<SynoResponse> {
+  async directoryDomainInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Directory.Domain';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get WS transfer information. */
-  async wsTransferInfo(): Promise<SynoResponse> {
+  async wsTransferInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.FileServ.ServiceDiscovery.WSTransfer';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get reflink copy information. */
-  async refLinkCopyInfo(): Promise<SynoResponse> {
+  async refLinkCopyInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.FileServ.ReflinkCopy';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get Bonjour service information. */
-  async bonjourServiceInfo(): Promise<SynoResponse> {
+  async bonjourServiceInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ExternalDevice.Printer.BonjourSharing';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get personal photo enable status. */
-  async personalPhotoEnable(): Promise<SynoResponse> {
+  async personalPhotoEnable(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User.Home';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get FTP chroot user information. */
-  async ftpChrootUser(): Promise<SynoResponse> {
+  async ftpChrootUser(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.FileServ.FTP.ChrootUser';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'load',
-    });
+    }, callOptions);
   }
 
   /** Get server pair information. */
-  async serverPair(): Promise<SynoResponse> {
+  async serverPair(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.S2S.Server.Pair';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       additional: ['sync_shares'],
-    });
+    }, callOptions);
   }
 
   /** Get groups information. */
@@ -1233,180 +1147,178 @@ export class CoreSysInfo extends BaseModule {
     offset = 0,
     limit = -1,
     nameOnly = false,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Group';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       offset,
       limit,
       name_only: nameOnly ? 'true' : 'false',
       type: 'local',
-    });
+    }, callOptions);
+  }
+
+  /** Iterate groups information, fetching it page by page. */
+  iterateGroupsInfo(nameOnly = false, paginateOptions?: PaginateOptions): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.groupsInfo(page.offset, page.limit, nameOnly, callOptions),
+      'groups',
+      paginateOptions,
+    );
   }
 
   /** Get LDAP information. */
-  async ldapInfo(): Promise<SynoResponse> {
+  async ldapInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Directory.LDAP';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get SSO IWA information. */
-  async ssoIwaInfo(): Promise<SynoResponse> {
+  async ssoIwaInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Directory.SSO.IWA';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get SSO information. */
-  async ssoInfo(): Promise<SynoResponse> {
+  async ssoInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Directory.SSO';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get network interface information. */
-  async networkInterfaceInfo(): Promise<SynoResponse> {
+  async networkInterfaceInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.Interface';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get proxy information. */
-  async proxyInfo(): Promise<SynoResponse> {
+  async proxyInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.Proxy';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get gateway list. */
   async gatewayList(
     ipType = 'ipv4',
     gatewayType = 'wan',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.Router.Gateway.List';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       iptype: ipType,
       type: gatewayType,
-    });
+    }, callOptions);
   }
 
   /** Get firewall information. */
-  async firewallInfo(): Promise<SynoResponse> {
+  async firewallInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Security.Firewall.Profile';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   // ── Auto Upgrade ──────────────────────────────────────────────────
 
   /** Get auto upgrade status. */
-  async autoUpgradeStatus(): Promise<SynoResponse> {
+  async autoUpgradeStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Upgrade.AutoUpgrade';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'status',
-    });
+    }, callOptions);
   }
 
   /** Check upgrade server with extended options. */
-  async upgradeServerCheck(): Promise<SynoResponse> {
+  async upgradeServerCheck(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Upgrade.Server';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'check',
       user_reading: 'true',
       need_auto_smallupdate: 'true',
       need_promotion: 'true',
-    });
+    }, callOptions);
   }
 
   // ── Resource Monitor ──────────────────────────────────────────────
 
   /** Get alarm rules logs. */
-  async alarmRulesLogs(): Promise<SynoResponse> {
+  async alarmRulesLogs(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ResourceMonitor.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       offset: 0,
       limit: 100,
       sort_direction: 'DESC',
       sort_by: 'time',
       mode: 'sequential',
-    });
+    }, callOptions);
   }
 
   /** Get alarm rules list. */
-  async alarmRulesList(): Promise<SynoResponse> {
+  async alarmRulesList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ResourceMonitor.EventRule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /** Get resource monitor settings. */
-  async resourceMonitorSettingsList(): Promise<SynoResponse> {
+  async resourceMonitorSettingsList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ResourceMonitor.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ── File Handling ─────────────────────────────────────────────────
@@ -1417,13 +1329,13 @@ export class CoreSysInfo extends BaseModule {
     sortBy = 'service',
     limit = 50,
     offset = 0,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.FileHandle';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       forceReload: 'true',
       action: 'enum',
@@ -1431,44 +1343,54 @@ export class CoreSysInfo extends BaseModule {
       sort_by: sortBy,
       limit,
       offset,
-    });
+    }, callOptions);
+  }
+
+  /** Iterate file handling access information, fetching it page by page. */
+  iterateFileHandlingAccess(
+    sortDirection: 'ASC' | 'DESC' = 'ASC',
+    sortBy = 'service',
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.fileHandlingAccess(sortDirection, sortBy, page.limit, page.offset, callOptions),
+      'items',
+      paginateOptions,
+    );
   }
 
   // ── Process Groups ────────────────────────────────────────────────
 
   /** Get service group list. */
-  async listServiceGroup(interval = 0): Promise<SynoResponse> {
+  async listServiceGroup(interval = 0, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System.ProcessGroup';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       node: 'xnode-3697',
       interval,
-    });
+    }, callOptions);
   }
 
   /** Get process group list. */
-  async listProcessGroup(): Promise<SynoResponse> {
+  async listProcessGroup(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System.Process';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   // ── Packages ──────────────────────────────────────────────────────
 
   /** Get installed package list. */
-  async installedPackageList(): Promise<SynoResponse> {
+  async installedPackageList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Package';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const additional = [
       'description',
@@ -1500,50 +1422,47 @@ export class CoreSysInfo extends BaseModule {
     ];
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       additional,
-    });
+    }, callOptions);
   }
 
   // ── Notifications ─────────────────────────────────────────────────
 
   /** Get active notifications. */
-  async activeNotifications(): Promise<SynoResponse> {
+  async activeNotifications(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.DSMNotify';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'notify',
       action: 'load',
-    });
+    }, callOptions);
   }
 
   // ── System Health ─────────────────────────────────────────────────
 
   /** Get system health information. */
-  async getSystemHealth(): Promise<SynoResponse> {
+  async getSystemHealth(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System.SystemHealth';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Get upgrade status. */
-  async upgradeStatus(): Promise<SynoResponse> {
+  async upgradeStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Upgrade';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'status',
-    });
+    }, callOptions);
   }
 }
@@ -3,7 +3,11 @@
  * Ported from Python synology_api/core_user.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 export interface GetUsersOptions {
   readonly offset?: number;
@@ -66,45 +70,60 @@ export interface SetPasswordExpiryOptions {
 export class CoreUser extends BaseModule {
   protected readonly application = 'Core';
 
-  async getUsers(options?: GetUsersOptions): Promise<SynoResponse> {
+  async getUsers(options?: GetUsersOptions, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'list',
-      version: info.minVersion,
+      version: info.version,
       type: 'local',
       offset: options?.offset ?? 0,
       limit: options?.limit ?? -1,
       sort_by: options?.sortBy ?? 'name',
       sort_direction: options?.sortDirection ?? 'ASC',
       additional: JSON.stringify(options?.additional ?? []),
-    });
+    }, callOptions);
   }
 
-  async getUser(name: string, additional: string[] = []): Promise<SynoResponse> {
+  /**
+   * Iterate all local users, fetching them page by page.
+   */
+  iterateUsers(
+    options: Omit<GetUsersOptions, 'offset' | 'limit'> = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getUsers({ ...options, ...page }, callOptions),
+      'users',
+      paginateOptions,
+    );
+  }
+
+  async getUser(
+    name: string,
+    additional: string[] = [],
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'get',
       type: 'local',
-      version: info.minVersion,
+      version: info.version,
       name,
       additional: JSON.stringify(additional),
-    });
+    }, callOptions);
   }
 
-  async createUser(options: CreateUserOptions): Promise<SynoResponse> {
+  async createUser(options: CreateUserOptions, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     const params: Record<string, unknown> = {
       method: 'create',
-      version: info.minVersion,
+      version: info.version,
       name: options.name,
       password: options.password,
       description: options.description ?? '',
@@ -116,17 +135,16 @@ export class CoreUser extends BaseModule {
       send_password: options.sendPassword ?? false,
     };
 
-    return this.request(apiName, info.path, params, { method: 'post' });
+    return this.request(apiName, info.path, params, { ...callOptions, method: 'post' });
   }
 
-  async modifyUser(options: ModifyUserOptions): Promise<SynoResponse> {
+  async modifyUser(options: ModifyUserOptions, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     const params: Record<string, unknown> = {
       method: 'set',
-      version: info.minVersion,
+      version: info.version,
       name: options.name,
       new_name: options.newName,
       password: options.password ?? '',
@@ -139,70 +157,69 @@ export class CoreUser extends BaseModule {
       send_password: options.sendPassword ?? false,
     };
 
-    return this.request(apiName, info.path, params, { method: 'post' });
+    return this.request(apiName, info.path, params, { ...callOptions, method: 'post' });
   }
 
-  async deleteUser(name: string): Promise<SynoResponse> {
+  async deleteUser(name: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'delete',
-      version: info.minVersion,
+      version: info.version,
       name,
-    });
+    }, callOptions);
   }
 
   async affectGroups(
     name: string,
     joinGroups: string[] = [],
     leaveGroups: string[] = [],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User.Group';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'join',
-      version: info.minVersion,
+      version: info.version,
       join_group: JSON.stringify(joinGroups),
       leave_group: JSON.stringify(leaveGroups),
       name,
-    });
+    }, callOptions);
   }
 
-  async affectGroupsStatus(taskId: string): Promise<SynoResponse> {
+  async affectGroupsStatus(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User.Group';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'join_status',
-      version: info.minVersion,
+      version: info.version,
       task_id: taskId,
-    });
+    }, callOptions);
   }
 
-  async getPasswordPolicy(): Promise<SynoResponse> {
+  async getPasswordPolicy(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User.PasswordPolicy';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'get',
-      version: info.minVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 
-  async setPasswordPolicy(options?: SetPasswordPolicyOptions): Promise<SynoResponse> {
+  async setPasswordPolicy(
+    options?: SetPasswordPolicyOptions,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User.PasswordPolicy';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'set',
-      version: info.minVersion,
+      version: info.version,
       enable_reset_passwd_by_email: options?.enableResetPasswdByEmail ?? false,
       password_must_change: options?.passwordMustChange ?? false,
       strong_password: {
@@ -215,28 +232,29 @@ export class CoreUser extends BaseModule {
         exclude_common_password: options?.excludeCommonPassword ?? false,
         exclude_history: options?.excludeHistory ?? false,
       },
-    });
+    }, callOptions);
   }
 
-  async getPasswordExpiry(): Promise<SynoResponse> {
+  async getPasswordExpiry(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User.PasswordExpiry';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'get',
-      version: info.minVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 
-  async setPasswordExpiry(options?: SetPasswordExpiryOptions): Promise<SynoResponse> {
+  async setPasswordExpiry(
+    options?: SetPasswordExpiryOptions,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User.PasswordExpiry';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'set',
-      version: info.minVersion,
+      version: info.version,
       password_expire_enable: options?.passwordExpireEnable ?? false,
       max_age: options?.maxAge ?? 30,
       min_age_enable: options?.minAgeEnable ?? false,
@@ -246,29 +264,27 @@ export class CoreUser extends BaseModule {
       allow_reset_after_expired: options?.allowResetAfterExpired ?? true,
       enable_mail_notification: options?.enableMailNotification ?? false,
       never_expired_list: JSON.stringify(options?.neverExpiredList ?? []),
-    });
+    }, callOptions);
   }
 
-  async passwordConfirm(password: string): Promise<SynoResponse> {
+  async passwordConfirm(password: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User.PasswordConfirm';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'auth',
       password,
-    }, { method: 'post' });
+    }, { ...callOptions, method: 'post' });
   }
 
-  async getUsernamePolicy(): Promise<SynoResponse> {
+  async getUsernamePolicy(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.User.UsernamePolicy';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'list',
-      version: info.minVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 }
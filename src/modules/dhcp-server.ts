@@ -4,98 +4,91 @@
  */
 import { BaseModule } from './base-module.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
 
 export class DhcpServer extends BaseModule {
   protected readonly application = 'DHCPServer';
 
-  async getGeneralInfo(ifname = 'ovs_eth0'): Promise<SynoResponse> {
+  async getGeneralInfo(ifname = 'ovs_eth0', callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Network.DHCPServer';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       ifname,
-    });
+    }, callOptions);
   }
 
-  async getVendor(): Promise<SynoResponse> {
+  async getVendor(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Network.DHCPServer.Vendor';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async getPxe(): Promise<SynoResponse> {
+  async getPxe(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Network.DHCPServer.PXE';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async getTftp(): Promise<SynoResponse> {
+  async getTftp(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.TFTP';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async getNetworkBond(): Promise<SynoResponse> {
+  async getNetworkBond(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.Bond';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async getNetworkEthernet(): Promise<SynoResponse> {
+  async getNetworkEthernet(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Network.Ethernet';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async getDhcpClientList(ifname = 'bond0'): Promise<SynoResponse> {
+  async getDhcpClientList(ifname = 'bond0', callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Network.DHCPServer.ClientList';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       ifname,
-    });
+    }, callOptions);
   }
 
-  async getDhcpReservations(ifname = 'bond0'): Promise<SynoResponse> {
+  async getDhcpReservations(ifname = 'bond0', callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Network.DHCPServer.Reservation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       ifname,
-    });
+    }, callOptions);
   }
 }
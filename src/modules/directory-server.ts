@@ -3,19 +3,23 @@
  * Ported from Python synology_api/directory_server.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 export class DirectoryServer extends BaseModule {
   protected readonly application = 'Core';
 
-  async getDirectoryInfo(): Promise<SynoResponse> {
+  async getDirectoryInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveDirectory.Info';
+    const info = this.requireApi(apiName, { min: 3, max: 3 });
 
-    return this.request(apiName, 'entry.cgi', {
-      api: apiName,
+    return this.request(apiName, info.path, {
+      version: info.version,
       method: 'get',
-      version: 3,
-    });
+    }, callOptions);
   }
 
   async listDirectoryObjects(
@@ -23,11 +27,13 @@ export class DirectoryServer extends BaseModule {
     offset = 0,
     limit = 40,
     objectCategory: string[] = ['person', 'group', 'organizationalUnit', 'computer', 'container', 'builtinDomain'],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveDirectory.Directory';
+    const info = this.requireApi(apiName, { min: 3, max: 3 });
 
-    return this.request(apiName, 'entry.cgi', {
-      api: apiName,
+    return this.request(apiName, info.path, {
+      version: info.version,
       action: '"enum"',
       basedn: `"${basedn}"`,
       limit,
@@ -35,8 +41,20 @@ export class DirectoryServer extends BaseModule {
       objectCategory: JSON.stringify(objectCategory),
       offset,
       scope: '"one"',
-      version: 3,
-    }, { method: 'post' });
+    }, { ...callOptions, method: 'post' });
+  }
+
+  /** Iterate the objects directly under a base DN, fetching them page by page. */
+  iterateDirectoryObjects(
+    basedn: string,
+    objectCategory?: string[],
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.listDirectoryObjects(basedn, page.offset, page.limit, objectCategory, callOptions),
+      'data',
+      paginateOptions,
+    );
   }
 
   async createNewUser(options: {
@@ -49,12 +67,12 @@ export class DirectoryServer extends BaseModule {
     cannotChangePassword?: string;
     changePasswordNextLogon?: string;
     passwordNeverExpire?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveDirectory.User';
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
-    return this.request(apiName, 'entry.cgi', {
-      api: apiName,
-      version: 1,
+    return this.request(apiName, info.path, {
+      version: info.version,
       method: 'create',
       logon_name: options.logonName,
       email: options.email,
@@ -65,39 +83,38 @@ export class DirectoryServer extends BaseModule {
       cannot_change_password: options.cannotChangePassword ?? 'false',
       change_password_next_logon: options.changePasswordNextLogon ?? 'null',
       password_never_expire: options.passwordNeverExpire ?? 'true',
-    });
+    }, callOptions);
   }
 
-  async resetPassword(username: string): Promise<SynoResponse> {
+  async resetPassword(username: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Auth.ForgotPwd';
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
-    return this.request(apiName, 'entry.cgi', {
+    return this.request(apiName, info.path, {
+      version: info.version,
       method: 'send',
       user: `"${username}"`,
-      version: 1,
-    });
+    }, callOptions);
   }
 
-  async changeUserPassword(userDn: string, password: string): Promise<SynoResponse> {
-    const compound = JSON.stringify([{
-      api: 'SYNO.ActiveDirectory.User',
+  async changeUserPassword(
+    userDn: string,
+    password: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
+    const apiName = 'SYNO.ActiveDirectory.User';
+    const info = this.requireApi(apiName, { min: 2, max: 2 });
+
+    return this.batchRequest([{
+      api: apiName,
       method: 'set',
-      version: 2,
+      version: info.version,
       userList: [{
         dn: userDn,
         enbl_change_password: true,
         password,
       }],
-    }]);
-
-    return this.request('SYNO.Entry.Request', 'entry.cgi', {
-      api: 'SYNO.Entry.Request',
-      method: 'request',
-      compound,
-      mode: 'sequential',
-      stop_when_error: 'true',
-      version: 1,
-    });
+    }], callOptions);
   }
 
   async createNewGroup(options: {
@@ -107,11 +124,12 @@ export class DirectoryServer extends BaseModule {
     description?: string;
     type?: string;
     scope?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveDirectory.Group';
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
-    return this.request(apiName, 'entry.cgi', {
-      api: apiName,
+    return this.request(apiName, info.path, {
+      version: info.version,
       method: 'create',
       name: options.name,
       located_dn: options.locatedDn,
@@ -119,37 +137,35 @@ export class DirectoryServer extends BaseModule {
       type: options.type ?? 'security',
       scope: options.scope ?? 'global',
       email: options.email ?? '',
-      version: 1,
-    });
+    }, callOptions);
   }
 
-  async addUserToGroup(userDn: string, groupDn: string): Promise<SynoResponse> {
-    const compound = JSON.stringify([{
-      api: 'SYNO.ActiveDirectory.Group.Member',
+  async addUserToGroup(
+    userDn: string,
+    groupDn: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
+    const apiName = 'SYNO.ActiveDirectory.Group.Member';
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
+
+    return this.batchRequest([{
+      api: apiName,
       method: 'add',
-      version: '1',
+      version: info.version,
       dn: groupDn,
       members: [userDn],
-    }]);
-
-    return this.request('SYNO.Entry.Request', 'entry.cgi', {
-      api: 'SYNO.Entry.Request',
-      compound,
-      method: 'request',
-      mode: 'sequential',
-      stop_when_error: true,
-      version: 1,
-    });
+    }], callOptions);
   }
 
-  async doesDnExist(name: string): Promise<boolean> {
+  async doesDnExist(name: string, callOptions?: CallOptions): Promise<boolean> {
     const apiName = 'SYNO.ActiveDirectory.Group';
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
-    const response = await this.request(apiName, 'entry.cgi', {
-      version: 1,
+    const response = await this.request(apiName, info.path, {
+      version: info.version,
       method: 'conflict',
       name,
-    });
+    }, callOptions);
 
     const data = (response as unknown as Record<string, unknown>).data as Record<string, unknown> | undefined;
     return (data?.isConflict as boolean) ?? false;
@@ -165,7 +181,7 @@ export class DirectoryServer extends BaseModule {
     physicalDeliveryOfficeName?: string;
     telephoneNumber?: string;
     web?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const userObject: Record<string, unknown> = { dn: options.userDn };
 
     if (options.firstName !== undefined) userObject.firstName = options.firstName;
@@ -178,62 +194,54 @@ export class DirectoryServer extends BaseModule {
     if (options.telephoneNumber !== undefined) userObject.telephoneNumber = options.telephoneNumber;
     if (options.web !== undefined) userObject.web = options.web;
 
-    const compound = JSON.stringify([{
-      api: 'SYNO.ActiveDirectory.User',
+    const apiName = 'SYNO.ActiveDirectory.User';
+    const info = this.requireApi(apiName, { min: 2, max: 2 });
+
+    return this.batchRequest([{
+      api: apiName,
       method: 'set',
-      version: 2,
+      version: info.version,
       userList: [userObject],
-    }]);
-
-    return this.request('SYNO.Entry.Request', 'entry.cgi', {
-      api: 'SYNO.Entry.Request',
-      method: 'request',
-      compound,
-      mode: '"sequential"',
-      stop_when_error: true,
-      version: 1,
-    }, { method: 'post' });
+    }], { ...callOptions, method: 'post' });
   }
 
-  async updateDomainRecords(): Promise<SynoResponse> {
+  async updateDomainRecords(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Directory.Domain';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       domain_name: '"@all"',
       method: 'update_start',
-      version: info.minVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 
-  async getTaskStatus(taskId: string): Promise<SynoResponse> {
+  async getTaskStatus(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Directory.Domain';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     return this.request(apiName, info.path, {
       method: 'update_status',
       task_id: taskId,
-      version: info.minVersion,
-    });
+      version: info.version,
+    }, callOptions);
   }
 
-  async deleteItems(dnList: string[]): Promise<SynoResponse> {
+  async deleteItems(dnList: string[], callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.ActiveDirectory.Directory';
+    const info = this.requireApi(apiName, { min: 2, max: 2 });
 
-    const deleteResponse = await this.request(apiName, 'entry.cgi', {
-      api: apiName,
+    const deleteResponse = await this.request(apiName, info.path, {
+      version: info.version,
       method: 'delete',
       dnList: JSON.stringify(dnList),
-      version: 2,
-    });
+    }, callOptions);
 
     const data = (deleteResponse as unknown as Record<string, unknown>).data as Record<string, unknown>;
     const taskId = data.task_id as string;
 
     // Poll until finished
-    let result = await this.entryRequest(taskId);
+    let result = await this.#entryRequest(taskId, callOptions);
     const resultData = (result as unknown as Record<string, unknown>).data as Record<string, unknown>;
     const results = ((resultData?.result ?? []) as Array<Record<string, unknown>>);
 
@@ -248,7 +256,7 @@ export class DirectoryServer extends BaseModule {
           }
         }
         if (notFinished) {
-          result = await this.entryRequest(taskId);
+          result = await this.#entryRequest(taskId, callOptions);
         }
       }
     }
@@ -256,24 +264,19 @@ export class DirectoryServer extends BaseModule {
     return result;
   }
 
-  async deleteItem(dn: string): Promise<SynoResponse> {
-    return this.deleteItems([dn]);
+  async deleteItem(dn: string, callOptions?: CallOptions): Promise<SynoResponse> {
+    return this.deleteItems([dn], callOptions);
   }
 
-  private async entryRequest(taskId: string): Promise<SynoResponse> {
-    const compound = JSON.stringify([{
-      api: 'SYNO.ActiveDirectory.Polling',
+  async #entryRequest(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
+    const apiName = 'SYNO.ActiveDirectory.Polling';
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
+
+    return this.batchRequest([{
+      api: apiName,
       method: 'get',
-      version: 1,
+      version: info.version,
       task_id: taskId,
-    }]);
-
-    return this.request('SYNO.Entry.Request', 'entry.cgi', {
-      api: 'SYNO.Entry.Request',
-      method: 'request',
-      compound,
-      mode: 'parallel',
-      version: 1,
-    });
+    }], { ...callOptions, mode: 'parallel' });
   }
 }
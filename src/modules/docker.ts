@@ -3,7 +3,11 @@
  * Ported from Python synology_api/docker_api.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 export class Docker extends BaseModule {
   protected readonly application = 'Docker';
@@ -11,46 +15,43 @@ export class Docker extends BaseModule {
   /**
    * Get list of containers.
    */
-  async containers(): Promise<SynoResponse> {
+  async containers(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Container';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       limit: '-1',
       offset: '0',
       type: 'all',
-    });
+    }, callOptions);
   }
 
   /**
    * Get resources of all containers.
    */
-  async containerResources(): Promise<SynoResponse> {
+  async containerResources(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Container.Resource';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /**
    * Get system resources (CPU, memory, disk, network).
    */
-  async systemResources(): Promise<SynoResponse> {
+  async systemResources(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.System.Utilization';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /**
@@ -60,125 +61,127 @@ export class Docker extends BaseModule {
     limit = -1,
     offset = 0,
     showDsm = false,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Image';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       limit,
       offset,
       show_dsm: JSON.stringify(showDsm),
-    });
+    }, callOptions);
+  }
+
+  /** Iterate all downloaded images, fetching them page by page. */
+  iterateDownloadedImages(showDsm = false, paginateOptions?: PaginateOptions): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.downloadedImages(page.limit, page.offset, showDsm, callOptions),
+      'images',
+      paginateOptions,
+    );
   }
 
   /**
    * Get list of docker registries.
    */
-  async imagesRegistryResources(): Promise<SynoResponse> {
+  async imagesRegistryResources(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Registry';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /**
    * Get list of docker networks.
    */
-  async network(): Promise<SynoResponse> {
+  async network(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Network';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /**
    * Search for a docker image in all available registries.
    */
-  async searchImage(query: string): Promise<SynoResponse> {
+  async searchImage(query: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Registry';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     // version 1 contains methods: search, tags, get, create, set, using, delete
     // version 2 contains methods: tags
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'search',
       offset: 0,
       limit: 50,
       page_size: 50,
       q: query,
-    });
+    }, callOptions);
   }
 
   /**
    * Get list of projects.
    */
-  async listProjects(): Promise<SynoResponse> {
+  async listProjects(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Project';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /**
    * Get information about a specific project.
    */
-  async getProjectInfo(projectId: string): Promise<SynoResponse> {
+  async getProjectInfo(projectId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Project';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       id: projectId,
-    });
+    }, callOptions);
   }
 
   /**
    * Start a container by its name.
    */
-  async startContainer(container: string): Promise<SynoResponse> {
+  async startContainer(container: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Container';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'start',
       name: container,
-    });
+    }, callOptions);
   }
 
   /**
    * Stop a container by its name.
    */
-  async stopContainer(container: string): Promise<SynoResponse> {
+  async stopContainer(container: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Container';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'stop',
       name: container,
-    });
+    }, callOptions);
   }
 
   /**
@@ -188,17 +191,17 @@ export class Docker extends BaseModule {
   async exportContainerSettings(
     container: string,
     path: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Container.Profile';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'export',
       name: container,
       path,
-    });
+    }, callOptions);
   }
 
   /**
@@ -208,17 +211,17 @@ export class Docker extends BaseModule {
   async exportContainer(
     container: string,
     path: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Container';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'export',
       name: container,
       path,
-    });
+    }, callOptions);
   }
 
   /**
@@ -235,10 +238,10 @@ export class Docker extends BaseModule {
       offset?: number;
       limit?: number;
     } = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Container.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const {
       fromDate,
@@ -254,7 +257,7 @@ export class Docker extends BaseModule {
       apiName,
       info.path,
       {
-        version: info.maxVersion,
+        version: info.version,
         method: 'get',
         name,
         from: fromDate,
@@ -265,21 +268,39 @@ export class Docker extends BaseModule {
         offset,
         limit,
       },
-      { method: 'post' },
+      { ...callOptions, method: 'post' },
+    );
+  }
+
+  /** Iterate all log lines of a container, fetching them page by page. */
+  iterateLogs(
+    name: string,
+    options: {
+      fromDate?: string;
+      toDate?: string;
+      level?: string;
+      keyword?: string;
+      sortDir?: 'ASC' | 'DESC';
+    } = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getLogs(name, { ...options, ...page }, callOptions),
+      'logs',
+      paginateOptions,
     );
   }
 
   /**
    * Get containers resource usage statistics (docker stats).
    */
-  async dockerStats(): Promise<SynoResponse> {
+  async dockerStats(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Docker.Container';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'stats',
-    });
+    }, callOptions);
   }
 }
@@ -7,8 +7,12 @@
  */
 import { BaseModule } from './base-module.ts';
 import { readLocalFile } from '../core/utils.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoClient } from '../core/client.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 /** Server configuration options for Download Station. */
 interface ServerConfig {
@@ -47,7 +51,7 @@ export class DownloadStation extends BaseModule {
   // ---------- Helpers ----------
 
   /** Build a versioned API name, e.g. SYNO.DownloadStation2.Task */
-  private apiName(suffix: string): string {
+  #apiName(suffix: string): string {
     return `SYNO.DownloadStation${this.dsVersion}.${suffix}`;
   }
 
@@ -59,37 +63,34 @@ export class DownloadStation extends BaseModule {
   // ---------- Info ----------
 
   /** Get Download Station info. */
-  async getInfo(): Promise<SynoResponse> {
+  async getInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.DownloadStation.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'getinfo',
-    });
+    }, callOptions);
   }
 
   /** Get Download Station config. */
-  async getConfig(): Promise<SynoResponse> {
+  async getConfig(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.DownloadStation.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'getconfig',
-    });
+    }, callOptions);
   }
 
   /** Set Download Station server configuration. */
-  async setServerConfig(config: ServerConfig): Promise<SynoResponse> {
+  async setServerConfig(config: ServerConfig, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.DownloadStation.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'setserverconfig',
     };
 
@@ -99,38 +100,37 @@ export class DownloadStation extends BaseModule {
       }
     }
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ---------- Schedule ----------
 
   /** Get Download Station schedule configuration. */
-  async getScheduleInfo(): Promise<SynoResponse> {
+  async getScheduleInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.DownloadStation.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'getconfig',
-    });
+    }, callOptions);
   }
 
   /** Set Download Station schedule configuration. */
   async setScheduleConfig(
     enabled: boolean = false,
     emuleEnabled: boolean = false,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.DownloadStation.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'setconfig',
       enabled: String(enabled).toLowerCase(),
       emule_enabled: String(emuleEnabled).toLowerCase(),
-    });
+    }, callOptions);
   }
 
   // ---------- Tasks ----------
@@ -140,10 +140,10 @@ export class DownloadStation extends BaseModule {
     additionalParam?: string | string[],
     offset: number = 0,
     limit: number = -1,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
-    const apiName = this.apiName('Task');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const apiName = this.#apiName('Task');
+    const info = this.requireApi(apiName);
 
     const additional =
       additionalParam === undefined
@@ -153,22 +153,36 @@ export class DownloadStation extends BaseModule {
           : additionalParam;
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       additional: JSON.stringify(additional),
       limit,
       offset,
-    });
+    }, callOptions);
+  }
+
+  /** Iterate all download tasks, fetching them page by page. */
+  iterateTasks(
+    additionalParam?: string | string[],
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    // DownloadStation2 returns the list under 'task' rather than 'tasks'
+    const itemsKey = this.dsVersion === '2' ? 'task' : 'tasks';
+    return paginate(
+      (page, callOptions) => this.tasksList(additionalParam, page.offset, page.limit, callOptions),
+      itemsKey,
+      paginateOptions,
+    );
   }
 
   /** Get information for specific download tasks. */
   async tasksInfo(
     taskId: string | string[],
     additionalParam?: string | string[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
-    const apiName = this.apiName('Task');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const apiName = this.#apiName('Task');
+    const info = this.requireApi(apiName);
 
     const additional =
       additionalParam === undefined
@@ -180,45 +194,43 @@ export class DownloadStation extends BaseModule {
     const ids = Array.isArray(taskId) ? taskId : [taskId];
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       id: JSON.stringify(ids),
       additional: JSON.stringify(additional),
-    });
+    }, callOptions);
   }
 
   /**
    * Download task source (requires DownloadStation2).
    * Returns raw binary content as ArrayBuffer.
    */
-  async tasksSource(taskId: string): Promise<ArrayBuffer> {
+  async tasksSource(taskId: string, callOptions?: CallOptions): Promise<ArrayBuffer> {
     const apiName = 'SYNO.DownloadStation2.Task.Source';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
-    const response = await this.request(apiName, info.path, {
-      version: info.maxVersion,
+    const download = await this.request(apiName, info.path, {
+      version: info.version,
       method: 'download',
       id: taskId,
-    }, { rawResponse: true });
+    }, { ...callOptions, rawResponse: true });
 
-    return response as unknown as ArrayBuffer;
+    return download.response.arrayBuffer();
   }
 
   /**
    * Get info from a task list containing the files to be downloaded.
    * Use after creating a task and before starting the download.
    */
-  async getTaskList(listId: string): Promise<SynoResponse> {
-    const apiName = this.apiName('Task.List');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+  async getTaskList(listId: string, callOptions?: CallOptions): Promise<SynoResponse> {
+    const apiName = this.#apiName('Task.List');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       list_id: listId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -228,105 +240,103 @@ export class DownloadStation extends BaseModule {
    * @param options.url - Download URL
    * @param options.filePath - Path to a local file (e.g. .torrent) to upload
    * @param options.destination - Download destination folder
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async createTask(options: {
     url?: string;
     filePath?: string;
     destination?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const { url, filePath, destination = '' } = options;
 
     if (Boolean(url) === Boolean(filePath)) {
       throw new Error("Provide exactly one of 'url' or 'filePath', not both or neither");
     }
 
-    const apiName = this.apiName('Task');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const apiName = this.#apiName('Task');
+    const info = this.requireApi(apiName);
 
     if (filePath) {
       const { blob } = await readLocalFile(filePath);
       const formData = new FormData();
       formData.append('api', apiName);
       formData.append('method', 'create');
-      formData.append('version', String(info.maxVersion));
+      formData.append('version', String(info.version));
       formData.append('type', '"file"');
       formData.append('file', '["torrent"]');
       formData.append('destination', `"${destination}"`);
       formData.append('create_list', 'true');
       formData.append('torrent', blob);
 
-      return this.uploadRequest(apiName, info.path, formData);
+      return this.uploadRequest(apiName, info.path, formData, undefined, callOptions);
     }
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'create',
       type: 'url',
       create_list: 'true',
       destination,
       url: `["${url}"]`,
-    });
+    }, callOptions);
   }
 
   /** Delete a download task. */
   async deleteTask(
     taskId: string | string[],
     force: boolean = false,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
-    const apiName = this.apiName('Task');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const apiName = this.#apiName('Task');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'delete',
       id: DownloadStation.joinIds(taskId),
       force_complete: String(force).toLowerCase(),
-    });
+    }, callOptions);
   }
 
   /** Pause a download task. */
-  async pauseTask(taskId: string | string[]): Promise<SynoResponse> {
-    const apiName = this.apiName('Task');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+  async pauseTask(taskId: string | string[], callOptions?: CallOptions): Promise<SynoResponse> {
+    const apiName = this.#apiName('Task');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'pause',
       id: DownloadStation.joinIds(taskId),
-    });
+    }, callOptions);
   }
 
   /** Resume a download task. */
-  async resumeTask(taskId: string | string[]): Promise<SynoResponse> {
-    const apiName = this.apiName('Task');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+  async resumeTask(taskId: string | string[], callOptions?: CallOptions): Promise<SynoResponse> {
+    const apiName = this.#apiName('Task');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'resume',
       id: DownloadStation.joinIds(taskId),
-    });
+    }, callOptions);
   }
 
   /** Edit a download task (change destination). */
   async editTask(
     taskId: string | string[],
     destination: string = 'sharedfolder',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
-    const apiName = this.apiName('Task');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const apiName = this.#apiName('Task');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'edit',
       id: DownloadStation.joinIds(taskId),
       destination,
-    });
+    }, callOptions);
   }
 
   /**
@@ -336,39 +346,39 @@ export class DownloadStation extends BaseModule {
    * @param fileIndexes - List of file indexes to download
    * @param destination - Download destination, e.g. 'sharedfolder/subfolder'
    * @param createSubfolder - Create subfolder (defaults to true)
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async downloadTaskList(
     listId: string,
     fileIndexes: number[],
     destination: string,
     createSubfolder: boolean = true,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
-    const apiName = this.apiName('Task.List.Polling');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const apiName = this.#apiName('Task.List.Polling');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'download',
       list_id: listId,
       file_indexes: fileIndexes.map(String).join(','),
       destination,
       create_subfolder: createSubfolder,
-    });
+    }, callOptions);
   }
 
   // ---------- Statistics ----------
 
   /** Get Download Station statistics. */
-  async getStatisticInfo(): Promise<SynoResponse> {
+  async getStatisticInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.DownloadStation.Statistic';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'getinfo',
-    });
+    }, callOptions);
   }
 
   // ---------- RSS ----------
@@ -377,33 +387,32 @@ export class DownloadStation extends BaseModule {
   async getRssInfoList(
     offset?: number,
     limit?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.DownloadStation.RSS.Site';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
     };
 
     if (offset !== undefined) params.offset = offset;
     if (limit !== undefined) params.limit = limit;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /** Refresh an RSS site. */
-  async refreshRssSite(rssId: string | string[]): Promise<SynoResponse> {
+  async refreshRssSite(rssId: string | string[], callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.DownloadStation.RSS.Site';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'refresh',
       id: DownloadStation.joinIds(rssId),
-    });
+    }, callOptions);
   }
 
   /** Get RSS feed list. */
@@ -411,13 +420,13 @@ export class DownloadStation extends BaseModule {
     rssId: string | string[],
     offset?: number,
     limit?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
-    const apiName = this.apiName('RSS.Feed');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const apiName = this.#apiName('RSS.Feed');
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       id: DownloadStation.joinIds(rssId),
     };
@@ -425,7 +434,7 @@ export class DownloadStation extends BaseModule {
     if (offset !== undefined) params.offset = offset;
     if (limit !== undefined) params.limit = limit;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /** Get RSS feed filter list. */
@@ -433,13 +442,13 @@ export class DownloadStation extends BaseModule {
     feedId: number,
     offset?: number,
     limit?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
-    const apiName = this.apiName('RSS.Filter');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const apiName = this.#apiName('RSS.Filter');
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       feed_id: feedId,
     };
@@ -447,7 +456,7 @@ export class DownloadStation extends BaseModule {
     if (offset !== undefined) params.offset = offset;
     if (limit !== undefined) params.limit = limit;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /** Add an RSS feed filter. */
@@ -458,13 +467,12 @@ export class DownloadStation extends BaseModule {
     notMatch: string;
     destination: string;
     isRegex?: boolean;
-  }): Promise<SynoResponse> {
-    const apiName = this.apiName('RSS.Filter');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
+    const apiName = this.#apiName('RSS.Filter');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'add',
       feed_id: options.feedId,
       name: `"${options.filterName}"`,
@@ -472,7 +480,7 @@ export class DownloadStation extends BaseModule {
       not_match: `"${options.notMatch}"`,
       destination: `"${options.destination}"`,
       is_regex: String(options.isRegex ?? false).toLowerCase(),
-    });
+    }, callOptions);
   }
 
   /** Set (update) an RSS feed filter. */
@@ -483,13 +491,12 @@ export class DownloadStation extends BaseModule {
     notMatch: string;
     destination: string;
     isRegex?: boolean;
-  }): Promise<SynoResponse> {
-    const apiName = this.apiName('RSS.Filter');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
+    const apiName = this.#apiName('RSS.Filter');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set',
       feed_id: 'null',
       id: options.filterId,
@@ -498,20 +505,19 @@ export class DownloadStation extends BaseModule {
       not_match: `"${options.notMatch}"`,
       destination: `"${options.destination}"`,
       is_regex: String(options.isRegex ?? false).toLowerCase(),
-    });
+    }, callOptions);
   }
 
   /** Delete an RSS feed filter. */
-  async rssFeedFilterDelete(filterId: number): Promise<SynoResponse> {
-    const apiName = this.apiName('RSS.Filter');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+  async rssFeedFilterDelete(filterId: number, callOptions?: CallOptions): Promise<SynoResponse> {
+    const apiName = this.#apiName('RSS.Filter');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'delete',
       id: filterId,
-    });
+    }, callOptions);
   }
 
   // ---------- BT Search ----------
@@ -523,30 +529,30 @@ export class DownloadStation extends BaseModule {
   async startBtSearch(
     keyword: string,
     module: string = 'all',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
-    const apiName = this.apiName('BTSearch');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const apiName = this.#apiName('BTSearch');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'start',
       keyword,
       module,
-    });
+    }, callOptions);
   }
 
   /** Get BT search results. */
   async getBtSearchResults(
     taskid: string | string[],
     options?: BtSearchResultOptions,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
-    const apiName = this.apiName('BTSearch');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const apiName = this.#apiName('BTSearch');
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       taskid: DownloadStation.joinIds(taskid),
     };
@@ -560,43 +566,40 @@ export class DownloadStation extends BaseModule {
       if (options.filter_title !== undefined) params.filter_title = options.filter_title;
     }
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /** Get BT search categories. */
-  async getBtSearchCategory(): Promise<SynoResponse> {
-    const apiName = this.apiName('BTSearch');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+  async getBtSearchCategory(callOptions?: CallOptions): Promise<SynoResponse> {
+    const apiName = this.#apiName('BTSearch');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   /** Clean BT search tasks. */
-  async cleanBtSearch(taskid: string | string[]): Promise<SynoResponse> {
-    const apiName = this.apiName('BTSearch');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+  async cleanBtSearch(taskid: string | string[], callOptions?: CallOptions): Promise<SynoResponse> {
+    const apiName = this.#apiName('BTSearch');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'clean',
       taskid: DownloadStation.joinIds(taskid),
-    });
+    }, callOptions);
   }
 
   /** Get BT search modules. */
-  async getBtModule(): Promise<SynoResponse> {
-    const apiName = this.apiName('BTSearch');
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+  async getBtModule(callOptions?: CallOptions): Promise<SynoResponse> {
+    const apiName = this.#apiName('BTSearch');
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'getModule',
-    });
+    }, callOptions);
   }
 }
@@ -4,85 +4,79 @@
  */
 import { BaseModule } from './base-module.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
 
 export class DriveAdminConsole extends BaseModule {
   protected readonly application = 'SynologyDrive';
 
-  async statusInfo(): Promise<SynoResponse> {
+  async statusInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get_status',
-    });
+    }, callOptions);
   }
 
-  async configInfo(): Promise<SynoResponse> {
+  async configInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive.Config';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async connections(): Promise<SynoResponse> {
+  async connections(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive.Connection';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'summary',
-    });
+    }, callOptions);
   }
 
-  async checkUser(): Promise<SynoResponse> {
+  async checkUser(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'check_user',
-    });
+    }, callOptions);
   }
 
-  async activeConnections(): Promise<SynoResponse> {
+  async activeConnections(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive.Connection';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async activeSyncConnections(): Promise<SynoResponse> {
+  async activeSyncConnections(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDriveShareSync.Connection';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async shareActiveList(): Promise<SynoResponse> {
+  async shareActiveList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive.Share';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list_active',
-    });
+    }, callOptions);
   }
 
   async getLogs(options?: {
@@ -94,13 +88,12 @@ export class DriveAdminConsole extends BaseModule {
     dateTo?: number;
     username?: string;
     target?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       share_type: options?.shareType ?? 'all',
       get_all: options?.getAll ? 'true' : 'false',
@@ -110,91 +103,85 @@ export class DriveAdminConsole extends BaseModule {
       dateto: options?.dateTo ?? 0,
       username: options?.username ?? '',
       target: options?.target ?? 'user',
-    });
+    }, callOptions);
   }
 
-  async c2fsShare(): Promise<SynoResponse> {
+  async c2fsShare(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.C2FS.Share';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async settings(): Promise<SynoResponse> {
+  async settings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive.Settings';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async dbUsage(): Promise<SynoResponse> {
+  async dbUsage(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive.DBUsage';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async deleteStatus(): Promise<SynoResponse> {
+  async deleteStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive.Node.Delete';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'status',
-    });
+    }, callOptions);
   }
 
-  async filePropertyTransferStatus(): Promise<SynoResponse> {
+  async filePropertyTransferStatus(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive.Migration.UserHome';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'status',
-    });
+    }, callOptions);
   }
 
   async userSyncProfile(
     user = '',
     start = 0,
     limit: string | number = 'null',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive.Profiles';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       start,
       limit,
       user,
-    });
+    }, callOptions);
   }
 
-  async indexPause(timePause = 60): Promise<SynoResponse> {
+  async indexPause(timePause = 60, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SynologyDrive.Index';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set_native_client_index_pause',
       pause_duration: timePause,
-    });
+    }, callOptions);
   }
 }
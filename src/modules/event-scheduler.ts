@@ -4,6 +4,7 @@
  */
 import { BaseModule } from './base-module.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
 
 interface PowerTask {
   enabled: boolean;
@@ -15,66 +16,69 @@ interface PowerTask {
 export class EventScheduler extends BaseModule {
   protected readonly application = 'Core';
 
-  async getTaskResults(taskName: string): Promise<SynoResponse> {
+  async getTaskResults(taskName: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.EventScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'result_list',
       task_name: taskName,
-    });
+    }, callOptions);
   }
 
-  async getResultOutput(taskName: string, resultId: number): Promise<SynoResponse> {
+  async getResultOutput(
+    taskName: string,
+    resultId: number,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.EventScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'result_get_file',
       task_name: taskName,
       result_id: resultId,
-    });
+    }, callOptions);
   }
 
-  async taskSetEnable(taskName: string, enable: boolean): Promise<SynoResponse> {
+  async taskSetEnable(
+    taskName: string,
+    enable: boolean,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.EventScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'set_enable',
       enable,
       task_name: taskName,
-    });
+    }, callOptions);
   }
 
-  async taskRun(taskName: string): Promise<SynoResponse> {
+  async taskRun(taskName: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.EventScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'run',
       task_name: taskName,
-    });
+    }, callOptions);
   }
 
-  async taskDelete(taskName: string): Promise<SynoResponse> {
+  async taskDelete(taskName: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.EventScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'delete',
       task_name: taskName,
-    });
+    }, callOptions);
   }
 
   async taskCreateOrSet(options: {
@@ -87,7 +91,7 @@ export class EventScheduler extends BaseModule {
     enable?: boolean;
     notifyEmail?: string;
     notifyOnlyOnError?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const preTasks = (options.dependOnTask ?? [])
       .map((task) => `[${task}]`)
       .join('');
@@ -99,11 +103,10 @@ export class EventScheduler extends BaseModule {
       ? 'SYNO.Core.EventScheduler.Root'
       : 'SYNO.Core.EventScheduler';
 
-    const info = this.getApiInfo('SYNO.Core.EventScheduler');
-    if (!info) throw new Error('API SYNO.Core.EventScheduler not found');
+    const info = this.requireApi('SYNO.Core.EventScheduler', { min: 1, max: 1 });
 
     const params: Record<string, unknown> = {
-      version: 1,
+      version: info.version,
       method: options.action,
       task_name: options.taskName,
       owner: JSON.stringify(options.owner),
@@ -117,33 +120,32 @@ export class EventScheduler extends BaseModule {
       operation_type: 'script',
     };
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   async setPowerSchedule(
     poweronTasks: PowerTask[] = [],
     poweroffTasks: PowerTask[] = [],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Hardware.PowerSchedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'save',
       poweron_tasks: JSON.stringify(poweronTasks),
       poweroff_tasks: JSON.stringify(poweroffTasks),
-    });
+    }, callOptions);
   }
 
-  async loadPowerSchedule(): Promise<SynoResponse> {
+  async loadPowerSchedule(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Hardware.PowerSchedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'load',
-    });
+    }, callOptions);
   }
 }
@@ -5,8 +5,71 @@
  * Provides methods to interact with Synology NAS FileStation API for file
  * and folder operations, search, upload, download, and background task management.
  */
+import { readdir } from 'node:fs/promises';
+import { join, posix, relative, sep } from 'node:path';
 import { BaseModule } from './base-module.ts';
+import { BackgroundTask } from '../core/background-task.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
+import type { BackgroundTaskOptions } from '../core/background-task.ts';
+import { SynoAbortError } from '../core/errors.ts';
+import { DEFAULT_RETRY_POLICY, retryDelay, sleep } from '../core/retry.ts';
+import { openLocalFile } from '../core/utils.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { BinaryResponse, UploadFilePart, CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
+import type {
+  UploadSource,
+  UploadFileOptions,
+  UploadDirectoryOptions,
+  UploadDirectoryResult,
+  TaskStartData,
+  TaskStatusData,
+  FileAdditional,
+  DefaultFileAdditional,
+  DefaultFileInfoAdditional,
+  DefaultSearchAdditional,
+  ShareAdditional,
+  FileStationFile,
+  FileStationShare,
+  ShareListData,
+  FileListData,
+  FileInfoData,
+  SearchListData,
+  CreateFolderData,
+  RenameData,
+  SharingLink,
+  SharingLinkListData,
+  SharingLinkCreateData,
+  CopyMoveStatus,
+  DeleteStatus,
+  ExtractStatus,
+  ArchiveListData,
+  CompressStatus,
+  DirSizeStatus,
+  Md5Status,
+  BackgroundTaskListData,
+} from '../types/file-station.ts';
+import {
+  shareListSchema,
+  fileListSchema,
+  fileInfoSchema,
+  taskStartSchema,
+  searchListSchema,
+  dirSizeStatusSchema,
+  md5StatusSchema,
+  sharingLinkSchema,
+  sharingLinkListSchema,
+  sharingLinkCreateSchema,
+  createFolderSchema,
+  renameSchema,
+  copyMoveStatusSchema,
+  deleteStatusSchema,
+  extractStatusSchema,
+  archiveListSchema,
+  compressStatusSchema,
+  backgroundTaskListSchema,
+} from '../types/file-station-schemas.ts';
 
 // Helper: normalise a string-or-array value into a comma-separated string.
 function toCommaSeparated(value: string | string[]): string {
@@ -52,6 +115,38 @@ function parseTimeParam(value: string | number): string {
   return String(Math.floor(parsed / 1000));
 }
 
+// Helper: convert a Date or millisecond timestamp to the millisecond
+// string the Upload API expects for mtime/crtime/atime.
+function toUploadTime(value: Date | number | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  return String(value instanceof Date ? value.getTime() : Math.floor(value));
+}
+
+// Helper: list regular files below a local directory, depth first.
+async function walkLocalFiles(root: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(root, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const full = join(root, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await walkLocalFiles(full));
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+// Helper: a list method's options without the paging fields the paginator owns.
+// `additional` is dropped too; generic iterators re-declare it with their own type.
+type ListOptions<M extends (...args: never[]) => unknown, I extends number> =
+  Omit<NonNullable<Parameters<M>[I]>, 'offset' | 'limit' | 'additional'>;
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof SynoAbortError || (error instanceof Error && error.name === 'AbortError');
+}
+
 export class FileStation extends BaseModule {
   protected readonly application = 'FileStation';
 
@@ -60,15 +155,14 @@ export class FileStation extends BaseModule {
   // ------------------------------------------------------------------
 
   /** Get FileStation information. */
-  async getInfo(): Promise<SynoResponse> {
+  async getInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
   // ------------------------------------------------------------------
@@ -76,22 +170,21 @@ export class FileStation extends BaseModule {
   // ------------------------------------------------------------------
 
   /** List shared folders. */
-  async getListShare(options: {
-    additional?: string | string[];
+  async getListShare<A extends ShareAdditional = DefaultFileAdditional>(options: {
+    additional?: A | A[];
     offset?: number;
     limit?: number;
     sortBy?: string;
     sortDirection?: string;
     onlywritable?: boolean;
-  } = {}): Promise<SynoResponse> {
+  } = {}, callOptions?: CallOptions): Promise<SynoResponse<ShareListData<A>>> {
     const apiName = 'SYNO.FileStation.List';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const additional = options.additional ?? ['real_path', 'size', 'owner', 'time'];
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'list_share' },
+      { version: info.version, method: 'list_share' },
       {
         additional: toCommaSeparated(additional),
         offset: options.offset,
@@ -100,11 +193,11 @@ export class FileStation extends BaseModule {
         sort_direction: options.sortDirection,
         onlywritable: options.onlywritable,
       },
-    ));
+    ), { ...callOptions, schema: shareListSchema });
   }
 
   /** List files in a folder. */
-  async getFileList(
+  async getFileList<A extends FileAdditional = DefaultFileAdditional>(
     folderPath: string,
     options: {
       offset?: number;
@@ -114,17 +207,17 @@ export class FileStation extends BaseModule {
       pattern?: string;
       filetype?: string;
       gotoPath?: string;
-      additional?: string | string[];
+      additional?: A | A[];
     } = {},
-  ): Promise<SynoResponse> {
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<FileListData<A>>> {
     const apiName = 'SYNO.FileStation.List';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const additional = options.additional ?? ['real_path', 'size', 'owner', 'time'];
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'list', folder_path: folderPath },
+      { version: info.version, method: 'list', folder_path: folderPath },
       {
         offset: options.offset,
         limit: options.limit,
@@ -135,17 +228,17 @@ export class FileStation extends BaseModule {
         goto_path: options.gotoPath,
         additional: Array.isArray(additional) ? additional : additional,
       },
-    ));
+    ), { ...callOptions, schema: fileListSchema });
   }
 
   /** Get information about one or more files. */
-  async getFileInfo(
+  async getFileInfo<A extends FileAdditional = DefaultFileInfoAdditional>(
     path: string | string[],
-    additionalParam?: string | string[],
-  ): Promise<SynoResponse> {
+    additionalParam?: A | A[],
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<FileInfoData<A>>> {
     const apiName = 'SYNO.FileStation.List';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const additional = additionalParam ?? [
       'real_path', 'size', 'owner', 'time', 'perm', 'type',
@@ -154,11 +247,11 @@ export class FileStation extends BaseModule {
       : [additional];
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'getinfo',
       path: JSON.stringify(path),
       additional: JSON.stringify(normalised),
-    });
+    }, { ...callOptions, schema: fileInfoSchema });
   }
 
   // ------------------------------------------------------------------
@@ -184,13 +277,13 @@ export class FileStation extends BaseModule {
       owner?: string;
       group?: string;
     } = {},
-  ): Promise<SynoResponse> {
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<TaskStartData>> {
     const apiName = 'SYNO.FileStation.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'start',
       folder_path: `"${folderPath}"`,
     };
@@ -212,11 +305,11 @@ export class FileStation extends BaseModule {
     if (options.atimeFrom !== undefined) params.atime_from = `"${parseTimeParam(options.atimeFrom)}"`;
     if (options.atimeTo !== undefined) params.atime_to = `"${parseTimeParam(options.atimeTo)}"`;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, { ...callOptions, schema: taskStartSchema });
   }
 
   /** Get the results of a search task. */
-  async getSearchList(
+  async getSearchList<A extends FileAdditional = DefaultSearchAdditional>(
     taskId: string,
     options: {
       filetype?: string;
@@ -224,12 +317,12 @@ export class FileStation extends BaseModule {
       sortBy?: string;
       sortDirection?: string;
       offset?: number;
-      additional?: string | string[];
+      additional?: A | A[];
     } = {},
-  ): Promise<SynoResponse> {
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<SearchListData<A>>> {
     const apiName = 'SYNO.FileStation.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const additional = options.additional ?? ['size', 'owner', 'time'];
     const additionalStr = JSON.stringify(
@@ -237,7 +330,7 @@ export class FileStation extends BaseModule {
     );
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'list', taskid: taskId },
+      { version: info.version, method: 'list', taskid: taskId },
       {
         filetype: options.filetype ? options.filetype.toLowerCase() : undefined,
         limit: options.limit,
@@ -246,27 +339,25 @@ export class FileStation extends BaseModule {
         offset: options.offset,
         additional: additionalStr,
       },
-    ));
+    ), { ...callOptions, schema: searchListSchema });
   }
 
   /** Stop a search task. */
-  async stopSearchTask(taskId: string): Promise<SynoResponse> {
+  async stopSearchTask(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'stop',
       taskid: taskId,
-    });
+    }, callOptions);
   }
 
   /** Stop all running search tasks (batch). */
-  async stopAllSearchTasks(taskIds: string[]): Promise<SynoResponse[]> {
+  async stopAllSearchTasks(taskIds: string[], callOptions?: CallOptions): Promise<SynoResponse[]> {
     const apiName = 'SYNO.FileStation.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     if (taskIds.length === 0) {
       throw new Error('Task list is empty');
@@ -275,10 +366,10 @@ export class FileStation extends BaseModule {
     const results: SynoResponse[] = [];
     for (const taskId of taskIds) {
       const result = await this.request(apiName, info.path, {
-        version: info.maxVersion,
+        version: info.version,
         method: 'stop',
         taskid: taskId,
-      });
+      }, callOptions);
       results.push(result);
     }
     return results;
@@ -298,17 +389,17 @@ export class FileStation extends BaseModule {
       sortDirection?: string;
       additional?: string | string[];
     } = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.VirtualFolder';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const additional = options.additional ?? [
       'real_path', 'owner', 'time', 'perm', 'mount_point_type',
     ];
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'list', type: mountType },
+      { version: info.version, method: 'list', type: mountType },
       {
         offset: options.offset,
         limit: options.limit,
@@ -316,7 +407,7 @@ export class FileStation extends BaseModule {
         sort_direction: options.sortDirection,
         additional: toCommaSeparated(additional),
       },
-    ));
+    ), callOptions);
   }
 
   // ------------------------------------------------------------------
@@ -330,15 +421,14 @@ export class FileStation extends BaseModule {
     sortBy?: string;
     statusFilter?: string;
     additional?: string | string[];
-  } = {}): Promise<SynoResponse> {
+  } = {}, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Favorite';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const additional = options.additional ?? ['real_path', 'size', 'owner', 'time'];
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'list' },
+      { version: info.version, method: 'list' },
       {
         offset: options.offset,
         limit: options.limit,
@@ -346,7 +436,7 @@ export class FileStation extends BaseModule {
         status_filter: options.statusFilter,
         additional: toCommaSeparated(additional),
       },
-    ));
+    ), callOptions);
   }
 
   /** Add a file or folder to favorites. */
@@ -356,74 +446,75 @@ export class FileStation extends BaseModule {
       name?: string;
       index?: number;
     } = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Favorite';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'add', path },
+      { version: info.version, method: 'add', path },
       {
         name: options.name,
         index: options.index,
       },
-    ));
+    ), callOptions);
   }
 
   /** Delete a favorite. */
-  async deleteFavorite(path: string): Promise<SynoResponse> {
+  async deleteFavorite(path: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Favorite';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'delete',
       path,
-    });
+    }, callOptions);
   }
 
   /** Clear broken favorites. */
-  async clearBrokenFavorites(): Promise<SynoResponse> {
+  async clearBrokenFavorites(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Favorite';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'clear_broken',
-    });
+    }, callOptions);
   }
 
   /** Edit the name of a favorite. */
-  async editFavoriteName(path: string, newName: string): Promise<SynoResponse> {
+  async editFavoriteName(
+    path: string,
+    newName: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Favorite';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'edit',
       path,
       new_name: newName,
-    });
+    }, callOptions);
   }
 
   /** Replace all favorites with new paths and names. */
   async replaceAllFavorites(
     path: string | string[],
     name: string | string[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Favorite';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'edit',
       path: toCommaSeparated(path),
       name: toCommaSeparated(name),
-    });
+    }, callOptions);
   }
 
   // ------------------------------------------------------------------
@@ -431,42 +522,45 @@ export class FileStation extends BaseModule {
   // ------------------------------------------------------------------
 
   /** Start a directory size calculation task. Returns the API response with taskid. */
-  async startDirSizeCalc(path: string | string[]): Promise<SynoResponse> {
+  async startDirSizeCalc(
+    path: string | string[],
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<TaskStartData>> {
     const apiName = 'SYNO.FileStation.DirSize';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'start',
       path: toPathParam(path),
-    });
+    }, { ...callOptions, schema: taskStartSchema });
   }
 
   /** Stop a directory size calculation task. */
-  async stopDirSizeCalc(taskId: string): Promise<SynoResponse> {
+  async stopDirSizeCalc(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.DirSize';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'stop',
       taskid: taskId,
-    });
+    }, callOptions);
   }
 
   /** Get the status of a directory size calculation task. */
-  async getDirStatus(taskId: string): Promise<SynoResponse> {
+  async getDirStatus(
+    taskId: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<DirSizeStatus>> {
     const apiName = 'SYNO.FileStation.DirSize';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'status',
       taskid: taskId,
-    });
+    }, { ...callOptions, schema: dirSizeStatusSchema });
   }
 
   // ------------------------------------------------------------------
@@ -474,42 +568,42 @@ export class FileStation extends BaseModule {
   // ------------------------------------------------------------------
 
   /** Start an MD5 calculation task. Returns the API response with taskid. */
-  async startMd5Calc(filePath: string): Promise<SynoResponse> {
+  async startMd5Calc(
+    filePath: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<TaskStartData>> {
     const apiName = 'SYNO.FileStation.MD5';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'start',
       file_path: filePath,
-    });
+    }, { ...callOptions, schema: taskStartSchema });
   }
 
   /** Get the status of an MD5 calculation task. */
-  async getMd5Status(taskId: string): Promise<SynoResponse> {
+  async getMd5Status(taskId: string, callOptions?: CallOptions): Promise<SynoResponse<Md5Status>> {
     const apiName = 'SYNO.FileStation.MD5';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'status',
       taskid: taskId,
-    });
+    }, { ...callOptions, schema: md5StatusSchema });
   }
 
   /** Stop an MD5 calculation task. */
-  async stopMd5Calc(taskId: string): Promise<SynoResponse> {
+  async stopMd5Calc(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.MD5';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'stop',
       taskid: taskId,
-    });
+    }, callOptions);
   }
 
   // ------------------------------------------------------------------
@@ -524,18 +618,18 @@ export class FileStation extends BaseModule {
       overwrite?: boolean;
       createOnly?: boolean;
     } = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.CheckPermission';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'write', path, filename },
+      { version: info.version, method: 'write', path, filename },
       {
         overwrite: options.overwrite,
         create_only: options.createOnly,
       },
-    ));
+    ), callOptions);
   }
 
   // ------------------------------------------------------------------
@@ -545,54 +639,167 @@ export class FileStation extends BaseModule {
   /**
    * Upload a file to the NAS.
    *
+   * The content is streamed rather than buffered, so large files do not
+   * exhaust memory. Progress is reported through `options.onProgress` and
+   * the client's 'uploadProgress' event.
+   *
    * @param destPath - Destination folder path on the NAS.
-   * @param file - The file to upload (Blob, File, or ArrayBuffer with a name).
-   * @param fileName - Name for the uploaded file.
+   * @param file - A local file path, a Blob/File, or a ReadableStream.
+   * @param fileName - Name for the uploaded file; defaults to the local file name for path sources.
    * @param options - Upload options.
    */
   async uploadFile(
     destPath: string,
-    file: Blob,
-    fileName: string,
-    options: {
-      createParents?: boolean;
-      overwrite?: boolean;
-    } = {},
+    file: UploadSource,
+    fileName?: string,
+    options: UploadFileOptions = {},
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Upload';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
-
-    const createParents = options.createParents ?? true;
-    const overwrite = options.overwrite ?? true;
+    // v3 changed `overwrite` from a boolean to 'overwrite' | 'skip'
+    const info = this.requireApi(apiName, { max: 2, prefer: 'lowest' });
+
+    let part: UploadFilePart;
+    let mtime = options.mtime;
+    let crtime = options.crtime;
+    let atime = options.atime;
+
+    if (typeof file === 'string') {
+      const local = await openLocalFile(file);
+      part = { fieldName: 'file', fileName: fileName ?? local.name, size: local.size, open: local.open };
+      mtime ??= local.mtimeMs;
+      crtime ??= local.birthtimeMs;
+      atime ??= local.atimeMs;
+    } else {
+      if (fileName === undefined) {
+        throw new Error('fileName is required when uploading a Blob or stream');
+      }
+      if (file instanceof Blob) {
+        part = { fieldName: 'file', fileName, size: file.size, open: () => file.stream() };
+      } else {
+        let consumed = false;
+        part = {
+          fieldName: 'file',
+          fileName,
+          size: options.size ?? null,
+          open: () => {
+            if (consumed) throw new Error('Upload stream has already been consumed and cannot be replayed');
+            consumed = true;
+            return file;
+          },
+        };
+      }
+    }
 
-    const formData = new FormData();
-    formData.append('path', destPath);
-    formData.append('create_parents', String(createParents));
-    formData.append('overwrite', String(overwrite));
-    formData.append('file', file, fileName);
+    const fields: Record<string, string> = {
+      path: destPath,
+      create_parents: String(options.createParents ?? true),
+      overwrite: String(options.overwrite ?? true),
+    };
+    const times = { mtime: toUploadTime(mtime), crtime: toUploadTime(crtime), atime: toUploadTime(atime) };
+    for (const [key, value] of Object.entries(times)) {
+      if (value !== undefined) fields[key] = value;
+    }
+    if (part.size !== null) fields['size'] = String(part.size);
 
-    return this.uploadRequest(apiName, info.path, formData, {
-      version: info.minVersion,
+    return this.uploadStreamRequest(apiName, info.path, fields, part, {
+      version: info.version,
       method: 'upload',
+    }, {
+      signal: options.signal,
+      onProgress: options.onProgress,
     });
   }
 
+  /**
+   * Upload a local directory tree to a folder on the NAS.
+   *
+   * Files are uploaded one at a time and retried with exponential backoff.
+   * The client's retry policy does not apply: it never replays uploads,
+   * whose stream cannot be rewound, while a file here is reopened from disk
+   * and sent again with overwrite, so `retries` and `retryDelayMs` govern
+   * these attempts instead. Failures do not stop the run; they are reported
+   * in `failed`. To resume,
+   * pass the previous result's `uploaded` list as `options.completed`.
+   * Aborting `options.signal` stops the run and rethrows the abort error.
+   *
+   * @param localDir - Local directory to upload.
+   * @param destPath - Destination folder path on the NAS.
+   * @param options - Upload options.
+   */
+  async uploadDirectory(
+    localDir: string,
+    destPath: string,
+    options: UploadDirectoryOptions = {},
+  ): Promise<UploadDirectoryResult> {
+    const retries = options.retries ?? 2;
+    const backoff = { ...DEFAULT_RETRY_POLICY, baseDelayMs: options.retryDelayMs ?? 1000, jitter: false };
+    const completed = new Set(options.completed ?? []);
+
+    const uploaded: string[] = [];
+    const skipped: string[] = [];
+    const failed: Array<{ relativePath: string; error: unknown }> = [];
+
+    for (const localPath of await walkLocalFiles(localDir)) {
+      const relativePath = relative(localDir, localPath).split(sep).join('/');
+      if (completed.has(relativePath)) {
+        skipped.push(relativePath);
+        uploaded.push(relativePath);
+        continue;
+      }
+
+      const remoteDir = posix.join(destPath, posix.dirname(relativePath));
+      let lastError: unknown;
+
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        options.signal?.throwIfAborted();
+        if (attempt > 0) {
+          await sleep('SYNO.FileStation.Upload', retryDelay(attempt, backoff), options.signal);
+        }
+        try {
+          await this.uploadFile(remoteDir, localPath, undefined, {
+            createParents: true,
+            overwrite: options.overwrite,
+            signal: options.signal,
+            onProgress: options.onProgress
+              ? (progress) => options.onProgress!({ ...progress, relativePath })
+              : undefined,
+          });
+          lastError = undefined;
+          break;
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          lastError = error ?? new Error('Upload failed');
+        }
+      }
+
+      if (lastError === undefined) {
+        uploaded.push(relativePath);
+        options.onFileComplete?.(relativePath);
+      } else {
+        failed.push({ relativePath, error: lastError });
+      }
+    }
+
+    return { uploaded, skipped, failed };
+  }
+
   // ------------------------------------------------------------------
   // Sharing Links
   // ------------------------------------------------------------------
 
   /** Get information about a shared link. */
-  async getSharedLinkInfo(linkId: string): Promise<SynoResponse> {
+  async getSharedLinkInfo(
+    linkId: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<SharingLink>> {
     const apiName = 'SYNO.FileStation.Sharing';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'getinfo',
       id: linkId,
-    });
+    }, { ...callOptions, schema: sharingLinkSchema });
   }
 
   /** List shared links. */
@@ -602,13 +809,12 @@ export class FileStation extends BaseModule {
     sortBy?: string;
     sortDirection?: string;
     forceClean?: boolean;
-  } = {}): Promise<SynoResponse> {
+  } = {}, callOptions?: CallOptions): Promise<SynoResponse<SharingLinkListData>> {
     const apiName = 'SYNO.FileStation.Sharing';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'list' },
+      { version: info.version, method: 'list' },
       {
         offset: options.offset,
         limit: options.limit,
@@ -616,7 +822,7 @@ export class FileStation extends BaseModule {
         sort_direction: options.sortDirection,
         force_clean: options.forceClean,
       },
-    ));
+    ), { ...callOptions, schema: sharingLinkListSchema });
   }
 
   /** Create a sharing link. */
@@ -628,13 +834,13 @@ export class FileStation extends BaseModule {
       dateAvailable?: string | number;
       expireTimes?: number;
     } = {},
-  ): Promise<SynoResponse> {
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<SharingLinkCreateData>> {
     const apiName = 'SYNO.FileStation.Sharing';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'create', path },
+      { version: info.version, method: 'create', path },
       {
         password: options.password,
         date_expired: options.dateExpired !== undefined
@@ -645,32 +851,30 @@ export class FileStation extends BaseModule {
           : undefined,
         expire_times: options.expireTimes,
       },
-    ));
+    ), { ...callOptions, schema: sharingLinkCreateSchema });
   }
 
   /** Delete a shared link. */
-  async deleteSharedLink(linkId: string): Promise<SynoResponse> {
+  async deleteSharedLink(linkId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Sharing';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'delete',
       id: linkId,
-    });
+    }, callOptions);
   }
 
   /** Clear invalid shared links. */
-  async clearInvalidSharedLinks(): Promise<SynoResponse> {
+  async clearInvalidSharedLinks(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Sharing';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'clear_invalid',
-    });
+    }, callOptions);
   }
 
   /** Edit a shared link. */
@@ -682,13 +886,13 @@ export class FileStation extends BaseModule {
       dateAvailable?: string | number;
       expireTimes?: number;
     } = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Sharing';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'edit', id: linkId },
+      { version: info.version, method: 'edit', id: linkId },
       {
         password: options.password,
         date_expired: options.dateExpired !== undefined
@@ -699,7 +903,7 @@ export class FileStation extends BaseModule {
           : undefined,
         expire_times: options.expireTimes,
       },
-    ));
+    ), callOptions);
   }
 
   // ------------------------------------------------------------------
@@ -707,17 +911,17 @@ export class FileStation extends BaseModule {
   // ------------------------------------------------------------------
 
   /** Create a new folder. */
-  async createFolder(
+  async createFolder<A extends FileAdditional = DefaultFileAdditional>(
     folderPath: string | string[],
     name: string | string[],
     options: {
       forceParent?: boolean;
-      additional?: string | string[];
+      additional?: A | A[];
     } = {},
-  ): Promise<SynoResponse> {
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<CreateFolderData<A>>> {
     const apiName = 'SYNO.FileStation.CreateFolder';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const additional = options.additional ?? ['real_path', 'size', 'owner', 'time'];
 
@@ -727,7 +931,7 @@ export class FileStation extends BaseModule {
 
     return this.request(apiName, info.path, buildParams(
       {
-        version: info.maxVersion,
+        version: info.version,
         method: 'create',
         folder_path: toPathParam(folderPath),
         name: nameParam,
@@ -736,7 +940,7 @@ export class FileStation extends BaseModule {
       {
         force_parent: options.forceParent,
       },
-    ));
+    ), { ...callOptions, schema: createFolderSchema });
   }
 
   /**
@@ -745,17 +949,17 @@ export class FileStation extends BaseModule {
    * Both `path` and `name` must be the same type (both strings or both arrays).
    * When arrays, they must have the same length.
    */
-  async renameFolder(
+  async renameFolder<A extends FileAdditional = DefaultFileAdditional>(
     path: string | string[],
     name: string | string[],
     options: {
-      additional?: string | string[];
+      additional?: A | A[];
       searchTaskId?: string;
     } = {},
-  ): Promise<SynoResponse> {
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<RenameData<A>>> {
     const apiName = 'SYNO.FileStation.Rename';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     if (Array.isArray(path) !== Array.isArray(name)) {
       throw new TypeError('path and name must be both arrays or both strings');
@@ -768,7 +972,7 @@ export class FileStation extends BaseModule {
 
     return this.request(apiName, info.path, buildParams(
       {
-        version: info.maxVersion,
+        version: info.version,
         method: 'rename',
         path: JSON.stringify(path),
         name: JSON.stringify(name),
@@ -777,7 +981,7 @@ export class FileStation extends BaseModule {
       {
         search_taskid: options.searchTaskId,
       },
-    ), { method: 'post' });
+    ), { ...callOptions, method: 'post', schema: renameSchema });
   }
 
   // ------------------------------------------------------------------
@@ -794,14 +998,14 @@ export class FileStation extends BaseModule {
       accurateProgress?: boolean;
       searchTaskId?: string;
     } = {},
-  ): Promise<SynoResponse> {
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<TaskStartData>> {
     const apiName = 'SYNO.FileStation.CopyMove';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
       {
-        version: info.maxVersion,
+        version: info.version,
         method: 'start',
         path: toPathParam(path),
         dest_folder_path: destFolderPath,
@@ -812,33 +1016,34 @@ export class FileStation extends BaseModule {
         accurate_progress: options.accurateProgress,
         search_taskid: options.searchTaskId,
       },
-    ));
+    ), { ...callOptions, schema: taskStartSchema });
   }
 
   /** Get the status of a copy or move task. */
-  async getCopyMoveStatus(taskId: string): Promise<SynoResponse> {
+  async getCopyMoveStatus(
+    taskId: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<CopyMoveStatus>> {
     const apiName = 'SYNO.FileStation.CopyMove';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'status',
       taskid: taskId,
-    });
+    }, { ...callOptions, schema: copyMoveStatusSchema });
   }
 
   /** Stop a copy or move task. */
-  async stopCopyMoveTask(taskId: string): Promise<SynoResponse> {
+  async stopCopyMoveTask(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.CopyMove';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'stop',
       taskid: taskId,
-    });
+    }, callOptions);
   }
 
   // ------------------------------------------------------------------
@@ -853,14 +1058,14 @@ export class FileStation extends BaseModule {
       recursive?: boolean;
       searchTaskId?: string;
     } = {},
-  ): Promise<SynoResponse> {
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<TaskStartData>> {
     const apiName = 'SYNO.FileStation.Delete';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
       {
-        version: info.maxVersion,
+        version: info.version,
         method: 'start',
         path: toPathParam(path),
       },
@@ -869,33 +1074,34 @@ export class FileStation extends BaseModule {
         recursive: options.recursive,
         search_taskid: options.searchTaskId,
       },
-    ));
+    ), { ...callOptions, schema: taskStartSchema });
   }
 
   /** Get the status of a delete task. */
-  async getDeleteStatus(taskId: string): Promise<SynoResponse> {
+  async getDeleteStatus(
+    taskId: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<DeleteStatus>> {
     const apiName = 'SYNO.FileStation.Delete';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'status',
       taskid: taskId,
-    });
+    }, { ...callOptions, schema: deleteStatusSchema });
   }
 
   /** Stop a delete task. */
-  async stopDeleteTask(taskId: string): Promise<SynoResponse> {
+  async stopDeleteTask(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Delete';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'stop',
       taskid: taskId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -908,14 +1114,14 @@ export class FileStation extends BaseModule {
       recursive?: boolean;
       searchTaskId?: string;
     } = {},
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Delete';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
       {
-        version: info.maxVersion,
+        version: info.version,
         method: 'delete',
         path: toPathParam(path),
       },
@@ -923,7 +1129,7 @@ export class FileStation extends BaseModule {
         recursive: options.recursive,
         search_taskid: options.searchTaskId,
       },
-    ));
+    ), callOptions);
   }
 
   // ------------------------------------------------------------------
@@ -942,14 +1148,14 @@ export class FileStation extends BaseModule {
       password?: string;
       itemId?: string;
     } = {},
-  ): Promise<SynoResponse> {
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<TaskStartData>> {
     const apiName = 'SYNO.FileStation.Extract';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
       {
-        version: info.maxVersion,
+        version: info.version,
         method: 'start',
         file_path: filePath,
         dest_folder_path: destFolderPath,
@@ -962,33 +1168,34 @@ export class FileStation extends BaseModule {
         password: options.password,
         item_id: options.itemId,
       },
-    ));
+    ), { ...callOptions, schema: taskStartSchema });
   }
 
   /** Get the status of an extraction task. */
-  async getExtractStatus(taskId: string): Promise<SynoResponse> {
+  async getExtractStatus(
+    taskId: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<ExtractStatus>> {
     const apiName = 'SYNO.FileStation.Extract';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'status',
       taskid: taskId,
-    });
+    }, { ...callOptions, schema: extractStatusSchema });
   }
 
   /** Stop an extraction task. */
-  async stopExtractTask(taskId: string): Promise<SynoResponse> {
+  async stopExtractTask(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Extract';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'stop',
       taskid: taskId,
-    });
+    }, callOptions);
   }
 
   /** Get the list of files inside an archive. */
@@ -1003,14 +1210,14 @@ export class FileStation extends BaseModule {
       password?: string;
       itemId?: string;
     } = {},
-  ): Promise<SynoResponse> {
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<ArchiveListData>> {
     const apiName = 'SYNO.FileStation.Extract';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
       {
-        version: info.maxVersion,
+        version: info.version,
         method: 'list',
         file_path: filePath,
       },
@@ -1023,7 +1230,7 @@ export class FileStation extends BaseModule {
         password: options.password,
         item_id: options.itemId,
       },
-    ));
+    ), { ...callOptions, schema: archiveListSchema });
   }
 
   // ------------------------------------------------------------------
@@ -1040,14 +1247,14 @@ export class FileStation extends BaseModule {
       compressFormat?: string;
       password?: string;
     } = {},
-  ): Promise<SynoResponse> {
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<TaskStartData>> {
     const apiName = 'SYNO.FileStation.Compress';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
       {
-        version: info.maxVersion,
+        version: info.version,
         method: 'start',
         path: toPathParam(path),
         dest_file_path: destFilePath,
@@ -1058,33 +1265,34 @@ export class FileStation extends BaseModule {
         format: options.compressFormat,
         _password: options.password,
       },
-    ));
+    ), { ...callOptions, schema: taskStartSchema });
   }
 
   /** Get the status of a compression task. */
-  async getCompressStatus(taskId: string): Promise<SynoResponse> {
+  async getCompressStatus(
+    taskId: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<CompressStatus>> {
     const apiName = 'SYNO.FileStation.Compress';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'status',
       taskid: taskId,
-    });
+    }, { ...callOptions, schema: compressStatusSchema });
   }
 
   /** Stop a compression task. */
-  async stopCompressTask(taskId: string): Promise<SynoResponse> {
+  async stopCompressTask(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.FileStation.Compress';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'stop',
       taskid: taskId,
-    });
+    }, callOptions);
   }
 
   // ------------------------------------------------------------------
@@ -1098,10 +1306,9 @@ export class FileStation extends BaseModule {
     sortBy?: string;
     sortDirection?: string;
     apiFilter?: string | string[];
-  } = {}): Promise<SynoResponse> {
+  } = {}, callOptions?: CallOptions): Promise<SynoResponse<BackgroundTaskListData>> {
     const apiName = 'SYNO.FileStation.BackgroundTask';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const filterParam = options.apiFilter !== undefined
       ? (Array.isArray(options.apiFilter)
@@ -1110,7 +1317,7 @@ export class FileStation extends BaseModule {
       : undefined;
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'list' },
+      { version: info.version, method: 'list' },
       {
         offset: options.offset,
         limit: options.limit,
@@ -1118,7 +1325,255 @@ export class FileStation extends BaseModule {
         sort_direction: options.sortDirection,
         api_filter: filterParam,
       },
-    ));
+    ), { ...callOptions, schema: backgroundTaskListSchema });
+  }
+
+  // ------------------------------------------------------------------
+  // Pagination
+  // ------------------------------------------------------------------
+  //
+  // Each method wraps a list call in a Paginator: iterate it with
+  // `for await`, or call `.collectAll()` to fetch every page.
+
+  /** Iterate all shared folders. */
+  iterateListShare<A extends ShareAdditional = DefaultFileAdditional>(
+    options: ListOptions<FileStation['getListShare'], 0> & { additional?: A | A[] } = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<FileStationShare<A>> {
+    return paginate(
+      (page, callOptions) => this.getListShare<A>({ ...options, ...page }, callOptions),
+      'shares',
+      paginateOptions,
+    );
+  }
+
+  /** Iterate all files in a folder. */
+  iterateFileList<A extends FileAdditional = DefaultFileAdditional>(
+    folderPath: string,
+    options: ListOptions<FileStation['getFileList'], 1> & { additional?: A | A[] } = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<FileStationFile<A>> {
+    return paginate(
+      (page, callOptions) => this.getFileList<A>(folderPath, { ...options, ...page }, callOptions),
+      'files',
+      paginateOptions,
+    );
+  }
+
+  /** Iterate the results of a search task. */
+  iterateSearchList<A extends FileAdditional = DefaultSearchAdditional>(
+    taskId: string,
+    options: ListOptions<FileStation['getSearchList'], 1> & { additional?: A | A[] } = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<FileStationFile<A>> {
+    return paginate(
+      (page, callOptions) => this.getSearchList<A>(taskId, { ...options, ...page }, callOptions),
+      'files',
+      paginateOptions,
+    );
+  }
+
+  /** Iterate all favorites. */
+  iterateFavoriteList(
+    options: ListOptions<FileStation['getFavoriteList'], 0> = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getFavoriteList({ ...options, ...page }, callOptions),
+      'favorites',
+      paginateOptions,
+    );
+  }
+
+  /** Iterate all shared links. */
+  iterateSharedLinkList(
+    options: ListOptions<FileStation['getSharedLinkList'], 0> = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<SharingLink> {
+    return paginate(
+      (page, callOptions) => this.getSharedLinkList({ ...options, ...page }, callOptions),
+      'links',
+      paginateOptions,
+    );
+  }
+
+  // ------------------------------------------------------------------
+  // Awaitable background tasks
+  // ------------------------------------------------------------------
+  //
+  // Each method starts the task and returns a BackgroundTask handle that
+  // polls the matching status method. `await fs.copy(...)` resolves with
+  // the final status; use `.on('progress', ...)` and `.cancel()` for more.
+
+  /** Copy files or folders and wait for the copy to finish. */
+  copy(
+    path: string | string[],
+    destFolderPath: string,
+    options: {
+      overwrite?: boolean;
+      accurateProgress?: boolean;
+      searchTaskId?: string;
+    } = {},
+    taskOptions?: BackgroundTaskOptions,
+  ): BackgroundTask<CopyMoveStatus, CopyMoveStatus> {
+    return this.#startTask(
+      () => this.startCopyMove(path, destFolderPath, { ...options, removeSrc: false }),
+      (taskId) => this.getCopyMoveStatus(taskId),
+      (taskId) => this.stopCopyMoveTask(taskId),
+      (status) => status,
+      taskOptions,
+    );
+  }
+
+  /** Move files or folders and wait for the move to finish. */
+  move(
+    path: string | string[],
+    destFolderPath: string,
+    options: {
+      overwrite?: boolean;
+      accurateProgress?: boolean;
+      searchTaskId?: string;
+    } = {},
+    taskOptions?: BackgroundTaskOptions,
+  ): BackgroundTask<CopyMoveStatus, CopyMoveStatus> {
+    return this.#startTask(
+      () => this.startCopyMove(path, destFolderPath, { ...options, removeSrc: true }),
+      (taskId) => this.getCopyMoveStatus(taskId),
+      (taskId) => this.stopCopyMoveTask(taskId),
+      (status) => status,
+      taskOptions,
+    );
+  }
+
+  /** Delete files or folders and wait for the deletion to finish. */
+  delete(
+    path: string | string[],
+    options: {
+      accurateProgress?: boolean;
+      recursive?: boolean;
+      searchTaskId?: string;
+    } = {},
+    taskOptions?: BackgroundTaskOptions,
+  ): BackgroundTask<DeleteStatus, DeleteStatus> {
+    return this.#startTask(
+      () => this.startDeleteTask(path, options),
+      (taskId) => this.getDeleteStatus(taskId),
+      (taskId) => this.stopDeleteTask(taskId),
+      (status) => status,
+      taskOptions,
+    );
+  }
+
+  /** Extract an archive and wait for the extraction to finish. */
+  extract(
+    filePath: string,
+    destFolderPath: string,
+    options: {
+      overwrite?: boolean;
+      keepDir?: boolean;
+      createSubfolder?: boolean;
+      codepage?: string;
+      password?: string;
+      itemId?: string;
+    } = {},
+    taskOptions?: BackgroundTaskOptions,
+  ): BackgroundTask<ExtractStatus, ExtractStatus> {
+    return this.#startTask(
+      () => this.startExtractTask(filePath, destFolderPath, options),
+      (taskId) => this.getExtractStatus(taskId),
+      (taskId) => this.stopExtractTask(taskId),
+      (status) => status,
+      taskOptions,
+    );
+  }
+
+  /** Compress files or folders into an archive and wait for it to finish. */
+  compress(
+    path: string | string[],
+    destFilePath: string,
+    options: {
+      level?: number;
+      mode?: string;
+      compressFormat?: string;
+      password?: string;
+    } = {},
+    taskOptions?: BackgroundTaskOptions,
+  ): BackgroundTask<CompressStatus, CompressStatus> {
+    return this.#startTask(
+      () => this.startFileCompression(path, destFilePath, options),
+      (taskId) => this.getCompressStatus(taskId),
+      (taskId) => this.stopCompressTask(taskId),
+      (status) => status,
+      taskOptions,
+    );
+  }
+
+  /**
+   * Search a folder and wait for the search to finish.
+   * Resolves with the complete result list.
+   */
+  search(
+    folderPath: string,
+    options: Parameters<FileStation['searchStart']>[1] = {},
+    taskOptions?: BackgroundTaskOptions,
+  ): BackgroundTask<SearchListData<DefaultSearchAdditional>, SearchListData<DefaultSearchAdditional>> {
+    return this.#startTask(
+      () => this.searchStart(folderPath, options),
+      // Poll with a single item; the full list is fetched once finished
+      (taskId) => this.getSearchList(taskId, { limit: 1 }),
+      (taskId) => this.stopSearchTask(taskId),
+      async (status, taskId) => {
+        const response = await this.getSearchList(taskId, { limit: 0 });
+        return response.data!;
+      },
+      taskOptions,
+    );
+  }
+
+  /** Calculate the total size of files or folders. */
+  dirSize(
+    path: string | string[],
+    taskOptions?: BackgroundTaskOptions,
+  ): BackgroundTask<DirSizeStatus, DirSizeStatus> {
+    return this.#startTask(
+      () => this.startDirSizeCalc(path),
+      (taskId) => this.getDirStatus(taskId),
+      (taskId) => this.stopDirSizeCalc(taskId),
+      (status) => status,
+      taskOptions,
+    );
+  }
+
+  /** Calculate the MD5 of a file on the NAS. Resolves with the hex digest. */
+  md5(
+    filePath: string,
+    taskOptions?: BackgroundTaskOptions,
+  ): BackgroundTask<string, Md5Status> {
+    return this.#startTask(
+      () => this.startMd5Calc(filePath),
+      (taskId) => this.getMd5Status(taskId),
+      (taskId) => this.stopMd5Calc(taskId),
+      (status) => status.md5 ?? '',
+      taskOptions,
+    );
+  }
+
+  // Wire a start/status/stop method triple into a BackgroundTask.
+  #startTask<T, S extends TaskStatusData>(
+    start: () => Promise<SynoResponse<TaskStartData>>,
+    status: (taskId: string) => Promise<SynoResponse<S>>,
+    stop: (taskId: string) => Promise<SynoResponse>,
+    result: (status: S, taskId: string) => T | Promise<T>,
+    taskOptions?: BackgroundTaskOptions,
+  ): BackgroundTask<T, S> {
+    return new BackgroundTask<T, S>({
+      start: async () => (await start()).data!.taskid,
+      status: async (taskId) => (await status(taskId)).data!,
+      isFinished: (data) => data.finished === true,
+      result,
+      stop,
+      progress: (data) => (typeof data.progress === 'number' ? data.progress : null),
+    }, taskOptions);
   }
 
   // ------------------------------------------------------------------
@@ -1126,27 +1581,44 @@ export class FileStation extends BaseModule {
   // ------------------------------------------------------------------
 
   /**
-   * Download a file from the NAS. Returns raw bytes as ArrayBuffer.
+   * Download a file from the NAS as a stream.
+   * The result carries the body stream plus content type, length and filename.
    *
    * @param path - The file path (starting with a shared folder).
    * @param mode - Download mode: 'open' or 'download'.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
-  async getFile(
+  async downloadFile(
     path: string,
     mode: 'open' | 'download' = 'download',
-  ): Promise<ArrayBuffer> {
+    callOptions?: CallOptions,
+  ): Promise<BinaryResponse> {
     const apiName = 'SYNO.FileStation.Download';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
-    const response = await this.request(apiName, info.path, {
-      version: info.maxVersion,
+    return this.request(apiName, info.path, {
+      version: info.version,
       method: 'download',
       path,
       mode,
-    }, { rawResponse: true });
+    }, { ...callOptions, rawResponse: true });
+  }
 
-    return response as unknown as ArrayBuffer;
+  /**
+   * Download a file from the NAS. Returns raw bytes as ArrayBuffer.
+   * Use `downloadFile` to stream large files instead of buffering them.
+   *
+   * @param path - The file path (starting with a shared folder).
+   * @param mode - Download mode: 'open' or 'download'.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
+   */
+  async getFile(
+    path: string,
+    mode: 'open' | 'download' = 'download',
+    callOptions?: CallOptions,
+  ): Promise<ArrayBuffer> {
+    const download = await this.downloadFile(path, mode, callOptions);
+    return download.response.arrayBuffer();
   }
 
   // ------------------------------------------------------------------
@@ -1159,6 +1631,7 @@ export class FileStation extends BaseModule {
    * @param path - The file path to get thumbnail for.
    * @param size - Thumbnail size: 'small', 'medium', or 'large'.
    * @param rotate - Rotation in degrees.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async getThumb(
     path: string,
@@ -1166,14 +1639,14 @@ export class FileStation extends BaseModule {
       size?: 'small' | 'medium' | 'large';
       rotate?: number;
     } = {},
+    callOptions?: CallOptions,
   ): Promise<ArrayBuffer> {
     const apiName = 'SYNO.FileStation.Thumb';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
-    const response = await this.request(apiName, info.path, buildParams(
+    const download = await this.request(apiName, info.path, buildParams(
       {
-        version: info.maxVersion,
+        version: info.version,
         method: 'get',
         path,
       },
@@ -1181,8 +1654,8 @@ export class FileStation extends BaseModule {
         size: options.size,
         rotate: options.rotate,
       },
-    ), { rawResponse: true });
+    ), { ...callOptions, rawResponse: true });
 
-    return response as unknown as ArrayBuffer;
+    return download.response.arrayBuffer();
   }
 }
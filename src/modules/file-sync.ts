@@ -0,0 +1,297 @@
+/**
+ * Recursive directory sync between a local tree and a FileStation folder.
+ *
+ * Builds on FileStation list, upload, download, delete and MD5 calls to
+ * push, pull or two-way mirror a directory, with dry-run planning.
+ */
+import { createHash } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, readdir, rm, stat, utimes } from 'node:fs/promises';
+import { dirname, join, relative, sep } from 'node:path';
+import { Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { FileStation } from './file-station.ts';
+import { FileStationError, SynoAbortError } from '../core/errors.ts';
+import { globToRegExp } from '../core/utils.ts';
+import type {
+  SyncAction,
+  SyncOptions,
+  SyncResult,
+} from '../types/file-station.ts';
+
+// FileStation error code for "No such file or directory"
+const CODE_NO_SUCH_FILE = 408;
+const LIST_PAGE_SIZE = 1000;
+
+/** Size and modification time (seconds) of a file on one side of the sync. */
+interface FileEntry {
+  readonly size: number;
+  readonly mtime: number;
+}
+
+type FileIndex = Map<string, FileEntry>;
+
+function toPosix(path: string): string {
+  return path.split(sep).join('/');
+}
+
+export class FileSync {
+  private readonly fileStation: FileStation;
+
+  constructor(fileStation: FileStation) {
+    this.fileStation = fileStation;
+  }
+
+  /**
+   * Synchronise a local directory with a folder on the NAS.
+   *
+   * @param localDir - Local directory root.
+   * @param remoteDir - NAS folder root, e.g. '/home/artifacts'.
+   * @param options - Direction, filters and execution options.
+   */
+  async sync(
+    localDir: string,
+    remoteDir: string,
+    options: SyncOptions,
+  ): Promise<SyncResult> {
+    remoteDir = remoteDir.replace(/\/+$/, '');
+    const selected = this.#buildFilter(options);
+    const [local, remote] = await Promise.all([
+      this.#listLocal(localDir, selected),
+      this.#listRemote(remoteDir, selected),
+    ]);
+
+    const { actions, conflicts } = await this.#plan(localDir, remoteDir, local, remote, options);
+    const dryRun = options.dryRun ?? false;
+
+    if (dryRun) {
+      for (const action of actions) options.onAction?.(action);
+      return { dryRun, actions, conflicts, failed: [] };
+    }
+
+    const failed = await this.#execute(localDir, remoteDir, actions, remote, options);
+    return { dryRun, actions, conflicts, failed };
+  }
+
+  // ─── Planning ──────────────────────────────────────────────────
+
+  async #plan(
+    localDir: string,
+    remoteDir: string,
+    local: FileIndex,
+    remote: FileIndex,
+    options: SyncOptions,
+  ): Promise<{ actions: SyncAction[]; conflicts: string[] }> {
+    const tolerance = options.mtimeToleranceSec ?? 2;
+    const actions: SyncAction[] = [];
+    const conflicts: string[] = [];
+    const paths = [...new Set([...local.keys(), ...remote.keys()])].sort();
+
+    for (const relativePath of paths) {
+      const l = local.get(relativePath);
+      const r = remote.get(relativePath);
+
+      if (l && !r) {
+        if (options.direction === 'pull') {
+          if (options.deleteExtraneous) actions.push({ type: 'deleteLocal', relativePath, reason: 'extraneous' });
+        } else {
+          actions.push({ type: 'upload', relativePath, reason: 'missing' });
+        }
+        continue;
+      }
+      if (r && !l) {
+        if (options.direction === 'push') {
+          if (options.deleteExtraneous) actions.push({ type: 'deleteRemote', relativePath, reason: 'extraneous' });
+        } else {
+          actions.push({ type: 'download', relativePath, reason: 'missing' });
+        }
+        continue;
+      }
+      if (!l || !r) continue;
+
+      const sameMtime = Math.abs(l.mtime - r.mtime) <= tolerance;
+      let changed: boolean;
+      if (l.size !== r.size) {
+        changed = true;
+      } else if (options.checksum) {
+        changed = await this.#md5Local(join(localDir, relativePath))
+          !== await this.#md5Remote(`${remoteDir}/${relativePath}`);
+      } else {
+        changed = !sameMtime;
+      }
+      if (!changed) continue;
+
+      if (options.direction === 'push') {
+        actions.push({ type: 'upload', relativePath, reason: 'changed' });
+      } else if (options.direction === 'pull') {
+        actions.push({ type: 'download', relativePath, reason: 'changed' });
+      } else if (sameMtime) {
+        conflicts.push(relativePath);
+      } else if (l.mtime > r.mtime) {
+        actions.push({ type: 'upload', relativePath, reason: 'newer' });
+      } else {
+        actions.push({ type: 'download', relativePath, reason: 'newer' });
+      }
+    }
+
+    return { actions, conflicts };
+  }
+
+  #buildFilter(options: SyncOptions): (relativePath: string) => boolean {
+    const include = (options.include ?? []).map(globToRegExp);
+    const exclude = (options.exclude ?? []).map(globToRegExp);
+    return (relativePath) => {
+      if (include.length > 0 && !include.some((re) => re.test(relativePath))) return false;
+      return !exclude.some((re) => re.test(relativePath));
+    };
+  }
+
+  // ─── Listing ───────────────────────────────────────────────────
+
+  async #listLocal(
+    root: string,
+    selected: (relativePath: string) => boolean,
+  ): Promise<FileIndex> {
+    const index: FileIndex = new Map();
+    const rootStats = await stat(root).catch(() => null);
+    if (!rootStats?.isDirectory()) return index;
+
+    const walk = async (dir: string): Promise<void> => {
+      for (const entry of await readdir(dir, { withFileTypes: true })) {
+        const full = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(full);
+        } else if (entry.isFile()) {
+          const relativePath = toPosix(relative(root, full));
+          if (!selected(relativePath)) continue;
+          const stats = await stat(full);
+          index.set(relativePath, { size: stats.size, mtime: Math.floor(stats.mtimeMs / 1000) });
+        }
+      }
+    };
+    await walk(root);
+    return index;
+  }
+
+  async #listRemote(
+    root: string,
+    selected: (relativePath: string) => boolean,
+  ): Promise<FileIndex> {
+    const index: FileIndex = new Map();
+    const folders = [root];
+
+    while (folders.length > 0) {
+      const folder = folders.shift()!;
+      const listing = this.fileStation.iterateFileList(
+        folder,
+        { additional: ['size', 'time'] },
+        { pageSize: LIST_PAGE_SIZE },
+      );
+
+      try {
+        for await (const file of listing) {
+          if (file.isdir) {
+            folders.push(file.path);
+            continue;
+          }
+          const relativePath = file.path.slice(root.length).replace(/^\/+/, '');
+          if (!selected(relativePath)) continue;
+          index.set(relativePath, {
+            size: file.additional.size,
+            mtime: file.additional.time.mtime,
+          });
+        }
+      } catch (error) {
+        // A missing root simply means there is nothing on the NAS yet
+        if (folder === root && error instanceof FileStationError && error.errorCode === CODE_NO_SUCH_FILE) {
+          return index;
+        }
+        throw error;
+      }
+    }
+    return index;
+  }
+
+  // ─── Checksums ─────────────────────────────────────────────────
+
+  async #md5Local(filePath: string): Promise<string> {
+    const hash = createHash('md5');
+    await pipeline(createReadStream(filePath), hash);
+    return hash.digest('hex');
+  }
+
+  #md5Remote(filePath: string): Promise<string> {
+    return this.fileStation.md5(filePath).wait();
+  }
+
+  // ─── Execution ─────────────────────────────────────────────────
+
+  async #execute(
+    localDir: string,
+    remoteDir: string,
+    actions: SyncAction[],
+    remote: FileIndex,
+    options: SyncOptions,
+  ): Promise<Array<{ action: SyncAction; error: unknown }>> {
+    const failed: Array<{ action: SyncAction; error: unknown }> = [];
+    const queue = [...actions];
+    const concurrency = Math.max(1, options.concurrency ?? 4);
+
+    const worker = async (): Promise<void> => {
+      for (let action = queue.shift(); action; action = queue.shift()) {
+        options.signal?.throwIfAborted();
+        options.onAction?.(action);
+        try {
+          await this.#run(localDir, remoteDir, action, remote, options.signal);
+        } catch (error) {
+          if (error instanceof SynoAbortError || (error instanceof Error && error.name === 'AbortError')) throw error;
+          failed.push({ action, error });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+    return failed;
+  }
+
+  async #run(
+    localDir: string,
+    remoteDir: string,
+    action: SyncAction,
+    remote: FileIndex,
+    signal: AbortSignal | undefined,
+  ): Promise<void> {
+    const localPath = join(localDir, ...action.relativePath.split('/'));
+    const remotePath = `${remoteDir}/${action.relativePath}`;
+
+    switch (action.type) {
+      case 'upload':
+        await this.fileStation.uploadFile(
+          remotePath.slice(0, remotePath.lastIndexOf('/')),
+          localPath,
+          undefined,
+          { createParents: true, overwrite: true, signal },
+        );
+        return;
+
+      case 'download': {
+        const download = await this.fileStation.downloadFile(remotePath, undefined, { signal });
+        if (!download.body) throw new Error(`Empty download body for ${remotePath}`);
+        await mkdir(dirname(localPath), { recursive: true });
+        await download.body.pipeTo(Writable.toWeb(createWriteStream(localPath)), { signal });
+        // Keep the NAS mtime so the next run sees the files as identical
+        const mtime = remote.get(action.relativePath)?.mtime;
+        if (mtime !== undefined) await utimes(localPath, mtime, mtime);
+        return;
+      }
+
+      case 'deleteRemote':
+        await this.fileStation.deleteBlocking(remotePath, undefined, { signal });
+        return;
+
+      case 'deleteLocal':
+        await rm(localPath, { force: true });
+        return;
+    }
+  }
+}
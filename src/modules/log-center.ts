@@ -3,96 +3,102 @@
  * Ported from Python synology_api/log_center.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions, PaginationOptions } from '../types/common.ts';
 
 export class LogCenter extends BaseModule {
   protected readonly application = 'LogCenter';
 
-  async getReceiveRules(): Promise<SynoResponse> {
+  async getReceiveRules(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.LogCenter.RecvRule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async getClientStatusCount(): Promise<SynoResponse> {
+  async getClientStatusCount(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SyslogClient.Status';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'cnt_get',
-    });
+    }, callOptions);
   }
 
-  async getClientStatusEps(): Promise<SynoResponse> {
+  async getClientStatusEps(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SyslogClient.Status';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'eps_get',
-    });
+    }, callOptions);
   }
 
-  async getRemoteLogArchives(): Promise<SynoResponse> {
+  async getRemoteLogArchives(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.LogCenter.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get_remotearch_subfolder',
-    });
+    }, callOptions);
   }
 
-  async getLogs(): Promise<SynoResponse> {
+  async getLogs(options: PaginationOptions = {}, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SyslogClient.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
-    return this.request(apiName, info.path, {
-      version: info.maxVersion,
+    // The syslog list API names the offset 'start'
+    const params: Record<string, unknown> = {
+      version: info.version,
       method: 'list',
-    });
+    };
+    if (options.offset !== undefined) params.start = options.offset;
+    if (options.limit !== undefined) params.limit = options.limit;
+
+    return this.request(apiName, info.path, params, callOptions);
+  }
+
+  /** Iterate all log entries, fetching them page by page. */
+  iterateLogs(paginateOptions?: PaginateOptions): Paginator<unknown> {
+    return paginate((page, callOptions) => this.getLogs(page, callOptions), 'items', paginateOptions);
   }
 
-  async getStorageSettings(): Promise<SynoResponse> {
+  async getStorageSettings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.LogCenter.Setting.Storage';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async getRegistrySendList(): Promise<SynoResponse> {
+  async getRegistrySendList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.LogCenter.Client';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async getHistory(): Promise<SynoResponse> {
+  async getHistory(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.LogCenter.History';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 }
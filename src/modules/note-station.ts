@@ -4,107 +4,99 @@
  */
 import { BaseModule } from './base-module.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
 
 export class NoteStation extends BaseModule {
   protected readonly application = 'NoteStation';
 
-  async getSettings(): Promise<SynoResponse> {
+  async getSettings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.NoteStation.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async getInfo(): Promise<SynoResponse> {
+  async getInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.NoteStation.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async listNotebooks(): Promise<SynoResponse> {
+  async listNotebooks(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.NoteStation.Notebook';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async listTags(): Promise<SynoResponse> {
+  async listTags(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.NoteStation.Tag';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async listShortcuts(): Promise<SynoResponse> {
+  async listShortcuts(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.NoteStation.Shortcut';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async listTodos(): Promise<SynoResponse> {
+  async listTodos(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.NoteStation.Todo';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async listSmartNotes(): Promise<SynoResponse> {
+  async listSmartNotes(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.NoteStation.Smart';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async listNotes(): Promise<SynoResponse> {
+  async listNotes(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.NoteStation.Note';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async getNote(noteId: string | number): Promise<SynoResponse> {
+  async getNote(noteId: string | number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.NoteStation.Note';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       object_id: noteId,
-    });
+    }, callOptions);
   }
 }
@@ -3,48 +3,64 @@
  * Ported from Python synology_api/oauth.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 export class OAuth extends BaseModule {
   protected readonly application = 'OAUTH';
 
-  async clients(offset = 0, limit = 20): Promise<SynoResponse> {
+  async clients(offset = 0, limit = 20, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.OAUTH.Client';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       offset,
       limit,
-    });
+    }, callOptions);
   }
 
-  async tokens(offset = 0, limit = 20): Promise<SynoResponse> {
+  /** Iterate all OAuth clients, fetching them page by page. */
+  iterateClients(paginateOptions?: PaginateOptions): Paginator<unknown> {
+    return paginate((page, callOptions) => this.clients(page.offset, page.limit, callOptions), 'clients', paginateOptions);
+  }
+
+  async tokens(offset = 0, limit = 20, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.OAUTH.Token';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       offset,
       limit,
-    });
+    }, callOptions);
+  }
+
+  /** Iterate all OAuth tokens, fetching them page by page. */
+  iterateTokens(paginateOptions?: PaginateOptions): Paginator<unknown> {
+    return paginate((page, callOptions) => this.tokens(page.offset, page.limit, callOptions), 'tokens', paginateOptions);
   }
 
-  async logs(offset = 0, limit = 20): Promise<SynoResponse> {
+  async logs(offset = 0, limit = 20, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.OAUTH.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       action: 'list',
       offset,
       limit,
-    });
+    }, callOptions);
+  }
+
+  /** Iterate all OAuth log entries, fetching them page by page. */
+  iterateLogs(paginateOptions?: PaginateOptions): Paginator<unknown> {
+    return paginate((page, callOptions) => this.logs(page.offset, page.limit, callOptions), 'logs', paginateOptions);
   }
 }
@@ -3,7 +3,11 @@
  * Ported from Python synology_api/photos.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 /** Folder entry returned by the Photos browse API. */
 interface FolderEntry {
@@ -40,19 +44,18 @@ export class Photos extends BaseModule {
    * Retrieve user information for the current session.
    * Caches the result after the first call.
    */
-  async getUserinfo(): Promise<SynoResponse<UserInfoData>> {
+  async getUserinfo(callOptions?: CallOptions): Promise<SynoResponse<UserInfoData>> {
     if (this.cachedUserInfo !== null) {
       return this.cachedUserInfo;
     }
 
     const apiName = 'SYNO.Foto.UserInfo';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     this.cachedUserInfo = await this.request<UserInfoData>(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'me',
-    });
+    }, callOptions);
 
     return this.cachedUserInfo;
   }
@@ -60,16 +63,15 @@ export class Photos extends BaseModule {
   /**
    * Retrieve information about a specific folder.
    */
-  async getFolder(folderId = 0): Promise<SynoResponse> {
+  async getFolder(folderId = 0, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Foto.Browse.Folder';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       id: folderId,
-    });
+    }, callOptions);
   }
 
   /**
@@ -80,9 +82,10 @@ export class Photos extends BaseModule {
     limit = 1000,
     offset = 0,
     additional: string[] = [],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse<FolderListData>> {
     const apiName = 'SYNO.Foto.Browse.Folder';
-    return this.listFoldersInternal(folderId, limit, offset, additional, apiName);
+    return this.#listFoldersInternal(folderId, limit, offset, additional, apiName, callOptions);
   }
 
   /**
@@ -93,76 +96,84 @@ export class Photos extends BaseModule {
     limit = 2000,
     offset = 0,
     additional: string[] = [],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse<FolderListData>> {
     const apiName = 'SYNO.FotoTeam.Browse.Folder';
-    return this.listFoldersInternal(folderId, limit, offset, additional, apiName);
+    return this.#listFoldersInternal(folderId, limit, offset, additional, apiName, callOptions);
   }
 
   /**
    * Internal method to list folders.
    */
-  private async listFoldersInternal(
+  async #listFoldersInternal(
     folderId: number,
     limit: number,
     offset: number,
     additional: string[],
     apiName: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse<FolderListData>> {
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request<FolderListData>(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       id: folderId,
       limit,
       offset,
       additional: JSON.stringify(additional),
-    });
+    }, callOptions);
   }
 
   /**
    * Count folders in Personal Space.
    */
-  async countFolders(folderId = 0): Promise<SynoResponse<FolderCountData>> {
+  async countFolders(
+    folderId = 0,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<FolderCountData>> {
     const apiName = 'SYNO.Foto.Browse.Folder';
-    return this.countFoldersInternal(folderId, apiName);
+    return this.#countFoldersInternal(folderId, apiName, callOptions);
   }
 
   /**
    * Count folders in Team Space.
    */
-  async countTeamFolders(folderId = 0): Promise<SynoResponse<FolderCountData>> {
+  async countTeamFolders(
+    folderId = 0,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse<FolderCountData>> {
     const apiName = 'SYNO.FotoTeam.Browse.Folder';
-    return this.countFoldersInternal(folderId, apiName);
+    return this.#countFoldersInternal(folderId, apiName, callOptions);
   }
 
   /**
    * Internal method to count folders.
    */
-  private async countFoldersInternal(
+  async #countFoldersInternal(
     folderId: number,
     apiName: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse<FolderCountData>> {
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request<FolderCountData>(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'count',
       id: folderId,
-    });
+    }, callOptions);
   }
 
   /**
    * Lookup a folder by path in Personal Space.
    * Returns the matching folder entry or undefined if not found.
    */
-  async lookupFolder(path: string): Promise<FolderEntry | undefined> {
-    return this.lookupFolderInternal(
+  async lookupFolder(path: string, callOptions?: CallOptions): Promise<FolderEntry | undefined> {
+    return this.#lookupFolderInternal(
       path,
       'SYNO.Foto.Browse.Folder',
       'SYNO.Foto.Browse.Folder',
+      callOptions,
     );
   }
 
@@ -170,21 +181,26 @@ export class Photos extends BaseModule {
    * Lookup a folder by path in Team Space.
    * Returns the matching folder entry or undefined if not found.
    */
-  async lookupTeamFolder(path: string): Promise<FolderEntry | undefined> {
-    return this.lookupFolderInternal(
+  async lookupTeamFolder(
+    path: string,
+    callOptions?: CallOptions,
+  ): Promise<FolderEntry | undefined> {
+    return this.#lookupFolderInternal(
       path,
       'SYNO.FotoTeam.Browse.Folder',
       'SYNO.FotoTeam.Browse.Folder',
+      callOptions,
     );
   }
 
   /**
    * Internal method to lookup a folder by navigating path segments.
    */
-  private async lookupFolderInternal(
+  async #lookupFolderInternal(
     path: string,
     apiNameCount: string,
     apiNameList: string,
+    callOptions?: CallOptions,
   ): Promise<FolderEntry | undefined> {
     let parent = 0;
     let foundPath = '';
@@ -193,7 +209,7 @@ export class Photos extends BaseModule {
     const parts = path.replace(/^\/+|\/+$/g, '').split('/');
 
     for (const part of parts) {
-      const countResponse = await this.countFoldersInternal(parent, apiNameCount);
+      const countResponse = await this.#countFoldersInternal(parent, apiNameCount, callOptions);
       if (!countResponse.success || !countResponse.data) {
         return undefined;
       }
@@ -202,12 +218,13 @@ export class Photos extends BaseModule {
       let matched = false;
 
       for (let offsetVal = 0; offsetVal < count; offsetVal += 1000) {
-        const foldersResponse = await this.listFoldersInternal(
+        const foldersResponse = await this.#listFoldersInternal(
           parent,
           1000,
           offsetVal,
           [],
           apiNameList,
+          callOptions,
         );
         if (!foldersResponse.success || !foldersResponse.data) {
           return undefined;
@@ -242,35 +259,34 @@ export class Photos extends BaseModule {
   async getAlbum(
     albumId: string | string[],
     additional: string[] = [],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const ids = Array.isArray(albumId) ? albumId : [albumId];
 
     const apiName = 'SYNO.Foto.Browse.Album';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       id: JSON.stringify(ids),
       additional: JSON.stringify(additional),
-    });
+    }, callOptions);
   }
 
   /**
    * List albums.
    */
-  async listAlbums(offset = 0, limit = 100): Promise<SynoResponse> {
+  async listAlbums(offset = 0, limit = 100, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Foto.Browse.Album';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       offset,
       limit,
-    });
+    }, callOptions);
   }
 
   /**
@@ -280,10 +296,11 @@ export class Photos extends BaseModule {
     keyword: string,
     condition: string[] = ['general_tag'],
     userId?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     let resolvedUserId = userId;
     if (resolvedUserId === undefined) {
-      const userInfo = await this.getUserinfo();
+      const userInfo = await this.getUserinfo(callOptions);
       if (!userInfo.data) {
         throw new Error('Failed to retrieve user info for suggestCondition');
       }
@@ -291,16 +308,15 @@ export class Photos extends BaseModule {
     }
 
     const apiName = 'SYNO.Foto.Browse.ConditionAlbum';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'suggest',
       user_id: resolvedUserId,
       keyword,
       condition: JSON.stringify(condition),
-    });
+    }, callOptions);
   }
 
   /**
@@ -309,34 +325,33 @@ export class Photos extends BaseModule {
   async createAlbum(
     name: string,
     condition: string[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Foto.Browse.ConditionAlbum';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'create',
       name: `"${name}"`,
       condition: JSON.stringify(condition),
-    });
+    }, callOptions);
   }
 
   /**
    * Delete an album (or multiple albums) by ID.
    */
-  async deleteAlbum(albumId: string | string[]): Promise<SynoResponse> {
+  async deleteAlbum(albumId: string | string[], callOptions?: CallOptions): Promise<SynoResponse> {
     const ids = Array.isArray(albumId) ? albumId : [albumId];
 
     const apiName = 'SYNO.Foto.Browse.Album';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'delete',
       id: JSON.stringify(ids),
-    });
+    }, callOptions);
   }
 
   /**
@@ -345,17 +360,17 @@ export class Photos extends BaseModule {
   async setAlbumCondition(
     folderId: number,
     condition: string[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Foto.Browse.ConditionAlbum';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set_condition',
       id: folderId,
       condition: JSON.stringify(condition),
-    });
+    }, callOptions);
   }
 
   /**
@@ -366,12 +381,13 @@ export class Photos extends BaseModule {
     permission?: string | string[],
     enabled = true,
     expiration: number | string = 0,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse | undefined> {
     const apiName = 'SYNO.Foto.Sharing.Passphrase';
-    return this.shareInternal(apiName, 'album', permission, expiration, {
+    return this.#shareInternal(apiName, 'album', permission, expiration, {
       album_id: albumId,
       enabled,
-    });
+    }, callOptions);
   }
 
   /**
@@ -382,34 +398,35 @@ export class Photos extends BaseModule {
     permission?: string,
     enabled = true,
     expiration: number | string = 0,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse | undefined> {
     const apiName = 'SYNO.FotoTeam.Sharing.Passphrase';
-    return this.shareInternal(apiName, 'folder', permission, expiration, {
+    return this.#shareInternal(apiName, 'folder', permission, expiration, {
       folder_id: folderId,
       enabled,
-    });
+    }, callOptions);
   }
 
   /**
    * Internal method to share an album or folder.
    * First sets shared state, then optionally updates permission and expiration.
    */
-  private async shareInternal(
+  async #shareInternal(
     apiName: string,
     policy: string,
     permission: string | string[] | undefined,
     expiration: number | string,
     extraParams: Record<string, unknown>,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse | undefined> {
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const sharedResponse = await this.request<ShareData>(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set_shared',
       policy,
       ...extraParams,
-    });
+    }, callOptions);
 
     if (!sharedResponse.success) {
       return undefined;
@@ -422,12 +439,12 @@ export class Photos extends BaseModule {
     const passphrase = sharedResponse.data?.passphrase;
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'update',
       passphrase,
       expiration,
       permission: JSON.stringify(permission),
-    });
+    }, callOptions);
   }
 
   /**
@@ -435,16 +452,16 @@ export class Photos extends BaseModule {
    */
   async listShareableUsersAndGroups(
     teamSpaceSharableList = false,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Foto.Sharing.Misc';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list_user_group',
       team_space_sharable_list: teamSpaceSharableList,
-    });
+    }, callOptions);
   }
 
   /**
@@ -458,6 +475,7 @@ export class Photos extends BaseModule {
    * @param type - Item type filter: 'photo', 'video', 'live'.
    * @param passphrase - Passphrase for a shared album.
    * @param additional - Additional fields to include.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async listItemInFolders(
     offset = 0,
@@ -468,13 +486,13 @@ export class Photos extends BaseModule {
     type?: string,
     passphrase?: string,
     additional?: string[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Foto.Browse.Item';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       offset,
       limit,
@@ -493,34 +511,64 @@ export class Photos extends BaseModule {
       params.additional = additional;
     }
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
+  }
+
+  /**
+   * Iterate all items in a Personal Space folder, fetching them page by page.
+   * The Photos API reports no total, so paging stops at the first short page.
+   */
+  iterateItemInFolders(
+    folderId = 0,
+    options: {
+      sortBy?: string;
+      sortDirection?: 'asc' | 'desc';
+      type?: string;
+      passphrase?: string;
+      additional?: string[];
+    } = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.listItemInFolders(
+        page.offset,
+        page.limit,
+        folderId,
+        options.sortBy,
+        options.sortDirection,
+        options.type,
+        options.passphrase,
+        options.additional,
+        callOptions,
+      ),
+      'list',
+      paginateOptions,
+    );
   }
 
   /**
    * List available search filters.
    */
-  async listSearchFilters(): Promise<SynoResponse> {
+  async listSearchFilters(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Foto.Search.Filter';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   /**
    * Retrieve guest settings for Photos.
    */
-  async getGuestSettings(): Promise<SynoResponse> {
+  async getGuestSettings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Foto.Setting.Guest';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 }
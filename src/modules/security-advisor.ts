@@ -3,78 +3,85 @@
  * Ported from Python synology_api/security_advisor.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 export class SecurityAdvisor extends BaseModule {
   protected readonly application = 'SecurityAdvisor';
 
-  async getGeneralInfo(): Promise<SynoResponse> {
+  async getGeneralInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SecurityAdvisor.Conf.Location';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async getSecurityScan(): Promise<SynoResponse> {
+  async getSecurityScan(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SecurityScan.Conf';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async getChecklist(): Promise<SynoResponse> {
+  async getChecklist(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SecurityAdvisor.Conf.Checklist';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       group: 'home',
-    });
+    }, callOptions);
   }
 
-  async getLoginActivity(offset = 0, limit = 20): Promise<SynoResponse> {
+  async getLoginActivity(offset = 0, limit = 20, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SecurityAdvisor.LoginActivity';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       offset,
       limit,
-    });
+    }, callOptions);
   }
 
-  async getAdvisorConfig(): Promise<SynoResponse> {
+  /** Iterate all login activity, fetching it page by page. */
+  iterateLoginActivity(paginateOptions?: PaginateOptions): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getLoginActivity(page.offset, page.limit, callOptions),
+      'items',
+      paginateOptions,
+    );
+  }
+
+  async getAdvisorConfig(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SecurityAdvisor.Conf';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async getScanConfig(): Promise<SynoResponse> {
+  async getScanConfig(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.SecurityScan.Conf';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'group_enum',
       argGroup: 'custom',
-    });
+    }, callOptions);
   }
 }
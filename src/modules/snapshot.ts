@@ -6,7 +6,11 @@
  * The implementation is based on network inspection, as there is no official documentation.
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 /**
  * Options for creating an immutable (WORM) share snapshot.
@@ -103,6 +107,7 @@ export class Snapshot extends BaseModule {
    *   Defaults to [].
    * @param offset - Offset to start listing from. Defaults to 0.
    * @param limit - Number of snapshots to return. -1 for all. Defaults to -1.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async listSnapshots(
     shareName: string,
@@ -110,20 +115,48 @@ export class Snapshot extends BaseModule {
     additionalAttribute: readonly string[] = [],
     offset = 0,
     limit = -1,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Snapshot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 2, max: 2 });
 
     return this.request(apiName, info.path, {
-      version: 2,
+      version: info.version,
       method: 'list',
       name: shareName,
       filter: JSON.stringify({ attr: attributeFilter }),
       additional: JSON.stringify(additionalAttribute),
       offset,
       limit,
-    });
+    }, callOptions);
+  }
+
+  /**
+   * Iterate the snapshots of a share, fetching them page by page.
+   *
+   * @param shareName - Name of the share to list snapshots for.
+   * @param attributeFilter - Attribute filters, as for listSnapshots.
+   * @param additionalAttribute - Extra snapshot attributes, as for listSnapshots.
+   * @param paginateOptions - Page size, start offset, item cap and abort signal.
+   */
+  iterateSnapshots(
+    shareName: string,
+    attributeFilter: readonly string[] = [],
+    additionalAttribute: readonly string[] = [],
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.listSnapshots(
+        shareName,
+        attributeFilter,
+        additionalAttribute,
+        page.offset,
+        page.limit,
+        callOptions,
+      ),
+      'snapshots',
+      paginateOptions,
+    );
   }
 
   /**
@@ -132,21 +165,22 @@ export class Snapshot extends BaseModule {
    * @param srcLunUuid - UUID of the source LUN to list snapshots for.
    * @param additional - Additional fields to retrieve. Defaults to
    *   ["locked_app_keys", "is_worm_locked"].
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async listSnapshotsLun(
     srcLunUuid: string,
     additional: readonly string[] = DEFAULT_LUN_SNAPSHOT_ADDITIONAL,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ISCSI.LUN';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list_snapshot',
       src_lun_uuid: srcLunUuid,
       additional: JSON.stringify(additional),
-    });
+    }, callOptions);
   }
 
   /**
@@ -155,21 +189,22 @@ export class Snapshot extends BaseModule {
    * @param types - Types of LUNs to retrieve. Defaults to all known types.
    * @param additionalInfo - Additional LUN information to include in the response.
    *   Defaults to a comprehensive list of attributes.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async listLuns(
     types: readonly string[] = DEFAULT_LUN_TYPES,
     additionalInfo: readonly string[] = DEFAULT_LUN_ADDITIONAL_INFO,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ISCSI.LUN';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list',
       types: JSON.stringify(types),
       additional: JSON.stringify(additionalInfo),
-    });
+    }, callOptions);
   }
 
   /**
@@ -178,19 +213,20 @@ export class Snapshot extends BaseModule {
    * @param additionalInfo - Additional info to include (e.g. "sync_policy",
    *   "sync_report", "main_site_info", "dr_site_info", "can_do", "op_info",
    *   "last_op_info", "topology", "testfailover_info", "retention_lock_report").
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async listReplicationPlans(
     additionalInfo: readonly string[] = DEFAULT_REPLICATION_ADDITIONAL_INFO,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.DR.Plan';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'list',
       additional: JSON.stringify(additionalInfo),
-    });
+    }, callOptions);
   }
 
   // ---------------------------------------------------------------------------
@@ -205,16 +241,17 @@ export class Snapshot extends BaseModule {
    * @param lock - Whether to lock the snapshot. Defaults to false.
    * @param immutableOptions - Optional WORM immutability settings.
    *   When provided, immutableDays must be >= 1.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async createSnapshot(
     shareName: string,
     description = '',
     lock = false,
     immutableOptions?: ImmutableOptions,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Snapshot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     const snapinfo: Record<string, unknown> = {
       desc: description,
@@ -230,11 +267,11 @@ export class Snapshot extends BaseModule {
     }
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'create',
       snapinfo: JSON.stringify(snapinfo),
       name: shareName,
-    });
+    }, callOptions);
   }
 
   /**
@@ -244,21 +281,22 @@ export class Snapshot extends BaseModule {
    *
    * @param shareName - Name of the share to delete snapshots for.
    * @param snapshots - List of snapshot names to delete.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async deleteSnapshots(
     shareName: string,
     snapshots: readonly string[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Snapshot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'delete',
       name: shareName,
       snapshots: JSON.stringify(snapshots),
-    });
+    }, callOptions);
   }
 
   /**
@@ -270,6 +308,7 @@ export class Snapshot extends BaseModule {
    * @param lock - Whether to lock the snapshot. Omit to leave unchanged.
    * @param immutableOptions - WORM immutability settings. Can only enable
    *   immutability (cannot disable). immutableDays must be >= 1.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async setSnapshotAttr(
     shareName: string,
@@ -277,10 +316,10 @@ export class Snapshot extends BaseModule {
     description?: string,
     lock?: boolean,
     immutableOptions?: SetImmutableOptions,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Share.Snapshot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     const snapinfo: Record<string, unknown> = {};
 
@@ -301,12 +340,12 @@ export class Snapshot extends BaseModule {
     }
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'set',
       snapinfo: JSON.stringify(snapinfo),
       name: shareName,
       snapshot,
-    });
+    }, callOptions);
   }
 
   /**
@@ -319,14 +358,16 @@ export class Snapshot extends BaseModule {
    * @param lockSnapshot - Whether to lock the snapshot to prevent rotation. Defaults to true.
    * @param description - Description of the snapshot. Defaults to
    *   "Snapshot taken by [Synology API]".
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async syncReplication(
     planId: string,
     lockSnapshot = true,
     description = 'Snapshot taken by [Synology API]',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     // Retrieve plans to determine the is_send_encrypted flag
-    const plansResponse = await this.listReplicationPlans(['sync_policy']);
+    const plansResponse = await this.listReplicationPlans(['sync_policy'], callOptions);
 
     let isSendEncrypted: boolean | undefined;
 
@@ -344,11 +385,10 @@ export class Snapshot extends BaseModule {
     }
 
     const apiName = 'SYNO.DR.Plan';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'sync',
       nowait: true,
       auto_remove: true,
@@ -356,7 +396,7 @@ export class Snapshot extends BaseModule {
       is_snapshot_locked: lockSnapshot,
       is_send_encrypted: isSendEncrypted,
       sync_description: description,
-    });
+    }, callOptions);
   }
 
   /**
@@ -369,26 +409,27 @@ export class Snapshot extends BaseModule {
    *   "Snapshot taken by [Synology API]".
    * @param lock - Whether to lock the snapshot. Defaults to true.
    * @param appAware - Whether to make the snapshot application-aware. Defaults to true.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async createSnapshotLun(
     lunId: string,
     description = 'Snapshot taken by [Synology API]',
     lock = true,
     appAware = true,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ISCSI.LUN';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'take_snapshot',
       taken_by: 'user',
       src_lun_uuid: lunId,
       description,
       is_locked: lock,
       is_app_consistent: appAware,
-    });
+    }, callOptions);
   }
 
   /**
@@ -397,18 +438,19 @@ export class Snapshot extends BaseModule {
    * Warning: This action removes data from the file system. Use with caution.
    *
    * @param snapshotUuids - List of UUIDs of the snapshots to delete.
+   * @param callOptions - Signal, timeout, retry and priority for this call.
    */
   async deleteSnapshotsLun(
     snapshotUuids: readonly string[],
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.ISCSI.LUN';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'delete_snapshot',
       snapshot_uuids: JSON.stringify(snapshotUuids),
-    });
+    }, callOptions);
   }
 }
@@ -3,7 +3,11 @@
  * Ported from Python synology_api/surveillancestation.py (PART 1: lines 1-3852)
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { BinaryResponse, CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 /**
  * Helper: build request params from an object, skipping undefined values.
@@ -29,15 +33,14 @@ export class SurveillanceStation extends BaseModule {
   /**
    * Retrieve information about the Surveillance Station.
    */
-  async surveillanceStationInfo(): Promise<SynoResponse> {
+  async surveillanceStationInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetInfo',
-    });
+    }, callOptions);
   }
 
   // ─── Camera ──────────────────────────────────────────────────────────
@@ -73,15 +76,14 @@ export class SurveillanceStation extends BaseModule {
     enableLowProfile?: boolean;
     recordSchedule?: number[];
     rtspPathTimeout?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Save' },
+      { version: info.version, method: 'Save' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -98,15 +100,14 @@ export class SurveillanceStation extends BaseModule {
     streamInfo?: boolean;
     blPrivilege?: boolean;
     camStm?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'List' },
+      { version: info.version, method: 'List' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -124,10 +125,9 @@ export class SurveillanceStation extends BaseModule {
     deviceOutCap?: boolean;
     fisheye?: boolean;
     camAppInfo?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { prefer: 'lowest' });
 
     const defaults = {
       privCamType: 1,
@@ -143,9 +143,9 @@ export class SurveillanceStation extends BaseModule {
     };
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.minVersion, method: 'GetInfo' },
+      { version: info.version, method: 'GetInfo' },
       { ...defaults, ...(params ?? {}) },
-    ));
+    ), callOptions);
   }
 
   /**
@@ -154,15 +154,14 @@ export class SurveillanceStation extends BaseModule {
   async cameraListGroup(params?: {
     offset?: number;
     limit?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'ListGroup' },
+      { version: info.version, method: 'ListGroup' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -174,17 +173,16 @@ export class SurveillanceStation extends BaseModule {
     name?: string;
     dsld?: number;
     profileType?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<BinaryResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const defaults = { profileType: 1 };
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'GetSnapshot' },
+      { version: info.version, method: 'GetSnapshot' },
       { ...defaults, ...(params ?? {}) },
-    ), { rawResponse: true });
+    ), { ...callOptions, rawResponse: true });
   }
 
   /**
@@ -193,17 +191,16 @@ export class SurveillanceStation extends BaseModule {
   async enableCamera(params?: {
     idList?: string;
     blIncludeDeletedCam?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const defaults = { blIncludeDeletedCam: false };
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Enable' },
+      { version: info.version, method: 'Enable' },
       { ...defaults, ...(params ?? {}) },
-    ));
+    ), callOptions);
   }
 
   /**
@@ -212,76 +209,74 @@ export class SurveillanceStation extends BaseModule {
   async disableCamera(params?: {
     idList?: string;
     blIncludeDeletedCam?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const defaults = { blIncludeDeletedCam: false };
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Disable' },
+      { version: info.version, method: 'Disable' },
       { ...defaults, ...(params ?? {}) },
-    ));
+    ), callOptions);
   }
 
   /**
    * Retrieve the capability information for a specific camera by its ID.
    * NOTE: marked as not working in original Python source.
    */
-  async getCapabilityByCamId(cameraId?: string | number): Promise<SynoResponse> {
+  async getCapabilityByCamId(
+    cameraId?: string | number,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'GetCapabilityByCamId' },
+      { version: info.version, method: 'GetCapabilityByCamId' },
       { cameraId },
-    ));
+    ), callOptions);
   }
 
   /**
    * Retrieve the occupied storage size for a specific camera.
    * NOTE: marked as not working in original Python source.
    */
-  async countOccupiedSize(camId?: number): Promise<SynoResponse> {
+  async countOccupiedSize(camId?: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'GetOccupiedSize' },
+      { version: info.version, method: 'GetOccupiedSize' },
       { camId },
-    ));
+    ), callOptions);
   }
 
   /**
    * Check if a camera shortcut is valid.
    * NOTE: marked as not working in original Python source.
    */
-  async isShortcutValid(cameraId?: number): Promise<SynoResponse> {
+  async isShortcutValid(cameraId?: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'CheckCamValid' },
+      { version: info.version, method: 'CheckCamValid' },
       { cameraId },
-    ));
+    ), callOptions);
   }
 
   /**
    * Retrieve the live view path for one or more cameras.
    */
-  async getLivePath(idList?: number): Promise<SynoResponse> {
+  async getLivePath(idList?: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'GetLiveViewPath' },
+      { version: info.version, method: 'GetLiveViewPath' },
       { idList },
-    ));
+    ), callOptions);
   }
 
   // ─── Camera.Event ────────────────────────────────────────────────────
@@ -289,30 +284,28 @@ export class SurveillanceStation extends BaseModule {
   /**
    * Enumerate audio events for a specific camera.
    */
-  async audioEventEnum(camId?: number): Promise<SynoResponse> {
+  async audioEventEnum(camId?: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Event';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'AudioEnum' },
+      { version: info.version, method: 'AudioEnum' },
       { camId },
-    ));
+    ), callOptions);
   }
 
   /**
    * Enumerate alarm events for a specific camera.
    * NOTE: marked as not working in original Python source.
    */
-  async alarmEventEnum(camId?: number): Promise<SynoResponse> {
+  async alarmEventEnum(camId?: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Event';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'AlarmEnum' },
+      { version: info.version, method: 'AlarmEnum' },
       { camId },
-    ));
+    ), callOptions);
   }
 
   /**
@@ -326,29 +319,27 @@ export class SurveillanceStation extends BaseModule {
     threshold?: number;
     objectSize?: number;
     percentage?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Event';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'MDParamSave' },
+      { version: info.version, method: 'MDParamSave' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Enumerate motion events for a specific camera.
    */
-  async motionEventEnum(camId?: number): Promise<SynoResponse> {
+  async motionEventEnum(camId?: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Event';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'MotionEnum' },
+      { version: info.version, method: 'MotionEnum' },
       { camId },
-    ));
+    ), callOptions);
   }
 
   /**
@@ -360,15 +351,14 @@ export class SurveillanceStation extends BaseModule {
     mode?: number;
     keep?: boolean;
     level?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Event';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'ADParamSave' },
+      { version: info.version, method: 'ADParamSave' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -379,15 +369,14 @@ export class SurveillanceStation extends BaseModule {
     idx?: number;
     keep?: boolean;
     normal?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Event';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'DIParamSave' },
+      { version: info.version, method: 'DIParamSave' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -397,15 +386,14 @@ export class SurveillanceStation extends BaseModule {
     camId?: number;
     timeOut?: number;
     keep?: unknown;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Event';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'AlarmStsPolling' },
+      { version: info.version, method: 'AlarmStsPolling' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -416,15 +404,14 @@ export class SurveillanceStation extends BaseModule {
     source?: number;
     keep?: unknown;
     duration?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Event';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'TDParamSave' },
+      { version: info.version, method: 'TDParamSave' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   // ─── Camera.Group ────────────────────────────────────────────────────
@@ -432,44 +419,44 @@ export class SurveillanceStation extends BaseModule {
   /**
    * Enumerate camera groups in Surveillance Station.
    */
-  async enumerateCameraGroup(privCamType?: number): Promise<SynoResponse> {
+  async enumerateCameraGroup(
+    privCamType?: number,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Group';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Enum' },
+      { version: info.version, method: 'Enum' },
       { privCamType },
-    ));
+    ), callOptions);
   }
 
   /**
    * Save or update a specific camera group in Surveillance Station.
    * NOTE: marked as to-check in original Python source.
    */
-  async saveSpecificGroup(groupList?: unknown): Promise<SynoResponse> {
+  async saveSpecificGroup(groupList?: unknown, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Group';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Save' },
+      { version: info.version, method: 'Save' },
       { groupList },
-    ));
+    ), callOptions);
   }
 
   /**
    * Delete specific camera groups in Surveillance Station.
    */
-  async deleteSpecificGroups(id?: number): Promise<SynoResponse> {
+  async deleteSpecificGroups(id?: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Group';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Delete' },
+      { version: info.version, method: 'Delete' },
       { id },
-    ));
+    ), callOptions);
   }
 
   // ─── Camera.Import ───────────────────────────────────────────────────
@@ -483,15 +470,14 @@ export class SurveillanceStation extends BaseModule {
     archiveName?: string;
     camlist?: unknown;
     actFromHost?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Import';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Save' },
+      { version: info.version, method: 'Save' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -501,30 +487,31 @@ export class SurveillanceStation extends BaseModule {
     shareName?: string;
     archiveName?: string;
     serverId?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Import';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'ArchiveCamEnum' },
+      { version: info.version, method: 'ArchiveCamEnum' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Enumerate archives from a specified folder in Surveillance Station.
    * NOTE: marked as not working in original Python source.
    */
-  async enumerateArchiveFromFolder(shareName?: string): Promise<SynoResponse> {
+  async enumerateArchiveFromFolder(
+    shareName?: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Import';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'ArchiveEnum' },
+      { version: info.version, method: 'ArchiveEnum' },
       { shareName },
-    ));
+    ), callOptions);
   }
 
   // ─── Camera.Wizard ───────────────────────────────────────────────────
@@ -541,10 +528,9 @@ export class SurveillanceStation extends BaseModule {
     vendor?: string;
     model?: string;
     ch?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Wizard';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const extra: Record<string, unknown> = {};
     if (params) {
@@ -557,24 +543,23 @@ export class SurveillanceStation extends BaseModule {
     }
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'ArchiveEnum' },
+      { version: info.version, method: 'ArchiveEnum' },
       extra,
-    ));
+    ), callOptions);
   }
 
   /**
    * Check the license quota for Surveillance Station cameras.
    * NOTE: marked as not working in original Python source.
    */
-  async checkLicenceQuota(): Promise<SynoResponse> {
+  async checkLicenceQuota(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Wizard';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CheckQuota',
-    });
+    }, callOptions);
   }
 
   /**
@@ -590,10 +575,9 @@ export class SurveillanceStation extends BaseModule {
     model?: string;
     ch?: string;
     timeout?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Wizard';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const extra: Record<string, unknown> = {};
     if (params) {
@@ -606,9 +590,9 @@ export class SurveillanceStation extends BaseModule {
     }
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'FormatSDCard' },
+      { version: info.version, method: 'FormatSDCard' },
       extra,
-    ));
+    ), callOptions);
   }
 
   /**
@@ -630,15 +614,14 @@ export class SurveillanceStation extends BaseModule {
     camSourcePath?: string;
     camUserName?: string;
     camPassWord?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Wizard';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'QuickCreate' },
+      { version: info.version, method: 'QuickCreate' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   // ─── PTZ ─────────────────────────────────────────────────────────────
@@ -651,15 +634,14 @@ export class SurveillanceStation extends BaseModule {
     direction?: string;
     speed?: number;
     moveType?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Move' },
+      { version: info.version, method: 'Move' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -669,15 +651,14 @@ export class SurveillanceStation extends BaseModule {
     cameraId?: string | number;
     control?: unknown;
     moveType?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Zoom' },
+      { version: info.version, method: 'Zoom' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -687,15 +668,14 @@ export class SurveillanceStation extends BaseModule {
     cameraId?: string | number;
     offset?: number;
     limit?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'List' },
+      { version: info.version, method: 'List' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -708,15 +688,14 @@ export class SurveillanceStation extends BaseModule {
     speed?: unknown;
     type?: unknown;
     isPatrol?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'GoPreset' },
+      { version: info.version, method: 'GoPreset' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -726,15 +705,14 @@ export class SurveillanceStation extends BaseModule {
     cameraId?: string | number;
     offset?: number;
     limit?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'ListPatrol' },
+      { version: info.version, method: 'ListPatrol' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -743,15 +721,14 @@ export class SurveillanceStation extends BaseModule {
   async forceCamToExecutePatrol(params?: {
     cameraId?: string | number;
     patrolId?: string | number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'RunPatrol' },
+      { version: info.version, method: 'RunPatrol' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -761,15 +738,14 @@ export class SurveillanceStation extends BaseModule {
     cameraId?: string | number;
     control?: unknown;
     moveType?: unknown;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Focus' },
+      { version: info.version, method: 'Focus' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -779,30 +755,28 @@ export class SurveillanceStation extends BaseModule {
     cameraId?: string | number;
     control?: unknown;
     moveType?: unknown;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Iris' },
+      { version: info.version, method: 'Iris' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Perform an auto-focus operation on a specified camera.
    * NOTE: marked as not working in original Python source.
    */
-  async autoFocus(cameraId?: string | number): Promise<SynoResponse> {
+  async autoFocus(cameraId?: string | number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'AutoFocus' },
+      { version: info.version, method: 'AutoFocus' },
       { cameraId },
-    ));
+    ), callOptions);
   }
 
   /**
@@ -811,30 +785,31 @@ export class SurveillanceStation extends BaseModule {
   async moveCamLensToAbsolutePosition(params?: {
     posX?: number;
     posY?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'AbsPtz' },
+      { version: info.version, method: 'AbsPtz' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Move the camera to its home position.
    * NOTE: marked as not working in original Python source.
    */
-  async moveCamToHomePosition(cameraId?: string | number): Promise<SynoResponse> {
+  async moveCamToHomePosition(
+    cameraId?: string | number,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Home' },
+      { version: info.version, method: 'Home' },
       { cameraId },
-    ));
+    ), callOptions);
   }
 
   /**
@@ -843,15 +818,14 @@ export class SurveillanceStation extends BaseModule {
   async autoPanCamera(params?: {
     cameraId?: string | number;
     moveType?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'AutoPan' },
+      { version: info.version, method: 'AutoPan' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -860,15 +834,14 @@ export class SurveillanceStation extends BaseModule {
   async startStopObjectTracking(params?: {
     cameraId?: string | number;
     moveType?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'ObjTracking' },
+      { version: info.version, method: 'ObjTracking' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   // ─── ExternalRecording ───────────────────────────────────────────────
@@ -879,15 +852,14 @@ export class SurveillanceStation extends BaseModule {
   async startStopExternalRecording(params?: {
     cameraId?: string | number;
     action?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.ExternalRecording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Record' },
+      { version: info.version, method: 'Record' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   // ─── Recording ───────────────────────────────────────────────────────
@@ -903,15 +875,34 @@ export class SurveillanceStation extends BaseModule {
     toTime?: number;
     dsld?: number;
     mountId?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'List' },
+      { version: info.version, method: 'List' },
       params ?? {},
-    ));
+    ), callOptions);
+  }
+
+  /**
+   * Iterate recordings matching a filter, fetching them page by page.
+   */
+  iterateEventListByFilter(
+    params: {
+      cameraIds?: string;
+      fromTime?: number;
+      toTime?: number;
+      dsld?: number;
+      mountId?: number;
+    } = {},
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.queryEventListByFilter({ ...params, ...page }, callOptions),
+      'recordings',
+      paginateOptions,
+    );
   }
 
   /**
@@ -920,15 +911,14 @@ export class SurveillanceStation extends BaseModule {
   async deleteRecordings(params?: {
     idList?: number;
     dsld?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Delete' },
+      { version: info.version, method: 'Delete' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -946,45 +936,45 @@ export class SurveillanceStation extends BaseModule {
     includeAllCam?: boolean;
     from_end?: number;
     from_start?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'DeleteFilter' },
+      { version: info.version, method: 'DeleteFilter' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Delete all recordings from Surveillance Station.
    * NOTE: marked as not working in original Python source.
    */
-  async deleteAllRecordings(): Promise<SynoResponse> {
+  async deleteAllRecordings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DeleteAll',
-    });
+    }, callOptions);
   }
 
   /**
    * Apply advanced settings in the Surveillance Station recording tab.
    * NOTE: marked as not working in original Python source.
    */
-  async applySettingsAdvanceTab(rotateUnrecogCam?: boolean): Promise<SynoResponse> {
+  async applySettingsAdvanceTab(
+    rotateUnrecogCam?: boolean,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'ApplyAdvanced' },
+      { version: info.version, method: 'ApplyAdvanced' },
       { rotateUnrecogCam },
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1002,60 +992,56 @@ export class SurveillanceStation extends BaseModule {
     evtSrcId?: number;
     blIncludeSnapshot?: boolean;
     includeAllCam?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'CountByCategory' },
+      { version: info.version, method: 'CountByCategory' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Keep the event play session alive.
    * NOTE: marked as not working in original Python source.
    */
-  async keepEventPlayAlive(): Promise<SynoResponse> {
+  async keepEventPlayAlive(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Keepalive',
-    });
+    }, callOptions);
   }
 
   /**
    * Stop a recording event for the specified event IDs.
    * NOTE: marked as not working in original Python source.
    */
-  async stopRecordingEvent(idList?: unknown): Promise<SynoResponse> {
+  async stopRecordingEvent(idList?: unknown, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Trunc' },
+      { version: info.version, method: 'Trunc' },
       { idList },
-    ));
+    ), callOptions);
   }
 
   /**
    * Load settings from the advanced tab in Surveillance Station.
    * NOTE: marked as not working in original Python source.
    */
-  async loadSettingsInAdvancedTab(): Promise<SynoResponse> {
+  async loadSettingsInAdvancedTab(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'LoadAdvanced',
-    });
+    }, callOptions);
   }
 
   /**
@@ -1073,15 +1059,14 @@ export class SurveillanceStation extends BaseModule {
     includeAllCam?: boolean;
     from_end?: number;
     from_start?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'LockFilter' },
+      { version: info.version, method: 'LockFilter' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1090,15 +1075,14 @@ export class SurveillanceStation extends BaseModule {
   async unlockSelectedEvent(params?: {
     idList?: string;
     dsld?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Unlock' },
+      { version: info.version, method: 'Unlock' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1112,15 +1096,14 @@ export class SurveillanceStation extends BaseModule {
     locked?: number;
     evtSrcType?: number;
     evtSrcId?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'UnlockFilter' },
+      { version: info.version, method: 'UnlockFilter' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1129,15 +1112,14 @@ export class SurveillanceStation extends BaseModule {
   async lockSelectedRecordings(params?: {
     idList?: string;
     dsld?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Lock' },
+      { version: info.version, method: 'Lock' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1149,15 +1131,14 @@ export class SurveillanceStation extends BaseModule {
     mountId?: number;
     offsetTimeMs?: number;
     playTimeMs?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<BinaryResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Download' },
+      { version: info.version, method: 'Download' },
       params ?? {},
-    ), { rawResponse: true });
+    ), { ...callOptions, rawResponse: true });
   }
 
   /**
@@ -1168,15 +1149,14 @@ export class SurveillanceStation extends BaseModule {
     chkDetail?: boolean;
     mountId?: number;
     dsld?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'CheckEventValid' },
+      { version: info.version, method: 'CheckEventValid' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1188,15 +1168,14 @@ export class SurveillanceStation extends BaseModule {
     mountId?: number;
     dsld?: number;
     videoCodec?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Stream' },
+      { version: info.version, method: 'Stream' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1208,47 +1187,48 @@ export class SurveillanceStation extends BaseModule {
     fromTime?: number;
     toTime?: number;
     fileName?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'RangeExport' },
+      { version: info.version, method: 'RangeExport' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Get the latest progress of a range export task and keep the task alive.
    * NOTE: marked as not working in original Python source.
    */
-  async getNewestProgressKeepAlive(dlid?: number): Promise<SynoResponse> {
+  async getNewestProgressKeepAlive(
+    dlid?: number,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'GetRangeExportProgress' },
+      { version: info.version, method: 'GetRangeExportProgress' },
       { dlid },
-    ));
+    ), callOptions);
   }
 
   /**
    * Download the exported recording file from a completed range export task.
+   * Returns raw binary response.
    */
   async downloadRecordingFromTarget(params?: {
     dlid?: number;
     fileName?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<BinaryResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'OnRangeExportDone' },
+      { version: info.version, method: 'OnRangeExportDone' },
       params ?? {},
-    ));
+    ), { ...callOptions, rawResponse: true });
   }
 
   // ─── Recording.Export ────────────────────────────────────────────────
@@ -1259,15 +1239,14 @@ export class SurveillanceStation extends BaseModule {
   async handleLoadEventExport(params?: {
     start?: number;
     limit?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording.Export';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Load' },
+      { version: info.version, method: 'Load' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1277,29 +1256,27 @@ export class SurveillanceStation extends BaseModule {
     dsId?: number;
     name?: number;
     share?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording.Export';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'CheckName' },
+      { version: info.version, method: 'CheckName' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Retrieve the list of camera information for event export.
    */
-  async getCameraInformationList(dslld?: number): Promise<SynoResponse> {
+  async getCameraInformationList(dslld?: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording.Export';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'CamEnum' },
+      { version: info.version, method: 'CamEnum' },
       { dslld },
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1310,15 +1287,14 @@ export class SurveillanceStation extends BaseModule {
     startTime?: number;
     stopTime?: number;
     camIdList?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording.Export';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'CheckAvailableExport' },
+      { version: info.version, method: 'CheckAvailableExport' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1334,15 +1310,14 @@ export class SurveillanceStation extends BaseModule {
     stop_time?: number;
     isoverwrite?: number;
     camlistid?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording.Export';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Save' },
+      { version: info.version, method: 'Save' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1352,15 +1327,14 @@ export class SurveillanceStation extends BaseModule {
     start_time?: number;
     stop_time?: number;
     camlistid?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording.Export';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'GetEvtExpInfo' },
+      { version: info.version, method: 'GetEvtExpInfo' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   // ─── Recording.Mount ─────────────────────────────────────────────────
@@ -1368,15 +1342,14 @@ export class SurveillanceStation extends BaseModule {
   /**
    * Load event mount information for export.
    */
-  async loadEventMount(): Promise<SynoResponse> {
+  async loadEventMount(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording.Mount';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Load',
-    });
+    }, callOptions);
   }
 
   // ─── CMS ─────────────────────────────────────────────────────────────
@@ -1387,15 +1360,14 @@ export class SurveillanceStation extends BaseModule {
   async redirectWebapiToTargetDs(params?: {
     dsId?: number;
     webAPI?: unknown;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Redirect' },
+      { version: info.version, method: 'Redirect' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1404,15 +1376,14 @@ export class SurveillanceStation extends BaseModule {
   async modifySharePrivilege(params?: {
     privSet?: number;
     shareName?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Load' },
+      { version: info.version, method: 'Load' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1426,30 +1397,28 @@ export class SurveillanceStation extends BaseModule {
     central_rec_sync_time?: boolean;
     nvr_enable?: boolean;
     nvr_lang?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'ApplyOption' },
+      { version: info.version, method: 'ApplyOption' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Retrieve CMS (Central Management System) information.
    * NOTE: marked as not working in original Python source.
    */
-  async getCmsInfo(isPolling?: boolean): Promise<SynoResponse> {
+  async getCmsInfo(isPolling?: boolean, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'GetInfo' },
+      { version: info.version, method: 'GetInfo' },
       { isPolling },
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1459,119 +1428,117 @@ export class SurveillanceStation extends BaseModule {
     syncType?: number;
     syncTargetId?: number;
     limit?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'DoSyncData' },
+      { version: info.version, method: 'DoSyncData' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Check if the Samba service is enabled on the CMS.
    * NOTE: marked as not working in original Python source.
    */
-  async getSambaService(): Promise<SynoResponse> {
+  async getSambaService(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CheckSambaEnabled',
-    });
+    }, callOptions);
   }
 
   /**
    * Check if Samba is enabled and recording is enabled on the CMS.
    * NOTE: marked as not working in original Python source.
    */
-  async checkIfSambaOnAndRecEnabled(): Promise<SynoResponse> {
+  async checkIfSambaOnAndRecEnabled(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'BatCheckSambaService',
-    });
+    }, callOptions);
   }
 
   /**
    * Retrieve an encoded single image (snapshot) from a specified camera.
    */
-  async getEncodedSingleImageOfCamera(camId?: number): Promise<SynoResponse> {
+  async getEncodedSingleImageOfCamera(
+    camId?: number,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'GetMDSnapshot' },
+      { version: info.version, method: 'GetMDSnapshot' },
       { camId },
-    ));
+    ), callOptions);
   }
 
   /**
    * Retrieve the status of the CMS.
    * NOTE: marked as not working in original Python source.
    */
-  async getCmsStatus(camId?: number): Promise<SynoResponse> {
+  async getCmsStatus(camId?: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'GetCMSStatus' },
+      { version: info.version, method: 'GetCMSStatus' },
       { camId },
-    ));
+    ), callOptions);
   }
 
   /**
    * Enable the Samba service on the CMS.
    * NOTE: marked as not working in original Python source.
    */
-  async enableSmbService(): Promise<SynoResponse> {
+  async enableSmbService(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EnableSamba',
-    });
+    }, callOptions);
   }
 
   /**
    * Notify a slave DiskStation to disconnect from the CMS.
    * NOTE: marked as not working in original Python source.
    */
-  async notifySlaveDsToDisconnect(): Promise<SynoResponse> {
+  async notifySlaveDsToDisconnect(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'NotifyCMSBreak',
-    });
+    }, callOptions);
   }
 
   /**
    * Lock the recording server to prevent setting changes.
    * NOTE: marked as not working in original Python source.
    */
-  async lockRecordingServerPreventSettingChange(locked?: boolean): Promise<SynoResponse> {
+  async lockRecordingServerPreventSettingChange(
+    locked?: boolean,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'LockSelf' },
+      { version: info.version, method: 'LockSelf' },
       { locked },
-    ));
+    ), callOptions);
   }
 
   // ─── CMS.GetDsStatus ────────────────────────────────────────────────
@@ -1584,15 +1551,14 @@ export class SurveillanceStation extends BaseModule {
     adminPasswd?: string;
     central_rec_mask_mode?: string;
     central_rec_sync_time?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS.GetDsStatus';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'EnableCMS' },
+      { version: info.version, method: 'EnableCMS' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1603,29 +1569,27 @@ export class SurveillanceStation extends BaseModule {
     key?: string;
     mac?: string;
     cmsMode?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS.GetDsStatus';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'UnPair' },
+      { version: info.version, method: 'UnPair' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Retrieve the free memory size from the target DiskStation.
    */
-  async getFreeMemorySize(): Promise<SynoResponse> {
+  async getFreeMemorySize(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS.GetDsStatus';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetFreeSpace',
-    });
+    }, callOptions);
   }
 
   /**
@@ -1637,29 +1601,27 @@ export class SurveillanceStation extends BaseModule {
     key?: string;
     mac?: string;
     masterAuthKey?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS.GetDsStatus';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Lock' },
+      { version: info.version, method: 'Lock' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Retrieve information about the target slave DiskStation.
    */
-  async getTargetDsInfo(slaveDslp?: string): Promise<SynoResponse> {
+  async getTargetDsInfo(slaveDslp?: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS.GetDsStatus';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Test' },
+      { version: info.version, method: 'Test' },
       { slaveDslp },
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1669,15 +1631,14 @@ export class SurveillanceStation extends BaseModule {
     adminUsername?: string;
     key?: string;
     mac?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS.GetDsStatus';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Logout' },
+      { version: info.version, method: 'Logout' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1693,15 +1654,14 @@ export class SurveillanceStation extends BaseModule {
     cms_locked?: boolean;
     cms_masked?: boolean;
     cms_sync_time?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS.GetDsStatus';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Pair' },
+      { version: info.version, method: 'Pair' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1721,15 +1681,14 @@ export class SurveillanceStation extends BaseModule {
     cms_locked?: boolean;
     cms_masked?: boolean;
     cms_sync_time?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS.GetDsStatus';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Login' },
+      { version: info.version, method: 'Login' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1750,15 +1709,14 @@ export class SurveillanceStation extends BaseModule {
     cms_locked?: boolean;
     cms_masked?: boolean;
     cms_sync_time?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS.GetDsStatus';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Save' },
+      { version: info.version, method: 'Save' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   // ─── CMS.SlavedsList ────────────────────────────────────────────────
@@ -1772,15 +1730,14 @@ export class SurveillanceStation extends BaseModule {
     blRuntimeInfo?: boolean;
     dslds?: string;
     sortInfo?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.CMS.SlavedsList';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Load' },
+      { version: info.version, method: 'Load' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   // ─── Log ─────────────────────────────────────────────────────────────
@@ -1803,15 +1760,14 @@ export class SurveillanceStation extends BaseModule {
     dsId?: string;
     srcType?: number;
     timezoneOffset?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'CountByCategory' },
+      { version: info.version, method: 'CountByCategory' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1830,10 +1786,9 @@ export class SurveillanceStation extends BaseModule {
     keywordDsId?: string;
     srcType?: number;
     timezoneOffset?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const extra: Record<string, unknown> = {};
     if (params) {
@@ -1846,9 +1801,9 @@ export class SurveillanceStation extends BaseModule {
     }
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Clear' },
+      { version: info.version, method: 'Clear' },
       extra,
-    ));
+    ), callOptions);
   }
 
   /**
@@ -1871,10 +1826,9 @@ export class SurveillanceStation extends BaseModule {
     all?: boolean;
     blIncludeRecCnt?: string;
     blIncludeAuInfo?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const extra: Record<string, unknown> = {};
     if (params) {
@@ -1887,39 +1841,37 @@ export class SurveillanceStation extends BaseModule {
     }
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'List' },
+      { version: info.version, method: 'List' },
       extra,
-    ));
+    ), callOptions);
   }
 
   /**
    * Retrieve advanced log settings from Surveillance Station.
    */
-  async getAdvancedSettingsLogs(): Promise<SynoResponse> {
+  async getAdvancedSettingsLogs(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetSetting',
-    });
+    }, callOptions);
   }
 
   /**
    * Set advanced log settings in Surveillance Station.
    * Example data: [{"SSLogType":321912835,"enable":1},{"SSLogType":321912836,"enable":0}]
    */
-  async setAdvancedSettingLogs(data?: unknown): Promise<SynoResponse> {
+  async setAdvancedSettingLogs(data?: unknown, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetSetting',
       data,
-    });
+    }, callOptions);
   }
 
   // ─── License ─────────────────────────────────────────────────────────
@@ -1927,16 +1879,15 @@ export class SurveillanceStation extends BaseModule {
   /**
    * Load license data from Surveillance Station.
    */
-  async loadLicenseData(numOnly?: number): Promise<SynoResponse> {
+  async loadLicenseData(numOnly?: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.License';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Load',
       num_only: numOnly,
-    });
+    }, callOptions);
   }
 
   /**
@@ -1946,15 +1897,14 @@ export class SurveillanceStation extends BaseModule {
   async checkLicenseQuota(params?: {
     camList?: unknown;
     camServerId?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.License';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'CheckQuota' },
+      { version: info.version, method: 'CheckQuota' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   // ─── Stream ──────────────────────────────────────────────────────────
@@ -1966,15 +1916,14 @@ export class SurveillanceStation extends BaseModule {
     writeHeader?: boolean;
     analyevent?: boolean;
     mountId?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Stream';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'EventStream' },
+      { version: info.version, method: 'EventStream' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   // ─── ActionRule ──────────────────────────────────────────────────────
@@ -2008,142 +1957,144 @@ export class SurveillanceStation extends BaseModule {
     extUrl?: string;
     userName?: string;
     password?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.ActionRule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, buildParams(
-      { version: info.maxVersion, method: 'Save' },
+      { version: info.version, method: 'Save' },
       params ?? {},
-    ));
+    ), callOptions);
   }
 
   /**
    * Download the history of action rules from Surveillance Station.
    * NOTE: marked as not working in original Python source.
    */
-  async downloadActionRule(): Promise<SynoResponse> {
+  async downloadActionRule(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.ActionRule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DownloadHistory',
-    });
+    }, callOptions);
   }
 
   /**
    * Send data to the Surveillance Station player.
    * NOTE: marked as not working in original Python source.
    */
-  async sendData2Player(): Promise<SynoResponse> {
+  async sendData2Player(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.ActionRule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SendData2Player',
-    });
+    }, callOptions);
   }
 
   /**
    * Delete all histories of specified action rules.
    * NOTE: marked as not working in original Python source.
    */
-  async deleteAllHistoriesOfActionRule(idList?: string): Promise<SynoResponse> {
+  async deleteAllHistoriesOfActionRule(
+    idList?: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.ActionRule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DeleteHistory',
       idList,
-    });
+    }, callOptions);
   }
 
   /**
    * List action rules in Surveillance Station.
    */
-  async listActionRules(start?: string, limit?: number): Promise<SynoResponse> {
+  async listActionRules(
+    start?: string,
+    limit?: number,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.ActionRule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'List',
       Start: start,
       limit,
-    });
+    }, callOptions);
   }
 
   /**
    * Disable specified action rules in Surveillance Station.
    * NOTE: marked as not working in original Python source.
    */
-  async disableActionRules(idList?: string): Promise<SynoResponse> {
+  async disableActionRules(idList?: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.ActionRule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Disable',
       idList,
-    });
+    }, callOptions);
   }
 
   /**
    * Enable specified action rules in Surveillance Station.
    * NOTE: marked as not working in original Python source.
    */
-  async enableActionRules(idList?: string): Promise<SynoResponse> {
+  async enableActionRules(idList?: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.ActionRule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enable',
       idList,
-    });
+    }, callOptions);
   }
 
   /**
    * List the history of action rules in Surveillance Station.
    * NOTE: marked as not working in original Python source.
    */
-  async listHistoryActionRules(start?: number, limit?: number): Promise<SynoResponse> {
+  async listHistoryActionRules(
+    start?: number,
+    limit?: number,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.ActionRule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListHistory',
       start,
       limit,
-    });
+    }, callOptions);
   }
 
   /**
    * Delete specified action rules from Surveillance Station.
    * NOTE: marked as not working in original Python source.
    */
-  async deleteActionRule(idList?: string): Promise<SynoResponse> {
+  async deleteActionRule(idList?: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.ActionRule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Delete',
       idList,
-    });
+    }, callOptions);
   }
 
 // TEMPORARY FILE - Method bodies only (no class declaration, no imports).
@@ -2159,13 +2110,12 @@ export class SurveillanceStation extends BaseModule {
     limit?: string;
     emapIds?: number;
     includeItems?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Emap';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'List',
     };
 
@@ -2174,71 +2124,67 @@ export class SurveillanceStation extends BaseModule {
     if (params?.emapIds !== undefined) reqParams['emapIds'] = params.emapIds;
     if (params?.includeItems !== undefined) reqParams['includeItems'] = params.includeItems;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getSpecificEmapsSetting(params?: {
     emapIds?: number;
     includeImage?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Emap';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Load',
     };
 
     if (params?.emapIds !== undefined) reqParams['emapIds'] = params.emapIds;
     if (params?.includeImage !== undefined) reqParams['includeImage'] = params.includeImage;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getEmapImage(params?: {
     filename?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Emap.Image';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Load',
     };
 
     if (params?.filename !== undefined) reqParams['filename'] = params.filename;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
   // Notification
   // ========================
 
-  async getAuthorizedDsToken(): Promise<SynoResponse> {
+  async getAuthorizedDsToken(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetRegisterToken',
-    });
+    }, callOptions);
   }
 
   async setMessageEvent(params?: {
     eventTypes?: string;
     subject?: string;
     content?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetCustomizedMessage',
     };
 
@@ -2246,82 +2192,77 @@ export class SurveillanceStation extends BaseModule {
     if (params?.subject !== undefined) reqParams['subject'] = params.subject;
     if (params?.content !== undefined) reqParams['content'] = params.content;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getMessageEvent(params?: {
     eventTypes?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetCustomizedMessage',
     };
 
     if (params?.eventTypes !== undefined) reqParams['eventTypes'] = params.eventTypes;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async setNotificationSenderName(params?: {
     ssPkgName?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetVariables',
     };
 
     if (params?.ssPkgName !== undefined) reqParams['ss_pkg_name'] = params.ssPkgName;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
-  async getNotificationSenderName(): Promise<SynoResponse> {
+  async getNotificationSenderName(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetVariables',
-    });
+    }, callOptions);
   }
 
   async setAdvancedNotificationSetting(params?: {
     blSyncDSMNotify?: boolean;
     blCompactMsg?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetAdvSetting',
     };
 
     if (params?.blSyncDSMNotify !== undefined) reqParams['blSyncDSMNotify'] = params.blSyncDSMNotify;
     if (params?.blCompactMsg !== undefined) reqParams['blCompactMsg'] = params.blCompactMsg;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
-  async getAdvancedNotificationSetting(): Promise<SynoResponse> {
+  async getAdvancedNotificationSetting(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetAdvSetting',
-    });
+    }, callOptions);
   }
 
   // ========================
@@ -2344,13 +2285,12 @@ export class SurveillanceStation extends BaseModule {
     minMessageInterval?: number;
     hasSysSms?: boolean;
     apiId?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.SMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SendTestMessage',
     };
 
@@ -2370,18 +2310,17 @@ export class SurveillanceStation extends BaseModule {
     if (params?.hasSysSms !== undefined) reqParams['hasSysSms'] = params.hasSysSms;
     if (params?.apiId !== undefined) reqParams['apiId'] = params.apiId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
-  async getSettingNotificationSms(): Promise<SynoResponse> {
+  async getSettingNotificationSms(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.SMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetSetting',
-    });
+    }, callOptions);
   }
 
   async setSmsServiceSetting(params?: {
@@ -2400,13 +2339,12 @@ export class SurveillanceStation extends BaseModule {
     minMessageInterval?: number;
     hasSysSms?: boolean;
     apiId?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.SMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetSetting',
     };
 
@@ -2426,7 +2364,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.hasSysSms !== undefined) reqParams['hasSysSms'] = params.hasSysSms;
     if (params?.apiId !== undefined) reqParams['apiId'] = params.apiId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async sendTestSms(params?: {
@@ -2438,13 +2376,12 @@ export class SurveillanceStation extends BaseModule {
     secondaryEmail?: string;
     synoMailEnable?: boolean;
     mailRecipient?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.SMS';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SendTestMessage',
     };
 
@@ -2457,7 +2394,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.synoMailEnable !== undefined) reqParams['synoMailEnable'] = params.synoMailEnable;
     if (params?.mailRecipient !== undefined) reqParams['mail_recipient'] = params.mailRecipient;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
@@ -2473,13 +2410,12 @@ export class SurveillanceStation extends BaseModule {
     secondaryEmail?: string;
     synoMailEnable?: boolean;
     mailRecipient?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.PushService';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SendVerificationMail',
     };
 
@@ -2492,7 +2428,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.synoMailEnable !== undefined) reqParams['synoMailEnable'] = params.synoMailEnable;
     if (params?.mailRecipient !== undefined) reqParams['mail_recipient'] = params.mailRecipient;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async listMobilePairedDevices(params?: {
@@ -2504,13 +2440,12 @@ export class SurveillanceStation extends BaseModule {
     secondaryEmail?: string;
     synoMailEnable?: boolean;
     mailRecipient?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.PushService';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListMobileDevice',
     };
 
@@ -2523,24 +2458,23 @@ export class SurveillanceStation extends BaseModule {
     if (params?.synoMailEnable !== undefined) reqParams['synoMailEnable'] = params.synoMailEnable;
     if (params?.mailRecipient !== undefined) reqParams['mail_recipient'] = params.mailRecipient;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async unpairDevice(params?: {
     targetIds?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.PushService';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetSetting',
     };
 
     if (params?.targetIds !== undefined) reqParams['targetIds'] = params.targetIds;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
@@ -2549,55 +2483,52 @@ export class SurveillanceStation extends BaseModule {
 
   async getControllerAccessSchedule(params?: {
     targetIds?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetAccessControlControllerSchedule',
     };
 
     if (params?.targetIds !== undefined) reqParams['targetIds'] = params.targetIds;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getCameraAlarmSchedule(params?: {
     cameraId?: number;
     alarmdx?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetCameraAlarmSchedule',
     };
 
     if (params?.cameraId !== undefined) reqParams['cameraId'] = params.cameraId;
     if (params?.alarmdx !== undefined) reqParams['alarmdx'] = params.alarmdx;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getSysDependentSchedule(params?: {
     eventGroupTypes?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetSystemDependentSchedule',
     };
 
     if (params?.eventGroupTypes !== undefined) reqParams['eventGroupTypes'] = params.eventGroupTypes;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async setBatchSchedule(params?: {
@@ -2606,13 +2537,12 @@ export class SurveillanceStation extends BaseModule {
     cameraIds?: string;
     cameraGroupIds?: string;
     filter?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetBatchSchedule',
     };
 
@@ -2622,73 +2552,69 @@ export class SurveillanceStation extends BaseModule {
     if (params?.cameraGroupIds !== undefined) reqParams['cameraGroupIds'] = params.cameraGroupIds;
     if (params?.filter !== undefined) reqParams['filter'] = params.filter;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getAccessCtrlDoorSchedule(params?: {
     doorId?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetAccessControlDoorSchedule',
     };
 
     if (params?.doorId !== undefined) reqParams['doorId'] = params.doorId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getCameraSchedule(params?: {
     cameraId?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetCameraSchedule',
     };
 
     if (params?.cameraId !== undefined) reqParams['cameraId'] = params.cameraId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async setSysDependentSchedule(params?: {
     eventType?: number;
     schedule?: unknown;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetSystemDependentSchedule',
     };
 
     if (params?.eventType !== undefined) reqParams['eventType'] = params.eventType;
     if (params?.schedule !== undefined) reqParams['schedule'] = params.schedule;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async setControllerAccessSchedule(params?: {
     eventType?: number;
     schedule?: unknown;
     doorId?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetAccessControlSchedule',
     };
 
@@ -2696,20 +2622,19 @@ export class SurveillanceStation extends BaseModule {
     if (params?.schedule !== undefined) reqParams['schedule'] = params.schedule;
     if (params?.doorId !== undefined) reqParams['doorId'] = params.doorId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async setCameraSchedule(params?: {
     eventType?: number;
     schedule?: unknown;
     cameraId?: unknown;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.Schedule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetCameraSchedule',
     };
 
@@ -2717,39 +2642,37 @@ export class SurveillanceStation extends BaseModule {
     if (params?.schedule !== undefined) reqParams['schedule'] = params.schedule;
     if (params?.cameraId !== undefined) reqParams['cameraId'] = params.cameraId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
   // Notification.Email
   // ========================
 
-  async getNotificationEmailString(): Promise<SynoResponse> {
+  async getNotificationEmailString(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.Email';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetSetting',
-    });
+    }, callOptions);
   }
 
   async setAdvTabInfoFilter(params?: {
     X?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.Email';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Set',
     };
 
     if (params?.X !== undefined) reqParams['X'] = params.X;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
@@ -2763,13 +2686,12 @@ export class SurveillanceStation extends BaseModule {
     providerTemplate?: string;
     providerSepChar?: string;
     providerNeedSSL?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.SMS.ServiceProvider';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Create',
     };
 
@@ -2780,188 +2702,177 @@ export class SurveillanceStation extends BaseModule {
     if (params?.providerSepChar !== undefined) reqParams['providerSepChar'] = params.providerSepChar;
     if (params?.providerNeedSSL !== undefined) reqParams['providerNeedSSL'] = params.providerNeedSSL;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
-  async listSmsProvider(): Promise<SynoResponse> {
+  async listSmsProvider(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.SMS.ServiceProvider';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'List',
-    });
+    }, callOptions);
   }
 
   async deleteSmsServiceProvider(params?: {
     providerName?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Notification.SMS.ServiceProvider';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Delete',
     };
 
     if (params?.providerName !== undefined) reqParams['providerName'] = params.providerName;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
   // AddOns
   // ========================
 
-  async getAddonToUpdate(): Promise<SynoResponse> {
+  async getAddonToUpdate(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AddOns';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetUpdateInfo',
-    });
+    }, callOptions);
   }
 
   async enableSpecificAddon(params?: {
     service?: number;
     servicename?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AddOns';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enable',
     };
 
     if (params?.service !== undefined) reqParams['service'] = params.service;
     if (params?.servicename !== undefined) reqParams['servicename'] = params.servicename;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getSpecificAddonUpdateInfo(params?: {
     service?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AddOns';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CheckUpdateInfo',
     };
 
     if (params?.service !== undefined) reqParams['service'] = params.service;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getSpecificAddonInfo(params?: {
     service?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AddOns';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetInfo',
     };
 
     if (params?.service !== undefined) reqParams['service'] = params.service;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
-  async getTotalAddonInfo(): Promise<SynoResponse> {
+  async getTotalAddonInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AddOns';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'List',
-    });
+    }, callOptions);
   }
 
   async updateAddonPackage(params?: {
     service?: number;
     filePath?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AddOns';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Update',
     };
 
     if (params?.service !== undefined) reqParams['service'] = params.service;
     if (params?.filePath !== undefined) reqParams['filePath'] = params.filePath;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async checkAddonStatus(params?: {
     service?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AddOns';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CheckEnableDone',
     };
 
     if (params?.service !== undefined) reqParams['service'] = params.service;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async disableAddon(params?: {
     service?: number;
     serviceName?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AddOns';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Disable',
     };
 
     if (params?.service !== undefined) reqParams['service'] = params.service;
     if (params?.serviceName !== undefined) reqParams['serviceName'] = params.serviceName;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async setAddonAutoupdate(params?: {
     service?: number;
     BlEnabled?: unknown;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AddOns';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetAutoUpdate',
     };
 
     if (params?.service !== undefined) reqParams['service'] = params.service;
     if (params?.BlEnabled !== undefined) reqParams['BlEnabled'] = params.BlEnabled;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
@@ -2970,91 +2881,86 @@ export class SurveillanceStation extends BaseModule {
 
   async deleteSpecificCameraRecordingServer(params?: {
     camIdList?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'RecServClear',
     };
 
     if (params?.camIdList !== undefined) reqParams['camIdList'] = params.camIdList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getCameraEventAnalytic(params?: {
     camIdList?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EventCount',
     };
 
     if (params?.camIdList !== undefined) reqParams['camIdList'] = params.camIdList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async deleteSelectedEvents(params?: {
     dsIdList?: string;
     idList?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ClearSelected',
     };
 
     if (params?.dsIdList !== undefined) reqParams['dsIdList'] = params.dsIdList;
     if (params?.idList !== undefined) reqParams['idList'] = params.idList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async deleteSpecificCameraEvents(params?: {
     camIdList?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EventCount',
     };
 
     if (params?.camIdList !== undefined) reqParams['camIdList'] = params.camIdList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getAnalyticHistory(params?: {
     camIdList?: string;
     typeListstring?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enum',
     };
 
     if (params?.camIdList !== undefined) reqParams['camIdList'] = params.camIdList;
     if (params?.typeListstring !== undefined) reqParams['typeListstring'] = params.typeListstring;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getAnalyticHistoryByFilter(params?: {
@@ -3062,13 +2968,12 @@ export class SurveillanceStation extends BaseModule {
     dsId?: number;
     lock?: number;
     typeList?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'RecServerEnum',
     };
 
@@ -3077,98 +2982,93 @@ export class SurveillanceStation extends BaseModule {
     if (params?.lock !== undefined) reqParams['lock'] = params.lock;
     if (params?.typeList !== undefined) reqParams['typeList'] = params.typeList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async unlockSelectedEvents(params?: {
     dsId?: number;
     idList?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Unlock',
     };
 
     if (params?.dsId !== undefined) reqParams['dsId'] = params.dsId;
     if (params?.idList !== undefined) reqParams['idList'] = params.idList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async setCameraAnalyticTrigger(params?: {
     trigCamIdList?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Trigger',
     };
 
     if (params?.trigCamIdList !== undefined) reqParams['trigCamIdList'] = params.trigCamIdList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async flushEventHeader(params?: {
     eventId?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EventFlushHeader',
     };
 
     if (params?.eventId !== undefined) reqParams['eventId'] = params.eventId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async lockSelectedEvents(params?: {
     dsId?: number;
     idList?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Lock',
     };
 
     if (params?.dsId !== undefined) reqParams['dsId'] = params.dsId;
     if (params?.idList !== undefined) reqParams['idList'] = params.idList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getAnalyticEventFromRecServer(params?: {
     camIdList?: string;
     idList?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'RecServerEventCount',
     };
 
     if (params?.camIdList !== undefined) reqParams['camIdList'] = params.camIdList;
     if (params?.idList !== undefined) reqParams['idList'] = params.idList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
@@ -3187,13 +3087,12 @@ export class SurveillanceStation extends BaseModule {
     direction?: number;
     objSize?: number;
     region?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Alert.Setting';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Save',
     };
 
@@ -3209,7 +3108,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.objSize !== undefined) reqParams['objSize'] = params.objSize;
     if (params?.region !== undefined) reqParams['region'] = params.region;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
@@ -3218,19 +3117,18 @@ export class SurveillanceStation extends BaseModule {
 
   async checkIfSnapshotExist(params?: {
     id?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ChkFileExist',
     };
 
     if (params?.id !== undefined) reqParams['id'] = params.id;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async saveSnapshotModification(params?: {
@@ -3240,13 +3138,12 @@ export class SurveillanceStation extends BaseModule {
     height?: number;
     byteSize?: number;
     imageData?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Edit',
     };
 
@@ -3257,7 +3154,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.byteSize !== undefined) reqParams['byteSize'] = params.byteSize;
     if (params?.imageData !== undefined) reqParams['imageData'] = params.imageData;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async countSnapshotByCategory(params?: {
@@ -3267,13 +3164,12 @@ export class SurveillanceStation extends BaseModule {
     timezoneOffset?: number;
     byteSize?: number;
     imageData?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CountByCategory',
     };
 
@@ -3284,7 +3180,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.byteSize !== undefined) reqParams['byteSize'] = params.byteSize;
     if (params?.imageData !== undefined) reqParams['imageData'] = params.imageData;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async checkAnyLockedSnapshot(params?: {
@@ -3292,13 +3188,12 @@ export class SurveillanceStation extends BaseModule {
     from?: number;
     to?: number;
     keyword?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ChkContainLocked',
     };
 
@@ -3307,20 +3202,19 @@ export class SurveillanceStation extends BaseModule {
     if (params?.to !== undefined) reqParams['to'] = params.to;
     if (params?.keyword !== undefined) reqParams['keyword'] = params.keyword;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async unlockSnapshotByFilter(params?: {
     from?: number;
     to?: number;
     keyword?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'UnlockFiltered',
     };
 
@@ -3328,7 +3222,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.to !== undefined) reqParams['to'] = params.to;
     if (params?.keyword !== undefined) reqParams['keyword'] = params.keyword;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async listSnapshotInformation(params?: {
@@ -3342,13 +3236,12 @@ export class SurveillanceStation extends BaseModule {
     blIncludeAuInfo?: boolean;
     blIncludeRecCnt?: boolean;
     camId?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'List',
     };
 
@@ -3363,37 +3256,35 @@ export class SurveillanceStation extends BaseModule {
     if (params?.blIncludeRecCnt !== undefined) reqParams['blIncludeRecCnt'] = params.blIncludeRecCnt;
     if (params?.camId !== undefined) reqParams['camId'] = params.camId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async unlockSnapshot(params?: {
     objList?: unknown;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Unlock',
     };
 
     if (params?.objList !== undefined) reqParams['objList'] = params.objList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async takeSnapshot(params?: {
     dsId?: number;
     camId?: number;
     blSave?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'TakeSnapshot',
     };
 
@@ -3401,18 +3292,17 @@ export class SurveillanceStation extends BaseModule {
     if (params?.camId !== undefined) reqParams['camId'] = params.camId;
     if (params?.blSave !== undefined) reqParams['blSave'] = params.blSave;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
-  async getSnapshotSettingFunction(): Promise<SynoResponse> {
+  async getSnapshotSettingFunction(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetSetting',
-    });
+    }, callOptions);
   }
 
   async deleteSnapshotByFilter(params?: {
@@ -3420,13 +3310,12 @@ export class SurveillanceStation extends BaseModule {
     from?: number;
     to?: number;
     keyword?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DeleteFiltered',
     };
 
@@ -3435,60 +3324,57 @@ export class SurveillanceStation extends BaseModule {
     if (params?.to !== undefined) reqParams['to'] = params.to;
     if (params?.keyword !== undefined) reqParams['keyword'] = params.keyword;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getSnapshotImage(params?: {
     id?: number;
     imgSize?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'LoadSnapshot',
     };
 
     if (params?.id !== undefined) reqParams['id'] = params.id;
     if (params?.imgSize !== undefined) reqParams['imgSize'] = params.imgSize;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async lockSnapshotImage(params?: {
     objList?: unknown;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Lock',
     };
 
     if (params?.objList !== undefined) reqParams['objList'] = params.objList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async downloadSingleSnapshot(params?: {
     id?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Download',
     };
 
     if (params?.id !== undefined) reqParams['id'] = params.id;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async saveNewSnapshotSetting(params?: {
@@ -3498,13 +3384,12 @@ export class SurveillanceStation extends BaseModule {
     limitSizeInGb?: number;
     addTimestamp?: boolean;
     timestampPosition?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SaveSetting',
     };
 
@@ -3515,7 +3400,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.addTimestamp !== undefined) reqParams['addTimestamp'] = params.addTimestamp;
     if (params?.timestampPosition !== undefined) reqParams['timestampPosition'] = params.timestampPosition;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async saveSnapshot(params?: {
@@ -3525,13 +3410,12 @@ export class SurveillanceStation extends BaseModule {
     height?: number;
     byteSize?: number;
     imageData?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Save',
     };
 
@@ -3542,24 +3426,23 @@ export class SurveillanceStation extends BaseModule {
     if (params?.byteSize !== undefined) reqParams['byteSize'] = params.byteSize;
     if (params?.imageData !== undefined) reqParams['imageData'] = params.imageData;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async checkSnapshotStatus(params?: {
     dispSnapshot?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.SnapShot';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ChkSnapshotValid',
     };
 
     if (params?.dispSnapshot !== undefined) reqParams['dispSnapshot'] = params.dispSnapshot;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
@@ -3568,19 +3451,18 @@ export class SurveillanceStation extends BaseModule {
 
   async enableVisualstation(params?: {
     vslist?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enable',
     };
 
     if (params?.vslist !== undefined) reqParams['vslist'] = params.vslist;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async updateVsNetworkConfig(params?: {
@@ -3590,13 +3472,12 @@ export class SurveillanceStation extends BaseModule {
     gateway?: string;
     blDhcp?: boolean;
     name?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ReqNetConfig',
     };
 
@@ -3607,86 +3488,81 @@ export class SurveillanceStation extends BaseModule {
     if (params?.blDhcp !== undefined) reqParams['blDhcp'] = params.blDhcp;
     if (params?.name !== undefined) reqParams['name'] = params.name;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async lockVisualstationById(params?: {
     vslist?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Lock',
     };
 
     if (params?.vslist !== undefined) reqParams['vslist'] = params.vslist;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
-  async enumerateVsOwnerInfo(): Promise<SynoResponse> {
+  async enumerateVsOwnerInfo(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enum',
-    });
+    }, callOptions);
   }
 
   async unlockVisualstationById(params?: {
     vslist?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Unlock',
     };
 
     if (params?.vslist !== undefined) reqParams['vslist'] = params.vslist;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async disableVisualstationById(params?: {
     vslist?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Disable',
     };
 
     if (params?.vslist !== undefined) reqParams['vslist'] = params.vslist;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async deleteSpecificVisualstation(params?: {
     vslist?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Delete',
     };
 
     if (params?.vslist !== undefined) reqParams['vslist'] = params.vslist;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
@@ -3695,19 +3571,18 @@ export class SurveillanceStation extends BaseModule {
 
   async enumerateLayoutVisualstation(params?: {
     vsId?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation.Layout';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enum',
     };
 
     if (params?.vsId !== undefined) reqParams['vsId'] = params.vsId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async saveLayoutInformation(params?: {
@@ -3720,13 +3595,12 @@ export class SurveillanceStation extends BaseModule {
     layoutType?: number;
     channelList?: unknown;
     customPosList?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation.Layout';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Save',
     };
 
@@ -3740,148 +3614,139 @@ export class SurveillanceStation extends BaseModule {
     if (params?.channelList !== undefined) reqParams['channelList'] = params.channelList;
     if (params?.customPosList !== undefined) reqParams['customPosList'] = params.customPosList;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async deleteLayoutVisualstation(params?: {
     id?: number;
     vsId?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation.Layout';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Delete',
     };
 
     if (params?.id !== undefined) reqParams['id'] = params.id;
     if (params?.vsId !== undefined) reqParams['vsId'] = params.vsId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
   // VisualStation.Search
   // ========================
 
-  async clearVisualstationSearchResult(): Promise<SynoResponse> {
+  async clearVisualstationSearchResult(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Start',
-    });
+    }, callOptions);
   }
 
   async getVisualstationIpInfo(params?: {
     ip?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SearchIP',
     };
 
     if (params?.ip !== undefined) reqParams['ip'] = params.ip;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
-  async stopPreviousVisualstationSearch(): Promise<SynoResponse> {
+  async stopPreviousVisualstationSearch(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Stop',
-    });
+    }, callOptions);
   }
 
   async getVisualstationList(params?: {
     offset?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.VisualStation.Layout';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'InfoGet',
     };
 
     if (params?.offset !== undefined) reqParams['offset'] = params.offset;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ========================
   // AxisAcsCtrler
   // ========================
 
-  async getNumberOfController(): Promise<SynoResponse> {
+  async getNumberOfController(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetUpdateInfo',
-    });
+    }, callOptions);
   }
 
   async getCardholderCount(params?: {
     filterKeyword?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CountByCategoryCardHolder',
     };
 
     if (params?.filterKeyword !== undefined) reqParams['filterKeyword'] = params.filterKeyword;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
-  async enumAllControllersLogger(): Promise<SynoResponse> {
+  async enumAllControllersLogger(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EnumLogConfig',
-    });
+    }, callOptions);
   }
 
   async getCardholderPhoto(params?: {
     photoName?: string;
     isRedirectCgi?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetCardholderPhoto',
     };
 
     if (params?.photoName !== undefined) reqParams['photo_name'] = params.photoName;
     if (params?.isRedirectCgi !== undefined) reqParams['isRedirectCgi'] = params.isRedirectCgi;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getLogCount(params?: {
@@ -3898,13 +3763,12 @@ export class SurveillanceStation extends BaseModule {
     doorIds?: string;
     eventTypes?: string;
     update?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CountByCategoryLog',
     };
 
@@ -3922,7 +3786,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.eventTypes !== undefined) reqParams['eventTypes'] = params.eventTypes;
     if (params?.update !== undefined) reqParams['update'] = params.update;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getCardholderInfo(params?: {
@@ -3931,13 +3795,12 @@ export class SurveillanceStation extends BaseModule {
     filterKeyword?: string;
     filterStatus?: number;
     filterCtrlerId?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EnumCardHolder',
     };
 
@@ -3947,45 +3810,43 @@ export class SurveillanceStation extends BaseModule {
     if (params?.filterStatus !== undefined) reqParams['filterStatus'] = params.filterStatus;
     if (params?.filterCtrlerId !== undefined) reqParams['filterCtrlerId'] = params.filterCtrlerId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async retrieveLastAccessCredential(params?: {
     ctrlerId?: number;
     idPtId?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'RetrieveLastCard',
     };
 
     if (params?.ctrlerId !== undefined) reqParams['ctrlerId'] = params.ctrlerId;
     if (params?.idPtId !== undefined) reqParams['idPtId'] = params.idPtId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async enableDisableController(params?: {
     blEnable?: boolean;
     arrayJson?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EnableCtrler',
     };
 
     if (params?.blEnable !== undefined) reqParams['blEnable'] = params.blEnable;
     if (params?.arrayJson !== undefined) reqParams['arrayJson'] = params.arrayJson;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async acknowledgeAllAlarmLevelLog(params?: {
@@ -3999,13 +3860,12 @@ export class SurveillanceStation extends BaseModule {
     doorIds?: string;
     eventTypes?: string;
     update?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'AckAlarm',
     };
 
@@ -4020,41 +3880,39 @@ export class SurveillanceStation extends BaseModule {
     if (params?.eventTypes !== undefined) reqParams['eventTypes'] = params.eventTypes;
     if (params?.update !== undefined) reqParams['update'] = params.update;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async modifyControllerLoggerConfig(params?: {
     data?: unknown;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SaveLogConfig',
     };
 
     if (params?.data !== undefined) reqParams['data'] = params.data;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async saveControllerSettings(params?: {
     arrayJson?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Save',
     };
 
     if (params?.arrayJson !== undefined) reqParams['arrayJson'] = params.arrayJson;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async downloadFilteredLogs(params?: {
@@ -4070,13 +3928,12 @@ export class SurveillanceStation extends BaseModule {
     doorIds?: string;
     eventTypes?: string;
     update?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DownloadLog',
     };
 
@@ -4093,7 +3950,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.eventTypes !== undefined) reqParams['eventTypes'] = params.eventTypes;
     if (params?.update !== undefined) reqParams['update'] = params.update;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async getDoorNameFromController(params?: {
@@ -4102,13 +3959,12 @@ export class SurveillanceStation extends BaseModule {
     port?: number;
     userName?: string;
     password?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetDoorNames',
     };
 
@@ -4118,7 +3974,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.userName !== undefined) reqParams['userName'] = params.userName;
     if (params?.password !== undefined) reqParams['password'] = params.password;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async testConnectionAndAuthentication(params?: {
@@ -4127,13 +3983,12 @@ export class SurveillanceStation extends BaseModule {
     port?: number;
     userName?: string;
     password?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'TestConnect',
     };
 
@@ -4143,7 +3998,7 @@ export class SurveillanceStation extends BaseModule {
     if (params?.userName !== undefined) reqParams['userName'] = params.userName;
     if (params?.password !== undefined) reqParams['password'] = params.password;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async enumerateControllerListInfo(params?: {
@@ -4152,13 +4007,12 @@ export class SurveillanceStation extends BaseModule {
     update?: number;
     blIncludeRecCnt?: boolean;
     blIncludeAuInfo?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enum',
     };
 
@@ -4168,41 +4022,39 @@ export class SurveillanceStation extends BaseModule {
     if (params?.blIncludeRecCnt !== undefined) reqParams['blIncludeRecCnt'] = params.blIncludeRecCnt;
     if (params?.blIncludeAuInfo !== undefined) reqParams['blIncludeAuInfo'] = params.blIncludeAuInfo;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async saveCardholderSetting(params?: {
     arrayJson?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SaveCardHolder',
     };
 
     if (params?.arrayJson !== undefined) reqParams['arrayJson'] = params.arrayJson;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async enumerateDoorInfo(params?: {
     DoorIds?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListDoor',
     };
 
     if (params?.DoorIds !== undefined) reqParams['DoorIds'] = params.DoorIds;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async clearLogsSurveillanceStation(params?: {
@@ -4216,13 +4068,12 @@ export class SurveillanceStation extends BaseModule {
     doorIds?: string;
     eventTypes?: string;
     update?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ClearLog',
     };
 
@@ -4237,54 +4088,51 @@ export class SurveillanceStation extends BaseModule {
     if (params?.eventTypes !== undefined) reqParams['eventTypes'] = params.eventTypes;
     if (params?.update !== undefined) reqParams['update'] = params.update;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
-  async listAllUserPrivilege(): Promise<SynoResponse> {
+  async listAllUserPrivilege(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListPrivilege',
-    });
+    }, callOptions);
   }
 
   async manualLockOperation(params?: {
     doorId?: number;
     operation?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DoorControl',
     };
 
     if (params?.doorId !== undefined) reqParams['doorId'] = params.doorId;
     if (params?.operation !== undefined) reqParams['operation'] = params.operation;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async saveUserDoorPrivSetting(params?: {
     arrayJson?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SavePrivilege',
     };
 
     if (params?.arrayJson !== undefined) reqParams['arrayJson'] = params.arrayJson;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async listAllLogs(params?: {
@@ -4303,13 +4151,12 @@ export class SurveillanceStation extends BaseModule {
     update?: number;
     blIncludeRecCnt?: boolean;
     blIncludeAuInfo?: boolean;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListLog',
     };
 
@@ -4329,103 +4176,97 @@ export class SurveillanceStation extends BaseModule {
     if (params?.blIncludeRecCnt !== undefined) reqParams['blIncludeRecCnt'] = params.blIncludeRecCnt;
     if (params?.blIncludeAuInfo !== undefined) reqParams['blIncludeAuInfo'] = params.blIncludeAuInfo;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async deleteSelectedController(params?: {
     ids?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Delete',
     };
 
     if (params?.ids !== undefined) reqParams['ids'] = params.ids;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async retrieveDataFromController(params?: {
     ctrlerId?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Retrieve',
     };
 
     if (params?.ctrlerId !== undefined) reqParams['ctrlerId'] = params.ctrlerId;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   async blockCardholder(params?: {
     arrayJson?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'BlockCardHolder',
     };
 
     if (params?.arrayJson !== undefined) reqParams['arrayJson'] = params.arrayJson;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
-  async getControllerCount(): Promise<SynoResponse> {
+  async getControllerCount(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CountByCategory',
-    });
+    }, callOptions);
   }
 
   // ========================
   // AxisAcsCtrler.Search
   // ========================
 
-  async startControllerSearch(): Promise<SynoResponse> {
+  async startControllerSearch(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Start',
-    });
+    }, callOptions);
   }
 
   async getControllerSearchInfo(params?: {
     pid?: number;
     offset?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.AxisAcsCtrler.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const reqParams: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetInfo',
     };
 
     if (params?.pid !== undefined) reqParams['pid'] = params.pid;
     if (params?.offset !== undefined) reqParams['offset'] = params.offset;
 
-    return this.request(apiName, info.path, reqParams);
+    return this.request(apiName, info.path, reqParams, callOptions);
   }
 
   // ==================== Digital Output ====================
@@ -4435,19 +4276,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async enumerateDigitalOutput(
     camId?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.DigitalOutput';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enum',
     };
 
     if (camId !== undefined) params['camId'] = camId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4459,13 +4300,13 @@ export class SurveillanceStation extends BaseModule {
     keepSetting?: boolean,
     normalState?: number,
     triggerState?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.DigitalOutput';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Save',
     };
 
@@ -4475,7 +4316,7 @@ export class SurveillanceStation extends BaseModule {
     if (normalState !== undefined) params['normal_state'] = normalState;
     if (triggerState !== undefined) params['trigger_state'] = triggerState;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4489,13 +4330,13 @@ export class SurveillanceStation extends BaseModule {
     normal?: number,
     trigger?: boolean,
     timeOut?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.DigitalOutput';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'PollState',
     };
 
@@ -4507,7 +4348,7 @@ export class SurveillanceStation extends BaseModule {
     if (trigger !== undefined) params['trigger'] = trigger;
     if (timeOut !== undefined) params['timeOut'] = timeOut;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== External Event ====================
@@ -4518,20 +4359,20 @@ export class SurveillanceStation extends BaseModule {
   async triggerExternalEvent(
     eventId?: number,
     eventName?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.ExternalEvent';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Trigger',
     };
 
     if (eventId !== undefined) params['eventId'] = eventId;
     if (eventName !== undefined) params['eventName'] = eventName;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== IO Module ====================
@@ -4544,13 +4385,13 @@ export class SurveillanceStation extends BaseModule {
     limit?: number,
     blFromList?: boolean,
     ownerDsId?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enum',
     };
 
@@ -4559,7 +4400,7 @@ export class SurveillanceStation extends BaseModule {
     if (blFromList !== undefined) params['blFromList'] = blFromList;
     if (ownerDsId !== undefined) params['ownerDsId'] = ownerDsId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4573,13 +4414,13 @@ export class SurveillanceStation extends BaseModule {
     pass?: string,
     vendor?: string,
     model?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EnumPort',
     };
 
@@ -4591,21 +4432,20 @@ export class SurveillanceStation extends BaseModule {
     if (vendor !== undefined) params['Vendor'] = vendor;
     if (model !== undefined) params['Model'] = model;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
    * Get a list of supported I/O module vendor models.
    */
-  async getSupportedListIoModules(): Promise<SynoResponse> {
+  async getSupportedListIoModules(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EnumVendorModel',
-    });
+    }, callOptions);
   }
 
   /**
@@ -4626,13 +4466,13 @@ export class SurveillanceStation extends BaseModule {
     passWord?: string,
     ntpEnable?: boolean,
     dioData?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Save',
     };
 
@@ -4651,7 +4491,7 @@ export class SurveillanceStation extends BaseModule {
     if (ntpEnable !== undefined) params['ntpEnable'] = ntpEnable;
     if (dioData !== undefined) params['DIOdata'] = dioData;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4659,19 +4499,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async enableIoModules(
     iomlist?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enable',
     };
 
     if (iomlist !== undefined) params['iomlist'] = iomlist;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4679,19 +4519,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async disableIoModules(
     iomlist?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Disable',
     };
 
     if (iomlist !== undefined) params['iomlist'] = iomlist;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4699,19 +4539,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async deleteIoModules(
     iomlist?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Delete',
     };
 
     if (iomlist !== undefined) params['iomlist'] = iomlist;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4724,13 +4564,13 @@ export class SurveillanceStation extends BaseModule {
     userName?: string,
     passWord?: string,
     model?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'TestConn',
     };
 
@@ -4741,7 +4581,7 @@ export class SurveillanceStation extends BaseModule {
     if (passWord !== undefined) params['passWord'] = passWord;
     if (model !== undefined) params['model'] = model;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4750,20 +4590,20 @@ export class SurveillanceStation extends BaseModule {
   async getCapabilityIoModule(
     vendor?: string,
     model?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetCap',
     };
 
     if (vendor !== undefined) params['vendor'] = vendor;
     if (model !== undefined) params['model'] = model;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4772,20 +4612,20 @@ export class SurveillanceStation extends BaseModule {
   async configureIoPortSetting(
     id?: number,
     dioData?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'PortSetting',
     };
 
     if (id !== undefined) params['id'] = id;
     if (dioData !== undefined) params['DIOdata'] = dioData;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4795,13 +4635,13 @@ export class SurveillanceStation extends BaseModule {
     id?: number,
     list?: string,
     timeOut?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'PollingDI',
     };
 
@@ -4809,7 +4649,7 @@ export class SurveillanceStation extends BaseModule {
     if (list !== undefined) params['list'] = list;
     if (timeOut !== undefined) params['timeOut'] = timeOut;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4821,13 +4661,13 @@ export class SurveillanceStation extends BaseModule {
     normal?: number,
     trigger?: boolean,
     timeOut?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'PollingDO',
     };
 
@@ -4837,21 +4677,20 @@ export class SurveillanceStation extends BaseModule {
     if (trigger !== undefined) params['trigger'] = trigger;
     if (timeOut !== undefined) params['timeOut'] = timeOut;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
    * Get the number of I/O devices for each device station.
    */
-  async getNumberOfDevices(): Promise<SynoResponse> {
+  async getNumberOfDevices(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetDevNumOfDs',
-    });
+    }, callOptions);
   }
 
   /**
@@ -4862,13 +4701,13 @@ export class SurveillanceStation extends BaseModule {
     limit?: number,
     ownerDsId?: number,
     blFromList?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CountByCategory',
     };
 
@@ -4877,7 +4716,7 @@ export class SurveillanceStation extends BaseModule {
     if (ownerDsId !== undefined) params['ownerDsId'] = ownerDsId;
     if (blFromList !== undefined) params['blFromList'] = blFromList;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== IO Module Search ====================
@@ -4885,15 +4724,14 @@ export class SurveillanceStation extends BaseModule {
   /**
    * Start searching for I/O modules.
    */
-  async startSearchIoModule(): Promise<SynoResponse> {
+  async startSearchIoModule(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Start',
-    });
+    }, callOptions);
   }
 
   /**
@@ -4901,19 +4739,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async getSearchIoModuleInfo(
     pid?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IOModule.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'InfoGet',
     };
 
     if (pid !== undefined) params['pid'] = pid;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== Camera Status ====================
@@ -4923,19 +4761,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async getCurrentCameraStatus(
     idList?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Status';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'OneTime',
     };
 
     if (idList !== undefined) params['id_list'] = idList;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== PTZ Preset ====================
@@ -4945,19 +4783,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async enumPresetCameraList(
     cameraId?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Preset';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enum',
     };
 
     if (cameraId !== undefined) params['cameraId'] = cameraId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4965,19 +4803,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async getPresetCameraCapability(
     cameraId?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Preset';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetInfo',
     };
 
     if (cameraId !== undefined) params['cameraId'] = cameraId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -4988,13 +4826,13 @@ export class SurveillanceStation extends BaseModule {
     position?: number,
     speed?: number,
     name?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Preset';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetPreset',
     };
 
@@ -5003,7 +4841,7 @@ export class SurveillanceStation extends BaseModule {
     if (speed !== undefined) params['speed'] = speed;
     if (name !== undefined) params['name'] = name;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5012,20 +4850,20 @@ export class SurveillanceStation extends BaseModule {
   async deleteListPresetCamera(
     cameraId?: number,
     position?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Preset';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DelPreset',
     };
 
     if (cameraId !== undefined) params['cameraId'] = cameraId;
     if (position !== undefined) params['position'] = position;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5036,13 +4874,13 @@ export class SurveillanceStation extends BaseModule {
     position?: number,
     speed?: number,
     type?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Preset';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Execute',
     };
 
@@ -5051,7 +4889,7 @@ export class SurveillanceStation extends BaseModule {
     if (speed !== undefined) params['speed'] = speed;
     if (type !== undefined) params['type'] = type;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5060,20 +4898,20 @@ export class SurveillanceStation extends BaseModule {
   async setCurrentCameraPosition(
     cameraId?: number,
     bindPosition?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Preset';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SetHome',
     };
 
     if (cameraId !== undefined) params['cameraId'] = cameraId;
     if (bindPosition !== undefined) params['bindPosition'] = bindPosition;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== PTZ Patrol ====================
@@ -5083,19 +4921,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async enumPatrolList(
     cam?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Patrol';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enum',
     };
 
     if (cam !== undefined) params['cam'] = cam;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5103,19 +4941,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async enumPatrolNameList(
     camId?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Patrol';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EnumPartial',
     };
 
     if (camId !== undefined) params['camId'] = camId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5123,19 +4961,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async loadPatrolDetail(
     id?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Patrol';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Load',
     };
 
     if (id !== undefined) params['id'] = id;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5148,13 +4986,13 @@ export class SurveillanceStation extends BaseModule {
     speed?: number,
     name?: string,
     presetList?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Patrol';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Save',
     };
 
@@ -5165,7 +5003,7 @@ export class SurveillanceStation extends BaseModule {
     if (name !== undefined) params['name'] = name;
     if (presetList !== undefined) params['presetList'] = presetList;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5174,20 +5012,20 @@ export class SurveillanceStation extends BaseModule {
   async deleteSpecificPatrol(
     camId?: number,
     patrolId?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Patrol';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Delete',
     };
 
     if (camId !== undefined) params['camId'] = camId;
     if (patrolId !== undefined) params['patrolId'] = patrolId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5196,20 +5034,20 @@ export class SurveillanceStation extends BaseModule {
   async runPatrol(
     camId?: number,
     id?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Patrol';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Execute',
     };
 
     if (camId !== undefined) params['camId'] = camId;
     if (id !== undefined) params['id'] = id;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5217,19 +5055,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async stopPatrol(
     camId?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.PTZ.Patrol';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Stop',
     };
 
     if (camId !== undefined) params['camId'] = camId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== Camera Search ====================
@@ -5237,15 +5075,14 @@ export class SurveillanceStation extends BaseModule {
   /**
    * Start searching for cameras.
    */
-  async startCameraSearchProcess(): Promise<SynoResponse> {
+  async startCameraSearchProcess(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Start',
-    });
+    }, callOptions);
   }
 
   /**
@@ -5254,20 +5091,20 @@ export class SurveillanceStation extends BaseModule {
   async getCameraSearchInfo(
     pid?: number,
     offset?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Camera.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetInfo',
     };
 
     if (pid !== undefined) params['pid'] = pid;
     if (offset !== undefined) params['offset'] = offset;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== Home Mode ====================
@@ -5277,19 +5114,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async toggleHomeMode(
     on?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.HomeMode';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Switch',
     };
 
     if (on !== undefined) params['on'] = on;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5297,19 +5134,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async getHomeModeSettings(
     needMobiles?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.HomeMode';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetInfo',
     };
 
     if (needMobiles !== undefined) params['need_mobiles'] = needMobiles;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== Transactions Device ====================
@@ -5324,13 +5161,13 @@ export class SurveillanceStation extends BaseModule {
     filterStatus?: number,
     start?: number,
     limit?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Transactions.Device';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enum',
     };
 
@@ -5341,7 +5178,7 @@ export class SurveillanceStation extends BaseModule {
     if (start !== undefined) params['start'] = start;
     if (limit !== undefined) params['limit'] = limit;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== Transactions Transaction ====================
@@ -5360,13 +5197,13 @@ export class SurveillanceStation extends BaseModule {
     filterKeyword?: string,
     start?: number,
     limit?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Transactions.Transaction';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enum',
     };
 
@@ -5381,7 +5218,7 @@ export class SurveillanceStation extends BaseModule {
     if (start !== undefined) params['start'] = start;
     if (limit !== undefined) params['limit'] = limit;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5398,13 +5235,13 @@ export class SurveillanceStation extends BaseModule {
     filterKeyword?: string,
     start?: number,
     limit?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Transactions.Transaction';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Lock',
     };
 
@@ -5419,7 +5256,7 @@ export class SurveillanceStation extends BaseModule {
     if (start !== undefined) params['start'] = start;
     if (limit !== undefined) params['limit'] = limit;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5436,13 +5273,13 @@ export class SurveillanceStation extends BaseModule {
     filterKeyword?: string,
     start?: number,
     limit?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Transactions.Transaction';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Unlock',
     };
 
@@ -5457,7 +5294,7 @@ export class SurveillanceStation extends BaseModule {
     if (start !== undefined) params['start'] = start;
     if (limit !== undefined) params['limit'] = limit;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5474,13 +5311,13 @@ export class SurveillanceStation extends BaseModule {
     filterKeyword?: string,
     start?: number,
     limit?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Transactions.Transaction';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Delete',
     };
 
@@ -5495,7 +5332,7 @@ export class SurveillanceStation extends BaseModule {
     if (start !== undefined) params['start'] = start;
     if (limit !== undefined) params['limit'] = limit;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5505,13 +5342,13 @@ export class SurveillanceStation extends BaseModule {
     deviceName?: string,
     sessionId?: string,
     timeout?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Transactions.Transaction';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Begin',
     };
 
@@ -5519,7 +5356,7 @@ export class SurveillanceStation extends BaseModule {
     if (sessionId !== undefined) params['session_id'] = sessionId;
     if (timeout !== undefined) params['timeout'] = timeout;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5528,20 +5365,20 @@ export class SurveillanceStation extends BaseModule {
   async completeSessionWithSpecifiedId(
     deviceName?: string,
     sessionId?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Transactions.Transaction';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Complete',
     };
 
     if (deviceName !== undefined) params['device_name'] = deviceName;
     if (sessionId !== undefined) params['session_id'] = sessionId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5550,20 +5387,20 @@ export class SurveillanceStation extends BaseModule {
   async cancelSessionWithSpecifiedSessionId(
     deviceName?: string,
     sessionId?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Transactions.Transaction';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Cancel',
     };
 
     if (deviceName !== undefined) params['device_name'] = deviceName;
     if (sessionId !== undefined) params['session_id'] = sessionId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5573,13 +5410,13 @@ export class SurveillanceStation extends BaseModule {
     deviceName?: string,
     sessionId?: string,
     content?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Transactions.Transaction';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'AppendData',
     };
 
@@ -5587,7 +5424,7 @@ export class SurveillanceStation extends BaseModule {
     if (sessionId !== undefined) params['session_id'] = sessionId;
     if (content !== undefined) params['content'] = content;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== Archiving Pull ====================
@@ -5619,13 +5456,13 @@ export class SurveillanceStation extends BaseModule {
     schedule?: string,
     storagePath?: string,
     type?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Archiving.Pull';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SaveTask',
     };
 
@@ -5653,7 +5490,7 @@ export class SurveillanceStation extends BaseModule {
     if (storagePath !== undefined) params['storagePath'] = storagePath;
     if (type !== undefined) params['type'] = type;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5668,13 +5505,13 @@ export class SurveillanceStation extends BaseModule {
     archId?: number,
     didCode?: string,
     srcDsId?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Archiving.Pull';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'LoginSourceDS',
     };
 
@@ -5687,7 +5524,7 @@ export class SurveillanceStation extends BaseModule {
     if (didCode !== undefined) params['didCode'] = didCode;
     if (srcDsId !== undefined) params['srcDsId'] = srcDsId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5696,34 +5533,33 @@ export class SurveillanceStation extends BaseModule {
   async deleteArchiveVaultTask(
     id?: number,
     keepRec?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Archiving.Pull';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DeleteTask',
     };
 
     if (id !== undefined) params['id'] = id;
     if (keepRec !== undefined) params['keepRec'] = keepRec;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
    * List all existing archive vault tasks.
    */
-  async listExistArchiveVault(): Promise<SynoResponse> {
+  async listExistArchiveVault(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Archiving.Pull';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListTask',
-    });
+    }, callOptions);
   }
 
   /**
@@ -5731,19 +5567,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async enableArchiveVaultTask(
     id?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Archiving.Pull';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enable',
     };
 
     if (id !== undefined) params['id'] = id;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5751,19 +5587,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async disableArchiveVaultTask(
     id?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Archiving.Pull';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DisableTask',
     };
 
     if (id !== undefined) params['id'] = id;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5772,20 +5608,20 @@ export class SurveillanceStation extends BaseModule {
   async disableArchiveVaultBatchEditTask(
     taskIds?: string,
     attrs?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Archiving.Pull';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'BatchEditTask',
     };
 
     if (taskIds !== undefined) params['taskIds'] = taskIds;
     if (attrs !== undefined) params['attrs'] = attrs;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5793,19 +5629,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async getBatchEditProgress(
     pid?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Archiving.Pull';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'BatchEditProgress',
     };
 
     if (pid !== undefined) params['pid'] = pid;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5813,19 +5649,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async getBatchEditProgressInfo(
     pid?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Archiving.Pull';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetBatchEditProgress',
     };
 
     if (pid !== undefined) params['pid'] = pid;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -5833,19 +5669,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async cleanBatchEditProgressData(
     pid?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Archiving.Pull';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'BatchEditProgressDone',
     };
 
     if (pid !== undefined) params['pid'] = pid;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== YouTube Live ====================
@@ -5853,15 +5689,14 @@ export class SurveillanceStation extends BaseModule {
   /**
    * Get the current YouTube Live broadcast settings.
    */
-  async getYoutubeLiveBroadcastSetting(): Promise<SynoResponse> {
+  async getYoutubeLiveBroadcastSetting(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.YoutubeLive';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Load',
-    });
+    }, callOptions);
   }
 
   /**
@@ -5873,13 +5708,13 @@ export class SurveillanceStation extends BaseModule {
     camId?: number,
     streamProfile?: number,
     liveOn?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.YoutubeLive';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Save',
     };
 
@@ -5889,21 +5724,20 @@ export class SurveillanceStation extends BaseModule {
     if (streamProfile !== undefined) params['stream_profile'] = streamProfile;
     if (liveOn !== undefined) params['live_on'] = liveOn;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
    * Close the current YouTube Live broadcast.
    */
-  async closeYoutubeLiveBroadcast(): Promise<SynoResponse> {
+  async closeYoutubeLiveBroadcast(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.YoutubeLive';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CloseLive',
-    });
+    }, callOptions);
   }
 
   // ==================== IVA (Deep Video Analytics) ====================
@@ -5911,15 +5745,14 @@ export class SurveillanceStation extends BaseModule {
   /**
    * Get the list of deep video analytic tasks.
    */
-  async getDeepVideoAnalytic(): Promise<SynoResponse> {
+  async getDeepVideoAnalytic(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListTask',
-    });
+    }, callOptions);
   }
 
   /**
@@ -5958,13 +5791,13 @@ export class SurveillanceStation extends BaseModule {
     peopleRegion?: string,
     peopleHintPos?: string,
     blEditMode?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SaveTask',
     };
 
@@ -6001,7 +5834,7 @@ export class SurveillanceStation extends BaseModule {
     if (peopleHintPos !== undefined) params['people_hint_pos'] = peopleHintPos;
     if (blEditMode !== undefined) params['blEditMode'] = blEditMode;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6009,19 +5842,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async deleteDvaTask(
     ids?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DeleteTask',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6029,19 +5862,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async enableDvaTask(
     ids?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EnableTask',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6049,19 +5882,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async disableDvaTask(
     ids?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DisableTask',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6069,19 +5902,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async resetCounterPeopleCountingTask(
     taskId?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ResetPplCntCounter',
     };
 
     if (taskId !== undefined) params['taskId'] = taskId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== IVA Report ====================
@@ -6094,13 +5927,13 @@ export class SurveillanceStation extends BaseModule {
     timeStart?: string,
     timeEnd?: string,
     timezone?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.Report';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetCount',
     };
 
@@ -6109,7 +5942,7 @@ export class SurveillanceStation extends BaseModule {
     if (timeEnd !== undefined) params['timeEnd'] = timeEnd;
     if (timezone !== undefined) params['timezone'] = timezone;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6122,13 +5955,13 @@ export class SurveillanceStation extends BaseModule {
     timezone?: number,
     timestamp?: number,
     blOccupancy?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.Report';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetReport',
     };
 
@@ -6139,7 +5972,7 @@ export class SurveillanceStation extends BaseModule {
     if (timestamp !== undefined) params['timestamp'] = timestamp;
     if (blOccupancy !== undefined) params['blOccupancy'] = blOccupancy;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== IVA Recording ====================
@@ -6150,20 +5983,20 @@ export class SurveillanceStation extends BaseModule {
   async listPeopleCountingTask(
     taskList?: string,
     limit?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'List',
     };
 
     if (taskList !== undefined) params['taskList'] = taskList;
     if (limit !== undefined) params['limit'] = limit;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6172,20 +6005,20 @@ export class SurveillanceStation extends BaseModule {
   async deleteRecordingFileOfDetection(
     slaveDsParam?: string,
     deleteMethod?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Delete',
     };
 
     if (slaveDsParam !== undefined) params['slaveDsParam'] = slaveDsParam;
     if (deleteMethod !== undefined) params['deleteMethod'] = deleteMethod;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6195,13 +6028,13 @@ export class SurveillanceStation extends BaseModule {
     eventId?: number,
     taskId?: number,
     blAlertEvt?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetAnalyticResult',
     };
 
@@ -6209,7 +6042,7 @@ export class SurveillanceStation extends BaseModule {
     if (taskId !== undefined) params['taskId'] = taskId;
     if (blAlertEvt !== undefined) params['blAlertEvt'] = blAlertEvt;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6218,20 +6051,20 @@ export class SurveillanceStation extends BaseModule {
   async lockRecordingFileOfDetection(
     dsId?: number,
     idList?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Lock',
     };
 
     if (dsId !== undefined) params['dsId'] = dsId;
     if (idList !== undefined) params['idList'] = idList;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6240,20 +6073,20 @@ export class SurveillanceStation extends BaseModule {
   async unlockRecordingFileOfDetection(
     dsId?: number,
     idList?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.Recording';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Unlock',
     };
 
     if (dsId !== undefined) params['dsId'] = dsId;
     if (idList !== undefined) params['idList'] = idList;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== IVA TaskGroup ====================
@@ -6261,15 +6094,14 @@ export class SurveillanceStation extends BaseModule {
   /**
    * Get information about people counting tasks.
    */
-  async getInfoPeopleCountingTask(): Promise<SynoResponse> {
+  async getInfoPeopleCountingTask(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.TaskGroup';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'List',
-    });
+    }, callOptions);
   }
 
   /**
@@ -6287,13 +6119,13 @@ export class SurveillanceStation extends BaseModule {
     resetWeekday?: number,
     resetTimeHour?: number,
     resetTimeMinute?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.TaskGroup';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Create',
     };
 
@@ -6309,7 +6141,7 @@ export class SurveillanceStation extends BaseModule {
     if (resetTimeHour !== undefined) params['resert_tome_hour'] = resetTimeHour;
     if (resetTimeMinute !== undefined) params['resert_tome_minute'] = resetTimeMinute;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6327,13 +6159,13 @@ export class SurveillanceStation extends BaseModule {
     resetWeekday?: number,
     resetTimeHour?: number,
     resetTimeMinute?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.TaskGroup';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Edit',
     };
 
@@ -6349,7 +6181,7 @@ export class SurveillanceStation extends BaseModule {
     if (resetTimeHour !== undefined) params['resert_tome_hour'] = resetTimeHour;
     if (resetTimeMinute !== undefined) params['resert_tome_minute'] = resetTimeMinute;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6357,19 +6189,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async deleteTaskGroup(
     ids?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.TaskGroup';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Delete',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6377,19 +6209,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async startCountPeopleTaskInGroups(
     ids?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.TaskGroup';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Enable',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6397,19 +6229,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async stopCountPeopleTaskInGroups(
     ids?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.TaskGroup';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Disable',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6417,19 +6249,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async getNumberCountingTaskGroup(
     id?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.TaskGroup';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetPeopleCount',
     };
 
     if (id !== undefined) params['id'] = id;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6437,19 +6269,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async lockRecordingFileResult(
     id?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.IVA.TaskGroup';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ResetPeopleCount',
     };
 
     if (id !== undefined) params['id'] = id;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== Face Detection ====================
@@ -6461,13 +6293,13 @@ export class SurveillanceStation extends BaseModule {
     ids?: string,
     ownerDsId?: number,
     blOnlyEnableDs?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListTask',
     };
 
@@ -6475,7 +6307,7 @@ export class SurveillanceStation extends BaseModule {
     if (ownerDsId !== undefined) params['ownerDsId'] = ownerDsId;
     if (blOnlyEnableDs !== undefined) params['blOnlyEnableDs'] = blOnlyEnableDs;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6514,13 +6346,13 @@ export class SurveillanceStation extends BaseModule {
     schedule?: string,
     scheduleOn?: boolean,
     ignoreBadQuality?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListTask',
     };
 
@@ -6557,7 +6389,7 @@ export class SurveillanceStation extends BaseModule {
     if (scheduleOn !== undefined) params['scheduleOn'] = scheduleOn;
     if (ignoreBadQuality !== undefined) params['ignore_bad_quality'] = ignoreBadQuality;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6566,20 +6398,20 @@ export class SurveillanceStation extends BaseModule {
   async deleteFaceTask(
     ids?: string,
     keepRecording?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DeleteTask',
     };
 
     if (ids !== undefined) params['ids'] = ids;
     if (keepRecording !== undefined) params['keepRecording'] = keepRecording;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6587,19 +6419,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async enableTaskToStartDetectionRecording(
     ids?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EnableTask',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6607,19 +6439,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async disableTaskToStopDetectionRecording(
     ids?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DisableTask',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6627,19 +6459,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async listTaskWithPrivilegeToWatch(
     ids?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListPlayableTsk',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6649,13 +6481,13 @@ export class SurveillanceStation extends BaseModule {
     name?: string,
     description?: string,
     updateRegisteredFace?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CreateFaceGroup',
     };
 
@@ -6663,7 +6495,7 @@ export class SurveillanceStation extends BaseModule {
     if (description !== undefined) params['description'] = description;
     if (updateRegisteredFace !== undefined) params['update_registered_face'] = updateRegisteredFace;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6671,19 +6503,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async deleteFaceGroup(
     ids?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DeleteFaceGroup',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6694,13 +6526,13 @@ export class SurveillanceStation extends BaseModule {
     description?: string,
     updateRegisteredFace?: string,
     id?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EditFaceGroup',
     };
 
@@ -6709,7 +6541,7 @@ export class SurveillanceStation extends BaseModule {
     if (updateRegisteredFace !== undefined) params['update_registered_face'] = updateRegisteredFace;
     if (id !== undefined) params['id'] = id;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6718,20 +6550,20 @@ export class SurveillanceStation extends BaseModule {
   async getFaceGroupList(
     idOnly?: boolean,
     filter?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListFaceGroup',
     };
 
     if (idOnly !== undefined) params['id_only'] = idOnly;
     if (filter !== undefined) params['filter'] = filter;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6739,19 +6571,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async countFaceGroups(
     filter?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CountFaceGroup',
     };
 
     if (filter !== undefined) params['filter'] = filter;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6760,20 +6592,20 @@ export class SurveillanceStation extends BaseModule {
   async detectFacesImage(
     imageData?: string,
     imageSize?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DetectImageFace',
     };
 
     if (imageData !== undefined) params['image_data'] = imageData;
     if (imageSize !== undefined) params['image_size'] = imageSize;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6790,13 +6622,13 @@ export class SurveillanceStation extends BaseModule {
     capturedFaceId?: number,
     updateUnrecognizedCapturedFace?: boolean,
     appendImageData?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CreateRegisteredFace',
     };
 
@@ -6811,7 +6643,7 @@ export class SurveillanceStation extends BaseModule {
     if (updateUnrecognizedCapturedFace !== undefined) params['update_unrecognized_captured_face'] = updateUnrecognizedCapturedFace;
     if (appendImageData !== undefined) params['append_image_data'] = appendImageData;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6819,19 +6651,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async deleteRegisteredFace(
     ids?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DeleteRegisteredFace',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6849,13 +6681,13 @@ export class SurveillanceStation extends BaseModule {
     capturedFaceId?: number,
     updateUnrecognizedCapturedFace?: boolean,
     appendImageData?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'EditRegisteredFace',
     };
 
@@ -6871,7 +6703,7 @@ export class SurveillanceStation extends BaseModule {
     if (updateUnrecognizedCapturedFace !== undefined) params['update_unrecognized_captured_face'] = updateUnrecognizedCapturedFace;
     if (appendImageData !== undefined) params['append_image_data'] = appendImageData;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6881,13 +6713,13 @@ export class SurveillanceStation extends BaseModule {
     idOnly?: boolean,
     filter?: string,
     appendImageData?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'ListRegisteredFace',
     };
 
@@ -6895,7 +6727,7 @@ export class SurveillanceStation extends BaseModule {
     if (filter !== undefined) params['filter'] = filter;
     if (appendImageData !== undefined) params['append_image_data'] = appendImageData;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6903,19 +6735,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async countRegisteredFace(
     filter?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'CountRegisteredFace',
     };
 
     if (filter !== undefined) params['filter'] = filter;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6924,20 +6756,20 @@ export class SurveillanceStation extends BaseModule {
   async searchRegisteredFace(
     keywords?: string,
     appendImageData?: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SearchRegisteredFace',
     };
 
     if (keywords !== undefined) params['keywords'] = keywords;
     if (appendImageData !== undefined) params['append_image_data'] = appendImageData;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== Face Result ====================
@@ -6951,13 +6783,13 @@ export class SurveillanceStation extends BaseModule {
     blIncludeRegisteredFace?: boolean,
     limit?: number,
     slaveDsParam?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face.Result';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'List',
     };
 
@@ -6967,7 +6799,7 @@ export class SurveillanceStation extends BaseModule {
     if (limit !== undefined) params['limit'] = limit;
     if (slaveDsParam !== undefined) params['slaveDsParam'] = slaveDsParam;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6976,20 +6808,20 @@ export class SurveillanceStation extends BaseModule {
   async deleteFaceResult(
     filter?: string,
     slaveDsParam?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face.Result';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Delete',
     };
 
     if (filter !== undefined) params['filter'] = filter;
     if (slaveDsParam !== undefined) params['slaveDsParam'] = slaveDsParam;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -6998,20 +6830,20 @@ export class SurveillanceStation extends BaseModule {
   async lockFaceResult(
     filter?: string,
     slaveDsParam?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face.Result';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Lock',
     };
 
     if (filter !== undefined) params['filter'] = filter;
     if (slaveDsParam !== undefined) params['slaveDsParam'] = slaveDsParam;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -7020,20 +6852,20 @@ export class SurveillanceStation extends BaseModule {
   async unlockFaceResult(
     filter?: string,
     slaveDsParam?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face.Result';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Unlock',
     };
 
     if (filter !== undefined) params['filter'] = filter;
     if (slaveDsParam !== undefined) params['slaveDsParam'] = slaveDsParam;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -7041,19 +6873,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async getRecordingFileOfFaceInfo(
     capturedFaceId?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face.Result';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetEventInfo',
     };
 
     if (capturedFaceId !== undefined) params['capturedFaceId'] = capturedFaceId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -7065,13 +6897,13 @@ export class SurveillanceStation extends BaseModule {
     startTime?: number,
     endTime?: number,
     blIncludeRegisteredFace?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face.Result';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'GetAnalyticResult',
     };
 
@@ -7081,7 +6913,7 @@ export class SurveillanceStation extends BaseModule {
     if (endTime !== undefined) params['endTime'] = endTime;
     if (blIncludeRegisteredFace !== undefined) params['blIncludeRegisteredFace'] = blIncludeRegisteredFace;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -7090,20 +6922,20 @@ export class SurveillanceStation extends BaseModule {
   async correctFaceResult(
     id?: number,
     registeredFaceId?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face.Result';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'Correct',
     };
 
     if (id !== undefined) params['id'] = id;
     if (registeredFaceId !== undefined) params['registered_face_id'] = registeredFaceId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -7111,19 +6943,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async markFaceResultAsStranger(
     ids?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Face.Result';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'MarkAsStranger',
     };
 
     if (ids !== undefined) params['ids'] = ids;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // ==================== Recording Bookmark ====================
@@ -7139,13 +6971,13 @@ export class SurveillanceStation extends BaseModule {
     name?: string,
     timestamp?: string | number,
     comment?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording.Bookmark';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'SaveBookmark',
     };
 
@@ -7157,7 +6989,7 @@ export class SurveillanceStation extends BaseModule {
     if (timestamp !== undefined) params['timestamp'] = timestamp;
     if (comment !== undefined) params['comment'] = comment;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -7165,19 +6997,19 @@ export class SurveillanceStation extends BaseModule {
    */
   async deleteBookmark(
     bookmarkIds?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording.Bookmark';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DeleteBookmark',
     };
 
     if (bookmarkIds !== undefined) params['bookmarkIds'] = bookmarkIds;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -7191,13 +7023,13 @@ export class SurveillanceStation extends BaseModule {
     cameraIds?: string,
     fromTime?: number,
     toTime?: number,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.SurveillanceStation.Recording.Bookmark';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'DeleteBookmark',
     };
 
@@ -7207,7 +7039,7 @@ export class SurveillanceStation extends BaseModule {
     if (fromTime !== undefined) params['fromTime'] = fromTime;
     if (toTime !== undefined) params['toTime'] = toTime;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
 }
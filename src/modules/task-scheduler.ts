@@ -3,7 +3,11 @@
  * Ported from Python synology_api/task_scheduler.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 import { CoreUser } from './core-user.ts';
 
 // -- Schedule configuration types --
@@ -128,7 +132,7 @@ export class TaskScheduler extends BaseModule {
    * Retrieve a root confirmation token for privileged operations.
    * Creates a temporary CoreUser instance to call passwordConfirm.
    */
-  private async getRootToken(): Promise<string> {
+  async #getRootToken(): Promise<string> {
     const userApi = new CoreUser(this.client);
     const response = await userApi.passwordConfirm(this.client.config.password);
     if (response.success && response.data) {
@@ -142,16 +146,15 @@ export class TaskScheduler extends BaseModule {
   /**
    * Retrieve tasks output configuration.
    */
-  async getOutputConfig(): Promise<SynoResponse> {
+  async getOutputConfig(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.EventScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'config_get',
       type: 'esynoscheduler',
-    });
+    }, callOptions);
   }
 
   /**
@@ -162,19 +165,32 @@ export class TaskScheduler extends BaseModule {
     sortDirection: 'ASC' | 'DESC' = 'ASC',
     offset = 0,
     limit = 50,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 3, max: 3 });
 
     return this.request(apiName, info.path, {
-      version: 3,
+      version: info.version,
       method: 'list',
       sort_by: sortBy,
       sort_direction: sortDirection,
       offset,
       limit,
-    });
+    }, callOptions);
+  }
+
+  /** Iterate all scheduled tasks, fetching them page by page. */
+  iterateTaskList(
+    sortBy = 'next_trigger_time',
+    sortDirection: 'ASC' | 'DESC' = 'ASC',
+    paginateOptions?: PaginateOptions,
+  ): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getTaskList(sortBy, sortDirection, page.offset, page.limit, callOptions),
+      'tasks',
+      paginateOptions,
+    );
   }
 
   /**
@@ -185,13 +201,13 @@ export class TaskScheduler extends BaseModule {
     taskId: number,
     realOwner: string,
     type?: string,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 4, max: 4 });
 
     const params: Record<string, unknown> = {
-      version: 4,
+      version: info.version,
       method: 'get',
       id: taskId,
       real_owner: realOwner,
@@ -201,22 +217,21 @@ export class TaskScheduler extends BaseModule {
       params.type = type;
     }
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
    * Retrieve the results list for a specific task.
    */
-  async getTaskResults(taskId: number): Promise<SynoResponse> {
+  async getTaskResults(taskId: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'get_history_status_list',
       id: taskId,
-    });
+    }, callOptions);
   }
 
   // -- Setters --
@@ -227,18 +242,18 @@ export class TaskScheduler extends BaseModule {
   async setOutputConfig(
     enableOutput: boolean,
     outputPath = '',
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.EventScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     return this.request(apiName, info.path, {
-      version: 1,
+      version: info.version,
       method: 'config_set',
       type: 'esynoscheduler',
       output_path: outputPath,
       enable_output: enableOutput,
-    });
+    }, callOptions);
   }
 
   /**
@@ -248,18 +263,18 @@ export class TaskScheduler extends BaseModule {
     taskId: number,
     realOwner: string,
     enable: boolean,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const taskDict = { id: taskId, real_owner: realOwner, enable };
 
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 2, max: 2 });
 
     return this.request(apiName, info.path, {
-      version: 2,
+      version: info.version,
       method: 'set_enable',
       status: `[${JSON.stringify(taskDict)}]`,
-    });
+    }, callOptions);
   }
 
   // -- Actions --
@@ -267,35 +282,41 @@ export class TaskScheduler extends BaseModule {
   /**
    * Run a specific task.
    */
-  async taskRun(taskId: number, realOwner: string): Promise<SynoResponse> {
+  async taskRun(
+    taskId: number,
+    realOwner: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const taskDict = { id: taskId, real_owner: realOwner };
 
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 2, max: 2 });
 
     return this.request(apiName, info.path, {
-      version: 2,
+      version: info.version,
       method: 'run',
       tasks: `[${JSON.stringify(taskDict)}]`,
-    });
+    }, callOptions);
   }
 
   /**
    * Delete a specific task.
    */
-  async taskDelete(taskId: number, realOwner: string): Promise<SynoResponse> {
+  async taskDelete(
+    taskId: number,
+    realOwner: string,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const taskDict = { id: taskId, real_owner: realOwner };
 
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 2, max: 2 });
 
     return this.request(apiName, info.path, {
-      version: 2,
+      version: info.version,
       method: 'delete',
       tasks: `[${JSON.stringify(taskDict)}]`,
-    });
+    }, callOptions);
   }
 
   // -- Script tasks --
@@ -313,6 +334,7 @@ export class TaskScheduler extends BaseModule {
       readonly notifyEmail?: string;
       readonly notifyOnlyOnError?: boolean;
     } & ScheduleOptions,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const enable = options?.enable ?? true;
     const notifyEmail = options?.notifyEmail ?? '';
@@ -328,11 +350,10 @@ export class TaskScheduler extends BaseModule {
     };
 
     let apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 4, max: 4 });
 
     const params: Record<string, unknown> = {
-      version: 4,
+      version: info.version,
       method: 'create',
       name: taskName,
       real_owner: owner,
@@ -345,10 +366,10 @@ export class TaskScheduler extends BaseModule {
 
     if (owner === 'root') {
       apiName = 'SYNO.Core.TaskScheduler.Root';
-      params.SynoConfirmPWToken = await this.getRootToken();
+      params.SynoConfirmPWToken = await this.#getRootToken();
     }
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   /**
@@ -366,6 +387,7 @@ export class TaskScheduler extends BaseModule {
       readonly notifyEmail?: string;
       readonly notifyOnlyOnError?: boolean;
     } & ScheduleOptions,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const enable = options?.enable ?? true;
     const notifyEmail = options?.notifyEmail ?? '';
@@ -381,11 +403,10 @@ export class TaskScheduler extends BaseModule {
     };
 
     let apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 4, max: 4 });
 
     const params: Record<string, unknown> = {
-      version: 4,
+      version: info.version,
       method: 'set',
       id: taskId,
       name: taskName,
@@ -398,10 +419,10 @@ export class TaskScheduler extends BaseModule {
 
     if (owner === 'root') {
       apiName = 'SYNO.Core.TaskScheduler.Root';
-      params.SynoConfirmPWToken = await this.getRootToken();
+      params.SynoConfirmPWToken = await this.#getRootToken();
     }
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   // -- Beep control tasks --
@@ -416,6 +437,7 @@ export class TaskScheduler extends BaseModule {
       readonly enable?: boolean;
       readonly beepDuration?: number;
     } & ScheduleOptions,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const enable = options?.enable ?? true;
     const beepDuration = options?.beepDuration ?? 60;
@@ -427,11 +449,10 @@ export class TaskScheduler extends BaseModule {
     };
 
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 4, max: 4 });
 
     return this.request(apiName, info.path, {
-      version: 4,
+      version: info.version,
       method: 'create',
       name: taskName,
       real_owner: owner,
@@ -439,7 +460,7 @@ export class TaskScheduler extends BaseModule {
       schedule: JSON.stringify(scheduleDict),
       extra: JSON.stringify(extra),
       type: 'beep',
-    });
+    }, callOptions);
   }
 
   /**
@@ -454,6 +475,7 @@ export class TaskScheduler extends BaseModule {
       readonly enable?: boolean;
       readonly beepDuration?: number;
     } & ScheduleOptions,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const enable = options?.enable ?? true;
     const beepDuration = options?.beepDuration ?? 60;
@@ -465,11 +487,10 @@ export class TaskScheduler extends BaseModule {
     };
 
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 4, max: 4 });
 
     return this.request(apiName, info.path, {
-      version: 4,
+      version: info.version,
       method: 'set',
       id: taskId,
       name: taskName,
@@ -477,7 +498,7 @@ export class TaskScheduler extends BaseModule {
       enable,
       schedule: JSON.stringify(scheduleDict),
       extra: JSON.stringify(extra),
-    });
+    }, callOptions);
   }
 
   // -- Service control tasks --
@@ -494,6 +515,7 @@ export class TaskScheduler extends BaseModule {
     options?: {
       readonly enable?: boolean;
     } & ScheduleOptions,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const enable = options?.enable ?? true;
 
@@ -511,11 +533,10 @@ export class TaskScheduler extends BaseModule {
     };
 
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 4, max: 4 });
 
     return this.request(apiName, info.path, {
-      version: 4,
+      version: info.version,
       method: 'create',
       name: taskName,
       real_owner: owner,
@@ -524,7 +545,7 @@ export class TaskScheduler extends BaseModule {
       schedule: JSON.stringify(scheduleDict),
       extra: JSON.stringify(extra),
       type: 'service',
-    });
+    }, callOptions);
   }
 
   /**
@@ -540,6 +561,7 @@ export class TaskScheduler extends BaseModule {
     options?: {
       readonly enable?: boolean;
     } & ScheduleOptions,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const enable = options?.enable ?? true;
 
@@ -557,11 +579,10 @@ export class TaskScheduler extends BaseModule {
     };
 
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 4, max: 4 });
 
     return this.request(apiName, info.path, {
-      version: 4,
+      version: info.version,
       method: 'set',
       id: taskId,
       name: taskName,
@@ -569,7 +590,7 @@ export class TaskScheduler extends BaseModule {
       enable,
       schedule: JSON.stringify(scheduleDict),
       extra: JSON.stringify(extra),
-    });
+    }, callOptions);
   }
 
   // -- Recycle bin tasks --
@@ -586,6 +607,7 @@ export class TaskScheduler extends BaseModule {
       readonly shares?: string[];
       readonly enable?: boolean;
     } & ScheduleOptions,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const enable = options?.enable ?? true;
     const shares = options?.shares ?? [];
@@ -606,11 +628,10 @@ export class TaskScheduler extends BaseModule {
     };
 
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 4, max: 4 });
 
     return this.request(apiName, info.path, {
-      version: 4,
+      version: info.version,
       method: 'create',
       name: taskName,
       real_owner: owner,
@@ -618,7 +639,7 @@ export class TaskScheduler extends BaseModule {
       schedule: JSON.stringify(scheduleDict),
       extra: JSON.stringify(extra),
       type: 'recycle',
-    });
+    }, callOptions);
   }
 
   /**
@@ -635,6 +656,7 @@ export class TaskScheduler extends BaseModule {
       readonly shares?: string[];
       readonly enable?: boolean;
     } & ScheduleOptions,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const enable = options?.enable ?? true;
     const shares = options?.shares ?? [];
@@ -655,11 +677,10 @@ export class TaskScheduler extends BaseModule {
     };
 
     const apiName = 'SYNO.Core.TaskScheduler';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 4, max: 4 });
 
     return this.request(apiName, info.path, {
-      version: 4,
+      version: info.version,
       method: 'set',
       id: taskId,
       name: taskName,
@@ -667,6 +688,6 @@ export class TaskScheduler extends BaseModule {
       enable,
       schedule: JSON.stringify(scheduleDict),
       extra: JSON.stringify(extra),
-    });
+    }, callOptions);
   }
 }
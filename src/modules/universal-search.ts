@@ -4,14 +4,14 @@
  */
 import { BaseModule } from './base-module.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
 
 export class UniversalSearch extends BaseModule {
   protected readonly application = 'Finder';
 
-  async search(keyword: string): Promise<SynoResponse> {
+  async search(keyword: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Finder.FileIndexing.Search';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName, { min: 1, max: 1 });
 
     const fields = [
       'SYNOMDAcquisitionMake', 'SYNOMDAcquisitionModel', 'SYNOMDAlbum',
@@ -49,7 +49,7 @@ export class UniversalSearch extends BaseModule {
       sorter_show_directory_first: 'true',
       api: apiName,
       method: 'search',
-      version: 1,
-    });
+      version: info.version,
+    }, callOptions);
   }
 }
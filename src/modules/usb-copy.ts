@@ -3,57 +3,70 @@
  * Ported from Python synology_api/usb_copy.py
  */
 import { BaseModule } from './base-module.ts';
+import { paginate } from '../core/paginator.ts';
+import type { Paginator } from '../core/paginator.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
+import type { PaginateOptions } from '../types/common.ts';
 
 export class USBCopy extends BaseModule {
   protected readonly application = 'USBCopy';
 
-  async getPackageSettings(): Promise<SynoResponse> {
+  async getPackageSettings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.USBCopy';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get_global_setting',
-    });
+    }, callOptions);
   }
 
-  async getPackageLogs(offset = 0, limit = 200): Promise<SynoResponse> {
+  async getPackageLogs(offset = 0, limit = 200, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.USBCopy';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get_log_list',
       offset,
       limit,
       log_filter: '{"log_desc_id_list":[0,1,2,3,10,11,100,101,102,103,104,105,1000]}',
-    });
+    }, callOptions);
   }
 
-  async getTaskSettings(taskId: number): Promise<SynoResponse> {
+  /** Iterate all package logs, fetching them page by page. */
+  iteratePackageLogs(paginateOptions?: PaginateOptions): Paginator<unknown> {
+    return paginate(
+      (page, callOptions) => this.getPackageLogs(page.offset, page.limit, callOptions),
+      'log_list',
+      paginateOptions,
+    );
+  }
+
+  async getTaskSettings(taskId: number, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.USBCopy';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       id: taskId,
-    });
+    }, callOptions);
   }
 
-  async toggleTask(taskId: number, enable = true): Promise<SynoResponse> {
+  async toggleTask(
+    taskId: number,
+    enable = true,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.USBCopy';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: enable ? 'enable' : 'disable',
       id: taskId,
-    });
+    }, callOptions);
   }
 }
@@ -4,105 +4,98 @@
  */
 import { BaseModule } from './base-module.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
 
 export class Virtualization extends BaseModule {
   protected readonly application = 'Virtualization';
 
-  async getTaskList(): Promise<SynoResponse> {
+  async getTaskList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Task.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async clearTask(taskId: string): Promise<SynoResponse> {
+  async clearTask(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Task.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'clear',
       taskid: taskId,
-    });
+    }, callOptions);
   }
 
-  async getTaskInfo(taskId: string): Promise<SynoResponse> {
+  async getTaskInfo(taskId: string, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Task.Info';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
       taskid: taskId,
-    });
+    }, callOptions);
   }
 
-  async getNetworkGroupList(): Promise<SynoResponse> {
+  async getNetworkGroupList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Network';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async getStorageOperation(): Promise<SynoResponse> {
+  async getStorageOperation(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Storage';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async getHostOperation(): Promise<SynoResponse> {
+  async getHostOperation(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Host';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
-  async getVmOperation(additional = false): Promise<SynoResponse> {
+  async getVmOperation(additional = false, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Guest';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
       additional,
-    });
+    }, callOptions);
   }
 
   async getSpecificVmInfo(options: {
     guestId?: string;
     guestName?: string;
     additional?: string | string[];
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Guest';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     if (!options.guestId && !options.guestName) {
       throw new Error('Specify at least one of guestId or guestName');
     }
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
     };
 
@@ -110,7 +103,7 @@ export class Virtualization extends BaseModule {
     if (options.guestId) params.guest_id = options.guestId;
     if (options.additional !== undefined) params.additional = options.additional;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   async setVmProperty(options: {
@@ -121,17 +114,16 @@ export class Virtualization extends BaseModule {
     newGuestName?: string;
     vcpuNum?: number;
     vramSize?: number;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Guest';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     if (!options.guestId && !options.guestName) {
       throw new Error('Specify at least one of guestId or guestName');
     }
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'set',
     };
 
@@ -143,30 +135,29 @@ export class Virtualization extends BaseModule {
     if (options.vcpuNum !== undefined) params.vcpu_num = options.vcpuNum;
     if (options.vramSize !== undefined) params.vram_size = options.vramSize;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   async deleteVm(options: {
     guestId?: string;
     guestName?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Guest';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     if (!options.guestId && !options.guestName) {
       throw new Error('Specify at least one of guestId or guestName');
     }
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'delete',
     };
 
     if (options.guestName) params.guest_name = options.guestName;
     if (options.guestId) params.guest_id = options.guestId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   async vmPowerOn(options: {
@@ -174,17 +165,16 @@ export class Virtualization extends BaseModule {
     guestName?: string;
     hostId?: string;
     hostName?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Guest.Action';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     if (!options.guestId && !options.guestName) {
       throw new Error('Specify at least one of guestId or guestName');
     }
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'poweron',
     };
 
@@ -193,87 +183,83 @@ export class Virtualization extends BaseModule {
     if (options.hostId) params.host_id = options.hostId;
     if (options.hostName) params.host_name = options.hostName;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   async vmForcePowerOff(options: {
     guestId?: string;
     guestName?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Guest.Action';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     if (!options.guestId && !options.guestName) {
       throw new Error('Specify at least one of guestId or guestName');
     }
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'poweroff',
     };
 
     if (options.guestName) params.guest_name = options.guestName;
     if (options.guestId) params.guest_id = options.guestId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   async vmShutDown(options: {
     guestId?: string;
     guestName?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Guest.Action';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     if (!options.guestId && !options.guestName) {
       throw new Error('Specify at least one of guestId or guestName');
     }
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'shutdown',
     };
 
     if (options.guestName) params.guest_name = options.guestName;
     if (options.guestId) params.guest_id = options.guestId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
-  async getImagesList(): Promise<SynoResponse> {
+  async getImagesList(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Guest.Image';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'list',
-    });
+    }, callOptions);
   }
 
   async deleteImage(options: {
     imageId?: string;
     imageName?: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Guest.Image';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     if (!options.imageId && !options.imageName) {
       throw new Error('Specify at least one of imageId or imageName');
     }
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'delete',
     };
 
     if (options.imageName) params.image_name = options.imageName;
     if (options.imageId) params.image_id = options.imageId;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 
   async createImage(options: {
@@ -283,17 +269,16 @@ export class Virtualization extends BaseModule {
     type: 'disk' | 'vdsm' | 'iso';
     dsFilePath: string;
     imageName: string;
-  }): Promise<SynoResponse> {
+  }, callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Virtualization.API.Guest.Image';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     if (!options.storageNames && !options.storageIds) {
       throw new Error('Specify at least one of storageNames or storageIds');
     }
 
     const params: Record<string, unknown> = {
-      version: info.maxVersion,
+      version: info.version,
       method: 'create',
       auto_clean_task: options.autoCleanTask ?? true,
       type: options.type,
@@ -304,6 +289,6 @@ export class Virtualization extends BaseModule {
     if (options.storageIds) params.storage_ids = options.storageIds;
     if (options.storageNames) params.storage_names = options.storageNames;
 
-    return this.request(apiName, info.path, params);
+    return this.request(apiName, info.path, params, callOptions);
   }
 }
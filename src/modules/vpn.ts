@@ -4,19 +4,19 @@
  */
 import { BaseModule } from './base-module.ts';
 import type { SynoResponse } from '../types/api-info.ts';
+import type { CallOptions } from '../types/client.ts';
 
 export class VPN extends BaseModule {
   protected readonly application = 'VPNServer';
 
-  async getSettings(): Promise<SynoResponse> {
+  async getSettings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.VPNServer.Settings.Config';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'status_load',
-    });
+    }, callOptions);
   }
 
   async getActiveConnections(
@@ -24,118 +24,119 @@ export class VPN extends BaseModule {
     sortDir: 'ASC' | 'DESC' = 'DESC',
     start = 0,
     limit = 100,
+    callOptions?: CallOptions,
   ): Promise<SynoResponse> {
     const apiName = 'SYNO.VPNServer.Management.Connection';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'enum',
       sort,
       dir: sortDir,
       start,
       limit,
-    });
+    }, callOptions);
   }
 
-  async getLogs(start = 0, limit = 50, protocolType = 0): Promise<SynoResponse> {
+  async getLogs(
+    start = 0,
+    limit = 50,
+    protocolType = 0,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.VPNServer.Management.Log';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'load',
       start,
       limit,
       prtltype: protocolType,
-    });
+    }, callOptions);
   }
 
-  async getNetworkInterfaceSetting(): Promise<SynoResponse> {
+  async getNetworkInterfaceSetting(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.VPNServer.Management.Interface';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'load',
-    });
+    }, callOptions);
   }
 
-  async getSecurityAutoblockSetting(): Promise<SynoResponse> {
+  async getSecurityAutoblockSetting(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.Core.Security.AutoBlock';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'get',
-    });
+    }, callOptions);
   }
 
-  async getPermissionSetting(start = 0, limit = 100): Promise<SynoResponse> {
+  async getPermissionSetting(
+    start = 0,
+    limit = 100,
+    callOptions?: CallOptions,
+  ): Promise<SynoResponse> {
     const apiName = 'SYNO.VPNServer.Management.Account';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'load',
       action: 'enum',
       start: String(start),
       limit: String(limit),
-    });
+    }, callOptions);
   }
 
-  async getPptpSettings(): Promise<SynoResponse> {
+  async getPptpSettings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.VPNServer.Settings.Config';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'load',
       serv_type: 'pptp',
-    });
+    }, callOptions);
   }
 
-  async getOpenvpnSettings(): Promise<SynoResponse> {
+  async getOpenvpnSettings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.VPNServer.Settings.Config';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'load',
       serv_type: 'openvpn',
-    });
+    }, callOptions);
   }
 
-  async getL2tpSettings(): Promise<SynoResponse> {
+  async getL2tpSettings(callOptions?: CallOptions): Promise<SynoResponse> {
     const apiName = 'SYNO.VPNServer.Settings.Config';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
     return this.request(apiName, info.path, {
-      version: info.maxVersion,
+      version: info.version,
       method: 'load',
       serv_type: 'l2tp',
-    });
+    }, callOptions);
   }
 
-  async exportOpenvpnConfig(): Promise<ArrayBuffer> {
+  async exportOpenvpnConfig(callOptions?: CallOptions): Promise<ArrayBuffer> {
     const apiName = 'SYNO.VPNServer.Settings.Certificate';
-    const info = this.getApiInfo(apiName);
-    if (!info) throw new Error(`API ${apiName} not found`);
+    const info = this.requireApi(apiName);
 
-    const response = await this.request(apiName, info.path, {
-      version: info.maxVersion,
+    const download = await this.request(apiName, info.path, {
+      version: info.version,
       method: 'export',
       serv_type: 'openvpn',
-    }, { rawResponse: true });
+    }, { ...callOptions, rawResponse: true });
 
-    return response as unknown as ArrayBuffer;
+    return download.response.arrayBuffer();
   }
 }
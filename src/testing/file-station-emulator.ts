@@ -0,0 +1,821 @@
+/**
+ * FileStationEmulator - a stateful FileStation for MockDsmServer.
+ *
+ * Keeps shared folders and files in memory and answers the FileStation
+ * APIs the way DSM does: paths start with a shared folder, background
+ * tasks get `FileStation_` task ids and report progress until they finish,
+ * and failures carry the codes from fileStationErrorCodes.
+ */
+import { createHash, randomBytes } from 'node:crypto';
+import { FileStationError } from '../core/errors.ts';
+import type { ApiListMap } from '../types/api-info.ts';
+import type { FileOwner, SharingLink } from '../types/file-station.ts';
+import type { FileStationEmulatorConfig, MockRequestContext } from '../types/testing.ts';
+import type { MockDsmServer } from './mock-server.ts';
+import { MemoryFileSystem, joinPath, nodeSize, normalizePath, nowSeconds } from './memory-fs.ts';
+import type { MemoryNode } from './memory-fs.ts';
+
+// Versions of a DSM 7.2 NAS
+const EMULATED_APIS: ApiListMap = {
+  'SYNO.FileStation.Info': { path: 'entry.cgi', minVersion: 1, maxVersion: 2 },
+  'SYNO.FileStation.List': { path: 'entry.cgi', minVersion: 1, maxVersion: 2 },
+  'SYNO.FileStation.Search': { path: 'entry.cgi', minVersion: 1, maxVersion: 2 },
+  'SYNO.FileStation.DirSize': { path: 'entry.cgi', minVersion: 1, maxVersion: 2 },
+  'SYNO.FileStation.MD5': { path: 'entry.cgi', minVersion: 1, maxVersion: 2 },
+  'SYNO.FileStation.Upload': { path: 'entry.cgi', minVersion: 1, maxVersion: 3 },
+  'SYNO.FileStation.Download': { path: 'entry.cgi', minVersion: 1, maxVersion: 2 },
+  'SYNO.FileStation.Sharing': { path: 'entry.cgi', minVersion: 1, maxVersion: 3 },
+  'SYNO.FileStation.CreateFolder': { path: 'entry.cgi', minVersion: 1, maxVersion: 2 },
+  'SYNO.FileStation.Rename': { path: 'entry.cgi', minVersion: 1, maxVersion: 2 },
+  'SYNO.FileStation.CopyMove': { path: 'entry.cgi', minVersion: 1, maxVersion: 3 },
+  'SYNO.FileStation.Delete': { path: 'entry.cgi', minVersion: 1, maxVersion: 2 },
+  'SYNO.FileStation.BackgroundTask': { path: 'entry.cgi', minVersion: 1, maxVersion: 3 },
+};
+
+const DEFAULT_SHARES = ['home', 'public'];
+const DEFAULT_TASK_DURATION_MS = 300;
+const DEFAULT_OWNER: FileOwner = { user: 'admin', group: 'users', uid: 1024, gid: 100 };
+const DEFAULT_VOLUME_SIZE = 2 ** 40;
+const FULL_ACL = { append: true, del: true, exec: true, read: true, write: true };
+
+// Tasks SYNO.FileStation.BackgroundTask lists
+const LISTED_TASK_APIS = new Set(['SYNO.FileStation.CopyMove', 'SYNO.FileStation.Delete']);
+
+const INVALID_PARAMETER = 400;
+const NO_SUCH_TASK = 599;
+
+type Params = Readonly<Record<string, string | File>>;
+type Route = (context: MockRequestContext) => unknown;
+
+interface EmulatedTask {
+  readonly id: string;
+  readonly api: string;
+  readonly version: number;
+  readonly method: string;
+  readonly params: Params;
+  readonly startedAt: number;
+  finished: boolean;
+  /** Error code the task failed with */
+  error: number | null;
+  /** Apply the task's changes once it has run its course */
+  readonly complete: () => void;
+  /** Status fields at the given progress in [0, 1] */
+  readonly status: (progress: number) => Record<string, unknown>;
+}
+
+interface SharingLinkRecord {
+  readonly id: string;
+  readonly path: string;
+  readonly owner: string;
+  readonly isFolder: boolean;
+  readonly origin: string;
+  password: string;
+  dateExpired: string;
+  dateAvailable: string;
+}
+
+interface FileEntry {
+  readonly path: string;
+  readonly node: MemoryNode;
+}
+
+/**
+ * In-memory FileStation.
+ *
+ * ```ts
+ * const files = new FileStationEmulator().writeFile('/home/report.txt', 'Q3');
+ * const server = files.install(new MockDsmServer());
+ * const client = new SynoClient({ baseUrl: await server.start(), account: 'admin', password: 'admin' });
+ * await new FileStation(client).copy('/home/report.txt', '/public').wait();
+ * files.exists('/public/report.txt');   // true
+ * ```
+ */
+export class FileStationEmulator {
+  readonly config: FileStationEmulatorConfig;
+  /** The emulated file tree; paths start with a shared folder */
+  readonly fs: MemoryFileSystem;
+
+  private readonly tasks = new Map<string, EmulatedTask>();
+  private readonly links = new Map<string, SharingLinkRecord>();
+
+  constructor(config: FileStationEmulatorConfig = {}) {
+    this.config = config;
+    this.fs = new MemoryFileSystem(config.shares ?? DEFAULT_SHARES);
+  }
+
+  /**
+   * List the FileStation APIs on `server` and register their handlers.
+   * Returns the server for chaining.
+   */
+  install(server: MockDsmServer): MockDsmServer {
+    const routes: Record<string, Record<string, Route>> = {
+      'SYNO.FileStation.Info': {
+        get: () => ({ hostname: 'mock-dsm', is_manager: true, support_sharing: true, support_virtual_protocol: [] }),
+      },
+      'SYNO.FileStation.List': {
+        list_share: ({ params }) => this.listShare(params),
+        list: ({ params }) => this.listFolder(params),
+        getinfo: ({ params }) => this.getInfo(params),
+      },
+      'SYNO.FileStation.Search': {
+        start: (context) => this.startSearch(context),
+        list: ({ params }) => this.searchList(params),
+        stop: ({ params }) => this.stopTasks('SYNO.FileStation.Search', params),
+        clean: ({ params }) => this.stopTasks('SYNO.FileStation.Search', params),
+      },
+      'SYNO.FileStation.DirSize': {
+        start: (context) => this.startDirSize(context),
+        status: ({ params }) => this.taskStatus('SYNO.FileStation.DirSize', params),
+        stop: ({ params }) => this.stopTasks('SYNO.FileStation.DirSize', params),
+      },
+      'SYNO.FileStation.MD5': {
+        start: (context) => this.startMd5(context),
+        status: ({ params }) => this.taskStatus('SYNO.FileStation.MD5', params),
+        stop: ({ params }) => this.stopTasks('SYNO.FileStation.MD5', params),
+      },
+      'SYNO.FileStation.Upload': {
+        upload: (context) => this.upload(context),
+      },
+      'SYNO.FileStation.Download': {
+        download: ({ params }) => this.download(params),
+      },
+      'SYNO.FileStation.Sharing': {
+        getinfo: ({ params }) => this.sharingLink(this.requireLink(params)),
+        list: ({ params }) => this.listLinks(params),
+        create: (context) => this.createLinks(context),
+        delete: ({ params }) => this.deleteLinks(params),
+        clear_invalid: () => this.clearInvalidLinks(),
+        edit: ({ params }) => this.editLinks(params),
+      },
+      'SYNO.FileStation.CreateFolder': {
+        create: ({ params }) => this.createFolders(params),
+      },
+      'SYNO.FileStation.Rename': {
+        rename: ({ params }) => this.rename(params),
+      },
+      'SYNO.FileStation.CopyMove': {
+        start: (context) => this.startCopyMove(context),
+        status: ({ params }) => this.taskStatus('SYNO.FileStation.CopyMove', params),
+        stop: ({ params }) => this.stopTasks('SYNO.FileStation.CopyMove', params),
+      },
+      'SYNO.FileStation.Delete': {
+        start: (context) => this.startDelete(context),
+        status: ({ params }) => this.taskStatus('SYNO.FileStation.Delete', params),
+        stop: ({ params }) => this.stopTasks('SYNO.FileStation.Delete', params),
+        delete: ({ params }) => this.deleteNow(params),
+      },
+      'SYNO.FileStation.BackgroundTask': {
+        list: ({ params }) => this.listBackgroundTasks(params),
+        clear_finished: () => this.clearFinishedTasks(),
+      },
+    };
+
+    for (const [api, methods] of Object.entries(routes)) {
+      server.defineApi(api, EMULATED_APIS[api]!);
+      for (const [method, route] of Object.entries(methods)) {
+        server.handle(api, method, (context) => {
+          this.settle();
+          return route(context);
+        });
+      }
+    }
+    return server;
+  }
+
+  // ─── Seeding and inspection ────────────────────────────────────
+
+  /** Create a folder and any missing parents. */
+  mkdir(path: string): this {
+    this.fs.mkdir(path, true);
+    return this;
+  }
+
+  /** Create or replace a file, creating missing parent folders. */
+  writeFile(path: string, content: string | Uint8Array): this {
+    const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+    this.fs.writeFile(path, bytes, { createParents: true });
+    return this;
+  }
+
+  /** Content of a file; throws FileStationError 408 when there is none. */
+  readFile(path: string): Uint8Array {
+    const node = this.fs.require(path);
+    if (node.isdir) throw new FileStationError(INVALID_PARAMETER);
+    return node.content!;
+  }
+
+  exists(path: string): boolean {
+    return this.fs.get(path) !== null;
+  }
+
+  /** Names in a folder, sorted. */
+  list(path: string): string[] {
+    return [...this.fs.requireFolder(path).children!.keys()].sort();
+  }
+
+  /** Finish every running background task now, applying its changes. */
+  finishTasks(): void {
+    for (const task of this.tasks.values()) this.finish(task);
+  }
+
+  // ─── List ──────────────────────────────────────────────────────
+
+  private listShare(params: Params): unknown {
+    const additional = additionalParam(params);
+    const shares = this.fs.shares.map((name) => ({ path: `/${name}`, node: this.fs.require(`/${name}`) }));
+    const sorted = sortEntries(shares, stringParam(params, 'sort_by'), stringParam(params, 'sort_direction'));
+    const { offset, items } = page(sorted, params);
+    return { total: shares.length, offset, shares: items.map((entry) => this.shareEntry(entry, additional)) };
+  }
+
+  private listFolder(params: Params): unknown {
+    const folder = normalizePath(requiredParam(params, 'folder_path'));
+    const children = [...this.fs.requireFolder(folder).children!.values()]
+      .map((node) => ({ path: joinPath(folder, node.name), node }));
+
+    const filetype = stringParam(params, 'filetype') ?? 'all';
+    const pattern = stringParam(params, 'pattern');
+    const filtered = children.filter(({ node }) =>
+      matchesFiletype(node, filetype) && (pattern === undefined || matchesPattern(node.name, pattern)));
+
+    const sorted = sortEntries(filtered, stringParam(params, 'sort_by'), stringParam(params, 'sort_direction'));
+    const { offset, items } = page(sorted, params);
+    const additional = additionalParam(params);
+    return { total: sorted.length, offset, files: items.map((entry) => this.fileEntry(entry, additional)) };
+  }
+
+  private getInfo(params: Params): unknown {
+    const additional = additionalParam(params);
+    const files = listParam(params, 'path').map((path) => {
+      const normalized = normalizePath(path);
+      return this.fileEntry({ path: normalized, node: this.fs.require(normalized) }, additional);
+    });
+    return { files };
+  }
+
+  // ─── Folders, uploads and downloads ────────────────────────────
+
+  private createFolders(params: Params): unknown {
+    const folders = listParam(params, 'folder_path');
+    const names = listParam(params, 'name');
+    if (folders.length !== names.length && folders.length !== 1) throw new FileStationError(INVALID_PARAMETER);
+
+    const parents = booleanParam(params, 'force_parent', false);
+    const additional = additionalParam(params);
+    const created = names.map((name, i) => {
+      const path = joinPath(normalizePath(folders[folders.length === 1 ? 0 : i]!), name);
+      return this.fileEntry({ path, node: this.fs.mkdir(path, parents) }, additional);
+    });
+    return { folders: created };
+  }
+
+  private rename(params: Params): unknown {
+    const paths = listParam(params, 'path');
+    const names = listParam(params, 'name');
+    if (paths.length !== names.length) throw new FileStationError(INVALID_PARAMETER);
+
+    const additional = additionalParam(params);
+    const files = paths.map((path, i) => {
+      const node = this.fs.rename(path, names[i]!);
+      return this.fileEntry({ path: joinPath(this.fs.split(path).folder, node.name), node }, additional);
+    });
+    return { files };
+  }
+
+  private async upload({ params, version }: MockRequestContext): Promise<unknown> {
+    const file = params['file'];
+    if (!(file instanceof File)) throw new FileStationError(INVALID_PARAMETER);
+    const folder = normalizePath(requiredParam(params, 'path'));
+    const path = joinPath(folder, file.name);
+
+    // v1-2 take a boolean; v3 takes 'overwrite' or 'skip'
+    const overwrite = stringParam(params, 'overwrite');
+    if (version >= 3 ? overwrite === 'skip' : overwrite === 'false') {
+      if (this.fs.get(path)) {
+        if (version >= 3) return { blSkip: true, file: file.name };
+        throw new FileStationError(414);
+      }
+    }
+
+    this.fs.writeFile(path, new Uint8Array(await file.arrayBuffer()), {
+      createParents: booleanParam(params, 'create_parents', false),
+      mtime: secondsParam(params, 'mtime'),
+      crtime: secondsParam(params, 'crtime'),
+      atime: secondsParam(params, 'atime'),
+    });
+    return { blSkip: false, file: file.name, pid: process.pid, progress: 1 };
+  }
+
+  private download(params: Params): Response {
+    const paths = listParam(params, 'path');
+    if (paths.length !== 1) throw new FileStationError(INVALID_PARAMETER);
+    const node = this.fs.require(paths[0]!);
+    // DSM zips folders; the emulator only serves files
+    if (node.isdir) throw new FileStationError(INVALID_PARAMETER);
+
+    node.atime = nowSeconds();
+    const disposition = stringParam(params, 'mode') === 'open' ? 'inline' : 'attachment';
+    return new Response(node.content!.slice(), {
+      headers: {
+        'content-type': 'application/octet-stream',
+        'content-length': String(node.content!.length),
+        'content-disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(node.name)}`,
+      },
+    });
+  }
+
+  private deleteNow(params: Params): unknown {
+    const recursive = booleanParam(params, 'recursive', true);
+    for (const path of listParam(params, 'path')) this.fs.remove(path, recursive);
+    return undefined;
+  }
+
+  // ─── Background tasks ──────────────────────────────────────────
+
+  private startCopyMove(context: MockRequestContext): unknown {
+    const { params } = context;
+    const paths = listParam(params, 'path').map(normalizePath);
+    const dest = normalizePath(requiredParam(params, 'dest_folder_path'));
+    const move = booleanParam(params, 'remove_src', false);
+    const overwriteParam = stringParam(params, 'overwrite');
+    const overwrite = overwriteParam === undefined ? undefined : overwriteParam === 'true';
+
+    const total = paths.reduce((sum, path) => sum + nodeSize(this.fs.require(path)), 0);
+    this.fs.requireFolder(dest);
+
+    return this.startTask(context, {
+      complete: () => {
+        for (const path of paths) this.fs.transfer(path, dest, { move, overwrite });
+      },
+      status: (progress) => ({
+        progress,
+        processed_size: Math.round(total * progress),
+        total,
+        path: currentPath(paths, progress),
+        dest_folder_path: dest,
+      }),
+    });
+  }
+
+  private startDelete(context: MockRequestContext): unknown {
+    const { params } = context;
+    const paths = listParam(params, 'path').map(normalizePath);
+    const recursive = booleanParam(params, 'recursive', true);
+    const entries = paths.flatMap((path) => this.fs.walk(path));
+
+    return this.startTask(context, {
+      complete: () => {
+        for (const path of paths) this.fs.remove(path, recursive);
+      },
+      status: (progress) => {
+        const processed = Math.round(entries.length * progress);
+        return {
+          progress,
+          processed_num: processed,
+          total: entries.length,
+          path: currentPath(paths, progress),
+          processing_path: entries[Math.min(processed, entries.length - 1)]?.path ?? '',
+        };
+      },
+    });
+  }
+
+  private startDirSize(context: MockRequestContext): unknown {
+    const paths = listParam(context.params, 'path').map(normalizePath);
+    for (const path of paths) this.fs.require(path);
+
+    return this.startTask(context, {
+      complete: () => undefined,
+      status: (progress) => {
+        const entries = paths.flatMap((path) => this.fs.get(path) ? this.fs.walk(path) : []);
+        const dirs = entries.filter(({ node }) => node.isdir).length;
+        const size = entries.reduce((sum, { node }) => sum + (node.isdir ? 0 : nodeSize(node)), 0);
+        return {
+          num_dir: Math.round(dirs * progress),
+          num_file: Math.round((entries.length - dirs) * progress),
+          total_size: Math.round(size * progress),
+        };
+      },
+    });
+  }
+
+  private startMd5(context: MockRequestContext): unknown {
+    const path = normalizePath(requiredParam(context.params, 'file_path'));
+    if (this.fs.require(path).isdir) throw new FileStationError(INVALID_PARAMETER);
+
+    let md5: string | undefined;
+    return this.startTask(context, {
+      complete: () => {
+        md5 = createHash('md5').update(this.readFile(path)).digest('hex');
+      },
+      status: () => (md5 === undefined ? {} : { md5 }),
+    });
+  }
+
+  private startSearch(context: MockRequestContext): unknown {
+    const { params } = context;
+    const folders = listParam(params, 'folder_path').map(normalizePath);
+    const recursive = booleanParam(params, 'recursive', true);
+    const matches = folders.flatMap((folder) => {
+      this.fs.requireFolder(folder);
+      const entries = recursive
+        ? this.fs.walk(folder).slice(1)
+        : [...this.fs.require(folder).children!.values()].map((node) => ({ path: joinPath(folder, node.name), node }));
+      return entries.filter(({ node }) => this.matchesSearch(node, params));
+    });
+
+    return this.startTask(context, {
+      complete: () => undefined,
+      status: (progress) => ({ progress, matches: matches.slice(0, Math.ceil(matches.length * progress)) }),
+    });
+  }
+
+  private searchList(params: Params): unknown {
+    const task = this.requireTask('SYNO.FileStation.Search', params);
+    const progress = this.progressOf(task);
+    const found = task.status(progress)['matches'] as FileEntry[];
+
+    const filetype = stringParam(params, 'filetype') ?? 'all';
+    const filtered = found.filter(({ node }) => matchesFiletype(node, filetype));
+    const sorted = sortEntries(filtered, stringParam(params, 'sort_by'), stringParam(params, 'sort_direction'));
+    const { offset, items } = page(sorted, params);
+    const additional = additionalParam(params);
+    return {
+      finished: task.finished,
+      progress,
+      total: sorted.length,
+      offset,
+      files: items.map((entry) => this.fileEntry(entry, additional)),
+    };
+  }
+
+  private matchesSearch(node: MemoryNode, params: Params): boolean {
+    const owner = this.owner;
+    const pattern = unquote(stringParam(params, 'pattern'));
+    const extension = unquote(stringParam(params, 'extension'));
+    const filetype = unquote(stringParam(params, 'filetype')) ?? 'all';
+    const size = node.isdir ? 0 : nodeSize(node);
+
+    if (!matchesFiletype(node, filetype)) return false;
+    if (pattern !== undefined && !matchesPattern(node.name, pattern)) return false;
+    if (extension !== undefined) {
+      const extensions = extension.toLowerCase().split(',').map((ext) => ext.trim().replace(/^\./, ''));
+      if (node.isdir || !extensions.includes(fileType(node).toLowerCase())) return false;
+    }
+    if (size < (numberParam(params, 'size_from') ?? 0)) return false;
+    if (size > (numberParam(params, 'size_to') ?? Infinity)) return false;
+    if (stringParam(params, 'owner') !== undefined && stringParam(params, 'owner') !== owner.user) return false;
+    if (stringParam(params, 'group') !== undefined && stringParam(params, 'group') !== owner.group) return false;
+
+    for (const field of ['mtime', 'crtime', 'atime'] as const) {
+      if (node[field] < (numberParam(params, `${field}_from`) ?? -Infinity)) return false;
+      if (node[field] > (numberParam(params, `${field}_to`) ?? Infinity)) return false;
+    }
+    return true;
+  }
+
+  private taskStatus(api: string, params: Params): unknown {
+    const task = this.requireTask(api, params);
+    if (task.error !== null) throw new FileStationError(task.error);
+    const progress = this.progressOf(task);
+    return { ...task.status(progress), finished: task.finished };
+  }
+
+  private stopTasks(api: string, params: Params): unknown {
+    for (const id of listParam(params, 'taskid')) {
+      if (this.tasks.get(id)?.api === api) this.tasks.delete(id);
+    }
+    return undefined;
+  }
+
+  private listBackgroundTasks(params: Params): unknown {
+    const filter = stringParam(params, 'api_filter');
+    const apis = filter === undefined ? LISTED_TASK_APIS : new Set(listParam(params, 'api_filter'));
+    const tasks = [...this.tasks.values()]
+      .filter((task) => LISTED_TASK_APIS.has(task.api) && apis.has(task.api))
+      .map((task) => {
+        const status = task.status(this.progressOf(task));
+        return {
+          api: task.api,
+          version: task.version,
+          method: task.method,
+          taskid: task.id,
+          finished: task.finished,
+          params: Object.fromEntries(Object.entries(task.params).filter(([, value]) => typeof value === 'string')),
+          ...status,
+        };
+      });
+    const { offset, items } = page(tasks, params);
+    return { total: tasks.length, offset, tasks: items };
+  }
+
+  private clearFinishedTasks(): unknown {
+    for (const [id, task] of this.tasks) {
+      if (task.finished && LISTED_TASK_APIS.has(task.api)) this.tasks.delete(id);
+    }
+    return undefined;
+  }
+
+  private startTask(context: MockRequestContext, behavior: Pick<EmulatedTask, 'complete' | 'status'>): unknown {
+    const task: EmulatedTask = {
+      ...behavior,
+      id: `FileStation_${randomBytes(8).toString('hex').toUpperCase()}`,
+      api: context.api,
+      version: context.version,
+      method: context.method,
+      params: context.params,
+      startedAt: Date.now(),
+      finished: false,
+      error: null,
+    };
+    this.tasks.set(task.id, task);
+    return { taskid: task.id };
+  }
+
+  private requireTask(api: string, params: Params): EmulatedTask {
+    const task = this.tasks.get(requiredParam(params, 'taskid'));
+    if (!task || task.api !== api) throw new FileStationError(NO_SUCH_TASK);
+    return task;
+  }
+
+  /** Finish every task whose time is up. */
+  private settle(): void {
+    for (const task of this.tasks.values()) {
+      if (!task.finished && this.progressOf(task) >= 1) this.finish(task);
+    }
+  }
+
+  private finish(task: EmulatedTask): void {
+    if (task.finished) return;
+    task.finished = true;
+    try {
+      task.complete();
+    } catch (error) {
+      if (!(error instanceof FileStationError)) throw error;
+      task.error = error.errorCode;
+    }
+  }
+
+  private progressOf(task: EmulatedTask): number {
+    if (task.finished) return 1;
+    const duration = this.config.taskDurationMs ?? DEFAULT_TASK_DURATION_MS;
+    return duration <= 0 ? 1 : Math.min(1, (Date.now() - task.startedAt) / duration);
+  }
+
+  // ─── Sharing links ─────────────────────────────────────────────
+
+  private createLinks({ params, session, request }: MockRequestContext): unknown {
+    const origin = new URL(request.url).origin;
+    const links = listParam(params, 'path').map((raw) => {
+      const path = normalizePath(raw);
+      const node = this.fs.get(path);
+      if (!node) return { id: '', url: '', path, qrcode: '', error: 408 };
+
+      const link: SharingLinkRecord = {
+        id: randomBytes(6).toString('base64url'),
+        path,
+        owner: session?.account ?? this.owner.user,
+        isFolder: node.isdir,
+        origin,
+        password: stringParam(params, 'password') ?? '',
+        dateExpired: stringParam(params, 'date_expired') ?? '0',
+        dateAvailable: stringParam(params, 'date_available') ?? '0',
+      };
+      this.links.set(link.id, link);
+      const { url, qrcode } = this.sharingLink(link);
+      return { id: link.id, url, path, qrcode, error: 0 };
+    });
+    return { links };
+  }
+
+  private listLinks(params: Params): unknown {
+    if (booleanParam(params, 'force_clean', false)) this.clearInvalidLinks();
+    const links = [...this.links.values()].map((link) => this.sharingLink(link));
+    const sortBy = stringParam(params, 'sort_by') ?? 'id';
+    const direction = stringParam(params, 'sort_direction') === 'desc' ? -1 : 1;
+    const key = (link: SharingLink): unknown => link[sortBy as keyof SharingLink] ?? link.id;
+    links.sort((a, b) => direction * compareValues(key(a), key(b)));
+    const { offset, items } = page(links, params);
+    return { total: links.length, offset, links: items };
+  }
+
+  private editLinks(params: Params): unknown {
+    for (const id of listParam(params, 'id')) {
+      const link = this.links.get(id);
+      if (!link) throw new FileStationError(INVALID_PARAMETER);
+      link.password = stringParam(params, 'password') ?? link.password;
+      link.dateExpired = stringParam(params, 'date_expired') ?? link.dateExpired;
+      link.dateAvailable = stringParam(params, 'date_available') ?? link.dateAvailable;
+    }
+    return undefined;
+  }
+
+  private deleteLinks(params: Params): unknown {
+    const ids = listParam(params, 'id');
+    if (ids.some((id) => !this.links.has(id))) throw new FileStationError(INVALID_PARAMETER);
+    for (const id of ids) this.links.delete(id);
+    return undefined;
+  }
+
+  private clearInvalidLinks(): unknown {
+    for (const link of [...this.links.values()]) {
+      if (this.sharingLink(link).status !== 'valid') this.links.delete(link.id);
+    }
+    return undefined;
+  }
+
+  private requireLink(params: Params): SharingLinkRecord {
+    const link = this.links.get(requiredParam(params, 'id'));
+    if (!link) throw new FileStationError(INVALID_PARAMETER);
+    return link;
+  }
+
+  private sharingLink(link: SharingLinkRecord): Required<SharingLink> {
+    const today = new Date().toISOString().slice(0, 10);
+    const expired = /^\d{4}-\d{2}-\d{2}$/.test(link.dateExpired) && link.dateExpired < today;
+    return {
+      id: link.id,
+      url: `${link.origin}/sharing/${link.id}`,
+      link_owner: link.owner,
+      path: link.path,
+      isFolder: link.isFolder,
+      has_password: link.password !== '',
+      date_expired: link.dateExpired,
+      date_available: link.dateAvailable,
+      status: this.fs.get(link.path) === null ? 'broken' : expired ? 'expired' : 'valid',
+      qrcode: '',
+    };
+  }
+
+  // ─── Entries ───────────────────────────────────────────────────
+
+  private get owner(): FileOwner {
+    return this.config.owner ?? DEFAULT_OWNER;
+  }
+
+  private fileEntry({ path, node }: FileEntry, additional: ReadonlySet<string>): unknown {
+    const fields: Record<string, unknown> = {
+      real_path: `/volume1${path}`,
+      size: node.isdir ? 0 : nodeSize(node),
+      owner: this.owner,
+      time: { atime: node.atime, mtime: node.mtime, ctime: node.ctime, crtime: node.crtime },
+      perm: { posix: node.isdir ? 777 : 644, is_acl_mode: false, acl: FULL_ACL },
+      mount_point_type: '',
+      type: fileType(node),
+    };
+    return withAdditional({ path, name: node.name, isdir: node.isdir }, fields, additional);
+  }
+
+  private shareEntry({ path, node }: FileEntry, additional: ReadonlySet<string>): unknown {
+    const volumeSize = this.config.volumeSize ?? DEFAULT_VOLUME_SIZE;
+    const used = this.fs.shares.reduce((sum, share) => sum + nodeSize(this.fs.require(`/${share}`)), 0);
+    const fields: Record<string, unknown> = {
+      real_path: `/volume1${path}`,
+      size: 0,
+      owner: this.owner,
+      time: { atime: node.atime, mtime: node.mtime, ctime: node.ctime, crtime: node.crtime },
+      perm: {
+        share_right: 'RW',
+        posix: 777,
+        adv_right: { disable_download: false, disable_list: false, disable_modify: false },
+        acl_enable: true,
+        is_acl_mode: true,
+        acl: FULL_ACL,
+      },
+      mount_point_type: '',
+      sync_share: false,
+      volume_status: { freespace: Math.max(0, volumeSize - used), totalspace: volumeSize, readonly: false },
+    };
+    return withAdditional({ path, name: node.name, isdir: true }, fields, additional);
+  }
+}
+
+// ─── Utility ─────────────────────────────────────────────────────
+
+function stringParam(params: Params, key: string): string | undefined {
+  const value = params[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function requiredParam(params: Params, key: string): string {
+  const value = stringParam(params, key);
+  if (value === undefined || value === '') throw new FileStationError(INVALID_PARAMETER);
+  return unquote(value)!;
+}
+
+/** Values sent as a JSON array, a JSON string or a raw string. */
+function listParam(params: Params, key: string): string[] {
+  const value = requiredParam(params, key);
+  if (!value.startsWith('[')) return [value];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // A raw value that happens to start with a bracket
+  }
+  return [value];
+}
+
+/** `additional` as a JSON array or a comma-separated list. */
+function additionalParam(params: Params): ReadonlySet<string> {
+  const value = stringParam(params, 'additional');
+  if (value === undefined || value === '') return new Set();
+  if (value.startsWith('[')) return new Set(listParam(params, 'additional'));
+  return new Set(value.split(',').map((name) => name.trim()));
+}
+
+function booleanParam(params: Params, key: string, fallback: boolean): boolean {
+  const value = stringParam(params, key);
+  return value === undefined ? fallback : value === 'true';
+}
+
+function numberParam(params: Params, key: string): number | undefined {
+  const value = unquote(stringParam(params, key));
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+/** Upload timestamps come in milliseconds. */
+function secondsParam(params: Params, key: string): number | undefined {
+  const value = numberParam(params, key);
+  return value === undefined ? undefined : Math.floor(value / 1000);
+}
+
+/** Strip the JSON quotes some FileStation parameters are sent with. */
+function unquote(value: string | undefined): string | undefined {
+  if (value === undefined || !value.startsWith('"')) return value;
+  try {
+    return String(JSON.parse(value));
+  } catch {
+    return value;
+  }
+}
+
+/** `offset` and `limit` applied to a list; a limit of 0 means all. */
+function page<T>(items: readonly T[], params: Params): { offset: number; items: T[] } {
+  const offset = numberParam(params, 'offset') ?? 0;
+  const limit = numberParam(params, 'limit') ?? 0;
+  return { offset, items: items.slice(offset, limit > 0 ? offset + limit : undefined) };
+}
+
+function matchesFiletype(node: MemoryNode, filetype: string): boolean {
+  if (filetype === 'file') return !node.isdir;
+  if (filetype === 'dir') return node.isdir;
+  return true;
+}
+
+/**
+ * Case-insensitive glob match against comma-separated patterns. Patterns
+ * without wildcards match anywhere in the name, like DSM's keyword search.
+ */
+function matchesPattern(name: string, pattern: string): boolean {
+  return pattern.split(',').some((part) => {
+    const glob = /[*?]/.test(part) ? part : `*${part}*`;
+    const source = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${source}$`, 'i').test(name);
+  });
+}
+
+/** Upper-case extension, as DSM reports it in `additional.type`. */
+function fileType(node: MemoryNode): string {
+  const dot = node.name.lastIndexOf('.');
+  return node.isdir || dot <= 0 ? '' : node.name.slice(dot + 1).toUpperCase();
+}
+
+function sortEntries(entries: FileEntry[], sortBy = 'name', direction = 'asc'): FileEntry[] {
+  const key = (entry: FileEntry): string | number => {
+    const { node } = entry;
+    switch (sortBy) {
+      case 'size': return node.isdir ? 0 : nodeSize(node);
+      case 'mtime':
+      case 'atime':
+      case 'ctime':
+      case 'crtime': return node[sortBy];
+      case 'type': return fileType(node);
+      case 'posix': return node.isdir ? 777 : 644;
+      default: return node.name;
+    }
+  };
+  const sign = direction === 'desc' ? -1 : 1;
+  return [...entries].sort((a, b) => sign * (compareValues(key(a), key(b)) || compareValues(a.path, b.path)));
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+/** The path a multi-path task is working on at `progress`. */
+function currentPath(paths: readonly string[], progress: number): string {
+  return paths[Math.min(paths.length - 1, Math.floor(paths.length * progress))] ?? '';
+}
+
+function withAdditional(
+  entry: Record<string, unknown>,
+  fields: Record<string, unknown>,
+  additional: ReadonlySet<string>,
+): unknown {
+  const requested = Object.entries(fields).filter(([name]) => additional.has(name));
+  return requested.length === 0 ? entry : { ...entry, additional: Object.fromEntries(requested) };
+}
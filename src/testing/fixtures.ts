@@ -0,0 +1,146 @@
+/**
+ * Fixture files: scrubbing recorded exchanges and replaying them.
+ */
+import { readFile, mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { dispatchApiError } from '../core/errors.ts';
+import { CODE_UNKNOWN } from '../core/error-codes.ts';
+import type { SynoResponse } from '../types/api-info.ts';
+import type { DsmFixture, MockHandler, MockRequestContext, RecordedExchange } from '../types/testing.ts';
+
+/** Value that replaces scrubbed parameters and response fields. */
+export const SCRUBBED = '<scrubbed>';
+
+const RESERVED_PARAMS = new Set(['api', 'method', 'version', '_sid']);
+const SECRET_PARAMS = new Set([
+  'account',
+  'passwd',
+  'password',
+  'otp_code',
+  'SynoToken',
+  'ik_message',
+  'device_id',
+  '__cIpHeRtExT',
+]);
+const SECRET_FIELDS = new Set(['sid', '_sid', 'synotoken', 'did', 'device_id', 'passwd', 'password']);
+
+/**
+ * Parameters as stored in a fixture: without api, method, version and
+ * _sid, secrets replaced with SCRUBBED and uploads reduced to name and size.
+ */
+export function scrubParams(
+  params: Readonly<Record<string, string | File>>,
+  extraSecrets: readonly string[] = [],
+): Record<string, string> {
+  const scrubbed: Record<string, string> = {};
+  for (const key of Object.keys(params).sort()) {
+    if (RESERVED_PARAMS.has(key)) continue;
+    const value = params[key]!;
+    if (SECRET_PARAMS.has(key) || extraSecrets.includes(key)) scrubbed[key] = SCRUBBED;
+    else if (key === 'compound' && typeof value === 'string') scrubbed[key] = scrubCompound(value, extraSecrets);
+    else if (typeof value === 'string') scrubbed[key] = value;
+    else scrubbed[key] = `<file ${value.name} (${value.size} bytes)>`;
+  }
+  return scrubbed;
+}
+
+/**
+ * The entries of a SYNO.Entry.Request `compound` parameter, or null when it
+ * is not a JSON list of objects.
+ */
+export function parseCompound(value: unknown): Array<Record<string, unknown>> | null {
+  if (typeof value !== 'string') return null;
+  let entries: unknown;
+  try {
+    entries = JSON.parse(value);
+  } catch {
+    return null;
+  }
+  return Array.isArray(entries) && entries.every((entry) => typeof entry === 'object' && entry !== null)
+    ? entries as Array<Record<string, unknown>>
+    : null;
+}
+
+/**
+ * A `compound` parameter with the secrets of every entry replaced. A value
+ * that cannot be parsed is replaced whole, since it may hold secrets too.
+ */
+function scrubCompound(value: string, extraSecrets: readonly string[]): string {
+  const entries = parseCompound(value);
+  if (entries === null) return SCRUBBED;
+  return JSON.stringify(entries.map((entry) => Object.fromEntries(Object.entries(entry).map(([key, field]) => [
+    key,
+    SECRET_PARAMS.has(key) || extraSecrets.includes(key) ? SCRUBBED : field,
+  ]))));
+}
+
+/**
+ * Copy of a response body with session ids, tokens and passwords replaced.
+ */
+export function scrubBody(body: unknown): unknown {
+  if (Array.isArray(body)) return body.map(scrubBody);
+  if (body === null || typeof body !== 'object') return body;
+  return Object.fromEntries(Object.entries(body).map(([key, value]) => [
+    key,
+    SECRET_FIELDS.has(key) && typeof value === 'string' ? SCRUBBED : scrubBody(value),
+  ]));
+}
+
+/**
+ * Parameters of a SYNO.Entry.Request entry as a handler sees them:
+ * compound entries carry JSON values, request parameters are strings.
+ */
+export function entryParams(entry: Readonly<Record<string, unknown>>): Record<string, string> {
+  return Object.fromEntries(Object.entries(entry)
+    .filter(([key]) => !RESERVED_PARAMS.has(key))
+    .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]));
+}
+
+export async function loadFixture(path: string): Promise<DsmFixture> {
+  return JSON.parse(await readFile(path, 'utf-8')) as DsmFixture;
+}
+
+export async function saveFixture(path: string, fixture: DsmFixture): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+/**
+ * A handler that answers calls from a fixture, for `MockServerConfig.fallback`.
+ *
+ * Calls match on API, method, version and scrubbed parameters. Identical
+ * calls get their recorded responses in order, and the last one after
+ * that. A call with no recording throws, failing the request with HTTP 500.
+ */
+export function replayFixture(fixture: DsmFixture, extraSecrets: readonly string[] = []): MockHandler {
+  const recorded = new Map<string, RecordedExchange[]>();
+  for (const exchange of fixture.exchanges) {
+    const key = exchangeKey(exchange.api, exchange.method, exchange.version, exchange.params);
+    recorded.set(key, [...(recorded.get(key) ?? []), exchange]);
+  }
+
+  return ({ api, method, version, params }: MockRequestContext) => {
+    const scrubbed = scrubParams(params, extraSecrets);
+    const queue = recorded.get(exchangeKey(api, method, version, scrubbed));
+    if (!queue) {
+      throw new Error(`No recorded response for ${api} ${method} v${version} ${JSON.stringify(scrubbed)}`);
+    }
+    const { response } = queue.length > 1 ? queue.shift()! : queue[0]!;
+
+    if (response.kind === 'binary') {
+      const headers: Record<string, string> = {};
+      if (response.contentType !== null) headers['content-type'] = response.contentType;
+      if (response.contentDisposition !== null) headers['content-disposition'] = response.contentDisposition;
+      return new Response(Buffer.from(response.body, 'base64'), { headers });
+    }
+
+    const body = response.body as SynoResponse;
+    if (!body.success) throw dispatchApiError(body.error?.code ?? CODE_UNKNOWN, api);
+    return body.data;
+  };
+}
+
+function exchangeKey(api: string, method: string, version: number, params: Readonly<Record<string, string>>): string {
+  const sorted = Object.keys(params).sort().map((key) => [key, params[key]]);
+  return JSON.stringify([api, method, version, sorted]);
+}
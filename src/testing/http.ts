@@ -0,0 +1,89 @@
+/**
+ * Glue between node:http and the Fetch API types the test servers use.
+ */
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+/**
+ * Read a node request into a Fetch API Request.
+ */
+export async function toFetchRequest(req: IncomingMessage, origin: string): Promise<Request> {
+  const headers = new Headers();
+  for (let i = 0; i < req.rawHeaders.length; i += 2) {
+    headers.append(req.rawHeaders[i]!, req.rawHeaders[i + 1]!);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const body = Buffer.concat(chunks);
+
+  return new Request(new URL(req.url ?? '/', origin).href, {
+    method: req.method,
+    headers,
+    body: req.method === 'GET' || req.method === 'HEAD' || body.length === 0 ? undefined : body,
+  });
+}
+
+/**
+ * Query and form parameters of a request. Multipart file fields are File objects.
+ */
+export async function readParams(request: Request): Promise<Record<string, string | File>> {
+  const params: Record<string, string | File> = {};
+  for (const [key, value] of new URL(request.url).searchParams) params[key] = value;
+
+  const contentType = request.headers.get('content-type') ?? '';
+  if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
+    const form = await request.clone().formData();
+    for (const [key, value] of form) params[key] = value;
+  }
+  return params;
+}
+
+/**
+ * Copy a Fetch API Response onto a node response.
+ */
+export async function writeResponse(res: ServerResponse, response: Response): Promise<void> {
+  const headers: Record<string, string | string[]> = {};
+  for (const [key, value] of response.headers) {
+    if (key !== 'set-cookie') headers[key] = value;
+  }
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length > 0) headers['set-cookie'] = cookies;
+
+  res.writeHead(response.status, headers);
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * A JSON response with the given body.
+ */
+export function jsonResponse(body: unknown, init?: ResponseInit): Response {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'content-type': 'application/json; charset=utf-8', ...init?.headers },
+  });
+}
+
+/**
+ * Start listening and resolve to the server's base URL.
+ */
+export function listen(server: Server, protocol: 'http' | 'https', host: string, port: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      const address = server.address() as AddressInfo;
+      resolve(`${protocol}://${host}:${address.port}`);
+    });
+  });
+}
+
+/**
+ * Stop listening and drop idle keep-alive connections.
+ */
+export function close(server: Server): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.close((error) => (error ? reject(error) : resolve()));
+    server.closeAllConnections();
+  });
+}
@@ -0,0 +1,37 @@
+// Mock server
+export { MockDsmServer } from './mock-server.ts';
+
+// QuickConnect directory
+export { MockQuickConnectServer } from './quickconnect-server.ts';
+
+// FileStation emulator
+export { FileStationEmulator } from './file-station-emulator.ts';
+export { MemoryFileSystem } from './memory-fs.ts';
+export type { MemoryNode, NodeTimes } from './memory-fs.ts';
+
+// Record / replay
+export { DsmRecorder } from './recorder.ts';
+export {
+  SCRUBBED,
+  scrubParams,
+  scrubBody,
+  loadFixture,
+  saveFixture,
+  replayFixture,
+} from './fixtures.ts';
+
+// Types
+export type {
+  MockAccount,
+  MockServerConfig,
+  MockSession,
+  MockRequestContext,
+  MockHandler,
+  MockQuickConnectHost,
+  MockQuickConnectConfig,
+  RecordedResponse,
+  RecordedExchange,
+  DsmFixture,
+  RecorderConfig,
+  FileStationEmulatorConfig,
+} from '../types/testing.ts';
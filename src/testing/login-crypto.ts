@@ -0,0 +1,90 @@
+/**
+ * The NAS side of the login encryption in core/encryption: RSA + AES
+ * parameter decryption and the Noise IK responder key.
+ */
+import { constants, generateKeyPair, privateDecrypt } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import { x25519 } from '@noble/curves/ed25519';
+import { aesDecrypt } from '../core/encryption/aes-cipher.ts';
+import type { EncryptionInfo } from '../core/encryption/param-encryptor.ts';
+
+const CIPHER_KEY = '__cIpHeRtExT';
+const CIPHER_TOKEN = '__cIpHeRtOkEn';
+// The client encrypts a 501-byte passphrase, which needs a 4096-bit key
+const RSA_BITS = 4096;
+
+let rsaKeyPair: Promise<{ privateKey: KeyObject; modulusHex: string }> | null = null;
+
+/**
+ * RSA key pair shared by every mock server in the process; generating
+ * a 4096-bit key takes a moment, so it is made once, on first use.
+ */
+function getRsaKeyPair(): Promise<{ privateKey: KeyObject; modulusHex: string }> {
+  rsaKeyPair ??= new Promise((resolve, reject) => {
+    generateKeyPair('rsa', { modulusLength: RSA_BITS }, (error, publicKey, privateKey) => {
+      if (error) {
+        rsaKeyPair = null;
+        reject(error);
+        return;
+      }
+      const { n } = publicKey.export({ format: 'jwk' });
+      resolve({ privateKey, modulusHex: Buffer.from(n!, 'base64url').toString('hex') });
+    });
+  });
+  return rsaKeyPair;
+}
+
+/**
+ * Answer for SYNO.API.Encryption getinfo.
+ */
+export async function encryptionInfo(): Promise<EncryptionInfo> {
+  const { modulusHex } = await getRsaKeyPair();
+  return {
+    public_key: modulusHex,
+    cipherkey: CIPHER_KEY,
+    ciphertoken: CIPHER_TOKEN,
+    server_time: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Decrypt the parameters `encryptParams()` packed into `__cIpHeRtExT`,
+ * or return null when the request carries none.
+ */
+export async function decryptLoginParams(
+  params: Readonly<Record<string, string | File>>,
+): Promise<Record<string, string> | null> {
+  const packed = params[CIPHER_KEY];
+  if (typeof packed !== 'string') return null;
+
+  const { rsa, aes } = JSON.parse(packed) as { rsa: string; aes: string };
+  const { privateKey } = await getRsaKeyPair();
+  // PKCS#1 v1.5 private decryption is disabled in recent Node releases,
+  // so decrypt raw and strip the padding here
+  const padded = privateDecrypt({ key: privateKey, padding: constants.RSA_NO_PADDING }, Buffer.from(rsa, 'base64'));
+  const passphrase = stripPkcs1Padding(padded);
+
+  const decrypted = Object.fromEntries(new URLSearchParams(aesDecrypt(passphrase, Buffer.from(aes, 'base64'))));
+  if (decrypted[CIPHER_TOKEN] === undefined) {
+    throw new Error('Encrypted login parameters carry no cipher token');
+  }
+  delete decrypted[CIPHER_TOKEN];
+  return decrypted;
+}
+
+/**
+ * A Noise IK static key pair; the public half is sent as the `_SSID` cookie.
+ */
+export function createNoiseKeyPair(): { privateKey: Uint8Array; publicKey: Uint8Array } {
+  const privateKey = x25519.utils.randomPrivateKey();
+  return { privateKey, publicKey: x25519.getPublicKey(privateKey) };
+}
+
+function stripPkcs1Padding(block: Buffer): Buffer {
+  // 0x00 0x02 <non-zero random bytes> 0x00 <message>
+  const separator = block.indexOf(0x00, 2);
+  if (block[0] !== 0x00 || block[1] !== 0x02 || separator < 10) {
+    throw new Error('Invalid PKCS#1 v1.5 padding');
+  }
+  return block.subarray(separator + 1);
+}
@@ -0,0 +1,253 @@
+/**
+ * In-memory file tree behind FileStationEmulator.
+ *
+ * Paths are absolute and start with a shared folder, e.g. '/home/docs/a.txt'.
+ * Failures throw FileStationError with the code DSM uses for them.
+ */
+import { FileStationError } from '../core/errors.ts';
+
+export interface MemoryNode {
+  name: string;
+  readonly isdir: boolean;
+  /** Entries by name; null for files */
+  readonly children: Map<string, MemoryNode> | null;
+  /** File content; null for folders */
+  content: Uint8Array | null;
+  /** Unix timestamps in seconds */
+  mtime: number;
+  crtime: number;
+  atime: number;
+  ctime: number;
+}
+
+/** Times of a new node, in seconds; missing values default to now. */
+export interface NodeTimes {
+  readonly mtime?: number;
+  readonly crtime?: number;
+  readonly atime?: number;
+}
+
+const NO_SUCH_FILE = 408;
+const NOT_PERMITTED = 407;
+const ALREADY_EXISTS = 414;
+const ILLEGAL_PATH = 418;
+const ILLEGAL_NAME = 419;
+
+export class MemoryFileSystem {
+  private readonly root: MemoryNode = createNode('', true, {});
+
+  constructor(shares: readonly string[]) {
+    for (const share of shares) {
+      checkName(share);
+      this.root.children!.set(share, createNode(share, true, {}));
+    }
+  }
+
+  /** Names of the shared folders. */
+  get shares(): string[] {
+    return [...this.root.children!.keys()];
+  }
+
+  get(path: string): MemoryNode | null {
+    let node = this.root;
+    for (const name of splitPath(path)) {
+      const child = node.children?.get(name);
+      if (!child) return null;
+      node = child;
+    }
+    return node;
+  }
+
+  /** The node at `path`; throws 408 when there is none. */
+  require(path: string): MemoryNode {
+    const node = this.get(path);
+    if (!node) throw new FileStationError(NO_SUCH_FILE);
+    return node;
+  }
+
+  /** The folder at `path`; throws 408 when it is missing or a file. */
+  requireFolder(path: string): MemoryNode {
+    const node = this.require(path);
+    if (!node.isdir) throw new FileStationError(NO_SUCH_FILE);
+    return node;
+  }
+
+  /**
+   * Create a folder. With `parents`, missing parents are created and an
+   * existing folder is not an error.
+   */
+  mkdir(path: string, parents: boolean, times: NodeTimes = {}): MemoryNode {
+    const names = splitPath(path);
+    // Shared folders exist up front; with `parents` they count as created
+    if (names.length < 2) {
+      if (parents && names.length === 1) return this.requireFolder(path);
+      throw new FileStationError(NOT_PERMITTED);
+    }
+
+    let node = this.requireFolder(`/${names[0]}`);
+    for (const [i, name] of names.slice(1).entries()) {
+      const last = i === names.length - 2;
+      const child = node.children!.get(name);
+      if (child) {
+        if (!child.isdir || (last && !parents)) throw new FileStationError(ALREADY_EXISTS);
+        node = child;
+        continue;
+      }
+      if (!last && !parents) throw new FileStationError(NO_SUCH_FILE);
+      checkName(name);
+      node = this.attach(node, createNode(name, true, times));
+    }
+    return node;
+  }
+
+  /**
+   * Write a file, replacing an existing one when `overwrite` is set.
+   */
+  writeFile(
+    path: string,
+    content: Uint8Array,
+    options: NodeTimes & { readonly overwrite?: boolean; readonly createParents?: boolean } = {},
+  ): MemoryNode {
+    const { folder, name } = this.split(path);
+    const parent = options.createParents ? this.mkdir(folder, true) : this.requireFolder(folder);
+    checkName(name);
+
+    const existing = parent.children!.get(name);
+    if (existing) {
+      if (existing.isdir || options.overwrite === false) throw new FileStationError(ALREADY_EXISTS);
+      parent.children!.delete(name);
+    }
+    const node = createNode(name, false, options);
+    node.content = content;
+    return this.attach(parent, node);
+  }
+
+  /** Remove a file or folder tree; shared folders cannot be removed. */
+  remove(path: string, recursive = true): void {
+    const { folder, name } = this.split(path);
+    const node = this.require(path);
+    if (node.isdir && !recursive && node.children!.size > 0) throw new FileStationError(NOT_PERMITTED);
+    this.requireFolder(folder).children!.delete(name);
+  }
+
+  /** Rename a file or folder in place and return it. */
+  rename(path: string, newName: string): MemoryNode {
+    const { folder } = this.split(path);
+    checkName(newName);
+    const node = this.require(path);
+    const parent = this.requireFolder(folder);
+    if (newName !== node.name) {
+      if (parent.children!.has(newName)) throw new FileStationError(ALREADY_EXISTS);
+      parent.children!.delete(node.name);
+      node.name = newName;
+      this.attach(parent, node);
+    }
+    return node;
+  }
+
+  /**
+   * Copy or move `path` into the folder `destFolder`. An existing entry of
+   * the same name is replaced with `overwrite` true, kept with `overwrite`
+   * false, and an error otherwise.
+   */
+  transfer(path: string, destFolder: string, options: { readonly move: boolean; readonly overwrite?: boolean }): void {
+    const source = this.require(path);
+    const { name } = this.split(path);
+    const dest = this.requireFolder(destFolder);
+    const destPath = joinPath(destFolder, name);
+    if (destPath === path) return;
+    if (source.isdir && `${destPath}/`.startsWith(`${path}/`)) throw new FileStationError(NOT_PERMITTED);
+
+    const existing = dest.children!.get(name);
+    if (existing) {
+      if (options.overwrite === undefined || existing.isdir !== source.isdir) {
+        throw new FileStationError(ALREADY_EXISTS);
+      }
+      if (!options.overwrite) return;
+      dest.children!.delete(name);
+    }
+
+    if (options.move) this.remove(path);
+    this.attach(dest, options.move ? source : cloneNode(source));
+  }
+
+  /** `path` and every node below it, parents first. */
+  walk(path: string): Array<{ readonly path: string; readonly node: MemoryNode }> {
+    const result: Array<{ path: string; node: MemoryNode }> = [];
+    const visit = (nodePath: string, node: MemoryNode): void => {
+      result.push({ path: nodePath, node });
+      for (const child of node.children?.values() ?? []) visit(joinPath(nodePath, child.name), child);
+    };
+    visit(normalizePath(path), this.require(path));
+    return result;
+  }
+
+  /** Split a path into its parent folder and name; the root and shares have no parent here. */
+  split(path: string): { readonly folder: string; readonly name: string } {
+    const names = splitPath(path);
+    if (names.length < 2) throw new FileStationError(NOT_PERMITTED);
+    return { folder: `/${names.slice(0, -1).join('/')}`, name: names[names.length - 1]! };
+  }
+
+  private attach(parent: MemoryNode, node: MemoryNode): MemoryNode {
+    parent.children!.set(node.name, node);
+    parent.mtime = nowSeconds();
+    return node;
+  }
+}
+
+/** Total size in bytes of a file or folder tree. */
+export function nodeSize(node: MemoryNode): number {
+  if (!node.isdir) return node.content!.length;
+  let size = 0;
+  for (const child of node.children!.values()) size += nodeSize(child);
+  return size;
+}
+
+export function joinPath(folder: string, name: string): string {
+  return folder === '/' ? `/${name}` : `${folder}/${name}`;
+}
+
+/** Validate a path and drop trailing slashes. */
+export function normalizePath(path: string): string {
+  const names = splitPath(path);
+  return `/${names.join('/')}`;
+}
+
+export function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function splitPath(path: string): string[] {
+  if (!path.startsWith('/')) throw new FileStationError(ILLEGAL_PATH);
+  const names = path.split('/').filter((name) => name !== '');
+  if (names.some((name) => name === '.' || name === '..')) throw new FileStationError(ILLEGAL_PATH);
+  return names;
+}
+
+function checkName(name: string): void {
+  if (name === '' || name === '.' || name === '..' || name.includes('/')) {
+    throw new FileStationError(ILLEGAL_NAME);
+  }
+}
+
+function createNode(name: string, isdir: boolean, times: NodeTimes): MemoryNode {
+  const now = nowSeconds();
+  return {
+    name,
+    isdir,
+    children: isdir ? new Map() : null,
+    content: isdir ? null : new Uint8Array(0),
+    mtime: times.mtime ?? now,
+    crtime: times.crtime ?? now,
+    atime: times.atime ?? now,
+    ctime: now,
+  };
+}
+
+function cloneNode(node: MemoryNode): MemoryNode {
+  const copy = createNode(node.name, node.isdir, node);
+  copy.content = node.content && node.content.slice();
+  for (const child of node.children?.values() ?? []) copy.children!.set(child.name, cloneNode(child));
+  return copy;
+}
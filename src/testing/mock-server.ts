@@ -0,0 +1,326 @@
+/**
+ * MockDsmServer - an in-process fake DSM for tests.
+ *
+ * Implements the parts of DSM every client touches: SYNO.API.Info at
+ * query.cgi, HTTPS and encrypted-parameter logins at auth.cgi (with the
+ * DSM 7 Noise IK handshake), sessions, SYNO.Entry.Request, and
+ * entry.cgi dispatch to handlers registered per API and method.
+ */
+import { randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
+import { SynoApiError, LoginError, dispatchApiError } from '../core/errors.ts';
+import { CODE_UNKNOWN } from '../core/error-codes.ts';
+import { quickConnectEzid } from '../core/quickconnect.ts';
+import { decodeSsidCookie, encodeSsidCookie, noiseIkRespond } from '../core/encryption/noise-handshake.ts';
+import type { ApiInfo, ApiListMap } from '../types/api-info.ts';
+import type {
+  MockAccount,
+  MockHandler,
+  MockRequestContext,
+  MockServerConfig,
+  MockSession,
+} from '../types/testing.ts';
+import { entryParams } from './fixtures.ts';
+import { close, jsonResponse, listen, readParams, toFetchRequest, writeResponse } from './http.ts';
+import { createNoiseKeyPair, decryptLoginParams, encryptionInfo } from './login-crypto.ts';
+
+const DEFAULT_ACCOUNTS: Readonly<Record<string, MockAccount>> = { admin: { password: 'admin' } };
+const HANDLER_VERSIONS = { minVersion: 1, maxVersion: 9 } as const;
+
+const BUILT_IN_APIS: ApiListMap = {
+  'SYNO.API.Info': { path: 'query.cgi', minVersion: 1, maxVersion: 1 },
+  'SYNO.API.Auth': { path: 'auth.cgi', minVersion: 1, maxVersion: 7 },
+  'SYNO.API.Encryption': { path: 'encryption.cgi', minVersion: 1, maxVersion: 1 },
+  'SYNO.API.Auth.UIConfig': { path: 'entry.cgi', minVersion: 1, maxVersion: 1 },
+  'SYNO.Entry.Request': { path: 'entry.cgi', minVersion: 1, maxVersion: 2 },
+  'SYNO.Core.Desktop.Timeout': { path: 'entry.cgi', minVersion: 1, maxVersion: 1 },
+};
+
+// APIs callable without a session
+const PUBLIC_APIS = new Set(['SYNO.API.Info', 'SYNO.API.Auth', 'SYNO.API.Encryption', 'SYNO.API.Auth.UIConfig']);
+const RESERVED_PARAMS = new Set(['api', 'method', 'version', '_sid']);
+
+/**
+ * Fake DSM HTTP server.
+ *
+ * ```ts
+ * const server = new MockDsmServer({ accounts: { ci: { password: 'secret' } } })
+ *   .handle('SYNO.Core.System', 'info', () => ({ model: 'DS920+' }));
+ * const client = new SynoClient({ baseUrl: await server.start(), account: 'ci', password: 'secret' });
+ * ```
+ */
+export class MockDsmServer {
+  readonly config: MockServerConfig;
+
+  private readonly server: Server;
+  private readonly handlers = new Map<string, MockHandler>();
+  private readonly apis: ApiListMap;
+  private readonly sessions = new Map<string, MockSession>();
+  // Account each issued trusted-device token belongs to
+  private readonly trustedDevices = new Map<string, string>();
+  private readonly noiseKey = createNoiseKeyPair();
+  private url: string | null = null;
+
+  constructor(config: MockServerConfig = {}) {
+    this.config = config;
+    this.apis = { ...BUILT_IN_APIS, ...config.apis };
+
+    const listener = (req: IncomingMessage, res: ServerResponse): void => {
+      this.dispatch(req, res).catch((error: unknown) => {
+        res.writeHead(500, { 'content-type': 'text/plain' });
+        res.end(error instanceof Error ? error.stack : String(error));
+      });
+    };
+    this.server = config.tls
+      ? createHttpsServer({ key: config.tls.key, cert: config.tls.cert }, listener)
+      : createServer(listener);
+  }
+
+  /** Base URL to pass to SynoClient; throws before `start()`. */
+  get baseUrl(): string {
+    if (this.url === null) throw new Error('MockDsmServer has not been started');
+    return this.url;
+  }
+
+  /**
+   * Start listening and resolve to the base URL.
+   */
+  async start(): Promise<string> {
+    this.url ??= await listen(
+      this.server,
+      this.config.tls ? 'https' : 'http',
+      this.config.host ?? '127.0.0.1',
+      this.config.port ?? 0,
+    );
+    return this.url;
+  }
+
+  /**
+   * Stop the server and drop open connections.
+   */
+  async close(): Promise<void> {
+    if (this.url === null) return;
+    this.url = null;
+    await close(this.server);
+  }
+
+  /**
+   * Register the handler for one API method, replacing any earlier one.
+   * The API is added to SYNO.API.Info unless `apis` already lists it.
+   */
+  handle(api: string, method: string, handler: MockHandler): this {
+    this.handlers.set(`${api}:${method}`, handler);
+    this.apis[api] ??= { path: 'entry.cgi', ...HANDLER_VERSIONS };
+    return this;
+  }
+
+  /**
+   * List an API in SYNO.API.Info, or change how it is listed.
+   */
+  defineApi(api: string, info: ApiInfo): this {
+    this.apis[api] = info;
+    return this;
+  }
+
+  /** Sessions currently logged in. */
+  get activeSessions(): MockSession[] {
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * End every session, so the next call fails with 119 like an expired login.
+   */
+  expireSessions(): void {
+    this.sessions.clear();
+  }
+
+  // ─── Dispatch ──────────────────────────────────────────────────
+
+  private async dispatch(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const request = await toFetchRequest(req, this.baseUrl);
+    if (new URL(request.url).pathname === '/webman/pingpong.cgi') {
+      await writeResponse(res, this.pingPong());
+      return;
+    }
+
+    const params = await readParams(request);
+    const path = new URL(request.url).pathname.replace(/^\/webapi\//, '');
+    // Uploads without query parameters name the API in the path: entry.cgi/SYNO.FileStation.Upload
+    const [cgi = '', pathApi] = path.split('/');
+    const api = stringParam(params, 'api') ?? pathApi;
+
+    let response: Response;
+    try {
+      response = await this.route(cgi, api, params, request);
+    } catch (error) {
+      if (!(error instanceof SynoApiError)) throw error;
+      response = jsonResponse({ success: false, error: { code: error.errorCode } });
+    }
+    await writeResponse(res, response);
+  }
+
+  /** The reachability check QuickConnect clients run before connecting. */
+  private pingPong(): Response {
+    const serverId = this.config.quickConnectServerId;
+    return jsonResponse({
+      boot_done: true,
+      disk_hibernation: false,
+      ezid: serverId === undefined ? undefined : quickConnectEzid(serverId),
+      success: true,
+    });
+  }
+
+  private async route(
+    cgi: string,
+    api: string | undefined,
+    params: Record<string, string | File>,
+    request: Request,
+  ): Promise<Response> {
+    const method = stringParam(params, 'method');
+    const version = Number(stringParam(params, 'version'));
+    if (api === undefined || method === undefined || Number.isNaN(version)) {
+      throw dispatchApiError(101, api ?? '');
+    }
+
+    if (cgi === 'query.cgi' && api === 'SYNO.API.Info') return this.apiInfo(params);
+    if (cgi === 'auth.cgi' && api === 'SYNO.API.Auth') return this.auth(method, version, params, request);
+    if (api === 'SYNO.API.Encryption') return jsonResponse({ success: true, data: await encryptionInfo() });
+    if (api === 'SYNO.API.Auth.UIConfig') {
+      return jsonResponse({ success: true, data: {} }, {
+        headers: { 'set-cookie': `_SSID=${encodeSsidCookie(this.noiseKey.publicKey)}; path=/` },
+      });
+    }
+
+    const session = this.findSession(params, request);
+    if (session === null && !PUBLIC_APIS.has(api)) throw dispatchApiError(119, api);
+
+    const context: MockRequestContext = { api, method, version, params: withoutReserved(params), session, request };
+    if (api === 'SYNO.Entry.Request') return this.compound(context);
+
+    const result = await this.invoke(context);
+    return result instanceof Response ? result : jsonResponse({ success: true, data: result ?? undefined });
+  }
+
+  /** Check the API, method and version, then run the handler. */
+  private async invoke(context: MockRequestContext): Promise<unknown> {
+    const { api, method, version } = context;
+    const info: ApiInfo | undefined = this.apis[api];
+    if (!info) throw dispatchApiError(102, api);
+    if (version < info.minVersion || version > info.maxVersion) throw dispatchApiError(104, api);
+
+    if (api === 'SYNO.Core.Desktop.Timeout' && method === 'check') return undefined;
+
+    const handler = this.handlers.get(`${api}:${method}`) ?? this.config.fallback;
+    if (!handler) throw dispatchApiError(103, api);
+    return handler(context);
+  }
+
+  // ─── Built-in APIs ─────────────────────────────────────────────
+
+  private apiInfo(params: Record<string, string | File>): Response {
+    const query = stringParam(params, 'query') ?? 'all';
+    const data = query === 'all'
+      ? this.apis
+      : Object.fromEntries(query.split(',').flatMap((name) => {
+        const info = this.apis[name];
+        return info ? [[name, info]] : [];
+      }));
+    return jsonResponse({ success: true, data });
+  }
+
+  private async auth(
+    method: string,
+    version: number,
+    params: Record<string, string | File>,
+    request: Request,
+  ): Promise<Response> {
+    if (method === 'logout') {
+      const session = this.findSession(params, request);
+      if (session !== null) this.sessions.delete(session.sid);
+      return jsonResponse({ success: true });
+    }
+    if (method !== 'login') throw dispatchApiError(103, 'SYNO.API.Auth');
+
+    // On HTTP the client sends the credentials RSA + AES encrypted
+    const credentials = { ...params, ...(await decryptLoginParams(params)) };
+
+    const ikMessage = stringParam(params, 'ik_message');
+    if (version >= 7 && ikMessage !== undefined) {
+      try {
+        noiseIkRespond(this.noiseKey.privateKey, decodeSsidCookie(ikMessage));
+      } catch {
+        throw new LoginError(400);
+      }
+    }
+
+    const account = stringParam(credentials, 'account') ?? '';
+    const expected = (this.config.accounts ?? DEFAULT_ACCOUNTS)[account];
+    if (!expected || stringParam(credentials, 'passwd') !== expected.password) throw new LoginError(400);
+    const deviceId = stringParam(credentials, 'device_id');
+    if (expected.otpCode !== undefined && !(deviceId !== undefined && this.trustedDevices.get(deviceId) === account)) {
+      const otpCode = stringParam(credentials, 'otp_code');
+      if (!otpCode) throw new LoginError(403);
+      if (otpCode !== expected.otpCode) throw new LoginError(404);
+    }
+
+    const session: MockSession = {
+      sid: randomBytes(16).toString('base64url'),
+      synoToken: randomBytes(8).toString('base64url'),
+      account,
+    };
+    this.sessions.set(session.sid, session);
+
+    const data: Record<string, string> = { sid: session.sid, synotoken: session.synoToken };
+    if (stringParam(credentials, 'enable_device_token') === 'yes') {
+      data['did'] = randomBytes(16).toString('base64url');
+      this.trustedDevices.set(data['did'], account);
+    }
+    const response = jsonResponse({ success: true, data });
+    response.headers.append('set-cookie', `id=${session.sid}; path=/; HttpOnly`);
+    if (data['did'] !== undefined) {
+      response.headers.append('set-cookie', `did=${data['did']}; path=/; max-age=2592000; HttpOnly`);
+    }
+    return response;
+  }
+
+  private async compound(context: MockRequestContext): Promise<Response> {
+    const entries = JSON.parse(stringParam(context.params, 'compound') ?? '[]') as Array<Record<string, unknown>>;
+    const stopWhenError = stringParam(context.params, 'stop_when_error') !== 'false';
+    const result: unknown[] = [];
+    let hasFail = false;
+
+    for (const raw of entries) {
+      const entry = { api: String(raw['api']), method: String(raw['method']), version: Number(raw['version']) };
+      try {
+        const data = await this.invoke({ ...context, ...entry, params: entryParams(raw) });
+        result.push({ ...entry, success: true, data: data ?? undefined });
+      } catch (error) {
+        hasFail = true;
+        const code = error instanceof SynoApiError ? error.errorCode : CODE_UNKNOWN;
+        result.push({ ...entry, success: false, error: { code } });
+        if (stopWhenError) break;
+      }
+    }
+    return jsonResponse({ success: true, data: { has_fail: hasFail, result } });
+  }
+
+  /** Session from the `_sid` parameter or the `id` cookie. */
+  private findSession(params: Record<string, string | File>, request: Request): MockSession | null {
+    const cookie = /(?:^|;\s*)id=([^;]+)/.exec(request.headers.get('cookie') ?? '')?.[1];
+    const sid = stringParam(params, '_sid') || cookie;
+    return sid ? this.sessions.get(sid) ?? null : null;
+  }
+}
+
+// ─── Utility ─────────────────────────────────────────────────────
+
+function stringParam(params: Readonly<Record<string, string | File>>, key: string): string | undefined {
+  const value = params[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function withoutReserved(params: Record<string, string | File>): Record<string, string | File> {
+  return Object.fromEntries(Object.entries(params).filter(([key]) => !RESERVED_PARAMS.has(key)));
+}
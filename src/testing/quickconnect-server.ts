@@ -0,0 +1,123 @@
+/**
+ * MockQuickConnectServer - a local stand-in for Synology's QuickConnect
+ * directory, for testing QuickConnect IDs without the real service.
+ *
+ * Answers get_server_info with the LAN and DDNS addresses of registered
+ * NASes and request_tunnel with their relay address, at /Serv.php.
+ */
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { MockQuickConnectConfig, MockQuickConnectHost } from '../types/testing.ts';
+import type { QuickConnectServerInfo } from '../types/quickconnect.ts';
+import { close, jsonResponse, listen, toFetchRequest, writeResponse } from './http.ts';
+
+// Answer of Serv.php for an ID it does not know
+const ERRNO_UNKNOWN_ID = 4;
+const SUBERRNO_UNKNOWN_ID = 2;
+// Answer of request_tunnel when the NAS has no relay
+const ERRNO_NO_TUNNEL = 5;
+
+/**
+ * Fake QuickConnect directory.
+ *
+ * ```ts
+ * const nas = new MockDsmServer({ quickConnectServerId: 'my-nas' });
+ * const directory = new MockQuickConnectServer({ hosts: { 'my-nas': { lan: [await nas.start()] } } });
+ * const resolver = new QuickConnectDirectoryResolver({ directoryUrl: await directory.start(), protocol: 'http' });
+ * const client = new SynoClient({ quickConnectId: 'my-nas', quickConnectResolver: resolver, account: 'admin', password: 'admin' });
+ * ```
+ */
+export class MockQuickConnectServer {
+  readonly config: MockQuickConnectConfig;
+
+  private readonly server: Server;
+  private url: string | null = null;
+
+  constructor(config: MockQuickConnectConfig) {
+    this.config = config;
+    this.server = createServer((req: IncomingMessage, res: ServerResponse): void => {
+      this.dispatch(req, res).catch((error: unknown) => {
+        res.writeHead(500, { 'content-type': 'text/plain' });
+        res.end(error instanceof Error ? error.stack : String(error));
+      });
+    });
+  }
+
+  /** Directory URL to pass to QuickConnectDirectoryResolver; throws before `start()`. */
+  get baseUrl(): string {
+    if (this.url === null) throw new Error('MockQuickConnectServer has not been started');
+    return this.url;
+  }
+
+  /**
+   * Start listening and resolve to the directory URL.
+   */
+  async start(): Promise<string> {
+    this.url ??= await listen(this.server, 'http', this.config.host ?? '127.0.0.1', this.config.port ?? 0);
+    return this.url;
+  }
+
+  /**
+   * Stop the server and drop open connections.
+   */
+  async close(): Promise<void> {
+    if (this.url === null) return;
+    this.url = null;
+    await close(this.server);
+  }
+
+  // ─── Dispatch ──────────────────────────────────────────────────
+
+  private async dispatch(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const request = await toFetchRequest(req, this.baseUrl);
+    if (new URL(request.url).pathname !== '/Serv.php' || request.method !== 'POST') {
+      await writeResponse(res, new Response('Not Found', { status: 404 }));
+      return;
+    }
+
+    // Serv.php takes one command or a list of them
+    const body = await request.json() as Record<string, unknown> | Array<Record<string, unknown>>;
+    const answers = (Array.isArray(body) ? body : [body]).map((command) => this.answer(command));
+    await writeResponse(res, jsonResponse(Array.isArray(body) ? answers : answers[0]));
+  }
+
+  private answer(command: Record<string, unknown>): QuickConnectServerInfo {
+    const name = String(command['command']);
+    const id = String(command['serverID']);
+    const host = this.config.hosts[id];
+    if (!host) return { command: name, errno: ERRNO_UNKNOWN_ID, suberrno: SUBERRNO_UNKNOWN_ID };
+
+    if (name === 'request_tunnel') {
+      const relay = host.relay ? new URL(host.relay) : null;
+      return relay
+        ? { command: name, errno: 0, service: { relay_ip: relay.hostname, relay_port: Number(relay.port) } }
+        : { command: name, errno: ERRNO_NO_TUNNEL };
+    }
+    return this.serverInfo(name, id, host);
+  }
+
+  /**
+   * The NAS as the directory describes it. The relay is left out, so
+   * clients have to ask for a tunnel as they do with the real service.
+   */
+  private serverInfo(command: string, id: string, host: MockQuickConnectHost): QuickConnectServerInfo {
+    const lan = (host.lan ?? []).map((url) => new URL(url));
+    const ddns = host.ddns ? new URL(host.ddns) : null;
+    return {
+      command,
+      errno: 0,
+      server: {
+        serverID: host.serverId ?? id,
+        ddns: ddns?.hostname ?? 'NULL',
+        fqdn: 'NULL',
+        external: { ip: '', ipv6: '::' },
+        interface: lan.map((url, index) => ({ ip: url.hostname, name: `eth${index}` })),
+      },
+      service: {
+        port: Number(lan[0]?.port ?? 0),
+        ext_port: Number(ddns?.port ?? 0),
+      },
+      env: { control_host: new URL(this.baseUrl).host, relay_region: 'mock' },
+    };
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * DsmRecorder - a proxy in front of a real NAS that records fixtures.
+ *
+ * Point a client at the recorder instead of the NAS, run the code under
+ * test once, and `close()` writes every API call and its response to the
+ * fixture file, ready for `replayFixture()`. Logins pass through but are
+ * not recorded, since the mock server answers them itself on replay.
+ */
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { ApiListMap, SynoResponse } from '../types/api-info.ts';
+import type { RecordedExchange, RecordedResponse, RecorderConfig } from '../types/testing.ts';
+import { createTlsFetch, resolveTls } from '../core/tls.ts';
+import { entryParams, parseCompound, saveFixture, scrubBody, scrubParams } from './fixtures.ts';
+import { close, listen, readParams, toFetchRequest, writeResponse } from './http.ts';
+
+// Login traffic the mock server implements itself
+const UNRECORDED_APIS = new Set(['SYNO.API.Auth', 'SYNO.API.Encryption', 'SYNO.API.Auth.UIConfig']);
+// Headers that describe the upstream connection rather than the body fetch() hands back
+const HOP_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'keep-alive'];
+
+/**
+ * Recording proxy.
+ *
+ * ```ts
+ * const recorder = new DsmRecorder({ target: 'https://nas:5001', fixturePath: 'fixtures/list.json' });
+ * const client = new SynoClient({ baseUrl: await recorder.start(), account, password });
+ * ```
+ */
+export class DsmRecorder {
+  readonly config: RecorderConfig;
+
+  private readonly server: Server;
+  private readonly target: string;
+  private readonly fetch: (input: string, init?: RequestInit) => Promise<Response>;
+  private readonly exchanges: RecordedExchange[] = [];
+  private apis: ApiListMap = {};
+  private url: string | null = null;
+
+  constructor(config: RecorderConfig) {
+    this.config = config;
+    this.target = config.target.replace(/\/+$/, '');
+    // Same TLS defaults as SynoClient, so self-signed NAS certificates work
+    this.fetch = createTlsFetch(resolveTls(config.certVerify, config.tls)) ?? globalThis.fetch;
+    this.server = createServer((req, res) => {
+      this.forward(req, res).catch((error: unknown) => {
+        res.writeHead(502, { 'content-type': 'text/plain' });
+        res.end(error instanceof Error ? error.stack : String(error));
+      });
+    });
+  }
+
+  /** Base URL to pass to SynoClient; throws before `start()`. */
+  get baseUrl(): string {
+    if (this.url === null) throw new Error('DsmRecorder has not been started');
+    return this.url;
+  }
+
+  /** Exchanges recorded so far. */
+  get recorded(): readonly RecordedExchange[] {
+    return this.exchanges;
+  }
+
+  /**
+   * Start listening and resolve to the base URL.
+   */
+  async start(): Promise<string> {
+    this.url ??= await listen(this.server, 'http', this.config.host ?? '127.0.0.1', this.config.port ?? 0);
+    return this.url;
+  }
+
+  /**
+   * Stop the proxy and write the fixture file.
+   */
+  async close(): Promise<void> {
+    if (this.url === null) return;
+    this.url = null;
+    await close(this.server);
+    await saveFixture(this.config.fixturePath, { apis: this.apis, exchanges: this.exchanges });
+  }
+
+  private async forward(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const request = await toFetchRequest(req, this.baseUrl);
+    const url = new URL(request.url);
+    const headers = new Headers(request.headers);
+    headers.delete('host');
+
+    const upstream = await this.fetch(`${this.target}${url.pathname}${url.search}`, {
+      method: request.method,
+      headers,
+      body: request.body === null ? undefined : await request.clone().arrayBuffer(),
+      redirect: 'manual',
+    });
+
+    const responseHeaders = new Headers(upstream.headers);
+    for (const name of HOP_HEADERS) responseHeaders.delete(name);
+    const body = Buffer.from(await upstream.arrayBuffer());
+
+    if (upstream.ok) await this.record(request, responseHeaders, body);
+    await writeResponse(res, new Response(body, { status: upstream.status, headers: responseHeaders }));
+  }
+
+  private async record(request: Request, headers: Headers, body: Buffer): Promise<void> {
+    const params = await readParams(request);
+    const pathApi = new URL(request.url).pathname.split('/').pop();
+    const api = typeof params['api'] === 'string' ? params['api'] : pathApi;
+    const method = params['method'];
+    if (api === undefined || typeof method !== 'string' || UNRECORDED_APIS.has(api)) return;
+
+    const recorded = toRecordedResponse(headers, body);
+    if (api === 'SYNO.API.Info') {
+      if (recorded.kind === 'json') {
+        const body = recorded.body as SynoResponse<ApiListMap>;
+        if (body.success && body.data) this.apis = { ...this.apis, ...body.data };
+      }
+      return;
+    }
+
+    const version = Number(params['version']);
+    const secrets = this.config.scrubParams;
+
+    // Record compound entries one by one, so replay answers them through
+    // the mock server's own SYNO.Entry.Request handling; anything else
+    // keeps the whole request, whose compound entries scrubParams scrubs
+    const entries = api === 'SYNO.Entry.Request' ? parseCompound(params['compound']) : null;
+    if (entries !== null && recorded.kind === 'json') {
+      const body = recorded.body as SynoResponse<{ result?: SynoResponse[] }>;
+      for (const [i, result] of (body.data?.result ?? []).entries()) {
+        const entry = entries[i]!;
+        this.exchanges.push({
+          api: String(entry['api']),
+          method: String(entry['method']),
+          version: Number(entry['version']),
+          params: scrubParams(entryParams(entry), secrets),
+          response: { kind: 'json', body: { success: result.success, data: result.data, error: result.error } },
+        });
+      }
+      return;
+    }
+
+    this.exchanges.push({ api, method, version, params: scrubParams(params, secrets), response: recorded });
+  }
+}
+
+// ─── Utility ─────────────────────────────────────────────────────
+
+function toRecordedResponse(headers: Headers, body: Buffer): RecordedResponse {
+  const contentType = headers.get('content-type');
+  if (contentType?.includes('json') || contentType?.startsWith('text/')) {
+    try {
+      return { kind: 'json', body: scrubBody(JSON.parse(body.toString('utf-8'))) };
+    } catch {
+      // Not JSON after all, e.g. a downloaded text file; keep the bytes
+    }
+  }
+  return {
+    kind: 'binary',
+    contentType,
+    contentDisposition: headers.get('content-disposition'),
+    body: body.toString('base64'),
+  };
+}
@@ -24,3 +24,47 @@ export interface SynoResponse<T = unknown> {
     readonly errors?: unknown[];
   };
 }
+
+/**
+ * API versions a method was written for.
+ */
+export interface VersionRange {
+  /** Oldest usable version, defaults to the NAS's minVersion */
+  readonly min?: number;
+  /** Newest usable version, defaults to the NAS's maxVersion */
+  readonly max?: number;
+  /** Which end of the usable range to pick, defaults to 'highest' */
+  readonly prefer?: 'highest' | 'lowest';
+}
+
+/**
+ * API endpoint info with the version chosen for a request.
+ */
+export interface ResolvedApi extends ApiInfo {
+  readonly version: number;
+}
+
+/**
+ * Whether one module method can be used on the connected NAS.
+ */
+export interface MethodCapability {
+  readonly method: string;
+  /** API the method calls, null when it could not be determined */
+  readonly apiName: string | null;
+  /** Versions the method accepts */
+  readonly versions: VersionRange | null;
+  /** Version the method would use, null when unsupported or unknown */
+  readonly version: number | null;
+  /** null when the API could not be determined */
+  readonly supported: boolean | null;
+}
+
+/**
+ * Capability report for one module.
+ */
+export interface ModuleCapabilities {
+  readonly module: string;
+  /** Whether at least one method is supported */
+  readonly available: boolean;
+  readonly methods: MethodCapability[];
+}
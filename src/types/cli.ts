@@ -0,0 +1,87 @@
+import type { ClientConfig, TlsConfig } from './client.ts';
+
+/**
+ * A connection profile in the CLI config file. Passwords are never stored
+ * here; they come from the environment or the keychain file.
+ */
+export interface CliProfile {
+  /** Base URL of the NAS, e.g. 'https://192.168.1.100:5001'; needed unless quickConnectId is set */
+  readonly baseUrl?: string;
+  /** QuickConnect ID of the NAS, used when there is no baseUrl */
+  readonly quickConnectId?: string;
+  readonly account: string;
+  /** Environment variable holding the password */
+  readonly passwordEnv?: string;
+  /** DSM version (6 or 7), defaults to 7 */
+  readonly dsmVersion?: 6 | 7;
+  /** Whether to verify SSL certificates, defaults to false */
+  readonly certVerify?: boolean;
+  /** CA, certificate pins or client certificate, as in the client config */
+  readonly tls?: TlsConfig;
+  /** Carry the session in a cookie instead of the URL, defaults to 'query' */
+  readonly sessionTransport?: ClientConfig['sessionTransport'];
+  /** Device name for device binding */
+  readonly deviceName?: string;
+  /** Have DSM trust this machine after a 2FA login, so later logins skip 2FA */
+  readonly trustDevice?: boolean;
+}
+
+/**
+ * Contents of `config.json` in the CLI config directory.
+ */
+export interface CliConfigFile {
+  /** Profile used without --profile or SYNOLOGY_PROFILE, defaults to 'default' */
+  readonly defaultProfile?: string;
+  readonly profiles: Readonly<Record<string, CliProfile>>;
+}
+
+/**
+ * Secrets of one profile in `keychain.json`, which must be readable by
+ * its owner only.
+ */
+export interface CliSecrets {
+  readonly password?: string;
+  /** One-time password for 2FA */
+  readonly otpCode?: string;
+  /** Base32 TOTP secret, to generate 2FA codes */
+  readonly otpSecret?: string;
+}
+
+/**
+ * Contents of `keychain.json`: secrets by profile name.
+ */
+export type CliKeychain = Readonly<Record<string, CliSecrets>>;
+
+/**
+ * How the CLI prints results.
+ */
+export type OutputFormat = 'json' | 'yaml' | 'table';
+
+/**
+ * A command line split into positional arguments and flags.
+ * Flag names are camelCased; repeated flags collect into arrays.
+ */
+export interface ParsedArgs {
+  readonly positionals: string[];
+  readonly flags: Record<string, unknown>;
+}
+
+/**
+ * A parameter of a module method, as declared in its source.
+ */
+export interface ParamDescription {
+  readonly name: string;
+  /** Declared type, e.g. 'string | string[]'; 'unknown' when undeclared */
+  readonly type: string;
+  readonly optional: boolean;
+}
+
+/**
+ * A public module method exposed as a CLI subcommand.
+ */
+export interface MethodDescription {
+  readonly name: string;
+  readonly params: readonly ParamDescription[];
+  /** First line of the doc comment */
+  readonly summary: string;
+}
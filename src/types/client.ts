@@ -1,9 +1,20 @@
+import type { ApiListMap } from './api-info.ts';
+import type { Schema } from '../core/schema.ts';
+import type { QuickConnectResolver } from './quickconnect.ts';
+
 /**
  * Configuration for creating a SynoClient instance.
  */
 export interface ClientConfig {
-  /** Base URL of the Synology NAS, e.g. 'https://192.168.1.100:5001' */
-  readonly baseUrl: string;
+  /** Base URL of the Synology NAS, e.g. 'https://192.168.1.100:5001'; needed unless quickConnectId is set */
+  readonly baseUrl?: string;
+  /**
+   * QuickConnect ID of the NAS, used when there is no baseUrl. connect()
+   * resolves it to the first of its LAN, DDNS and relay addresses that answers.
+   */
+  readonly quickConnectId?: string;
+  /** Looks up quickConnectId, defaults to Synology's QuickConnect directory */
+  readonly quickConnectResolver?: QuickConnectResolver;
   /** Login account name */
   readonly account: string;
   /** Login password */
@@ -12,12 +23,150 @@ export interface ClientConfig {
   readonly dsmVersion?: 6 | 7;
   /** One-time password for 2FA */
   readonly otpCode?: string;
-  /** Device ID for device binding */
+  /** Base32 TOTP secret of the account's 2FA; a code is generated for each login */
+  readonly otpSecret?: string;
+  /**
+   * Called when DSM asks for a 2FA code or rejects the one sent; resolve
+   * with the code to log in with. Called at most once per login.
+   */
+  readonly onOtpRequired?: (context: OtpRequiredContext) => Promise<string>;
+  /**
+   * Ask DSM to trust this device on a 2FA login and send the device token
+   * ('did') it returns on later logins, which then skip 2FA. The token is
+   * kept in the session store when it supports it. Defaults to false.
+   */
+  readonly trustDevice?: boolean;
+  /** Device ID for device binding, e.g. a 'did' from an earlier trusted login */
   readonly deviceId?: string;
-  /** Device name for device binding */
+  /** Device name for device binding, defaults to 'synology-api-js' */
   readonly deviceName?: string;
-  /** Whether to verify SSL certificates, defaults to false */
+  /**
+   * Whether to verify SSL certificates, defaults to false. Either way it
+   * only affects this client's requests. Setting `tls.ca` or
+   * `tls.fingerprint256` turns verification on.
+   */
   readonly certVerify?: boolean;
+  /** CA, certificate pinning and client certificates for HTTPS */
+  readonly tls?: TlsConfig;
+  /**
+   * How requests carry the session: 'query' sends `_sid` as a parameter;
+   * 'cookie' sends the `id` cookie from a cookie jar and POSTs requests to
+   * entry.cgi, so the SID and parameters stay out of URLs and access logs.
+   * The SynoToken goes in the X-SYNO-TOKEN header either way. Defaults to 'query'.
+   */
+  readonly sessionTransport?: 'query' | 'cookie';
+  /** Re-login and replay the request once when the session expires, defaults to true */
+  readonly autoReauthenticate?: boolean;
+  /** Store used to persist the session and resume it on the next connect() */
+  readonly sessionStore?: SessionStore;
+  /**
+   * Check response data against the schema of the called method.
+   * `true` throws SynoSchemaError on a mismatch; 'warn' reports it through
+   * the 'onError' event and returns the response anyway. Defaults to false.
+   */
+  readonly validateResponses?: boolean | 'warn';
+  /** Retry failed read-only requests; disabled unless set */
+  readonly retry?: RetryPolicy | false;
+  /** Limit concurrent requests and request rate; unlimited unless set */
+  readonly scheduler?: SchedulerConfig;
+}
+
+/**
+ * TLS settings of a client, applied to its own requests only.
+ */
+export interface TlsConfig {
+  /** CA certificates (PEM) to trust instead of the system roots, e.g. the NAS's own CA */
+  readonly ca?: string | Buffer | ReadonlyArray<string | Buffer>;
+  /**
+   * SHA-256 fingerprints of the NAS certificate (hex, colons optional).
+   * Only a certificate with one of them is accepted, whoever issued it and
+   * whatever name it is for, which suits self-signed NAS certificates.
+   */
+  readonly fingerprint256?: string | readonly string[];
+  /** Client certificate (PEM), for a reverse proxy that requires one */
+  readonly cert?: string | Buffer;
+  /** Private key (PEM) of the client certificate */
+  readonly key?: string | Buffer;
+  readonly passphrase?: string;
+  /**
+   * Accept any certificate. Defaults to true unless `certVerify`, `ca` or
+   * `fingerprint256` is set.
+   */
+  readonly insecure?: boolean;
+}
+
+/**
+ * Concurrency and rate limits for a group of requests.
+ */
+export interface SchedulerLimits {
+  /** Maximum requests in flight at once */
+  readonly maxInFlight?: number;
+  /** Maximum request starts per second, spaced evenly */
+  readonly requestsPerSecond?: number;
+}
+
+/**
+ * Client-side request scheduling. The top-level limits apply to every API
+ * without an override; each override applies to APIs whose name starts
+ * with its key (the longest matching prefix wins) and is limited separately.
+ */
+export interface SchedulerConfig extends SchedulerLimits {
+  /** Limits per API-name prefix, e.g. `{ 'SYNO.SurveillanceStation': { maxInFlight: 2 } }` */
+  readonly overrides?: Readonly<Record<string, SchedulerLimits>>;
+}
+
+/**
+ * Queue lane of a request; higher lanes start first when requests wait.
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * When and how to retry a failed request.
+ * Only read-only methods (list, get, status, ...) are retried unless
+ * `retryNonIdempotent` is set.
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one, defaults to 3 */
+  readonly maxAttempts?: number;
+  /** Delay before the first retry, doubled on each attempt, defaults to 500 ms */
+  readonly baseDelayMs?: number;
+  /** Upper bound for the delay, defaults to 10000 ms */
+  readonly maxDelayMs?: number;
+  /** Pick a random delay between 0 and the backoff value, defaults to true */
+  readonly jitter?: boolean;
+  /** DSM error codes worth retrying, defaults to none */
+  readonly retryableErrorCodes?: readonly number[];
+  /** HTTP statuses worth retrying, defaults to 408, 429, 500, 502, 503 and 504 */
+  readonly retryableStatuses?: readonly number[];
+  /** Also retry methods that change state, defaults to false */
+  readonly retryNonIdempotent?: boolean;
+}
+
+/**
+ * Session state persisted by a SessionStore.
+ */
+export interface SessionData {
+  readonly sid: string;
+  readonly synoToken: string | null;
+  /** Trusted-device token ('did') returned by DSM, if any */
+  readonly deviceToken: string | null;
+  /** Cached SYNO.API.Info list */
+  readonly apiList: ApiListMap;
+  /** Unix timestamp (ms) of when the session was saved */
+  readonly savedAt: number;
+}
+
+/**
+ * Persistence backend for client sessions.
+ * Keys identify the account and NAS, so one store can hold several sessions.
+ */
+export interface SessionStore {
+  load(key: string): Promise<SessionData | null>;
+  save(key: string, data: SessionData): Promise<void>;
+  clear(key: string): Promise<void>;
+  /** Trusted-device token saved for a key; unlike the session it survives clear() */
+  loadDeviceToken?(key: string): Promise<string | null>;
+  saveDeviceToken?(key: string, token: string): Promise<void>;
 }
 
 /**
@@ -28,8 +177,56 @@ export type ClientEvent =
   | 'disconnect'
   | 'beforeRequest'
   | 'afterResponse'
+  | 'reauthenticate'
+  | 'retry'
+  | 'queue'
+  | 'uploadProgress'
   | 'onError';
 
+/**
+ * Steps of `SynoClient.diagnose()`, in the order they run.
+ */
+export type DiagnosticStepName =
+  | 'quickConnect'
+  | 'tls'
+  | 'reachability'
+  | 'apiInfo'
+  | 'noise'
+  | 'credentialTransport';
+
+/**
+ * Result of one step of `SynoClient.diagnose()`.
+ */
+export interface DiagnosticStep {
+  readonly step: DiagnosticStepName;
+  /** 'skipped' when the step does not apply or an earlier step failed */
+  readonly status: 'ok' | 'failed' | 'skipped';
+  /** What the step found, or why it failed or was skipped */
+  readonly detail: string;
+  readonly durationMs: number;
+  /** The error a failed step threw, if any */
+  readonly error?: unknown;
+}
+
+/**
+ * Report of `SynoClient.diagnose()`.
+ */
+export interface DiagnosticReport {
+  /** Whether no step failed */
+  readonly ok: boolean;
+  readonly baseUrl: string;
+  readonly steps: readonly DiagnosticStep[];
+}
+
+/**
+ * Context passed to `ClientConfig.onOtpRequired`.
+ */
+export interface OtpRequiredContext {
+  readonly account: string;
+  /** 403 when a code is required, 404 when the one sent was rejected */
+  readonly errorCode: number;
+}
+
 /**
  * Context passed to the 'beforeRequest' event handler.
  */
@@ -47,14 +244,124 @@ export interface AfterResponseContext {
   readonly response: unknown;
 }
 
+/**
+ * Context passed to the 'reauthenticate' event handler.
+ */
+export interface ReauthenticateContext {
+  readonly apiName: string;
+  /** Session error code that triggered the re-login (106, 107 or 119) */
+  readonly errorCode: number;
+}
+
+/**
+ * Context passed to the 'retry' event handler before each retry.
+ */
+export interface RetryContext {
+  readonly apiName: string;
+  readonly method: string;
+  /** The attempt that failed, starting at 1 */
+  readonly attempt: number;
+  /** Delay before the next attempt */
+  readonly delayMs: number;
+  readonly error: unknown;
+}
+
+/**
+ * Context passed to the 'queue' event handler when a scheduled request is
+ * queued, starts, finishes, or is aborted while queued.
+ */
+export interface QueueMetricsContext {
+  readonly event: 'enqueue' | 'start' | 'finish' | 'cancel';
+  /** Override prefix the request was scheduled under, or '*' */
+  readonly bucket: string;
+  readonly apiName: string;
+  /** Requests waiting in the bucket after this event */
+  readonly queued: number;
+  /** Requests in flight in the bucket after this event */
+  readonly inFlight: number;
+  /** Time spent queued, for 'start' and 'cancel' events; 0 otherwise */
+  readonly waitMs: number;
+}
+
+/**
+ * Context passed to the 'uploadProgress' event handler and upload callbacks.
+ */
+export interface UploadProgressContext {
+  readonly apiName: string;
+  readonly fileName: string;
+  /** File bytes sent so far (multipart overhead excluded) */
+  readonly loadedBytes: number;
+  /** Total file size, null when the source length is unknown */
+  readonly totalBytes: number | null;
+}
+
+/**
+ * Per-call options accepted as the optional last parameter of module methods.
+ */
+export interface CallOptions {
+  /** Cancels the request when aborted; the call rejects with SynoAbortError */
+  readonly signal?: AbortSignal;
+  /** Timeout for each HTTP attempt in ms, defaults to 30000 (none for streamed uploads) */
+  readonly timeoutMs?: number;
+  /** Retry policy for this call, merged over `ClientConfig.retry`; false disables retries */
+  readonly retry?: RetryPolicy | false;
+  /** Scheduler lane, defaults to 'normal' */
+  readonly priority?: RequestPriority;
+}
+
 /**
  * Options for individual API requests.
  */
-export interface RequestOptions {
+export interface RequestOptions extends CallOptions {
   /** HTTP method, defaults to 'get' */
   readonly method?: 'get' | 'post';
-  /** Whether to return raw Response instead of JSON */
+  /** Whether to return a BinaryResponse instead of parsing JSON */
   readonly rawResponse?: boolean;
+  /** Schema of the response data, checked when `validateResponses` is enabled */
+  readonly schema?: Schema;
+}
+
+/**
+ * Options for `SynoClient.call()`.
+ */
+export interface ApiCallOptions extends Omit<RequestOptions, 'rawResponse'> {
+  /** API version to call, defaults to the newest the NAS offers */
+  readonly version?: number;
+}
+
+/**
+ * Result of a request made with `rawResponse: true` (file downloads,
+ * thumbnails, snapshots, exports).
+ */
+export interface BinaryResponse {
+  /** The underlying fetch Response; use `.arrayBuffer()`, `.blob()`, etc. */
+  readonly response: Response;
+  /** Streaming body, null for empty responses */
+  readonly body: ReadableStream<Uint8Array> | null;
+  readonly contentType: string | null;
+  readonly contentLength: number | null;
+  /** Filename from the Content-Disposition header, if present */
+  readonly filename: string | null;
+}
+
+/**
+ * The file part of a streamed multipart upload.
+ */
+export interface UploadFilePart {
+  /** Multipart field name, e.g. 'file' */
+  readonly fieldName: string;
+  readonly fileName: string;
+  /** Size in bytes, null when unknown */
+  readonly size: number | null;
+  /** Open a fresh stream over the content; called again if the upload is replayed */
+  open(): ReadableStream<Uint8Array>;
+}
+
+/**
+ * Options for streamed upload requests.
+ */
+export interface UploadRequestOptions extends Omit<CallOptions, 'retry'> {
+  readonly onProgress?: (progress: UploadProgressContext) => void;
 }
 
 /**
@@ -70,9 +377,24 @@ export interface CompoundEntry {
 /**
  * Options for batch requests.
  */
-export interface BatchOptions {
+export interface BatchOptions extends CallOptions {
   /** Execution mode: 'sequential' or 'parallel' */
   readonly mode?: 'sequential' | 'parallel';
   /** HTTP method, defaults to 'get' */
   readonly method?: 'get' | 'post';
+  /** Stop running entries after the first failure, defaults to true */
+  readonly stopWhenError?: boolean;
+}
+
+/**
+ * Options for sending a compound request built with `client.compound()`.
+ */
+export interface CompoundOptions extends BatchOptions {
+  /** Most entries sent in one SYNO.Entry.Request, defaults to 20 */
+  readonly maxEntries?: number;
+  /**
+   * Largest JSON-encoded `compound` parameter sent in one request.
+   * Defaults to 4000 for GET, to stay under URL length limits, and no limit for POST.
+   */
+  readonly maxBytes?: number;
 }
@@ -22,3 +22,37 @@ export interface FolderMeta {
   readonly title: string;
   readonly path: string;
 }
+
+/**
+ * Options for iterating a paginated list endpoint.
+ */
+export interface PaginateOptions {
+  /** Offset of the first item, defaults to 0 */
+  readonly offset?: number;
+  /** Items requested per call, at least 1, defaults to 200 */
+  readonly pageSize?: number;
+  /** Stop after this many items */
+  readonly maxItems?: number;
+  /** Aborts the page request in flight and ends iteration with SynoAbortError */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * One page of a paginated list response.
+ */
+export interface Page<T> {
+  readonly items: T[];
+  /** Total item count reported by the API, if any */
+  readonly total?: number;
+}
+
+/**
+ * Parameters of a module method, given its type `F`.
+ */
+export type MethodArgs<F> = F extends (...args: infer P) => unknown ? P : never;
+
+/**
+ * What a module method's promise resolves to. Inferring the parameters
+ * keeps generic methods such as `getFileInfo<A>` from collapsing to never.
+ */
+export type MethodResult<F> = F extends (...args: infer _P) => Promise<infer T> ? T : never;
@@ -0,0 +1,226 @@
+/**
+ * Runtime schemas for the FileStation response models in file-station.ts.
+ * Used when the client is created with `validateResponses`.
+ *
+ * Keep each schema in step with its interface: required fields here are
+ * the non-optional fields there. `additional` fields are all optional
+ * because which ones are present depends on the request.
+ */
+import * as s from '../core/schema.ts';
+
+const taskStatus = {
+  finished: s.boolean,
+  progress: s.optional(s.number),
+};
+
+const owner = s.object({
+  user: s.string,
+  group: s.string,
+  uid: s.number,
+  gid: s.number,
+});
+
+const time = s.object({
+  atime: s.number,
+  mtime: s.number,
+  ctime: s.number,
+  crtime: s.number,
+});
+
+const acl = s.object({
+  append: s.boolean,
+  del: s.boolean,
+  exec: s.boolean,
+  read: s.boolean,
+  write: s.boolean,
+});
+
+const perm = s.object({
+  posix: s.number,
+  is_acl_mode: s.boolean,
+  acl,
+});
+
+const sharePerm = s.object({
+  share_right: s.literal('RW', 'RO'),
+  posix: s.number,
+  adv_right: s.object({
+    disable_download: s.boolean,
+    disable_list: s.boolean,
+    disable_modify: s.boolean,
+  }),
+  acl_enable: s.boolean,
+  is_acl_mode: s.boolean,
+  acl,
+});
+
+const file = s.object({
+  path: s.string,
+  name: s.string,
+  isdir: s.boolean,
+  additional: s.optional(s.object({
+    real_path: s.optional(s.string),
+    size: s.optional(s.number),
+    owner: s.optional(owner),
+    time: s.optional(time),
+    perm: s.optional(perm),
+    mount_point_type: s.optional(s.string),
+    type: s.optional(s.string),
+  })),
+});
+
+const share = s.object({
+  path: s.string,
+  name: s.string,
+  isdir: s.boolean,
+  additional: s.optional(s.object({
+    real_path: s.optional(s.string),
+    size: s.optional(s.number),
+    owner: s.optional(owner),
+    time: s.optional(time),
+    perm: s.optional(sharePerm),
+    mount_point_type: s.optional(s.string),
+    sync_share: s.optional(s.boolean),
+    volume_status: s.optional(s.object({
+      freespace: s.number,
+      totalspace: s.number,
+      readonly: s.boolean,
+    })),
+  })),
+});
+
+const sharingLink = s.object({
+  id: s.string,
+  url: s.string,
+  link_owner: s.string,
+  path: s.string,
+  isFolder: s.boolean,
+  has_password: s.boolean,
+  date_expired: s.string,
+  date_available: s.string,
+  status: s.literal('valid', 'invalid', 'expired', 'broken'),
+  qrcode: s.optional(s.string),
+});
+
+export const taskStartSchema = s.object({
+  taskid: s.string,
+});
+
+export const shareListSchema = s.object({
+  total: s.number,
+  offset: s.number,
+  shares: s.array(share),
+});
+
+export const fileListSchema = s.object({
+  total: s.number,
+  offset: s.number,
+  files: s.array(file),
+});
+
+export const fileInfoSchema = s.object({
+  files: s.array(file),
+});
+
+export const searchListSchema = s.object({
+  ...taskStatus,
+  total: s.number,
+  offset: s.number,
+  files: s.array(file),
+});
+
+export const createFolderSchema = s.object({
+  folders: s.array(file),
+});
+
+export const renameSchema = s.object({
+  files: s.array(file),
+});
+
+export const sharingLinkSchema = sharingLink;
+
+export const sharingLinkListSchema = s.object({
+  total: s.number,
+  offset: s.number,
+  links: s.array(sharingLink),
+});
+
+export const sharingLinkCreateSchema = s.object({
+  links: s.array(s.object({
+    id: s.string,
+    url: s.string,
+    path: s.string,
+    qrcode: s.string,
+    error: s.number,
+  })),
+});
+
+export const copyMoveStatusSchema = s.object({
+  ...taskStatus,
+  processed_size: s.number,
+  total: s.number,
+  path: s.string,
+  dest_folder_path: s.string,
+});
+
+export const deleteStatusSchema = s.object({
+  ...taskStatus,
+  processed_num: s.number,
+  total: s.number,
+  path: s.string,
+  processing_path: s.string,
+});
+
+export const extractStatusSchema = s.object({
+  ...taskStatus,
+  dest_folder_path: s.string,
+});
+
+export const archiveListSchema = s.object({
+  total: s.number,
+  items: s.array(s.object({
+    itemid: s.number,
+    name: s.string,
+    size: s.number,
+    pack_size: s.number,
+    mtime: s.string,
+    path: s.string,
+    is_dir: s.boolean,
+  })),
+});
+
+export const compressStatusSchema = s.object({
+  ...taskStatus,
+  dest_file_path: s.string,
+});
+
+export const dirSizeStatusSchema = s.object({
+  ...taskStatus,
+  num_dir: s.number,
+  num_file: s.number,
+  total_size: s.number,
+});
+
+export const md5StatusSchema = s.object({
+  ...taskStatus,
+  md5: s.optional(s.string),
+});
+
+export const backgroundTaskListSchema = s.object({
+  total: s.number,
+  offset: s.number,
+  tasks: s.array(s.object({
+    api: s.string,
+    version: s.number,
+    method: s.string,
+    taskid: s.string,
+    finished: s.boolean,
+    params: s.object({}),
+    path: s.optional(s.string),
+    processed_num: s.optional(s.number),
+    processed_size: s.optional(s.number),
+    processing_path: s.optional(s.string),
+    total: s.optional(s.number),
+    progress: s.optional(s.number),
+  })),
+});
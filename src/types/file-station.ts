@@ -0,0 +1,423 @@
+/**
+ * Types for the FileStation module.
+ */
+import type { UploadProgressContext } from './client.ts';
+
+/**
+ * Content to upload: a local file path, a Blob/File, or a one-shot stream.
+ * A stream cannot be replayed, so it is not retried after a session re-login.
+ */
+export type UploadSource = string | Blob | ReadableStream<Uint8Array>;
+
+/**
+ * Options for FileStation.uploadFile.
+ */
+export interface UploadFileOptions {
+  /** Create missing parent folders, defaults to true */
+  readonly createParents?: boolean;
+  /** Overwrite an existing file, defaults to true */
+  readonly overwrite?: boolean;
+  /** Last modified time; defaults to the local file's mtime for path sources */
+  readonly mtime?: Date | number;
+  /** Creation time; defaults to the local file's birthtime for path sources */
+  readonly crtime?: Date | number;
+  /** Last access time; defaults to the local file's atime for path sources */
+  readonly atime?: Date | number;
+  /** Size in bytes of a stream source, used for progress reporting */
+  readonly size?: number;
+  /** Cancels the upload when aborted */
+  readonly signal?: AbortSignal;
+  readonly onProgress?: (progress: UploadProgressContext) => void;
+}
+
+/**
+ * Options for FileStation.uploadDirectory.
+ */
+export interface UploadDirectoryOptions {
+  /** Overwrite existing files, defaults to true */
+  readonly overwrite?: boolean;
+  /** Attempts per file after the first failure, defaults to 2 */
+  readonly retries?: number;
+  /** Delay before the first retry in ms, doubled on each attempt up to 10 s, defaults to 1000 */
+  readonly retryDelayMs?: number;
+  /**
+   * Relative paths (POSIX separators) already uploaded by a previous run.
+   * Pass `result.uploaded` from an interrupted run to resume it.
+   */
+  readonly completed?: Iterable<string>;
+  /** Cancels the whole directory upload when aborted */
+  readonly signal?: AbortSignal;
+  readonly onProgress?: (progress: UploadProgressContext & { readonly relativePath: string }) => void;
+  /** Called after each file is uploaded, e.g. to persist a checkpoint */
+  readonly onFileComplete?: (relativePath: string) => void;
+}
+
+/**
+ * Outcome of FileStation.uploadDirectory.
+ */
+export interface UploadDirectoryResult {
+  /** Relative paths uploaded in this run and in previous runs (`completed`) */
+  readonly uploaded: string[];
+  /** Relative paths skipped because they were listed in `completed` */
+  readonly skipped: string[];
+  /** Files that still failed after all retries */
+  readonly failed: Array<{ readonly relativePath: string; readonly error: unknown }>;
+}
+
+/**
+ * Direction of a FileSync run.
+ * - 'push': local is the source of truth, the NAS folder is updated
+ * - 'pull': the NAS folder is the source of truth, the local tree is updated
+ * - 'mirror': two-way; for files present on both sides the newer one wins
+ */
+export type SyncDirection = 'push' | 'pull' | 'mirror';
+
+/**
+ * Options for FileSync.sync.
+ */
+export interface SyncOptions {
+  readonly direction: SyncDirection;
+  /** Only plan the actions, do not transfer or delete anything */
+  readonly dryRun?: boolean;
+  /** Glob patterns (relative, POSIX separators) a file must match to be synced */
+  readonly include?: readonly string[];
+  /** Glob patterns of files to leave alone; checked after `include` */
+  readonly exclude?: readonly string[];
+  /**
+   * Delete files on the destination that do not exist on the source.
+   * Ignored for 'mirror', where a missing file is copied instead.
+   */
+  readonly deleteExtraneous?: boolean;
+  /** Compare MD5 checksums when sizes match instead of trusting mtime */
+  readonly checksum?: boolean;
+  /** Allowed mtime difference in seconds before files are considered changed, defaults to 2 */
+  readonly mtimeToleranceSec?: number;
+  /** Maximum transfers running at once, defaults to 4 */
+  readonly concurrency?: number;
+  /** Cancels pending and running transfers when aborted */
+  readonly signal?: AbortSignal;
+  /** Called before each action is executed (or listed, in dry-run mode) */
+  readonly onAction?: (action: SyncAction) => void;
+}
+
+/**
+ * A single step planned by FileSync.
+ */
+export interface SyncAction {
+  readonly type: 'upload' | 'download' | 'deleteRemote' | 'deleteLocal';
+  /** Path relative to both roots, POSIX separators */
+  readonly relativePath: string;
+  readonly reason: 'missing' | 'changed' | 'newer' | 'extraneous';
+}
+
+/**
+ * Outcome of FileSync.sync.
+ */
+export interface SyncResult {
+  readonly dryRun: boolean;
+  /** Actions planned; in a real run, every action not listed in `failed` succeeded */
+  readonly actions: SyncAction[];
+  /** Files present on both sides with the same mtime but different content */
+  readonly conflicts: string[];
+  readonly failed: Array<{ readonly action: SyncAction; readonly error: unknown }>;
+}
+
+// ─── Response models ────────────────────────────────────────────────
+//
+// Shapes of the `data` field returned by the FileStation APIs, as
+// documented in the FileStation API guide. Field names are kept as DSM
+// sends them (snake_case).
+
+/**
+ * Response data of the start method of every FileStation background task.
+ */
+export interface TaskStartData {
+  readonly taskid: string;
+}
+
+/**
+ * Status data reported by FileStation background task status methods.
+ * Every status carries `finished`; most also report `progress` in [0, 1].
+ */
+export interface TaskStatusData {
+  readonly finished: boolean;
+  readonly progress?: number;
+}
+
+export interface FileOwner {
+  readonly user: string;
+  readonly group: string;
+  readonly uid: number;
+  readonly gid: number;
+}
+
+/** Unix timestamps in seconds. */
+export interface FileTime {
+  readonly atime: number;
+  readonly mtime: number;
+  readonly ctime: number;
+  readonly crtime: number;
+}
+
+export interface FileAcl {
+  readonly append: boolean;
+  readonly del: boolean;
+  readonly exec: boolean;
+  readonly read: boolean;
+  readonly write: boolean;
+}
+
+export interface FilePerm {
+  readonly posix: number;
+  readonly is_acl_mode: boolean;
+  readonly acl: FileAcl;
+}
+
+export interface SharePerm {
+  readonly share_right: 'RW' | 'RO';
+  readonly posix: number;
+  readonly adv_right: {
+    readonly disable_download: boolean;
+    readonly disable_list: boolean;
+    readonly disable_modify: boolean;
+  };
+  readonly acl_enable: boolean;
+  readonly is_acl_mode: boolean;
+  readonly acl: FileAcl;
+}
+
+export interface VolumeStatus {
+  readonly freespace: number;
+  readonly totalspace: number;
+  readonly readonly: boolean;
+}
+
+/**
+ * Fields a file entry can carry in `additional`, keyed by the name passed
+ * in the `additional` request parameter.
+ */
+export interface FileAdditionalFields {
+  readonly real_path: string;
+  readonly size: number;
+  readonly owner: FileOwner;
+  readonly time: FileTime;
+  readonly perm: FilePerm;
+  readonly mount_point_type: string;
+  /** File extension, upper case */
+  readonly type: string;
+}
+
+export type FileAdditional = keyof FileAdditionalFields;
+
+/** `additional` fields requested by the list methods when none are given. */
+export type DefaultFileAdditional = 'real_path' | 'size' | 'owner' | 'time';
+
+/** `additional` fields requested by getFileInfo when none are given. */
+export type DefaultFileInfoAdditional = DefaultFileAdditional | 'perm' | 'type';
+
+/** `additional` fields requested by getSearchList when none are given. */
+export type DefaultSearchAdditional = 'size' | 'owner' | 'time';
+
+/**
+ * Fields a shared folder entry can carry in `additional`.
+ */
+export interface ShareAdditionalFields {
+  readonly real_path: string;
+  readonly size: number;
+  readonly owner: FileOwner;
+  readonly time: FileTime;
+  readonly perm: SharePerm;
+  readonly mount_point_type: string;
+  readonly sync_share: boolean;
+  readonly volume_status: VolumeStatus;
+}
+
+export type ShareAdditional = keyof ShareAdditionalFields;
+
+/**
+ * The `additional` object of an entry: exactly the requested fields, or
+ * absent when nothing was requested.
+ */
+export type WithAdditional<F, A extends keyof F> = [A] extends [never]
+  ? { readonly additional?: Partial<F> }
+  : { readonly additional: Pick<F, A> };
+
+/**
+ * A file or folder entry of SYNO.FileStation.List, Search, CreateFolder
+ * and Rename. `A` is the set of requested `additional` fields.
+ */
+export type FileStationFile<A extends FileAdditional = never> = {
+  readonly path: string;
+  readonly name: string;
+  readonly isdir: boolean;
+} & WithAdditional<FileAdditionalFields, A>;
+
+/**
+ * A shared folder entry of SYNO.FileStation.List `list_share`.
+ */
+export type FileStationShare<A extends ShareAdditional = never> = {
+  readonly path: string;
+  readonly name: string;
+  readonly isdir: boolean;
+} & WithAdditional<ShareAdditionalFields, A>;
+
+/** SYNO.FileStation.List `list_share` */
+export interface ShareListData<A extends ShareAdditional = never> {
+  readonly total: number;
+  readonly offset: number;
+  readonly shares: Array<FileStationShare<A>>;
+}
+
+/** SYNO.FileStation.List `list` */
+export interface FileListData<A extends FileAdditional = never> {
+  readonly total: number;
+  readonly offset: number;
+  readonly files: Array<FileStationFile<A>>;
+}
+
+/** SYNO.FileStation.List `getinfo` */
+export interface FileInfoData<A extends FileAdditional = never> {
+  readonly files: Array<FileStationFile<A>>;
+}
+
+/** SYNO.FileStation.Search `list` */
+export interface SearchListData<A extends FileAdditional = never> extends TaskStatusData {
+  readonly total: number;
+  readonly offset: number;
+  readonly files: Array<FileStationFile<A>>;
+}
+
+/** SYNO.FileStation.CreateFolder `create` */
+export interface CreateFolderData<A extends FileAdditional = never> {
+  readonly folders: Array<FileStationFile<A>>;
+}
+
+/** SYNO.FileStation.Rename `rename` */
+export interface RenameData<A extends FileAdditional = never> {
+  readonly files: Array<FileStationFile<A>>;
+}
+
+/**
+ * A sharing link of SYNO.FileStation.Sharing.
+ */
+export interface SharingLink {
+  readonly id: string;
+  readonly url: string;
+  readonly link_owner: string;
+  readonly path: string;
+  readonly isFolder: boolean;
+  readonly has_password: boolean;
+  /** Expiry date 'YYYY-MM-DD', or '0' for none */
+  readonly date_expired: string;
+  /** Start date 'YYYY-MM-DD', or '0' for none */
+  readonly date_available: string;
+  readonly status: 'valid' | 'invalid' | 'expired' | 'broken';
+  readonly qrcode?: string;
+}
+
+/** SYNO.FileStation.Sharing `list` */
+export interface SharingLinkListData {
+  readonly total: number;
+  readonly offset: number;
+  readonly links: SharingLink[];
+}
+
+/** SYNO.FileStation.Sharing `create` */
+export interface SharingLinkCreateData {
+  readonly links: Array<{
+    readonly id: string;
+    readonly url: string;
+    readonly path: string;
+    readonly qrcode: string;
+    /** Error code for this path, 0 on success */
+    readonly error: number;
+  }>;
+}
+
+/** SYNO.FileStation.CopyMove `status` */
+export interface CopyMoveStatus extends TaskStatusData {
+  /** Bytes processed so far */
+  readonly processed_size: number;
+  /** Total bytes, or -1 while still being counted */
+  readonly total: number;
+  readonly path: string;
+  readonly dest_folder_path: string;
+}
+
+/** SYNO.FileStation.Delete `status` */
+export interface DeleteStatus extends TaskStatusData {
+  /** Files and folders deleted so far */
+  readonly processed_num: number;
+  /** Total files and folders, or -1 while still being counted */
+  readonly total: number;
+  readonly path: string;
+  readonly processing_path: string;
+}
+
+/** SYNO.FileStation.Extract `status` */
+export interface ExtractStatus extends TaskStatusData {
+  readonly dest_folder_path: string;
+}
+
+/** An entry of SYNO.FileStation.Extract `list`. */
+export interface ArchiveItem {
+  readonly itemid: number;
+  readonly name: string;
+  readonly size: number;
+  readonly pack_size: number;
+  /** Modification time 'YYYY-MM-DD HH:MM:SS' */
+  readonly mtime: string;
+  readonly path: string;
+  readonly is_dir: boolean;
+}
+
+/** SYNO.FileStation.Extract `list` */
+export interface ArchiveListData {
+  readonly total: number;
+  readonly items: ArchiveItem[];
+}
+
+/** SYNO.FileStation.Compress `status` */
+export interface CompressStatus extends TaskStatusData {
+  readonly dest_file_path: string;
+}
+
+/** SYNO.FileStation.DirSize `status` */
+export interface DirSizeStatus extends TaskStatusData {
+  readonly num_dir: number;
+  readonly num_file: number;
+  /** Bytes */
+  readonly total_size: number;
+}
+
+/** SYNO.FileStation.MD5 `status` */
+export interface Md5Status extends TaskStatusData {
+  /** Hex digest, present once finished */
+  readonly md5?: string;
+}
+
+/**
+ * A running or finished task of SYNO.FileStation.BackgroundTask `list`.
+ * Progress fields depend on the task's API.
+ */
+export interface BackgroundTaskInfo {
+  readonly api: string;
+  readonly version: number;
+  readonly method: string;
+  readonly taskid: string;
+  readonly finished: boolean;
+  readonly params: Record<string, unknown>;
+  readonly path?: string;
+  readonly processed_num?: number;
+  readonly processed_size?: number;
+  readonly processing_path?: string;
+  readonly total?: number;
+  readonly progress?: number;
+}
+
+/** SYNO.FileStation.BackgroundTask `list` */
+export interface BackgroundTaskListData {
+  readonly total: number;
+  readonly offset: number;
+  readonly tasks: BackgroundTaskInfo[];
+}
@@ -0,0 +1,79 @@
+import type { ClientConfig } from './client.ts';
+
+/**
+ * One NAS in a fleet, reached at its baseUrl or through its QuickConnect
+ * ID. Settings left out, such as the account and password, come from
+ * `FleetConfig.defaults`.
+ */
+export type FleetHostConfig = FleetHostOptions & (
+  | { readonly baseUrl: string }
+  | { readonly quickConnectId: string }
+);
+
+/**
+ * Settings of a fleet host besides its address.
+ */
+export interface FleetHostOptions extends Partial<ClientConfig> {
+  /** Unique name used in results and filters, defaults to baseUrl or else quickConnectId */
+  readonly name?: string;
+  /** Labels for selecting subsets, e.g. ['office', 'backup'] */
+  readonly tags?: readonly string[];
+}
+
+/**
+ * Configuration for creating a SynoFleet.
+ */
+export interface FleetConfig {
+  readonly hosts: readonly FleetHostConfig[];
+  /** Hosts called at once by `run()` and `each()`, defaults to 4 */
+  readonly concurrency?: number;
+  /** Settings shared by every host; each host's own settings win */
+  readonly defaults?: Partial<ClientConfig>;
+}
+
+/**
+ * Health of a host as of its last call.
+ * 'unknown' until the first call; 'unhealthy' after a failed login or
+ * a network, HTTP or decoding error.
+ */
+export type HostHealth = 'unknown' | 'healthy' | 'unhealthy';
+
+/**
+ * Connection and health state of one host.
+ */
+export interface HostStatus {
+  readonly name: string;
+  readonly tags: readonly string[];
+  readonly health: HostHealth;
+  readonly connected: boolean;
+  /** Error of the last failed call, cleared by the next successful one */
+  readonly lastError: unknown;
+  /** Unix timestamp (ms) of the last call, or null */
+  readonly lastCheckedAt: number | null;
+  /** Failed calls since the last successful one */
+  readonly consecutiveFailures: number;
+}
+
+/**
+ * Which hosts a fleet call goes to and how.
+ */
+export interface FleetSelectOptions {
+  /** Only hosts carrying at least one of these tags */
+  readonly tags?: readonly string[];
+  /** Only hosts with these names */
+  readonly hosts?: readonly string[];
+  /** Overrides the fleet's concurrency for this call */
+  readonly concurrency?: number;
+  /** Skip hosts marked unhealthy instead of calling them, defaults to false */
+  readonly skipUnhealthy?: boolean;
+  /** Stops starting new hosts; calls in flight are aborted by their own signal */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Outcome of a fleet call on one host, shaped like `Promise.allSettled()`.
+ */
+export type HostResult<T> =
+  | { readonly host: string; readonly status: 'fulfilled'; readonly value: T; readonly durationMs: number }
+  | { readonly host: string; readonly status: 'rejected'; readonly reason: unknown; readonly durationMs: number }
+  | { readonly host: string; readonly status: 'skipped'; readonly reason: 'unhealthy' | 'aborted' };
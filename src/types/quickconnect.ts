@@ -0,0 +1,89 @@
+/**
+ * How a QuickConnect endpoint reaches the NAS: a LAN address, its DDNS
+ * name or external address, or a Synology relay.
+ */
+export type QuickConnectEndpointKind = 'lan' | 'ddns' | 'relay';
+
+/**
+ * The address a QuickConnect ID resolved to.
+ */
+export interface QuickConnectEndpoint {
+  readonly id: string;
+  readonly kind: QuickConnectEndpointKind;
+  /** Base URL to connect to, e.g. 'https://192.168.1.10:5001' */
+  readonly url: string;
+}
+
+/**
+ * An address that was tried and did not answer as the NAS.
+ */
+export interface QuickConnectAttempt {
+  readonly kind: QuickConnectEndpointKind;
+  readonly url: string;
+  /** Why the probe failed, e.g. 'fetch failed (connect ECONNREFUSED 10.0.0.2:5001)' */
+  readonly error: string;
+}
+
+/**
+ * What a resolver gets from the client.
+ */
+export interface QuickConnectResolveContext {
+  /** The client's fetch, with its TLS settings, for probing the NAS */
+  readonly fetch: (input: Request | URL | string, init?: RequestInit) => Promise<Response>;
+}
+
+/**
+ * Turns a QuickConnect ID into a reachable base URL. Implement it to look
+ * IDs up elsewhere, e.g. in a static map for tests.
+ */
+export interface QuickConnectResolver {
+  resolve(id: string, context: QuickConnectResolveContext): Promise<QuickConnectEndpoint>;
+}
+
+/**
+ * Configuration for creating a QuickConnectDirectoryResolver.
+ */
+export interface QuickConnectResolverConfig {
+  /** Directory asked first, defaults to 'https://global.quickconnect.to' */
+  readonly directoryUrl?: string;
+  /** Protocol of the DSM web service to connect to, defaults to 'https' */
+  readonly protocol?: 'http' | 'https';
+  /** Kinds of endpoint to try, in order; defaults to ['lan', 'ddns', 'relay'] */
+  readonly order?: readonly QuickConnectEndpointKind[];
+  /** Timeout of each directory request and probe, defaults to 5000 */
+  readonly timeoutMs?: number;
+}
+
+/**
+ * One answer of the QuickConnect directory (Serv.php), as far as the
+ * resolver reads it. Unset names are the string 'NULL'.
+ */
+export interface QuickConnectServerInfo {
+  readonly command: string;
+  /** 0 on success */
+  readonly errno: number;
+  readonly suberrno?: number;
+  /** Directory hosts to ask instead, when this one does not serve the ID's region */
+  readonly sites?: readonly string[];
+  readonly server?: {
+    readonly serverID: string;
+    readonly ddns?: string;
+    readonly fqdn?: string;
+    readonly external?: { readonly ip?: string; readonly ipv6?: string };
+    readonly interface?: ReadonlyArray<{ readonly ip?: string; readonly name?: string }>;
+  };
+  readonly service?: {
+    /** DSM port on the LAN */
+    readonly port?: number;
+    /** DSM port forwarded on the router, 0 when none */
+    readonly ext_port?: number;
+    readonly relay_ip?: string;
+    readonly relay_dn?: string;
+    readonly relay_port?: number;
+  };
+  readonly env?: {
+    /** Directory host that sets up relay tunnels for this NAS */
+    readonly control_host?: string;
+    readonly relay_region?: string;
+  };
+}
@@ -0,0 +1,170 @@
+import type { ApiListMap } from './api-info.ts';
+import type { FileOwner } from './file-station.ts';
+import type { TlsConfig } from './client.ts';
+
+/**
+ * A login the mock server accepts.
+ */
+export interface MockAccount {
+  readonly password: string;
+  /**
+   * Require this one-time password, answering 403 without one and 404 for
+   * a wrong one. Logins with a device token ('did') the server issued skip it.
+   */
+  readonly otpCode?: string;
+}
+
+/**
+ * Configuration for creating a MockDsmServer.
+ */
+export interface MockServerConfig {
+  /** Accepted logins by account name, defaults to `{ admin: { password: 'admin' } }` */
+  readonly accounts?: Readonly<Record<string, MockAccount>>;
+  /**
+   * SYNO.API.Info entries added to the built-in ones. APIs with a handler
+   * but no entry here are listed at entry.cgi with versions 1 to 9.
+   */
+  readonly apis?: ApiListMap;
+  /** Serve HTTPS with this PEM key and certificate instead of HTTP */
+  readonly tls?: { readonly key: string | Buffer; readonly cert: string | Buffer };
+  /** Answers requests no handler is registered for, e.g. `replayFixture()` */
+  readonly fallback?: MockHandler;
+  /** Server ID whose hash /webman/pingpong.cgi reports as `ezid`, as QuickConnect probes expect */
+  readonly quickConnectServerId?: string;
+  /** Interface to listen on, defaults to '127.0.0.1' */
+  readonly host?: string;
+  /** Port to listen on, defaults to a free port */
+  readonly port?: number;
+}
+
+/**
+ * A session created by a successful login.
+ */
+export interface MockSession {
+  readonly sid: string;
+  readonly synoToken: string;
+  readonly account: string;
+}
+
+/**
+ * What a handler receives for one API call.
+ */
+export interface MockRequestContext {
+  readonly api: string;
+  readonly method: string;
+  readonly version: number;
+  /** Query and body parameters except api, method, version and _sid; uploads are File objects */
+  readonly params: Readonly<Record<string, string | File>>;
+  /** The caller's session, or null for APIs that need none */
+  readonly session: MockSession | null;
+  /** The HTTP request; for compound entries, the SYNO.Entry.Request it came in */
+  readonly request: Request;
+}
+
+/**
+ * Answers one API method.
+ *
+ * The return value becomes the `data` of a successful response; a returned
+ * `Response` is sent as is, e.g. for downloads. A thrown SynoApiError is
+ * answered with its `errorCode`, e.g. `throw new FileStationError(408)`.
+ */
+export type MockHandler = (context: MockRequestContext) => unknown;
+
+/**
+ * A recorded response.
+ */
+export type RecordedResponse =
+  | { readonly kind: 'json'; readonly body: unknown }
+  | {
+    readonly kind: 'binary';
+    readonly contentType: string | null;
+    readonly contentDisposition: string | null;
+    /** Base64-encoded body */
+    readonly body: string;
+  };
+
+/**
+ * One request/response pair captured by DsmRecorder.
+ */
+export interface RecordedExchange {
+  readonly api: string;
+  readonly method: string;
+  readonly version: number;
+  /** Parameters except api, method, version and _sid, with secrets scrubbed */
+  readonly params: Readonly<Record<string, string>>;
+  readonly response: RecordedResponse;
+}
+
+/**
+ * Contents of a fixture file.
+ */
+export interface DsmFixture {
+  /** The SYNO.API.Info list of the recorded NAS */
+  readonly apis: ApiListMap;
+  readonly exchanges: readonly RecordedExchange[];
+}
+
+/**
+ * Configuration for creating a DsmRecorder.
+ */
+export interface RecorderConfig {
+  /** Base URL of the real NAS, e.g. 'https://192.168.1.100:5001' */
+  readonly target: string;
+  /** JSON file the fixture is written to on `close()` */
+  readonly fixturePath: string;
+  /** Parameter names scrubbed in addition to passwords, OTP codes and session ids */
+  readonly scrubParams?: readonly string[];
+  /** Whether to verify the NAS certificate, defaults to false as for SynoClient */
+  readonly certVerify?: boolean;
+  /** CA, certificate pinning and client certificates for an HTTPS target */
+  readonly tls?: TlsConfig;
+  /** Interface to listen on, defaults to '127.0.0.1' */
+  readonly host?: string;
+  /** Port to listen on, defaults to a free port */
+  readonly port?: number;
+}
+
+/**
+ * Configuration for creating a FileStationEmulator.
+ */
+export interface FileStationEmulatorConfig {
+  /** Shared folders to create, defaults to ['home', 'public'] */
+  readonly shares?: readonly string[];
+  /**
+   * How long background tasks (copy, move, delete, search, dir size, MD5)
+   * run before they finish, defaults to 300. With 0 they finish on their
+   * first status call.
+   */
+  readonly taskDurationMs?: number;
+  /** Owner reported for every file, defaults to admin:users (1024:100) */
+  readonly owner?: FileOwner;
+  /** Volume size in bytes reported for shared folders, defaults to 1 TiB */
+  readonly volumeSize?: number;
+}
+
+/**
+ * Where a NAS registered with MockQuickConnectServer can be reached.
+ * Addresses are base URLs, e.g. from `MockDsmServer.start()`.
+ */
+export interface MockQuickConnectHost {
+  /** Server ID the directory reports, defaults to the QuickConnect ID */
+  readonly serverId?: string;
+  /** LAN addresses; DSM reports one port for all of them, taken from the first */
+  readonly lan?: readonly string[];
+  /** Address through the DDNS name, or the external address */
+  readonly ddns?: string;
+  /** Relay address, handed out by request_tunnel */
+  readonly relay?: string;
+}
+
+/**
+ * Configuration for creating a MockQuickConnectServer.
+ */
+export interface MockQuickConnectConfig {
+  /** NASes by QuickConnect ID; other IDs are answered as unknown */
+  readonly hosts: Readonly<Record<string, MockQuickConnectHost>>;
+  /** Interface to listen on, defaults to '127.0.0.1' */
+  readonly host?: string;
+  /** Port to listen on, defaults to a free port */
+  readonly port?: number;
+}